@@ -0,0 +1,97 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { FlowchartPreview } from './FlowchartPreview';
+import { DiagramTheme } from '@/lib/mermaid/themes';
+import { DiagramCandidate } from '@/hooks/useFlowchartGenerator';
+import { getDiagramStats, parseDiagram } from '@/lib/diagram/diagram';
+import { AlertTriangle, CheckCircle, LayoutGrid, X } from 'lucide-react';
+
+interface CandidateGridProps {
+  candidates: DiagramCandidate[];
+  onPromote: (candidate: DiagramCandidate) => void;
+  onDismiss: () => void;
+  /** Diagram theme for the candidate previews */
+  theme?: DiagramTheme;
+}
+
+export const CandidateGrid: React.FC<CandidateGridProps> = ({
+  candidates,
+  onPromote,
+  onDismiss,
+  theme
+}) => {
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="shadow-lg border-0 bg-card/80 backdrop-blur-sm">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <LayoutGrid className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+            Compare Candidates
+          </CardTitle>
+          <Button onClick={onDismiss} variant="ghost" size="sm" className="gap-2">
+            <X className="w-4 h-4" />
+            Dismiss
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+          {candidates.map((candidate) => {
+            const stats = candidate.mermaidCode ? getDiagramStats(parseDiagram(candidate.mermaidCode)) : null;
+
+            return (
+              <div key={candidate.id} className="flex flex-col rounded-lg border bg-card">
+                <div className="flex items-center justify-between border-b p-3">
+                  <span className="text-sm font-medium">{candidate.label}</span>
+                  {candidate.error ? (
+                    <Badge variant="destructive" className="gap-1">
+                      <AlertTriangle className="w-3 h-3" />
+                      Invalid
+                    </Badge>
+                  ) : (
+                    <Badge variant="default" className="gap-1 bg-green-500">
+                      <CheckCircle className="w-3 h-3" />
+                      Valid
+                    </Badge>
+                  )}
+                </div>
+
+                <div className="h-56 overflow-hidden p-2">
+                  {candidate.mermaidCode ? (
+                    <FlowchartPreview mermaidCode={candidate.mermaidCode} theme={theme} />
+                  ) : (
+                    <div className="flex h-full items-center justify-center rounded-lg bg-red-50 p-4 text-center text-xs text-red-600 dark:bg-red-950/40 dark:text-red-400">
+                      {candidate.error}
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex items-center justify-between gap-2 border-t p-3">
+                  <div className="text-xs text-muted-foreground">
+                    {stats
+                      ? `${stats.nodes} ${stats.nodeLabel.toLowerCase()} · ${stats.connections} ${stats.connectionLabel.toLowerCase()}`
+                      : candidate.diagramType}
+                  </div>
+                  <Button
+                    onClick={() => onPromote(candidate)}
+                    disabled={!candidate.mermaidCode}
+                    size="sm"
+                    variant="outline"
+                  >
+                    Use this
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
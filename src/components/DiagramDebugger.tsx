@@ -5,33 +5,59 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { AlertTriangle, CheckCircle, Copy, Eye, EyeOff } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import mermaid from 'mermaid';
+import { GenerationAttempt } from '@/hooks/useFlowchartGenerator';
+import { detectDiagramType } from '@/lib/mermaid/diagramTypes';
+import { getDiagramStats, parseDiagram } from '@/lib/diagram/diagram';
+import { ImportStat } from '@/lib/importers/types';
+import { MermaidRenderError } from '@/lib/mermaid/render';
+import { getMermaidSyntaxError } from '@/lib/mermaid/validate';
 
 interface DiagramDebuggerProps {
   mermaidCode: string;
   originalPrompt: string;
   detectedDiagramType: string;
+  generationAttempts?: GenerationAttempt[];
+  importWarnings?: string[];
+  importStats?: ImportStat[];
+  /** Failure reported by the preview's render, for diagrams that parse but cannot be drawn */
+  renderError?: MermaidRenderError | null;
   isVisible: boolean;
   onToggle: () => void;
+  /** Called when a finding about a specific line of the code is clicked */
+  onLineSelect?: (line: number) => void;
 }
 
+interface ValidationFinding {
+  message: string;
+  /** Line of the Mermaid code the finding is about */
+  line?: number;
+}
+
+// Stable default so the validation effect does not re-run on every render
+const NO_IMPORT_WARNINGS: string[] = [];
+
 export const DiagramDebugger: React.FC<DiagramDebuggerProps> = ({
   mermaidCode,
   originalPrompt,
   detectedDiagramType,
+  generationAttempts = [],
+  importWarnings = NO_IMPORT_WARNINGS,
+  importStats = [],
+  renderError = null,
   isVisible,
-  onToggle
+  onToggle,
+  onLineSelect
 }) => {
   const [validationResult, setValidationResult] = useState<{
     isValid: boolean;
-    errors: string[];
-    warnings: string[];
+    errors: ValidationFinding[];
+    warnings: ValidationFinding[];
   }>({ isValid: true, errors: [], warnings: [] });
   const { toast } = useToast();
 
   useEffect(() => {
     validateMermaidSyntax();
-  }, [mermaidCode]);
+  }, [mermaidCode, importWarnings, renderError]);
 
   const validateMermaidSyntax = async () => {
     if (!mermaidCode.trim()) {
@@ -40,32 +66,15 @@ export const DiagramDebugger: React.FC<DiagramDebuggerProps> = ({
     }
 
     try {
-      // Create a temporary element to test parsing
-      const tempDiv = document.createElement('div');
-      tempDiv.style.visibility = 'hidden';
-      tempDiv.style.position = 'absolute';
-      tempDiv.innerHTML = `<div class="mermaid">${mermaidCode}</div>`;
-      document.body.appendChild(tempDiv);
-
-      const errors: string[] = [];
-      const warnings: string[] = [];
+      const errors: ValidationFinding[] = [];
+      const warnings: ValidationFinding[] = importWarnings.map((warning) => ({ message: `Import: ${warning}` }));
 
       // Basic syntax checks
       const lines = mermaidCode.split('\n');
-      const firstLine = lines[0]?.trim().toLowerCase();
       
       // Check if diagram type is declared
-      const validDiagramTypes = [
-        'flowchart', 'graph', 'sequencediagram', 'classdiagram', 
-        'erdiagram', 'statediagram', 'journey', 'gantt', 'pie'
-      ];
-      
-      const hasDiagramType = validDiagramTypes.some(type => 
-        firstLine.includes(type.toLowerCase())
-      );
-      
-      if (!hasDiagramType) {
-        warnings.push('No diagram type declaration found in first line');
+      if (!detectDiagramType(mermaidCode)) {
+        warnings.push({ message: 'No diagram type declaration found before the first statement' });
       }
 
       // Check for common syntax issues
@@ -77,7 +86,7 @@ export const DiagramDebugger: React.FC<DiagramDebuggerProps> = ({
         const openBrackets = (trimmedLine.match(/[\[\{]/g) || []).length;
         const closeBrackets = (trimmedLine.match(/[\]\}]/g) || []).length;
         if (openBrackets !== closeBrackets) {
-          warnings.push(`Line ${index + 1}: Unmatched brackets - ${trimmedLine}`);
+          warnings.push({ message: `Line ${index + 1}: Unmatched brackets - ${trimmedLine}`, line: index + 1 });
         }
 
         // Check for invalid characters in node IDs
@@ -86,39 +95,53 @@ export const DiagramDebugger: React.FC<DiagramDebuggerProps> = ({
           parts.forEach(part => {
             const nodeId = part.trim().split(/[\[\(\{]/)[0];
             if (nodeId && /[^a-zA-Z0-9_-]/.test(nodeId)) {
-              warnings.push(`Line ${index + 1}: Node ID contains invalid characters - ${nodeId}`);
+              warnings.push({ message: `Line ${index + 1}: Node ID contains invalid characters - ${nodeId}`, line: index + 1 });
             }
           });
         }
       });
 
-      // Try to parse with Mermaid
-      try {
-        await mermaid.parse(mermaidCode);
-        setValidationResult({ 
-          isValid: true, 
-          errors, 
-          warnings 
-        });
-      } catch (parseError) {
-        errors.push(`Mermaid parse error: ${parseError}`);
-        setValidationResult({ 
-          isValid: false, 
-          errors, 
-          warnings 
+      // Try to parse with Mermaid, then check the preview could actually draw it
+      const parseError = await getMermaidSyntaxError(mermaidCode);
+      if (parseError) {
+        errors.push({ message: `Mermaid parse error: ${parseError.message}`, line: parseError.line });
+      } else if (renderError) {
+        errors.push({
+          message: `Render error${renderError.line ? ` on line ${renderError.line}` : ''}: ${renderError.message}`,
+          line: renderError.line
         });
       }
-
-      document.body.removeChild(tempDiv);
+      setValidationResult({ 
+        isValid: errors.length === 0, 
+        errors, 
+        warnings 
+      });
     } catch (error) {
       setValidationResult({
         isValid: false,
-        errors: [`Validation error: ${error}`],
+        errors: [{ message: `Validation error: ${error}` }],
         warnings: []
       });
     }
   };
 
+  const renderFinding = (finding: ValidationFinding, index: number, className: string) =>
+    finding.line && onLineSelect ? (
+      <button
+        key={index}
+        type="button"
+        onClick={() => onLineSelect(finding.line)}
+        className={`${className} block w-full text-left hover:underline`}
+        title={`Go to line ${finding.line}`}
+      >
+        {finding.message}
+      </button>
+    ) : (
+      <div key={index} className={className}>
+        {finding.message}
+      </div>
+    );
+
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
     toast({
@@ -129,10 +152,9 @@ export const DiagramDebugger: React.FC<DiagramDebuggerProps> = ({
 
   const getCodeStats = () => {
     const lines = mermaidCode.split('\n').filter(line => line.trim());
-    const nodes = (mermaidCode.match(/\w+\[/g) || []).length;
-    const connections = (mermaidCode.match(/-->|---/g) || []).length;
+    const diagramStats = getDiagramStats(parseDiagram(mermaidCode));
     
-    return { lines: lines.length, nodes, connections };
+    return { lines: lines.length, diagramStats };
   };
 
   if (!isVisible) {
@@ -178,9 +200,10 @@ export const DiagramDebugger: React.FC<DiagramDebuggerProps> = ({
         </CardHeader>
         <CardContent className="p-2">
           <Tabs defaultValue="validation" className="w-full">
-            <TabsList className="grid w-full grid-cols-3 text-xs">
+            <TabsList className="grid w-full grid-cols-4 text-xs">
               <TabsTrigger value="validation">Validation</TabsTrigger>
               <TabsTrigger value="code">Code</TabsTrigger>
+              <TabsTrigger value="attempts">Attempts</TabsTrigger>
               <TabsTrigger value="stats">Stats</TabsTrigger>
             </TabsList>
             
@@ -188,28 +211,24 @@ export const DiagramDebugger: React.FC<DiagramDebuggerProps> = ({
               <div className="space-y-2">
                 {validationResult.errors.length > 0 && (
                   <div>
-                    <h4 className="text-xs font-medium text-red-600 mb-1">Errors:</h4>
-                    {validationResult.errors.map((error, index) => (
-                      <div key={index} className="text-xs bg-red-50 p-2 rounded border-l-2 border-red-200">
-                        {error}
-                      </div>
-                    ))}
+                    <h4 className="text-xs font-medium text-red-600 dark:text-red-400 mb-1">Errors:</h4>
+                    {validationResult.errors.map((error, index) =>
+                      renderFinding(error, index, 'text-xs bg-red-50 p-2 rounded border-l-2 border-red-200 dark:bg-red-950/40 dark:border-red-900')
+                    )}
                   </div>
                 )}
                 
                 {validationResult.warnings.length > 0 && (
                   <div>
-                    <h4 className="text-xs font-medium text-yellow-600 mb-1">Warnings:</h4>
-                    {validationResult.warnings.map((warning, index) => (
-                      <div key={index} className="text-xs bg-yellow-50 p-2 rounded border-l-2 border-yellow-200">
-                        {warning}
-                      </div>
-                    ))}
+                    <h4 className="text-xs font-medium text-yellow-600 dark:text-yellow-400 mb-1">Warnings:</h4>
+                    {validationResult.warnings.map((warning, index) =>
+                      renderFinding(warning, index, 'text-xs bg-yellow-50 p-2 rounded border-l-2 border-yellow-200 dark:bg-yellow-950/40 dark:border-yellow-900')
+                    )}
                   </div>
                 )}
                 
                 {validationResult.errors.length === 0 && validationResult.warnings.length === 0 && (
-                  <div className="text-xs text-green-600 bg-green-50 p-2 rounded">
+                  <div className="text-xs text-green-600 bg-green-50 p-2 rounded dark:text-green-400 dark:bg-green-950/40">
                     No issues detected
                   </div>
                 )}
@@ -229,37 +248,77 @@ export const DiagramDebugger: React.FC<DiagramDebuggerProps> = ({
                     <Copy className="w-3 h-3" />
                   </Button>
                 </div>
-                <pre className="text-xs bg-gray-50 p-2 rounded max-h-32 overflow-auto border">
+                <pre className="text-xs bg-muted/50 p-2 rounded max-h-32 overflow-auto border">
                   {mermaidCode || 'No code generated yet'}
                 </pre>
                 
                 <div className="space-y-1">
                   <span className="text-xs font-medium">Original Prompt:</span>
-                  <div className="text-xs bg-blue-50 p-2 rounded max-h-16 overflow-auto">
+                  <div className="text-xs bg-blue-50 dark:bg-blue-950/40 p-2 rounded max-h-16 overflow-auto">
                     {originalPrompt || 'No prompt provided'}
                   </div>
                 </div>
               </div>
             </TabsContent>
             
-            <TabsContent value="stats" className="mt-2">
+            <TabsContent value="attempts" className="mt-2 max-h-48 overflow-y-auto">
+              <div className="space-y-2">
+                {generationAttempts.length === 0 ? (
+                  <div className="text-xs text-muted-foreground bg-muted/50 p-2 rounded">
+                    No generation attempts recorded yet
+                  </div>
+                ) : (
+                  generationAttempts.map((attempt) => (
+                    <div key={attempt.attempt} className="text-xs bg-muted/50 p-2 rounded border space-y-1">
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium">
+                          #{attempt.attempt} {attempt.kind === 'initial' ? 'Initial response' : 'Repair'}
+                        </span>
+                        {attempt.error ? (
+                          <Badge variant="destructive" className="text-[10px]">Parse failed</Badge>
+                        ) : (
+                          <Badge variant="default" className="bg-green-500 text-[10px]">Valid</Badge>
+                        )}
+                      </div>
+                      {attempt.error && (
+                        <pre className="whitespace-pre-wrap text-red-600 dark:text-red-400">{attempt.error}</pre>
+                      )}
+                      <details>
+                        <summary className="cursor-pointer text-muted-foreground">Code</summary>
+                        <pre className="mt-1 max-h-24 overflow-auto bg-background p-1 rounded border">
+                          {attempt.mermaidCode}
+                        </pre>
+                      </details>
+                    </div>
+                  ))
+                )}
+              </div>
+            </TabsContent>
+            
+            <TabsContent value="stats" className="mt-2 max-h-48 overflow-y-auto">
               <div className="grid grid-cols-2 gap-2 text-xs">
-                <div className="bg-gray-50 p-2 rounded">
+                <div className="bg-muted/50 p-2 rounded">
                   <div className="font-medium">Lines</div>
                   <div className="text-lg">{stats.lines}</div>
                 </div>
-                <div className="bg-gray-50 p-2 rounded">
-                  <div className="font-medium">Nodes</div>
-                  <div className="text-lg">{stats.nodes}</div>
+                <div className="bg-muted/50 p-2 rounded">
+                  <div className="font-medium">{stats.diagramStats?.nodeLabel ?? 'Nodes'}</div>
+                  <div className="text-lg">{stats.diagramStats?.nodes ?? '–'}</div>
                 </div>
-                <div className="bg-gray-50 p-2 rounded">
-                  <div className="font-medium">Connections</div>
-                  <div className="text-lg">{stats.connections}</div>
+                <div className="bg-muted/50 p-2 rounded">
+                  <div className="font-medium">{stats.diagramStats?.connectionLabel ?? 'Connections'}</div>
+                  <div className="text-lg">{stats.diagramStats?.connections ?? '–'}</div>
                 </div>
-                <div className="bg-gray-50 p-2 rounded">
+                <div className="bg-muted/50 p-2 rounded">
                   <div className="font-medium">Type</div>
                   <div className="text-xs">{detectedDiagramType}</div>
                 </div>
+                {importStats.map((stat) => (
+                  <div key={stat.label} className="bg-blue-50 dark:bg-blue-950/40 p-2 rounded">
+                    <div className="font-medium">{stat.label}</div>
+                    <div className="text-lg">{stat.value}</div>
+                  </div>
+                ))}
               </div>
             </TabsContent>
           </Tabs>
@@ -0,0 +1,132 @@
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { ContentSize, usePanZoom } from '@/hooks/usePanZoom';
+import { Maximize, MoveHorizontal, ZoomIn, ZoomOut } from 'lucide-react';
+
+interface DiagramViewportProps {
+  /** SVG markup from mermaid.render */
+  svg: string;
+  /** Called with the element holding the SVG each time new markup is mounted */
+  onContentMount?: (element: HTMLElement) => void;
+  /** Color behind the diagram, repeated in the minimap; white when not given */
+  background?: string;
+}
+
+const MIN_HEIGHT = 256;
+const MAX_HEIGHT_SHARE = 0.7;
+const MINIMAP_WIDTH = 160;
+const MINIMAP_MAX_HEIGHT = 120;
+
+/** Mermaid sizes the SVG to its container; pinning it to its viewBox gives a true 1:1 size to zoom from. */
+const pinNaturalSize = (svg: SVGSVGElement): ContentSize | null => {
+  const box = svg.viewBox.baseVal;
+  const width = box?.width || svg.getBoundingClientRect().width;
+  const height = box?.height || svg.getBoundingClientRect().height;
+  if (!width || !height) return null;
+  svg.style.maxWidth = 'none';
+  svg.style.width = `${width}px`;
+  svg.style.height = `${height}px`;
+  svg.removeAttribute('width');
+  svg.removeAttribute('height');
+  return { width, height };
+};
+
+export const DiagramViewport: React.FC<DiagramViewportProps> = ({ svg, onContentMount, background }) => {
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const [content, setContent] = useState<ContentSize | null>(null);
+  const [height, setHeight] = useState(MIN_HEIGHT);
+  // Kept in a ref so only new markup, not a new callback, re-runs the mount effect
+  const onContentMountRef = useRef(onContentMount);
+  onContentMountRef.current = onContentMount;
+  const { view, isPanning, zoomIn, zoomOut, fitWidth, fitPage, reset, centerOn } = usePanZoom(viewportRef, content);
+
+  useLayoutEffect(() => {
+    const element = contentRef.current?.querySelector('svg');
+    const size = element ? pinNaturalSize(element) : null;
+    setContent(size);
+    if (size && viewportRef.current) {
+      // Size the canvas to the diagram as it first appears, within reason; users can drag it taller
+      const fittedScale = Math.min(1, (viewportRef.current.clientWidth - 32) / size.width);
+      setHeight(Math.round(Math.min(window.innerHeight * MAX_HEIGHT_SHARE, Math.max(MIN_HEIGHT, size.height * fittedScale + 32))));
+    }
+    if (contentRef.current) onContentMountRef.current?.(contentRef.current);
+  }, [svg]);
+
+  // New diagrams open fitted to the width, but never enlarged past actual size
+  useEffect(() => {
+    if (content) fitWidth(1);
+  }, [content, height, fitWidth]);
+
+  const minimap = useMemo(() => {
+    if (!content) return null;
+    const scale = Math.min(MINIMAP_WIDTH / content.width, MINIMAP_MAX_HEIGHT / content.height);
+    return { scale, width: content.width * scale, height: content.height * scale, src: `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}` };
+  }, [content, svg]);
+
+  const viewportWidth = viewportRef.current?.clientWidth ?? 0;
+  const viewportHeight = viewportRef.current?.clientHeight ?? height;
+  const overflows = !!content && (content.width * view.scale > viewportWidth + 1 || content.height * view.scale > viewportHeight + 1);
+
+  const handleMinimapPointer = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!minimap || (event.type === 'pointermove' && event.buttons !== 1)) return;
+    const bounds = event.currentTarget.getBoundingClientRect();
+    centerOn((event.clientX - bounds.left) / minimap.scale, (event.clientY - bounds.top) / minimap.scale);
+  };
+
+  return (
+    <div className="relative">
+      <div
+        ref={viewportRef}
+        style={{ height }}
+        className={`relative w-full overflow-hidden resize-y select-none touch-none ${isPanning ? 'cursor-grabbing' : 'cursor-grab'}`}
+      >
+        <div
+          ref={contentRef}
+          className="absolute top-0 left-0 origin-top-left"
+          style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})` }}
+          dangerouslySetInnerHTML={{ __html: svg }}
+        />
+      </div>
+
+      <div className="absolute top-2 right-2 flex items-center gap-1 rounded-md border bg-background/90 p-1 shadow-sm">
+        <Button onClick={zoomOut} variant="ghost" size="icon" className="h-7 w-7" title="Zoom out">
+          <ZoomOut className="w-4 h-4" />
+        </Button>
+        <span className="w-12 text-center text-xs tabular-nums text-muted-foreground">{Math.round(view.scale * 100)}%</span>
+        <Button onClick={zoomIn} variant="ghost" size="icon" className="h-7 w-7" title="Zoom in">
+          <ZoomIn className="w-4 h-4" />
+        </Button>
+        <Button onClick={() => fitWidth()} variant="ghost" size="icon" className="h-7 w-7" title="Fit to width">
+          <MoveHorizontal className="w-4 h-4" />
+        </Button>
+        <Button onClick={fitPage} variant="ghost" size="icon" className="h-7 w-7" title="Fit to page">
+          <Maximize className="w-4 h-4" />
+        </Button>
+        <Button onClick={reset} variant="ghost" size="sm" className="h-7 px-2 text-xs" title="Actual size">
+          1:1
+        </Button>
+      </div>
+
+      {minimap && overflows && (
+        <div
+          className="absolute bottom-2 left-2 overflow-hidden rounded border bg-white/90 shadow-sm cursor-pointer touch-none"
+          style={{ width: minimap.width, height: minimap.height, backgroundColor: background }}
+          onPointerDown={handleMinimapPointer}
+          onPointerMove={handleMinimapPointer}
+        >
+          <img src={minimap.src} alt="" draggable={false} className="pointer-events-none w-full h-full" />
+          <div
+            className="absolute border-2 border-blue-500 bg-blue-500/10 pointer-events-none"
+            style={{
+              left: (-view.x / view.scale) * minimap.scale,
+              top: (-view.y / view.scale) * minimap.scale,
+              width: (viewportWidth / view.scale) * minimap.scale,
+              height: (viewportHeight / view.scale) * minimap.scale
+            }}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,127 @@
+import React, { useRef, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { DOCUMENT_ACCEPT, DocumentContext, extractDocumentContext } from '@/lib/documents/extract';
+import { cn } from '@/lib/utils';
+import { FileText, Loader2, Upload, X } from 'lucide-react';
+
+interface DocumentDropZoneProps {
+  documents: DocumentContext[];
+  onAdd: (document: DocumentContext) => void;
+  onRemove: (id: string) => void;
+  disabled?: boolean;
+}
+
+export const DocumentDropZone: React.FC<DocumentDropZoneProps> = ({
+  documents,
+  onAdd,
+  onRemove,
+  disabled = false
+}) => {
+  const [isDragging, setIsDragging] = useState(false);
+  const [pending, setPending] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const processFile = async (file: File) => {
+    setPending((names) => [...names, file.name]);
+    try {
+      onAdd(await extractDocumentContext(file));
+    } catch (err) {
+      toast({
+        title: "Document extraction failed",
+        description: err instanceof Error ? err.message : `Could not read ${file.name}`,
+        variant: "destructive",
+      });
+    } finally {
+      setPending((names) => {
+        const index = names.indexOf(file.name);
+        return index === -1 ? names : [...names.slice(0, index), ...names.slice(index + 1)];
+      });
+    }
+  };
+
+  const processFiles = (files: FileList | null) => {
+    if (!files || disabled) return;
+    // Documents extract independently, so each chip appears as soon as its file is ready
+    Array.from(files).forEach((file) => {
+      void processFile(file);
+    });
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    processFiles(e.dataTransfer.files);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          if (!disabled) setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={cn(
+          'flex flex-wrap items-center justify-between gap-2 rounded-md border border-dashed px-4 py-3 text-sm transition-colors',
+          isDragging ? 'border-blue-400 bg-blue-50 dark:bg-blue-950/40' : 'border-muted-foreground/30 bg-muted/30',
+          disabled && 'opacity-60'
+        )}
+      >
+        <span className="flex items-center gap-2 text-muted-foreground">
+          <FileText className="w-4 h-4" />
+          Drop design docs, runbooks or PDFs to use as context
+        </span>
+        <Button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled}
+          variant="outline"
+          size="sm"
+          className="gap-2"
+        >
+          <Upload className="w-4 h-4" />
+          Attach Documents
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept={DOCUMENT_ACCEPT}
+          onChange={(e) => {
+            processFiles(e.target.files);
+            e.target.value = '';
+          }}
+          className="hidden"
+        />
+      </div>
+
+      {(documents.length > 0 || pending.length > 0) && (
+        <div className="flex flex-wrap gap-2">
+          {documents.map((document) => (
+            <Badge key={document.id} variant="secondary" className="gap-1 pr-1" title={document.content}>
+              <FileText className="w-3 h-3" />
+              {document.name}
+              <button
+                type="button"
+                onClick={() => onRemove(document.id)}
+                className="rounded-sm p-0.5 hover:bg-accent"
+                aria-label={`Remove ${document.name}`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </Badge>
+          ))}
+          {pending.map((name, index) => (
+            <Badge key={`${name}-${index}`} variant="outline" className="gap-1 text-muted-foreground">
+              <Loader2 className="w-3 h-3 animate-spin" />
+              Extracting {name}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,26 +1,118 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { useTheme } from 'next-themes';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { FlowchartPreview } from './FlowchartPreview';
 import { DiagramDebugger } from './DiagramDebugger';
-import { useFlowchartGenerator } from '@/hooks/useFlowchartGenerator';
+import { MermaidCodeEditor, MermaidCodeEditorHandle } from './MermaidCodeEditor';
+import { RefinementThread } from './RefinementThread';
+import { CandidateGrid } from './CandidateGrid';
+import { ImportPanel } from './ImportPanel';
+import { ThemePanel } from './ThemePanel';
+import { ColorModeToggle } from './ColorModeToggle';
+import { TypeScriptImporter } from './importers/TypeScriptImporter';
+import { DocumentDropZone } from './DocumentDropZone';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useFlowchartGenerator, CANDIDATE_VARIANTS, DiagramCandidate } from '@/hooks/useFlowchartGenerator';
+import { useDebouncedValue } from '@/hooks/useDebouncedValue';
+import { getMermaidParseError } from '@/lib/mermaid/validate';
+import { MermaidRenderError, MermaidRenderResult, renderMermaid } from '@/lib/mermaid/render';
+import { DiagramTheme, forColorMode, loadActiveTheme, saveActiveTheme, withSvgBackground, withThemeDirective } from '@/lib/mermaid/themes';
+import { AUTO_DIAGRAM_TYPE, DIAGRAM_TYPES } from '@/lib/mermaid/diagramTypes';
+import { ImportResult, ImportStat } from '@/lib/importers/types';
+import { DocumentContext } from '@/lib/documents/extract';
 import { useToast } from '@/hooks/use-toast';
-import { Wand2, Download, Copy, Bug } from 'lucide-react';
+import { Wand2, Download, Copy, Bug, Code2, LayoutGrid, FileInput, FileCode, Palette, Image } from 'lucide-react';
+
+const PREVIEW_DEBOUNCE_MS = 400;
+
+const CLICK_DIRECTIVE = /^\s*click\s/m;
+
+const downloadFile = (content: string, type: string, filename: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
 
 export const FlowchartBuilder: React.FC = () => {
   const [description, setDescription] = useState('');
   const [mermaidCode, setMermaidCode] = useState('');
+  const [diagramType, setDiagramType] = useState(AUTO_DIAGRAM_TYPE);
+  const [compareVariants, setCompareVariants] = useState(['flowchart-td', 'flowchart-lr', 'sequence']);
   const [isDebuggerVisible, setIsDebuggerVisible] = useState(false);
-  const { generateFlowchart, isGenerating, error, detectedDiagramType, clearError } = useFlowchartGenerator();
+  const [importWarnings, setImportWarnings] = useState<string[]>([]);
+  const [importStats, setImportStats] = useState<ImportStat[]>([]);
+  const [documents, setDocuments] = useState<DocumentContext[]>([]);
+  // Consent covers only the exact code the user approved, so replaced or edited code renders strict again
+  const [clickConsentCode, setClickConsentCode] = useState<string | null>(null);
+  const [theme, setTheme] = useState<DiagramTheme>(loadActiveTheme);
+  const editorRef = useRef<MermaidCodeEditorHandle>(null);
+  const [cursorLine, setCursorLine] = useState<number>();
+  const [renderFailure, setRenderFailure] = useState<{ code: string; error: MermaidRenderError } | null>(null);
+  const previewCode = useDebouncedValue(mermaidCode, PREVIEW_DEBOUNCE_MS);
+  const previewTheme = useDebouncedValue(theme, PREVIEW_DEBOUNCE_MS);
+  const { resolvedTheme } = useTheme();
+  const renderTheme = forColorMode(previewTheme, resolvedTheme);
+  const {
+    generateFlowchart,
+    refineFlowchart,
+    generateCandidates,
+    promoteCandidate,
+    loadDiagram,
+    isGenerating,
+    error,
+    detectedDiagramType,
+    conversation,
+    attempts,
+    candidates,
+    clearConversation,
+    clearCandidates,
+    clearError
+  } = useFlowchartGenerator();
   const { toast } = useToast();
+  const hasPromptInput = !!description.trim() || documents.length > 0;
+  const hasClickDirectives = CLICK_DIRECTIVE.test(previewCode);
+  const allowClickHandlers = hasClickDirectives && clickConsentCode === previewCode;
+
+  useEffect(() => {
+    saveActiveTheme(previewTheme);
+  }, [previewTheme]);
+
+  const revealLine = (line: number) => editorRef.current?.revealLine(line);
+
+  const handleRenderResult = (result: MermaidRenderResult, code: string) => {
+    setRenderFailure(result.kind === 'failed' ? { code, error: result.error } : null);
+  };
+
+  const warnIfStillInvalid = async (code: string): Promise<boolean> => {
+    if (!(await getMermaidParseError(code))) {
+      return false;
+    }
+    toast({
+      title: "Diagram needs attention",
+      description: "Automatic repair could not fix every syntax error. Check the debugger for details.",
+      variant: "destructive",
+    });
+    return true;
+  };
 
   const handleGenerate = async () => {
-    if (!description.trim()) {
+    if (!hasPromptInput) {
       toast({
         title: "Description required",
-        description: "Please enter a description for your diagram",
+        description: "Please enter a description or attach a document for your diagram",
         variant: "destructive",
       });
       return;
@@ -29,8 +121,13 @@ export const FlowchartBuilder: React.FC = () => {
     clearError();
     
     try {
-      const result = await generateFlowchart(description);
+      const result = await generateFlowchart(description, diagramType, documents);
       setMermaidCode(result);
+      setImportWarnings([]);
+      setImportStats([]);
+      if (await warnIfStillInvalid(result)) {
+        return;
+      }
       toast({
         title: "Diagram generated successfully",
         description: `Created a ${detectedDiagramType}`,
@@ -44,9 +141,85 @@ export const FlowchartBuilder: React.FC = () => {
     }
   };
 
+  const handleRefine = async (instruction: string): Promise<boolean> => {
+    clearError();
+
+    try {
+      const result = await refineFlowchart(mermaidCode, instruction, diagramType);
+      setMermaidCode(result);
+      setImportWarnings([]);
+      setImportStats([]);
+      if (await warnIfStillInvalid(result)) {
+        return true;
+      }
+      toast({
+        title: "Diagram updated",
+        description: "Your change has been applied to the current diagram",
+      });
+      return true;
+    } catch (err) {
+      toast({
+        title: "Refinement failed",
+        description: err instanceof Error ? err.message : "Failed to refine diagram",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const handleCompare = async () => {
+    if (!hasPromptInput) {
+      toast({
+        title: "Description required",
+        description: "Please enter a description or attach a document for your diagram",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    clearError();
+
+    try {
+      const results = await generateCandidates(description, compareVariants, documents);
+      const validCount = results.filter((candidate) => candidate.mermaidCode && !candidate.error).length;
+      toast({
+        title: "Candidates ready",
+        description: `${validCount} of ${results.length} candidates parsed successfully`,
+      });
+    } catch (err) {
+      toast({
+        title: "Comparison failed",
+        description: err instanceof Error ? err.message : "Failed to generate candidates",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handlePromote = (candidate: DiagramCandidate) => {
+    setMermaidCode(promoteCandidate(candidate, description));
+    setImportWarnings([]);
+    setImportStats([]);
+    toast({
+      title: "Candidate selected",
+      description: `Loaded the ${candidate.label} diagram into the editor`,
+    });
+  };
+
+  const handleImport = (result: ImportResult, source: string) => {
+    setMermaidCode(loadDiagram(result.mermaidCode, result.diagramType, source));
+    setImportWarnings(result.warnings);
+    setImportStats(result.stats ?? []);
+    toast({
+      title: "Diagram imported",
+      description: result.warnings.length > 0
+        ? `Imported ${source} with ${result.warnings.length} warning(s). See the debugger for details.`
+        : `Imported ${source}`,
+    });
+  };
+
   const handleCopy = () => {
     if (mermaidCode) {
-      navigator.clipboard.writeText(mermaidCode);
+      navigator.clipboard.writeText(withThemeDirective(mermaidCode, theme));
       toast({
         title: "Copied to clipboard",
         description: "Mermaid code has been copied to your clipboard",
@@ -56,16 +229,7 @@ export const FlowchartBuilder: React.FC = () => {
 
   const handleDownload = () => {
     if (mermaidCode) {
-      const blob = new Blob([mermaidCode], { type: 'text/plain' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = 'diagram.mmd';
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-      
+      downloadFile(withThemeDirective(mermaidCode, theme), 'text/plain', 'diagram.mmd');
       toast({
         title: "Download started",
         description: "Mermaid file has been downloaded",
@@ -73,96 +237,231 @@ export const FlowchartBuilder: React.FC = () => {
     }
   };
 
+  const handleDownloadSvg = async () => {
+    if (!mermaidCode) return;
+    const result = await renderMermaid(mermaidCode, { theme });
+    if (result.kind === 'failed') {
+      toast({
+        title: "Export failed",
+        description: result.error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+    downloadFile(withSvgBackground(result.svg, theme), 'image/svg+xml', 'diagram.svg');
+    toast({
+      title: "Download started",
+      description: "SVG image has been downloaded",
+    });
+  };
+
   return (
-    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50/30 to-slate-50 p-6">
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50/30 to-slate-50 dark:from-slate-950 dark:via-blue-950/30 dark:to-slate-950 p-6">
       <div className="max-w-7xl mx-auto space-y-6">
         {/* Header */}
-        <div className="text-center space-y-2">
-          <h1 className="text-4xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+        <div className="relative text-center space-y-2">
+          <div className="absolute top-0 right-0">
+            <ColorModeToggle />
+          </div>
+          <h1 className="text-4xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 dark:from-blue-400 dark:to-purple-400 bg-clip-text text-transparent">
             Data Pipeline Diagram Generator
           </h1>
-          <p className="text-gray-600 max-w-2xl mx-auto">
+          <p className="text-muted-foreground max-w-2xl mx-auto">
             Describe your data pipeline, workflow, or system architecture and get a professional diagram instantly.
             Supports ER diagrams, flowcharts, sequence diagrams, and more.
           </p>
         </div>
 
         {/* Input Section */}
-        <Card className="shadow-lg border-0 bg-white/80 backdrop-blur-sm">
+        <Card className="shadow-lg border-0 bg-card/80 backdrop-blur-sm">
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
-              <Wand2 className="w-5 h-5 text-blue-600" />
-              Describe Your Diagram
+              <Wand2 className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+              Create Your Diagram
             </CardTitle>
           </CardHeader>
-          <CardContent className="space-y-4">
-            <Textarea
-              placeholder="Describe your data pipeline, workflow, or system architecture. For example:
-- 'A user registration system with database validation'
-- 'Data flow from API to data warehouse through ETL process'
-- 'Customer order processing workflow with payment gateway'
-- 'Database schema for e-commerce platform with users, products, and orders'"
-              value={description}
-              onChange={(e) => setDescription(e.target.value)}
-              className="min-h-32 resize-none"
-            />
-            
-            <div className="flex items-center justify-between">
-              <div className="flex items-center gap-2">
-                {detectedDiagramType && (
-                  <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200">
-                    {detectedDiagramType}
-                  </Badge>
-                )}
-                {error && (
-                  <Badge variant="destructive">
-                    Error
-                  </Badge>
-                )}
-              </div>
-              
-              <div className="flex items-center gap-2">
-                <Button
-                  onClick={() => setIsDebuggerVisible(!isDebuggerVisible)}
-                  variant="outline"
-                  size="sm"
-                  className="gap-2"
-                >
-                  <Bug className="w-4 h-4" />
-                  Debug
-                </Button>
+          <CardContent>
+            <Tabs defaultValue="describe" className="space-y-4">
+              <TabsList>
+                <TabsTrigger value="describe" className="gap-2">
+                  <Wand2 className="w-4 h-4" />
+                  Describe
+                </TabsTrigger>
+                <TabsTrigger value="import" className="gap-2">
+                  <FileInput className="w-4 h-4" />
+                  Import
+                </TabsTrigger>
+                <TabsTrigger value="code" className="gap-2">
+                  <FileCode className="w-4 h-4" />
+                  From Code
+                </TabsTrigger>
+                <TabsTrigger value="theme" className="gap-2">
+                  <Palette className="w-4 h-4" />
+                  Theme
+                </TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="describe" className="space-y-4">
+                <Textarea
+                  placeholder="Describe your data pipeline, workflow, or system architecture. For example:
+    - 'A user registration system with database validation'
+    - 'Data flow from API to data warehouse through ETL process'
+    - 'Customer order processing workflow with payment gateway'
+    - 'Database schema for e-commerce platform with users, products, and orders'"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  className="min-h-32 resize-none"
+                />
+
+                <DocumentDropZone
+                  documents={documents}
+                  onAdd={(document) => setDocuments((current) => [...current, document])}
+                  onRemove={(id) => setDocuments((current) => current.filter((document) => document.id !== id))}
+                  disabled={isGenerating}
+                />
                 
-                <Button
-                  onClick={handleGenerate}
-                  disabled={isGenerating || !description.trim()}
-                  className="gap-2 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
-                >
-                  {isGenerating ? (
-                    <>
-                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
-                      Generating...
-                    </>
-                  ) : (
-                    <>
-                      <Wand2 className="w-4 h-4" />
-                      Generate Diagram
-                    </>
-                  )}
-                </Button>
-              </div>
-            </div>
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <Select value={diagramType} onValueChange={setDiagramType}>
+                      <SelectTrigger className="w-56" aria-label="Diagram type">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={AUTO_DIAGRAM_TYPE}>Auto-detect type</SelectItem>
+                        {DIAGRAM_TYPES.map((type) => (
+                          <SelectItem key={type.id} value={type.id}>
+                            {type.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {detectedDiagramType && (
+                      <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200 dark:bg-blue-950/40 dark:text-blue-300 dark:border-blue-900">
+                        {detectedDiagramType}
+                      </Badge>
+                    )}
+                    {error && (
+                      <Badge variant="destructive">
+                        Error
+                      </Badge>
+                    )}
+                  </div>
+                  
+                  <div className="flex items-center gap-2">
+                    <Button
+                      onClick={() => setIsDebuggerVisible(!isDebuggerVisible)}
+                      variant="outline"
+                      size="sm"
+                      className="gap-2"
+                    >
+                      <Bug className="w-4 h-4" />
+                      Debug
+                    </Button>
+                    
+                    <Button
+                      onClick={handleGenerate}
+                      disabled={isGenerating || !hasPromptInput}
+                      className="gap-2 text-white bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+                    >
+                      {isGenerating ? (
+                        <>
+                          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-current"></div>
+                          Generating...
+                        </>
+                      ) : (
+                        <>
+                          <Wand2 className="w-4 h-4" />
+                          Generate Diagram
+                        </>
+                      )}
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap items-center justify-between gap-2 border-t pt-4">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm text-muted-foreground">Compare variants:</span>
+                    <ToggleGroup
+                      type="multiple"
+                      variant="outline"
+                      size="sm"
+                      value={compareVariants}
+                      onValueChange={setCompareVariants}
+                      className="flex-wrap justify-start"
+                    >
+                      {CANDIDATE_VARIANTS.map((variant) => (
+                        <ToggleGroupItem key={variant.id} value={variant.id} className="text-xs">
+                          {variant.label}
+                        </ToggleGroupItem>
+                      ))}
+                    </ToggleGroup>
+                  </div>
+                  <Button
+                    onClick={handleCompare}
+                    disabled={isGenerating || !hasPromptInput || compareVariants.length === 0}
+                    variant="outline"
+                    className="gap-2"
+                  >
+                    <LayoutGrid className="w-4 h-4" />
+                    Compare {compareVariants.length} Variants
+                  </Button>
+                </div>
+              </TabsContent>
+
+              <TabsContent value="import">
+                <ImportPanel onImport={handleImport} />
+              </TabsContent>
+
+              <TabsContent value="code">
+                <TypeScriptImporter onImport={handleImport} />
+              </TabsContent>
+
+              <TabsContent value="theme">
+                <ThemePanel theme={theme} onChange={setTheme} />
+              </TabsContent>
+            </Tabs>
           </CardContent>
         </Card>
 
-        {/* Preview Section */}
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-          <div className="lg:col-span-2">
-            <Card className="shadow-lg border-0 bg-white/80 backdrop-blur-sm">
+        <CandidateGrid
+          candidates={candidates}
+          onPromote={handlePromote}
+          onDismiss={clearCandidates}
+          theme={renderTheme}
+        />
+
+        {/* Editor + Preview Section */}
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+          <Card className="shadow-lg border-0 bg-card/80 backdrop-blur-sm">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Code2 className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+                Mermaid Code
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <MermaidCodeEditor
+                ref={editorRef}
+                value={mermaidCode}
+                onChange={setMermaidCode}
+                onCursorLineChange={setCursorLine}
+              />
+            </CardContent>
+          </Card>
+
+          <div className="space-y-6">
+            <Card className="shadow-lg border-0 bg-card/80 backdrop-blur-sm">
               <CardHeader>
                 <div className="flex items-center justify-between">
                   <CardTitle>Diagram Preview</CardTitle>
                   {mermaidCode && (
                     <div className="flex items-center gap-2">
+                      {hasClickDirectives && (
+                        <div className="flex items-center gap-2 mr-2" title="Click directives run callbacks and open links from the diagram code. Only enable this for code you trust.">
+                          <Switch id="allow-click-handlers" checked={allowClickHandlers} onCheckedChange={(checked) => setClickConsentCode(checked ? previewCode : null)} />
+                          <Label htmlFor="allow-click-handlers" className="text-xs">Enable clicks</Label>
+                        </div>
+                      )}
                       <Button
                         onClick={handleCopy}
                         variant="outline"
@@ -181,61 +480,89 @@ export const FlowchartBuilder: React.FC = () => {
                         <Download className="w-4 h-4" />
                         Download
                       </Button>
+                      <Button
+                        onClick={handleDownloadSvg}
+                        variant="outline"
+                        size="sm"
+                        className="gap-2"
+                      >
+                        <Image className="w-4 h-4" />
+                        SVG
+                      </Button>
                     </div>
                   )}
                 </div>
               </CardHeader>
               <CardContent>
                 <FlowchartPreview 
-                  mermaidCode={mermaidCode} 
+                  mermaidCode={previewCode} 
                   isLoading={isGenerating}
+                  interactive
+                  theme={renderTheme}
+                  allowClickHandlers={allowClickHandlers}
+                  onRenderResult={handleRenderResult}
+                  highlightedLine={cursorLine}
+                  onLineSelect={revealLine}
                 />
               </CardContent>
             </Card>
+
+            <RefinementThread
+              conversation={conversation}
+              canRefine={!!mermaidCode.trim()}
+              isRefining={isGenerating}
+              onRefine={handleRefine}
+              onRestore={setMermaidCode}
+              onClear={clearConversation}
+            />
           </div>
+        </div>
 
-          {/* Info Panel */}
-          <div className="space-y-4">
-            <Card className="shadow-lg border-0 bg-white/80 backdrop-blur-sm">
-              <CardHeader>
-                <CardTitle className="text-lg">Supported Diagrams</CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-2">
-                <div className="grid grid-cols-1 gap-2 text-sm">
-                  <Badge variant="outline">ER Diagrams</Badge>
-                  <Badge variant="outline">Flowcharts</Badge>
-                  <Badge variant="outline">Sequence Diagrams</Badge>
-                  <Badge variant="outline">Class Diagrams</Badge>
-                  <Badge variant="outline">State Diagrams</Badge>
-                  <Badge variant="outline">User Journeys</Badge>
-                  <Badge variant="outline">Gantt Charts</Badge>
-                </div>
-              </CardContent>
-            </Card>
+        {/* Info Panel */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <Card className="shadow-lg border-0 bg-card/80 backdrop-blur-sm">
+            <CardHeader>
+              <CardTitle className="text-lg">Supported Diagrams</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="flex flex-wrap gap-2 text-sm">
+                {DIAGRAM_TYPES.map((type) => (
+                  <Badge key={type.id} variant="outline">{type.label}</Badge>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
 
-            <Card className="shadow-lg border-0 bg-white/80 backdrop-blur-sm">
-              <CardHeader>
-                <CardTitle className="text-lg">Tips</CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-2 text-sm text-gray-600">
-                <p>• Be specific about relationships and data flow</p>
-                <p>• Mention entity names and attributes for ER diagrams</p>
-                <p>• Include decision points for flowcharts</p>
-                <p>• Describe interactions for sequence diagrams</p>
-                <p>• Use the debug tool to troubleshoot syntax issues</p>
-              </CardContent>
-            </Card>
-          </div>
+          <Card className="shadow-lg border-0 bg-card/80 backdrop-blur-sm">
+            <CardHeader>
+              <CardTitle className="text-lg">Tips</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm text-muted-foreground">
+              <p>• Be specific about relationships and data flow</p>
+              <p>• Mention entity names and attributes for ER diagrams</p>
+              <p>• Include decision points for flowcharts</p>
+              <p>• Describe interactions for sequence diagrams</p>
+              <p>• Attach design docs or runbooks instead of pasting them piece by piece</p>
+              <p>• Edit the generated code directly to fix labels or arrows</p>
+              <p>• Ask for follow-up changes instead of regenerating from scratch</p>
+              <p>• Use the debug tool to troubleshoot syntax issues</p>
+            </CardContent>
+          </Card>
         </div>
       </div>
 
       {/* Debugger */}
       <DiagramDebugger
-        mermaidCode={mermaidCode}
+        mermaidCode={previewCode}
         originalPrompt={description}
         detectedDiagramType={detectedDiagramType}
+        generationAttempts={attempts}
+        importWarnings={importWarnings}
+        importStats={importStats}
+        renderError={renderFailure?.code === previewCode ? renderFailure.error : null}
         isVisible={isDebuggerVisible}
         onToggle={() => setIsDebuggerVisible(!isDebuggerVisible)}
+        onLineSelect={revealLine}
       />
     </div>
   );
@@ -1,77 +1,94 @@
 import React from 'react';
-import mermaid from 'mermaid';
-import { useEffect, useRef } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { MermaidRenderResult, renderMermaid, RenderSecurityLevel, toRenderError } from '@/lib/mermaid/render';
+import { DEFAULT_DIAGRAM_THEME, DiagramTheme, getThemeBackground } from '@/lib/mermaid/themes';
+import { buildSourceMap, getElementKey, highlightSourceLine } from '@/lib/mermaid/sourceMap';
+import { DiagramViewport } from './DiagramViewport';
 
 interface FlowchartPreviewProps {
   mermaidCode: string;
   isLoading?: boolean;
+  securityLevel?: RenderSecurityLevel;
+  /** Run `click` directives in the diagram; off by default because they execute arbitrary callbacks */
+  allowClickHandlers?: boolean;
+  /** Pan, zoom and minimap controls; without them the diagram is scaled to the container width */
+  interactive?: boolean;
+  theme?: DiagramTheme;
+  onRenderResult?: (result: MermaidRenderResult, mermaidCode: string) => void;
+  /** Source line whose nodes and edges are highlighted in the diagram */
+  highlightedLine?: number;
+  /** Called with the source line of a node, edge or subgraph when it is clicked */
+  onLineSelect?: (line: number) => void;
 }
 
 export const FlowchartPreview: React.FC<FlowchartPreviewProps> = ({ 
   mermaidCode, 
-  isLoading = false 
+  isLoading = false,
+  securityLevel = 'strict',
+  allowClickHandlers = false,
+  interactive = false,
+  theme = DEFAULT_DIAGRAM_THEME,
+  onRenderResult,
+  highlightedLine,
+  onLineSelect
 }) => {
   const chartRef = useRef<HTMLDivElement>(null);
+  const [result, setResult] = useState<MermaidRenderResult | null>(null);
+  const [renderedCode, setRenderedCode] = useState('');
+  // The viewport mounts the SVG in its own element
+  const [viewportContent, setViewportContent] = useState<HTMLElement | null>(null);
+  const sourceMap = useMemo(() => buildSourceMap(renderedCode), [renderedCode]);
+  // Kept in a ref so a new callback identity does not trigger a re-render of the diagram
+  const onRenderResultRef = useRef(onRenderResult);
+  onRenderResultRef.current = onRenderResult;
 
   useEffect(() => {
-    mermaid.initialize({
-      startOnLoad: true,
-      theme: 'default',
-      securityLevel: 'loose',
-      flowchart: {
-        useMaxWidth: true,
-        htmlLabels: true,
-        curve: 'basis'
-      },
-      er: {
-        useMaxWidth: true
-      },
-      sequence: {
-        useMaxWidth: true,
-        showSequenceNumbers: true
-      },
-      class: {
-        useMaxWidth: true
-      },
-      state: {
-        useMaxWidth: true
-      },
-      journey: {
-        useMaxWidth: true
-      },
-      gantt: {
-        useMaxWidth: true
-      }
-    });
-  }, []);
+    if (!mermaidCode.trim()) {
+      setResult(null);
+      return;
+    }
+    let isCurrent = true;
+    renderMermaid(mermaidCode, { securityLevel, allowClickHandlers, theme })
+      .catch((err): MermaidRenderResult => ({ kind: 'failed', error: toRenderError(err, mermaidCode) }))
+      .then((rendered) => {
+        if (!isCurrent) return;
+        setResult(rendered);
+        setRenderedCode(mermaidCode);
+        onRenderResultRef.current?.(rendered, mermaidCode);
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [mermaidCode, securityLevel, allowClickHandlers, theme]);
 
   useEffect(() => {
-    if (chartRef.current && mermaidCode.trim()) {
-      try {
-        chartRef.current.innerHTML = '';
-        const chartId = `chart-${Date.now()}`;
-        chartRef.current.innerHTML = `<div class="mermaid" id="${chartId}">${mermaidCode}</div>`;
-        mermaid.init(undefined, chartRef.current.querySelector('.mermaid'));
-      } catch (error) {
-        console.error('Mermaid rendering error:', error);
-        chartRef.current.innerHTML = `
-          <div class="flex items-center justify-center h-64 text-red-500 bg-red-50 rounded-lg border border-red-200">
-            <div class="text-center">
-              <p class="font-medium">Invalid Mermaid Syntax</p>
-              <p class="text-sm mt-1">Please check your diagram code</p>
-            </div>
-          </div>
-        `;
-      }
+    if (result?.kind === 'rendered' && result.bindFunctions && chartRef.current) {
+      result.bindFunctions(chartRef.current);
     }
-  }, [mermaidCode]);
+  }, [result, isLoading]);
+
+  useEffect(() => {
+    const container = chartRef.current ?? viewportContent;
+    if (result?.kind === 'rendered' && container) {
+      highlightSourceLine(container, sourceMap, highlightedLine);
+    }
+  }, [result, sourceMap, highlightedLine, viewportContent, isLoading]);
+
+  const handleDiagramClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    const key = onLineSelect && getElementKey(event.target as Element);
+    const line = key && sourceMap.lineByKey.get(key);
+    if (line) onLineSelect(line);
+  };
+
+  // Linked elements invite a click; the viewport's grab cursor stays everywhere else
+  const linkClassName = onLineSelect ? '[&_g.node]:cursor-pointer [&_.edgeLabel]:cursor-pointer' : '';
 
   if (isLoading) {
     return (
-      <div className="flex items-center justify-center h-64 bg-gray-50 rounded-lg border border-gray-200">
+      <div className="flex items-center justify-center h-64 bg-muted/50 rounded-lg border">
         <div className="text-center">
           <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
-          <p className="text-gray-600 mt-2">Analyzing and generating diagram...</p>
+          <p className="text-muted-foreground mt-2">Analyzing and generating diagram...</p>
         </div>
       </div>
     );
@@ -79,8 +96,8 @@ export const FlowchartPreview: React.FC<FlowchartPreviewProps> = ({
 
   if (!mermaidCode.trim()) {
     return (
-      <div className="flex items-center justify-center h-64 bg-gray-50 rounded-lg border border-gray-200">
-        <div className="text-center text-gray-500">
+      <div className="flex items-center justify-center h-64 bg-muted/50 rounded-lg border">
+        <div className="text-center text-muted-foreground">
           <svg className="w-12 h-12 mx-auto mb-2 opacity-50" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
           </svg>
@@ -91,9 +108,43 @@ export const FlowchartPreview: React.FC<FlowchartPreviewProps> = ({
     );
   }
 
+  if (result?.kind === 'failed') {
+    return (
+      <div className="flex items-center justify-center h-64 text-red-500 bg-red-50 rounded-lg border border-red-200 dark:bg-red-950/40 dark:border-red-900">
+        <div className="text-center px-4">
+          <p className="font-medium">Invalid Mermaid Syntax</p>
+          <p className="text-sm mt-1">
+            {result.error.line ? `Line ${result.error.line}: ` : ''}Please check your diagram code
+          </p>
+          <pre className="text-xs mt-2 max-h-24 overflow-auto whitespace-pre-wrap text-left text-red-600 dark:text-red-400">{result.error.message}</pre>
+        </div>
+      </div>
+    );
+  }
+
+  // Light themes keep a white canvas in dark mode too, since their lines and text are drawn dark
+  const background = getThemeBackground(theme);
+
+  // Sandboxed diagrams live in an iframe, which cannot be measured or transformed from here
+  if (interactive && result?.kind === 'rendered' && securityLevel !== 'sandbox') {
+    return (
+      <div className={`bg-white rounded-lg border overflow-hidden ${linkClassName}`} style={{ backgroundColor: background }} onClick={handleDiagramClick}>
+        <DiagramViewport
+          svg={result.svg}
+          background={background}
+          onContentMount={(element) => {
+            result.bindFunctions?.(element);
+            setViewportContent(element);
+          }}
+        />
+      </div>
+    );
+  }
+
   return (
-    <div className="bg-white rounded-lg border border-gray-200 p-4 overflow-auto">
-      <div ref={chartRef} className="w-full min-h-64" />
+    <div className={`bg-white rounded-lg border p-4 overflow-auto ${linkClassName}`} style={{ backgroundColor: background }} onClick={handleDiagramClick}>
+      {/* The SVG comes from mermaid.render, sanitized unless click handlers were explicitly allowed */}
+      <div ref={chartRef} className="w-full min-h-64" dangerouslySetInnerHTML={{ __html: result?.kind === 'rendered' ? result.svg : '' }} />
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SqlDdlImporter } from './importers/SqlDdlImporter';
+import { DbtManifestImporter } from './importers/DbtManifestImporter';
+import { OrchestrationDagImporter } from './importers/OrchestrationDagImporter';
+import { InfrastructureImporter } from './importers/InfrastructureImporter';
+import { TerraformImporter } from './importers/TerraformImporter';
+import { TraceImporter } from './importers/TraceImporter';
+import { HarImporter } from './importers/HarImporter';
+import { EventLogImporter } from './importers/EventLogImporter';
+import { ExplainPlanImporter } from './importers/ExplainPlanImporter';
+import { SchemaImporter } from './importers/SchemaImporter';
+import { BpmnImporter } from './importers/BpmnImporter';
+import { GraphTableImporter } from './importers/GraphTableImporter';
+import { ImporterProps } from './importers/types';
+
+interface ImportSource {
+  id: string;
+  label: string;
+  description: string;
+  component: React.FC<ImporterProps>;
+}
+
+const IMPORT_SOURCES: ImportSource[] = [
+  {
+    id: 'sql-ddl',
+    label: 'SQL DDL',
+    description: 'CREATE TABLE statements become an ER diagram with exact keys and cardinalities.',
+    component: SqlDdlImporter
+  },
+  {
+    id: 'dbt-manifest',
+    label: 'dbt manifest',
+    description: 'manifest.json becomes a lineage flowchart; use dbt selectors such as "+orders+" to focus on one model.',
+    component: DbtManifestImporter
+  },
+  {
+    id: 'orchestration-dag',
+    label: 'Airflow / Prefect',
+    description: 'A DAG file or flow becomes a flowchart with task groups as subgraphs and operators as shapes.',
+    component: OrchestrationDagImporter
+  },
+  {
+    id: 'infrastructure',
+    label: 'Compose / Kubernetes',
+    description: 'docker-compose.yml or Kubernetes YAML becomes an architecture graph of services, storage and config.',
+    component: InfrastructureImporter
+  },
+  {
+    id: 'terraform',
+    label: 'Terraform',
+    description: 'terraform show -json output becomes a resource graph; plans can colour creates, updates and destroys.',
+    component: TerraformImporter
+  },
+  {
+    id: 'trace',
+    label: 'OpenTelemetry trace',
+    description: 'An OTLP or Jaeger trace export becomes a sequence diagram of the calls between services.',
+    component: TraceImporter
+  },
+  {
+    id: 'har',
+    label: 'HAR file',
+    description: 'A browser network export becomes a sequence diagram of requests to each host, with status and timing.',
+    component: HarImporter
+  },
+  {
+    id: 'event-log',
+    label: 'Event log (CSV)',
+    description: 'A case id / activity / timestamp log becomes a directly-follows graph with path counts and median durations.',
+    component: EventLogImporter
+  },
+  {
+    id: 'explain-plan',
+    label: 'Postgres EXPLAIN',
+    description: 'EXPLAIN (ANALYZE, FORMAT JSON) output becomes a plan tree with the most expensive operators highlighted.',
+    component: ExplainPlanImporter
+  },
+  {
+    id: 'schema',
+    label: 'Schema definition',
+    description: 'JSON Schema, Avro, Protobuf, GraphQL SDL or Prisma becomes a class or ER diagram with exact fields and references.',
+    component: SchemaImporter
+  },
+  {
+    id: 'bpmn',
+    label: 'BPMN process',
+    description: 'BPMN 2.0 XML becomes a flowchart with gateways, events, conditions on sequence flows and pools and lanes as subgraphs.',
+    component: BpmnImporter
+  },
+  {
+    id: 'graph-table',
+    label: 'Edge list / CSV',
+    description: 'An edge list CSV, optionally with a node table, becomes a flowchart; map columns to shapes, classes and groups.',
+    component: GraphTableImporter
+  }
+];
+
+export const ImportPanel: React.FC<ImporterProps> = ({ onImport }) => {
+  const [sourceId, setSourceId] = useState(IMPORT_SOURCES[0].id);
+  const source = IMPORT_SOURCES.find((candidate) => candidate.id === sourceId);
+  const Importer = source.component;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <Select value={sourceId} onValueChange={setSourceId}>
+          <SelectTrigger className="w-56" aria-label="Import source">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {IMPORT_SOURCES.map((candidate) => (
+              <SelectItem key={candidate.id} value={candidate.id}>
+                {candidate.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-sm text-muted-foreground">{source.description}</p>
+      </div>
+
+      {/* Keyed so switching sources starts from a clean form */}
+      <Importer key={source.id} onImport={onImport} />
+    </div>
+  );
+};
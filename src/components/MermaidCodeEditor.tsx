@@ -0,0 +1,156 @@
+import React, { forwardRef, useImperativeHandle, useRef, useState } from 'react';
+import { cn } from '@/lib/utils';
+import { tokenizeMermaidLine, MermaidTokenType } from '@/lib/mermaid/highlight';
+
+interface MermaidCodeEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  className?: string;
+  /** Called with the 1-based line the cursor is on whenever it moves */
+  onCursorLineChange?: (line: number) => void;
+}
+
+export interface MermaidCodeEditorHandle {
+  /** Selects a 1-based line and scrolls it into view */
+  revealLine: (line: number) => void;
+}
+
+const TOKEN_CLASSES: Record<MermaidTokenType, string> = {
+  keyword: 'text-purple-600 dark:text-purple-400 font-semibold',
+  arrow: 'text-blue-600 dark:text-blue-400',
+  string: 'text-green-700 dark:text-green-400',
+  comment: 'text-muted-foreground/70 italic',
+  label: 'text-amber-600 dark:text-amber-400',
+  bracket: 'text-muted-foreground',
+  text: 'text-foreground'
+};
+
+const INDENT = '    ';
+// Matches the leading-5 and py-2 classes below
+const LINE_HEIGHT = 20;
+const PADDING_TOP = 8;
+
+export const MermaidCodeEditor = forwardRef<MermaidCodeEditorHandle, MermaidCodeEditorProps>(({
+  value,
+  onChange,
+  placeholder = 'Mermaid code will appear here. You can also type or paste your own.',
+  className,
+  onCursorLineChange
+}, ref) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const highlightRef = useRef<HTMLPreElement>(null);
+  const gutterRef = useRef<HTMLDivElement>(null);
+  const [cursorLine, setCursorLine] = useState<number | null>(null);
+
+  const lines = value.split('\n');
+
+  const updateCursorLine = (line: number) => {
+    if (line === cursorLine) return;
+    setCursorLine(line);
+    onCursorLineChange?.(line);
+  };
+
+  const handleSelect = (e: React.SyntheticEvent<HTMLTextAreaElement>) => {
+    const textarea = e.currentTarget;
+    updateCursorLine(value.slice(0, textarea.selectionStart).split('\n').length);
+  };
+
+  const handleScroll = () => {
+    if (!textareaRef.current) return;
+    const { scrollTop, scrollLeft } = textareaRef.current;
+    if (highlightRef.current) {
+      highlightRef.current.scrollTop = scrollTop;
+      highlightRef.current.scrollLeft = scrollLeft;
+    }
+    if (gutterRef.current) {
+      gutterRef.current.scrollTop = scrollTop;
+    }
+  };
+
+  useImperativeHandle(ref, () => ({
+    revealLine: (line: number) => {
+      const textarea = textareaRef.current;
+      if (!textarea || line < 1 || line > lines.length) return;
+      const start = lines.slice(0, line - 1).reduce((offset, text) => offset + text.length + 1, 0);
+      textarea.focus({ preventScroll: true });
+      textarea.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+      textarea.setSelectionRange(start, start + lines[line - 1].length);
+      textarea.scrollTop = Math.max(0, PADDING_TOP + (line - 1) * LINE_HEIGHT - textarea.clientHeight / 2);
+      handleScroll();
+      updateCursorLine(line);
+    }
+  }));
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key !== 'Tab') return;
+
+    // Keep focus in the editor and indent instead of moving to the next control
+    e.preventDefault();
+    const textarea = e.currentTarget;
+    const { selectionStart, selectionEnd } = textarea;
+    const nextValue = value.slice(0, selectionStart) + INDENT + value.slice(selectionEnd);
+    onChange(nextValue);
+    requestAnimationFrame(() => {
+      textarea.selectionStart = textarea.selectionEnd = selectionStart + INDENT.length;
+    });
+  };
+
+  return (
+    <div
+      className={cn(
+        'relative flex h-96 overflow-hidden rounded-lg border bg-background font-mono text-xs leading-5',
+        className
+      )}
+    >
+      <div
+        ref={gutterRef}
+        aria-hidden="true"
+        className="select-none overflow-hidden border-r bg-muted/50 py-2 text-right text-muted-foreground/70"
+      >
+        {lines.map((_, index) => (
+          <div key={index} className={cn('px-2', index + 1 === cursorLine && 'text-foreground')}>
+            {index + 1}
+          </div>
+        ))}
+      </div>
+
+      <div className="relative flex-1 overflow-hidden">
+        <pre
+          ref={highlightRef}
+          aria-hidden="true"
+          className="pointer-events-none absolute inset-0 m-0 overflow-hidden whitespace-pre px-3 py-2"
+        >
+          {lines.map((line, index) => (
+            <div key={index} className={cn(index + 1 === cursorLine && 'bg-blue-50 dark:bg-blue-950/40')}>
+              {tokenizeMermaidLine(line).map((token, tokenIndex) => (
+                <span key={tokenIndex} className={TOKEN_CLASSES[token.type]}>
+                  {token.value}
+                </span>
+              ))}
+              {/* Keep empty lines the same height as the textarea rows */}
+              {line.length === 0 && '\n'}
+            </div>
+          ))}
+        </pre>
+
+        <textarea
+          ref={textareaRef}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onScroll={handleScroll}
+          onKeyDown={handleKeyDown}
+          onSelect={handleSelect}
+          placeholder={placeholder}
+          spellCheck={false}
+          autoCapitalize="off"
+          autoComplete="off"
+          wrap="off"
+          className="absolute inset-0 h-full w-full resize-none whitespace-pre bg-transparent px-3 py-2 text-transparent caret-foreground outline-none placeholder:text-muted-foreground"
+        />
+      </div>
+    </div>
+  );
+});
+
+MermaidCodeEditor.displayName = 'MermaidCodeEditor';
@@ -0,0 +1,129 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ConversationTurn } from '@/hooks/useFlowchartGenerator';
+import { MessageSquare, RotateCcw, Send, Trash2 } from 'lucide-react';
+
+interface RefinementThreadProps {
+  conversation: ConversationTurn[];
+  canRefine: boolean;
+  isRefining: boolean;
+  onRefine: (instruction: string) => Promise<boolean>;
+  onRestore: (mermaidCode: string) => void;
+  onClear: () => void;
+}
+
+export const RefinementThread: React.FC<RefinementThreadProps> = ({
+  conversation,
+  canRefine,
+  isRefining,
+  onRefine,
+  onRestore,
+  onClear
+}) => {
+  const [instruction, setInstruction] = useState('');
+  const threadEndRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    threadEndRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [conversation.length]);
+
+  const handleSubmit = async () => {
+    if (!instruction.trim()) return;
+    const succeeded = await onRefine(instruction);
+    if (succeeded) {
+      setInstruction('');
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      handleSubmit();
+    }
+  };
+
+  return (
+    <Card className="shadow-lg border-0 bg-card/80 backdrop-blur-sm">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <MessageSquare className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+            Refine Diagram
+          </CardTitle>
+          {conversation.length > 0 && (
+            <Button onClick={onClear} variant="ghost" size="sm" className="gap-2">
+              <Trash2 className="w-4 h-4" />
+              Clear
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="max-h-64 space-y-2 overflow-y-auto">
+          {conversation.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Generate a diagram, then ask for follow-up changes such as
+              "add a dead-letter queue after the Kafka consumer".
+            </p>
+          ) : (
+            conversation.map((turn) => (
+              <div
+                key={turn.id}
+                className={
+                  turn.role === 'user'
+                    ? 'ml-8 rounded-lg bg-blue-50 p-2 text-sm text-blue-900 dark:bg-blue-950/40 dark:text-blue-100'
+                    : 'mr-8 flex items-center justify-between gap-2 rounded-lg bg-muted/50 p-2 text-sm text-foreground'
+                }
+              >
+                <span className="whitespace-pre-wrap">{turn.content}</span>
+                {turn.role === 'assistant' && turn.mermaidCode && (
+                  <Button
+                    onClick={() => onRestore(turn.mermaidCode)}
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 shrink-0 gap-1 px-2 text-xs"
+                    title="Load this version into the editor"
+                  >
+                    <RotateCcw className="w-3 h-3" />
+                    Restore
+                  </Button>
+                )}
+              </div>
+            ))
+          )}
+          <div ref={threadEndRef} />
+        </div>
+
+        <Textarea
+          placeholder="Describe a change to the current diagram (Ctrl+Enter to send)"
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          onKeyDown={handleKeyDown}
+          disabled={!canRefine}
+          className="min-h-20 resize-none"
+        />
+        <div className="flex justify-end">
+          <Button
+            onClick={handleSubmit}
+            disabled={!canRefine || isRefining || !instruction.trim()}
+            className="gap-2"
+          >
+            {isRefining ? (
+              <>
+                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-current"></div>
+                Refining...
+              </>
+            ) : (
+              <>
+                <Send className="w-4 h-4" />
+                Refine
+              </>
+            )}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import { useTheme } from 'next-themes';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import {
+  DEFAULT_DIAGRAM_THEME,
+  DiagramTheme,
+  isDefaultTheme,
+  isUsableThemeValue,
+  loadThemePresets,
+  MERMAID_THEMES,
+  normalizeTheme,
+  saveThemePresets,
+  THEME_VARIABLES,
+  ThemePreset
+} from '@/lib/mermaid/themes';
+import { FlowchartPreview } from './FlowchartPreview';
+import { RotateCcw, Save, Trash2, X } from 'lucide-react';
+
+interface ThemePanelProps {
+  theme: DiagramTheme;
+  onChange: (theme: DiagramTheme) => void;
+}
+
+const GALLERY_SAMPLE = `flowchart LR
+    A[Source] --> B{Valid?}
+    B -->|yes| C[(Warehouse)]
+    B -->|no| D[Quarantine]`;
+
+// One object per theme so the gallery previews do not re-render on every edit
+const GALLERY_THEMES = Object.fromEntries(MERMAID_THEMES.map((option) => [option.id, { base: option.id, themeVariables: {} }])) as Record<
+  DiagramTheme['base'],
+  DiagramTheme
+>;
+
+/** `<input type="color">` only accepts #rrggbb, so shorthand and named colors show as black until edited. */
+const toColorInputValue = (value: string): string => {
+  if (/^#[0-9a-f]{6}$/i.test(value)) return value;
+  const short = /^#([0-9a-f])([0-9a-f])([0-9a-f])$/i.exec(value);
+  return short ? `#${short[1]}${short[1]}${short[2]}${short[2]}${short[3]}${short[3]}` : '#000000';
+};
+
+export const ThemePanel: React.FC<ThemePanelProps> = ({ theme, onChange }) => {
+  const [presets, setPresets] = useState<ThemePreset[]>(loadThemePresets);
+  const [presetName, setPresetName] = useState('');
+  const { toast } = useToast();
+  const { resolvedTheme } = useTheme();
+
+  const setVariable = (id: string, value: string) => {
+    const themeVariables = { ...theme.themeVariables, [id]: value };
+    if (!value) delete themeVariables[id];
+    onChange({ ...theme, themeVariables });
+  };
+
+  const updatePresets = (next: ThemePreset[]) => {
+    setPresets(next);
+    saveThemePresets(next);
+  };
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    const preset: ThemePreset = { name, ...normalizeTheme(theme) };
+    const exists = presets.some((candidate) => candidate.name === name);
+    updatePresets(exists ? presets.map((candidate) => (candidate.name === name ? preset : candidate)) : [...presets, preset]);
+    setPresetName('');
+    toast({
+      title: exists ? "Preset updated" : "Preset saved",
+      description: `"${name}" can be applied again from the preset list`,
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Label>Theme</Label>
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          {MERMAID_THEMES.map((option) => (
+            <button
+              key={option.id}
+              type="button"
+              onClick={() => onChange({ ...theme, base: option.id })}
+              className={`rounded-lg border p-2 text-left transition-colors ${
+                theme.base === option.id ? 'border-blue-500 ring-2 ring-blue-200 dark:ring-blue-900' : 'hover:border-muted-foreground/40'
+              }`}
+            >
+              <div className="h-24 overflow-hidden pointer-events-none">
+                <FlowchartPreview mermaidCode={GALLERY_SAMPLE} theme={GALLERY_THEMES[option.id]} />
+              </div>
+              <div className="mt-2 text-sm font-medium">{option.label}</div>
+              <div className="text-xs text-muted-foreground">{option.description}</div>
+            </button>
+          ))}
+        </div>
+        {resolvedTheme === 'dark' && isDefaultTheme(theme) && (
+          <p className="text-xs text-muted-foreground">The preview uses the Dark theme while the app is in dark mode. Pick a theme to keep it in both modes.</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Theme variables</Label>
+          <Button onClick={() => onChange(DEFAULT_DIAGRAM_THEME)} variant="ghost" size="sm" className="gap-2">
+            <RotateCcw className="w-4 h-4" />
+            Reset
+          </Button>
+        </div>
+        {theme.base !== 'base' && Object.keys(theme.themeVariables).length > 0 && (
+          <p className="text-xs text-amber-700 dark:text-amber-400">Choose the Base theme for overrides to recolor every element consistently.</p>
+        )}
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {THEME_VARIABLES.map((variable) => {
+            const value = theme.themeVariables[variable.id] ?? '';
+            // Kept in the field so it can be corrected, but left out of the render until Mermaid can use it
+            const isRejected = !!value && !isUsableThemeValue(variable.id, value);
+            return (
+              <div key={variable.id} className="space-y-1">
+                <Label htmlFor={`theme-${variable.id}`} className="text-xs">
+                  {variable.label}
+                </Label>
+                <div className="flex items-center gap-2">
+                  {variable.kind === 'color' && (
+                    <input
+                      type="color"
+                      aria-label={`${variable.label} color`}
+                      value={toColorInputValue(value)}
+                      onChange={(e) => setVariable(variable.id, e.target.value)}
+                      className="h-9 w-10 shrink-0 cursor-pointer rounded border bg-transparent p-1"
+                    />
+                  )}
+                  <Input
+                    id={`theme-${variable.id}`}
+                    value={value}
+                    onChange={(e) => setVariable(variable.id, e.target.value)}
+                    placeholder={variable.kind === 'color' ? 'Theme default' : variable.kind === 'font' ? 'Inter, sans-serif' : '16px'}
+                    aria-invalid={isRejected}
+                    className={`h-9 font-mono text-xs ${isRejected ? 'border-destructive' : ''}`}
+                  />
+                  {value && (
+                    <Button onClick={() => setVariable(variable.id, '')} variant="ghost" size="icon" className="h-9 w-9 shrink-0" title="Use theme default">
+                      <X className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+                {isRejected && (
+                  <p className="text-xs text-destructive">Not applied: use a hex, rgb(), hsl() or named color.</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="theme-preset-name">Presets</Label>
+        <div className="flex items-center gap-2">
+          <Input
+            id="theme-preset-name"
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSavePreset()}
+            placeholder="Company style guide"
+          />
+          <Button onClick={handleSavePreset} disabled={!presetName.trim()} variant="outline" className="gap-2 shrink-0">
+            <Save className="w-4 h-4" />
+            Save Preset
+          </Button>
+        </div>
+        {presets.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {presets.map((preset) => (
+              <div key={preset.name} className="flex items-center rounded-md border">
+                <Button
+                  onClick={() => onChange({ base: preset.base, themeVariables: { ...preset.themeVariables } })}
+                  variant="ghost"
+                  size="sm"
+                  className="gap-2"
+                >
+                  <span
+                    className="h-3 w-3 rounded-full border border-muted-foreground/30"
+                    style={{ backgroundColor: preset.themeVariables.primaryColor }}
+                  />
+                  {preset.name}
+                </Button>
+                <Button
+                  onClick={() => updatePresets(presets.filter((candidate) => candidate !== preset))}
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  title={`Delete ${preset.name}`}
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,53 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { importBpmn } from '@/lib/importers/bpmn';
+import { ImportSourceInput } from './ImportSourceInput';
+import { ImporterProps } from './types';
+import { Workflow } from 'lucide-react';
+
+export const BpmnImporter: React.FC<ImporterProps> = ({ onImport }) => {
+  const [source, setSource] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [showLanes, setShowLanes] = useState(true);
+  const { toast } = useToast();
+
+  const handleImport = () => {
+    try {
+      onImport(importBpmn(source, { showLanes }), fileName || 'BPMN');
+    } catch (err) {
+      toast({
+        title: "Import failed",
+        description: err instanceof Error ? err.message : "Could not read the BPMN file",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <ImportSourceInput
+        value={source}
+        onChange={setSource}
+        accept=".bpmn,.bpmn20.xml,.xml"
+        fileName={fileName}
+        onFileNameChange={setFileName}
+        placeholder="Paste BPMN 2.0 XML exported from Camunda Modeler, bpmn.io or Signavio, or upload the .bpmn file"
+      />
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Switch id="bpmn-lanes" checked={showLanes} onCheckedChange={setShowLanes} />
+          <Label htmlFor="bpmn-lanes">Show pools and lanes</Label>
+        </div>
+
+        <Button onClick={handleImport} disabled={!source.trim()} className="gap-2">
+          <Workflow className="w-4 h-4" />
+          Import BPMN
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { DBT_GROUPINGS, DbtGrouping, importDbtManifest } from '@/lib/importers/dbtManifest';
+import { ImportSourceInput } from './ImportSourceInput';
+import { ImporterProps } from './types';
+import { GitFork } from 'lucide-react';
+
+export const DbtManifestImporter: React.FC<ImporterProps> = ({ onImport }) => {
+  const [manifest, setManifest] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [select, setSelect] = useState('');
+  const [exclude, setExclude] = useState('');
+  const [grouping, setGrouping] = useState<DbtGrouping>('folder');
+  const [showTests, setShowTests] = useState(true);
+  const { toast } = useToast();
+
+  const handleImport = () => {
+    try {
+      const result = importDbtManifest(manifest, { select, exclude, grouping, showTests });
+      const selection = select.trim() ? ` (${select.trim()})` : '';
+      onImport(result, `${fileName || 'dbt manifest'}${selection}`);
+    } catch (err) {
+      toast({
+        title: "Import failed",
+        description: err instanceof Error ? err.message : "Could not read the manifest",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <ImportSourceInput
+        value={manifest}
+        onChange={setManifest}
+        accept=".json"
+        fileName={fileName}
+        onFileNameChange={setFileName}
+        placeholder="Paste the contents of target/manifest.json or upload it"
+      />
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="dbt-select">Select</Label>
+          <Input
+            id="dbt-select"
+            value={select}
+            onChange={(e) => setSelect(e.target.value)}
+            placeholder="+orders+ tag:nightly"
+            className="font-mono text-xs"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="dbt-exclude">Exclude</Label>
+          <Input
+            id="dbt-exclude"
+            value={exclude}
+            onChange={(e) => setExclude(e.target.value)}
+            placeholder="path:models/legacy"
+            className="font-mono text-xs"
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-4">
+          <Select value={grouping} onValueChange={(value) => setGrouping(value as DbtGrouping)}>
+            <SelectTrigger className="w-48" aria-label="Grouping">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DBT_GROUPINGS.map((option) => (
+                <SelectItem key={option.id} value={option.id}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-2">
+            <Switch id="dbt-tests" checked={showTests} onCheckedChange={setShowTests} />
+            <Label htmlFor="dbt-tests">Show tests</Label>
+          </div>
+        </div>
+
+        <Button onClick={handleImport} disabled={!manifest.trim()} className="gap-2">
+          <GitFork className="w-4 h-4" />
+          Import Lineage
+        </Button>
+      </div>
+    </div>
+  );
+};
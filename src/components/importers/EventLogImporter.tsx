@@ -0,0 +1,114 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { parseCsv } from '@/lib/importers/csv';
+import { EventLogColumns, guessEventLogColumns, importEventLog } from '@/lib/importers/eventLog';
+import { ImportSourceInput } from './ImportSourceInput';
+import { ImporterProps } from './types';
+import { Route } from 'lucide-react';
+
+const COLUMN_LABELS: Array<{ id: keyof EventLogColumns; label: string }> = [
+  { id: 'caseId', label: 'Case id' },
+  { id: 'activity', label: 'Activity' },
+  { id: 'timestamp', label: 'Timestamp' }
+];
+
+export const EventLogImporter: React.FC<ImporterProps> = ({ onImport }) => {
+  const [source, setSource] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [columns, setColumns] = useState<EventLogColumns>({ caseId: -1, activity: -1, timestamp: -1 });
+  const [pathThreshold, setPathThreshold] = useState(0);
+  const [hasImported, setHasImported] = useState(false);
+  const { toast } = useToast();
+
+  // Parse errors surface on import; until then there are simply no columns to pick
+  const table = useMemo(() => {
+    try {
+      return source.trim() ? parseCsv(source) : null;
+    } catch {
+      return null;
+    }
+  }, [source]);
+
+  useEffect(() => {
+    if (table) setColumns(guessEventLogColumns(table.headers));
+    setHasImported(false);
+  }, [table]);
+
+  const runImport = (threshold: number) => {
+    try {
+      if (!table) throw new Error('The CSV is empty');
+      onImport(importEventLog(table, { columns, pathThreshold: threshold }), fileName || 'event log');
+      setHasImported(true);
+    } catch (err) {
+      toast({
+        title: "Import failed",
+        description: err instanceof Error ? err.message : "Could not read the event log",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <ImportSourceInput
+        value={source}
+        onChange={setSource}
+        accept=".csv,.tsv,.txt"
+        fileName={fileName}
+        onFileNameChange={setFileName}
+        placeholder={`case_id,activity,timestamp
+run-1,extract,2024-05-01T02:00:00Z
+run-1,transform,2024-05-01T02:07:12Z
+run-1,load,2024-05-01T02:09:40Z`}
+      />
+
+      {table && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          {COLUMN_LABELS.map(({ id, label }) => (
+            <div key={id} className="space-y-1">
+              <Label>{label}</Label>
+              <Select
+                value={columns[id] >= 0 ? String(columns[id]) : undefined}
+                onValueChange={(value) => setColumns((current) => ({ ...current, [id]: Number(value) }))}
+              >
+                <SelectTrigger aria-label={`${label} column`}>
+                  <SelectValue placeholder="Choose a column" />
+                </SelectTrigger>
+                <SelectContent>
+                  {table.headers.map((header, index) => (
+                    <SelectItem key={index} value={String(index)}>
+                      {header || `Column ${index + 1}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex-1 min-w-[12rem] space-y-2">
+          <Label>Hide paths below {pathThreshold}% of the busiest path</Label>
+          <Slider
+            value={[pathThreshold]}
+            min={0}
+            max={100}
+            step={1}
+            onValueChange={([value]) => setPathThreshold(value)}
+            onValueCommit={([value]) => hasImported && runImport(value)}
+          />
+        </div>
+
+        <Button onClick={() => runImport(pathThreshold)} disabled={!source.trim()} className="gap-2">
+          <Route className="w-4 h-4" />
+          Mine Process
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,53 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { importExplainPlan } from '@/lib/importers/explainPlan';
+import { ImportSourceInput } from './ImportSourceInput';
+import { ImporterProps } from './types';
+import { Gauge } from 'lucide-react';
+
+export const ExplainPlanImporter: React.FC<ImporterProps> = ({ onImport }) => {
+  const [source, setSource] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [showConditions, setShowConditions] = useState(true);
+  const { toast } = useToast();
+
+  const handleImport = () => {
+    try {
+      onImport(importExplainPlan(source, { showConditions }), fileName || 'query plan');
+    } catch (err) {
+      toast({
+        title: "Import failed",
+        description: err instanceof Error ? err.message : "Could not read the query plan",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <ImportSourceInput
+        value={source}
+        onChange={setSource}
+        accept=".json,.txt"
+        fileName={fileName}
+        onFileNameChange={setFileName}
+        placeholder="Paste the output of EXPLAIN (ANALYZE, FORMAT JSON) SELECT ...; psql output with its QUERY PLAN header works too"
+      />
+
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Switch id="explain-conditions" checked={showConditions} onCheckedChange={setShowConditions} />
+          <Label htmlFor="explain-conditions">Show conditions and sort keys</Label>
+        </div>
+
+        <Button onClick={handleImport} disabled={!source.trim()} className="gap-2">
+          <Gauge className="w-4 h-4" />
+          Visualize Plan
+        </Button>
+      </div>
+    </div>
+  );
+};
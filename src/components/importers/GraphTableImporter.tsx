@@ -0,0 +1,312 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { FlowDirection, NodeShape } from '@/lib/diagram/model';
+import { CsvTable, parseCsv } from '@/lib/importers/csv';
+import {
+  distinctValues,
+  EdgeTableColumns,
+  GRAPH_DIRECTIONS,
+  GraphKeyword,
+  guessEdgeColumns,
+  guessNodeColumns,
+  guessShape,
+  importGraphTables,
+  NODE_SHAPES,
+  NodeTableColumns
+} from '@/lib/importers/graphTable';
+import { ImportSourceInput } from './ImportSourceInput';
+import { ImporterProps } from './types';
+import { Columns3, Share2 } from 'lucide-react';
+
+const NO_COLUMN = '-1';
+
+const EDGE_COLUMN_LABELS: Array<{ id: keyof EdgeTableColumns; label: string; required?: boolean }> = [
+  { id: 'source', label: 'Source', required: true },
+  { id: 'target', label: 'Target', required: true },
+  { id: 'label', label: 'Edge label' }
+];
+
+const NODE_COLUMN_LABELS: Array<{ id: keyof NodeTableColumns; label: string; required?: boolean }> = [
+  { id: 'id', label: 'Node id', required: true },
+  { id: 'label', label: 'Display label' },
+  { id: 'shape', label: 'Shape' },
+  { id: 'className', label: 'Class' },
+  { id: 'group', label: 'Group (subgraph)' }
+];
+
+const EMPTY_NODE_COLUMNS: NodeTableColumns = { id: -1, label: -1, shape: -1, className: -1, group: -1 };
+
+// Parse errors surface on import; until then there are simply no columns to map
+const tryParseCsv = (text: string): CsvTable | null => {
+  try {
+    return text.trim() ? parseCsv(text) : null;
+  } catch {
+    return null;
+  }
+};
+
+interface ColumnSelectProps {
+  label: string;
+  headers: string[];
+  value: number;
+  required?: boolean;
+  onChange: (value: number) => void;
+}
+
+const ColumnSelect: React.FC<ColumnSelectProps> = ({ label, headers, value, required, onChange }) => (
+  <div className="space-y-1">
+    <Label>{label}</Label>
+    <Select value={value >= 0 ? String(value) : required ? undefined : NO_COLUMN} onValueChange={(next) => onChange(Number(next))}>
+      <SelectTrigger aria-label={`${label} column`}>
+        <SelectValue placeholder="Choose a column" />
+      </SelectTrigger>
+      <SelectContent>
+        {!required && <SelectItem value={NO_COLUMN}>None</SelectItem>}
+        {headers.map((header, index) => (
+          <SelectItem key={index} value={String(index)}>
+            {header || `Column ${index + 1}`}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  </div>
+);
+
+export const GraphTableImporter: React.FC<ImporterProps> = ({ onImport }) => {
+  const [edgeSource, setEdgeSource] = useState('');
+  const [edgeFileName, setEdgeFileName] = useState('');
+  const [nodeSource, setNodeSource] = useState('');
+  const [nodeFileName, setNodeFileName] = useState('');
+  const [edgeColumns, setEdgeColumns] = useState<EdgeTableColumns>({ source: -1, target: -1, label: -1 });
+  const [nodeColumns, setNodeColumns] = useState<NodeTableColumns>(EMPTY_NODE_COLUMNS);
+  const [shapeOverrides, setShapeOverrides] = useState<Record<string, NodeShape>>({});
+  const [keyword, setKeyword] = useState<GraphKeyword>('flowchart');
+  const [direction, setDirection] = useState<FlowDirection>('LR');
+  const { toast } = useToast();
+
+  const edgeTable = useMemo(() => tryParseCsv(edgeSource), [edgeSource]);
+  const nodeTable = useMemo(() => tryParseCsv(nodeSource), [nodeSource]);
+
+  useEffect(() => {
+    if (edgeTable) setEdgeColumns(guessEdgeColumns(edgeTable.headers));
+  }, [edgeTable]);
+
+  useEffect(() => {
+    setNodeColumns(nodeTable ? guessNodeColumns(nodeTable.headers) : EMPTY_NODE_COLUMNS);
+  }, [nodeTable]);
+
+  const shapeValues = useMemo(() => (nodeTable ? distinctValues(nodeTable, nodeColumns.shape) : []), [nodeTable, nodeColumns.shape]);
+  const classValues = useMemo(() => (nodeTable ? distinctValues(nodeTable, nodeColumns.className) : []), [nodeTable, nodeColumns.className]);
+  const shapeMap = useMemo(
+    () => Object.fromEntries(shapeValues.map((value) => [value, shapeOverrides[value] ?? guessShape(value)])),
+    [shapeValues, shapeOverrides]
+  );
+
+  const describeColumn = (table: CsvTable | null, column: number) => (table && column >= 0 ? table.headers[column] || `Column ${column + 1}` : '—');
+
+  const handleImport = () => {
+    try {
+      if (!edgeTable) throw new Error('The edge CSV is empty');
+      const result = importGraphTables(edgeTable, nodeTable, { edgeColumns, nodeColumns, shapeMap, keyword, direction });
+      onImport(result, edgeFileName || 'edge list');
+    } catch (err) {
+      toast({
+        title: "Import failed",
+        description: err instanceof Error ? err.message : "Could not read the tables",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <Label>Edges</Label>
+          <ImportSourceInput
+            value={edgeSource}
+            onChange={setEdgeSource}
+            accept=".csv,.tsv,.txt"
+            fileName={edgeFileName}
+            onFileNameChange={setEdgeFileName}
+            placeholder={`source,target,label
+raw.orders,stg.orders,select
+stg.orders,mart.revenue,join
+
+Cells pasted from a spreadsheet work too`}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label>
+            Nodes <span className="text-muted-foreground font-normal">(optional)</span>
+          </Label>
+          <ImportSourceInput
+            value={nodeSource}
+            onChange={setNodeSource}
+            accept=".csv,.tsv,.txt"
+            fileName={nodeFileName}
+            onFileNameChange={setNodeFileName}
+            placeholder={`id,label,type,status,schema
+raw.orders,Orders,table,fresh,raw
+mart.revenue,Revenue,model,stale,mart`}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap items-center gap-4">
+          <Dialog>
+            <DialogTrigger asChild>
+              <Button variant="outline" disabled={!edgeTable} className="gap-2">
+                <Columns3 className="w-4 h-4" />
+                Map Columns
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>Map columns</DialogTitle>
+                <DialogDescription>
+                  Pick which columns hold the graph. Shapes and classes come from the node table.
+                </DialogDescription>
+              </DialogHeader>
+
+              {edgeTable && (
+                <div className="space-y-2">
+                  <h4 className="text-sm font-medium">Edge table</h4>
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                    {EDGE_COLUMN_LABELS.map(({ id, label, required }) => (
+                      <ColumnSelect
+                        key={id}
+                        label={label}
+                        headers={edgeTable.headers}
+                        value={edgeColumns[id]}
+                        required={required}
+                        onChange={(value) => setEdgeColumns((current) => ({ ...current, [id]: value }))}
+                      />
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {nodeTable && (
+                <div className="space-y-2">
+                  <h4 className="text-sm font-medium">Node table</h4>
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                    {NODE_COLUMN_LABELS.map(({ id, label, required }) => (
+                      <ColumnSelect
+                        key={id}
+                        label={label}
+                        headers={nodeTable.headers}
+                        value={nodeColumns[id]}
+                        required={required}
+                        onChange={(value) => setNodeColumns((current) => ({ ...current, [id]: value }))}
+                      />
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {shapeValues.length > 0 && (
+                <div className="space-y-2">
+                  <h4 className="text-sm font-medium">Shapes</h4>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    {shapeValues.map((value) => (
+                      <div key={value} className="flex items-center justify-between gap-2">
+                        <span className="text-sm font-mono truncate" title={value}>
+                          {value}
+                        </span>
+                        <Select
+                          value={shapeMap[value]}
+                          onValueChange={(shape) => setShapeOverrides((current) => ({ ...current, [value]: shape as NodeShape }))}
+                        >
+                          <SelectTrigger className="w-44" aria-label={`Shape for ${value}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {NODE_SHAPES.map((shape) => (
+                              <SelectItem key={shape.id} value={shape.id}>
+                                {shape.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {classValues.length > 0 && (
+                <div className="space-y-2">
+                  <h4 className="text-sm font-medium">Classes</h4>
+                  <div className="flex flex-wrap gap-1">
+                    {classValues.map((value) => (
+                      <Badge key={value} variant="secondary" className="font-mono">
+                        {value}
+                      </Badge>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground">Each class gets its own color; edit the generated classDef lines to restyle them.</p>
+                </div>
+              )}
+
+              <DialogFooter>
+                <DialogClose asChild>
+                  <Button>Done</Button>
+                </DialogClose>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+
+          {edgeTable && (
+            <span className="text-sm text-muted-foreground">
+              {describeColumn(edgeTable, edgeColumns.source)} → {describeColumn(edgeTable, edgeColumns.target)}
+              {nodeTable && `, nodes by ${describeColumn(nodeTable, nodeColumns.id)}`}
+            </span>
+          )}
+
+          <Select value={keyword} onValueChange={(value) => setKeyword(value as GraphKeyword)}>
+            <SelectTrigger className="w-32" aria-label="Diagram keyword">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="flowchart">flowchart</SelectItem>
+              <SelectItem value="graph">graph</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={direction} onValueChange={(value) => setDirection(value as FlowDirection)}>
+            <SelectTrigger className="w-40" aria-label="Direction">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {GRAPH_DIRECTIONS.map((option) => (
+                <SelectItem key={option.id} value={option.id}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Button onClick={handleImport} disabled={!edgeSource.trim()} className="gap-2">
+          <Share2 className="w-4 h-4" />
+          Import Graph
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { HarImportOptions, importHar } from '@/lib/importers/har';
+import { ImportSourceInput } from './ImportSourceInput';
+import { ImporterProps } from './types';
+import { Globe } from 'lucide-react';
+
+const OPTION_LABELS: Array<{ id: keyof HarImportOptions; label: string }> = [
+  { id: 'collapseStaticAssets', label: 'Collapse static assets' },
+  { id: 'groupByOrigin', label: 'Group by origin' },
+  { id: 'showHeaders', label: 'Show headers' },
+  { id: 'redact', label: 'Redact headers and query strings' }
+];
+
+export const HarImporter: React.FC<ImporterProps> = ({ onImport }) => {
+  const [source, setSource] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [options, setOptions] = useState<HarImportOptions>({
+    collapseStaticAssets: true,
+    groupByOrigin: true,
+    showHeaders: false,
+    redact: true
+  });
+  const { toast } = useToast();
+
+  const handleImport = () => {
+    try {
+      onImport(importHar(source, options), fileName || 'HAR');
+    } catch (err) {
+      toast({
+        title: "Import failed",
+        description: err instanceof Error ? err.message : "Could not read the HAR file",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <ImportSourceInput
+        value={source}
+        onChange={setSource}
+        accept=".har,.json"
+        fileName={fileName}
+        onFileNameChange={setFileName}
+        placeholder='Paste a .har export (DevTools → Network → "Save all as HAR") or upload it'
+      />
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap items-center gap-4">
+          {OPTION_LABELS.map(({ id, label }) => (
+            <div key={id} className="flex items-center gap-2">
+              <Switch
+                id={`har-${id}`}
+                checked={options[id]}
+                onCheckedChange={(checked) => setOptions((current) => ({ ...current, [id]: checked }))}
+              />
+              <Label htmlFor={`har-${id}`}>{label}</Label>
+            </div>
+          ))}
+        </div>
+
+        <Button onClick={handleImport} disabled={!source.trim()} className="gap-2">
+          <Globe className="w-4 h-4" />
+          Import HAR
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import React, { useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Upload } from 'lucide-react';
+
+interface ImportSourceInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  accept: string;
+  placeholder: string;
+  fileName?: string;
+  onFileNameChange?: (fileName: string) => void;
+}
+
+export const ImportSourceInput: React.FC<ImportSourceInputProps> = ({
+  value,
+  onChange,
+  accept,
+  placeholder,
+  fileName,
+  onFileNameChange
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    onChange(await file.text());
+    onFileNameChange?.(file.name);
+    // Allow picking the same file again after editing the pasted text
+    e.target.value = '';
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-muted-foreground">
+          {fileName ? `Loaded ${fileName}` : 'Paste below or upload a file'}
+        </span>
+        <Button
+          onClick={() => fileInputRef.current?.click()}
+          variant="outline"
+          size="sm"
+          className="gap-2"
+        >
+          <Upload className="w-4 h-4" />
+          Upload File
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={accept}
+          onChange={handleFileChange}
+          className="hidden"
+        />
+      </div>
+      <Textarea
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          onFileNameChange?.('');
+        }}
+        placeholder={placeholder}
+        spellCheck={false}
+        className="min-h-40 resize-y font-mono text-xs"
+      />
+    </div>
+  );
+};
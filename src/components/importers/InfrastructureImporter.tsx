@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { importInfrastructureYaml } from '@/lib/importers/infrastructure';
+import { ImportSourceInput } from './ImportSourceInput';
+import { ImporterProps } from './types';
+import { Server } from 'lucide-react';
+
+const FORMAT_LABELS = {
+  'docker-compose': 'docker-compose file',
+  kubernetes: 'Kubernetes manifests'
+};
+
+export const InfrastructureImporter: React.FC<ImporterProps> = ({ onImport }) => {
+  const [yaml, setYaml] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [grouped, setGrouped] = useState(true);
+  const { toast } = useToast();
+
+  const handleImport = () => {
+    try {
+      const result = importInfrastructureYaml(yaml, { grouped });
+      onImport(result, fileName || FORMAT_LABELS[result.format]);
+    } catch (err) {
+      toast({
+        title: "Import failed",
+        description: err instanceof Error ? err.message : "Could not parse the YAML",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <ImportSourceInput
+        value={yaml}
+        onChange={setYaml}
+        accept=".yml,.yaml"
+        fileName={fileName}
+        onFileNameChange={setFileName}
+        placeholder={`services:
+  api:
+    image: node:20
+    environment:
+      DATABASE_URL: postgres://app@db:5432/app
+  db:
+    image: postgres:16`}
+      />
+
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Switch id="infra-grouped" checked={grouped} onCheckedChange={setGrouped} />
+          <Label htmlFor="infra-grouped">Group by namespace / network</Label>
+        </div>
+
+        <Button onClick={handleImport} disabled={!yaml.trim()} className="gap-2">
+          <Server className="w-4 h-4" />
+          Import Architecture
+        </Button>
+      </div>
+    </div>
+  );
+};
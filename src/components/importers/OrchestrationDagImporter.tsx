@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { importOrchestrationDag } from '@/lib/importers/orchestrationDag';
+import { ImportSourceInput } from './ImportSourceInput';
+import { ImporterProps } from './types';
+import { Workflow } from 'lucide-react';
+
+const FRAMEWORK_LABELS = {
+  airflow: 'Airflow DAG',
+  prefect: 'Prefect flow'
+};
+
+export const OrchestrationDagImporter: React.FC<ImporterProps> = ({ onImport }) => {
+  const [source, setSource] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [aiFallback, setAiFallback] = useState(true);
+  const [isImporting, setIsImporting] = useState(false);
+  const { toast } = useToast();
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      const result = await importOrchestrationDag(source, { aiFallback });
+      onImport(result, fileName || FRAMEWORK_LABELS[result.framework]);
+    } catch (err) {
+      toast({
+        title: "Import failed",
+        description: err instanceof Error ? err.message : "Could not parse the DAG",
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <ImportSourceInput
+        value={source}
+        onChange={setSource}
+        accept=".py"
+        fileName={fileName}
+        onFileNameChange={setFileName}
+        placeholder={`with DAG("etl", schedule="@daily") as dag:
+    extract = PythonOperator(task_id="extract", python_callable=run_extract)
+    load = BashOperator(task_id="load", bash_command="load.sh")
+    extract >> load`}
+      />
+
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Switch id="dag-ai-fallback" checked={aiFallback} onCheckedChange={setAiFallback} />
+          <Label htmlFor="dag-ai-fallback">Use AI for loops and dynamic tasks</Label>
+        </div>
+
+        <Button onClick={handleImport} disabled={isImporting || !source.trim()} className="gap-2">
+          {isImporting ? (
+            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-current"></div>
+          ) : (
+            <Workflow className="w-4 h-4" />
+          )}
+          Import DAG
+        </Button>
+      </div>
+    </div>
+  );
+};
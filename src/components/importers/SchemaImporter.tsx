@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import {
+  detectSchemaLanguage,
+  importSchema,
+  SCHEMA_LANGUAGES,
+  SCHEMA_OUTPUTS,
+  SchemaLanguage,
+  SchemaOutput
+} from '@/lib/importers/schema';
+import { ImportSourceInput } from './ImportSourceInput';
+import { ImporterProps } from './types';
+import { Braces } from 'lucide-react';
+
+const AUTO_LANGUAGE = 'auto';
+
+const ACCEPTED_EXTENSIONS = SCHEMA_LANGUAGES.flatMap((language) => language.extensions).join(',');
+
+export const SchemaImporter: React.FC<ImporterProps> = ({ onImport }) => {
+  const [source, setSource] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [language, setLanguage] = useState<SchemaLanguage | typeof AUTO_LANGUAGE>(AUTO_LANGUAGE);
+  const [output, setOutput] = useState<SchemaOutput>('class');
+  const { toast } = useToast();
+
+  const detected = language === AUTO_LANGUAGE && source.trim() ? detectSchemaLanguage(source, fileName) : undefined;
+
+  const handleImport = () => {
+    try {
+      const resolved = language === AUTO_LANGUAGE ? detected : language;
+      if (!resolved) throw new Error('Could not tell which schema language this is; pick one from the list');
+      onImport(importSchema(source, { language: resolved, output }), fileName || 'schema');
+    } catch (err) {
+      toast({
+        title: "Import failed",
+        description: err instanceof Error ? err.message : "Could not read the schema",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <ImportSourceInput
+        value={source}
+        onChange={setSource}
+        accept={ACCEPTED_EXTENSIONS}
+        fileName={fileName}
+        onFileNameChange={setFileName}
+        placeholder={`syntax = "proto3";
+
+message OrderPlaced {
+  string order_id = 1;
+  repeated LineItem items = 2;
+}
+
+JSON Schema, Avro (.avsc/.avpr), GraphQL SDL and Prisma schemas work too`}
+      />
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap items-center gap-4">
+          <Select value={language} onValueChange={(value) => setLanguage(value as SchemaLanguage | typeof AUTO_LANGUAGE)}>
+            <SelectTrigger className="w-56" aria-label="Schema language">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={AUTO_LANGUAGE}>Detect language</SelectItem>
+              {SCHEMA_LANGUAGES.map((option) => (
+                <SelectItem key={option.id} value={option.id}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={output} onValueChange={(value) => setOutput(value as SchemaOutput)}>
+            <SelectTrigger className="w-44" aria-label="Output">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SCHEMA_OUTPUTS.map((option) => (
+                <SelectItem key={option.id} value={option.id}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {detected && (
+            <span className="text-sm text-muted-foreground">
+              Detected: {SCHEMA_LANGUAGES.find((option) => option.id === detected).label}
+            </span>
+          )}
+        </div>
+
+        <Button onClick={handleImport} disabled={!source.trim()} className="gap-2">
+          <Braces className="w-4 h-4" />
+          Import Schema
+        </Button>
+      </div>
+    </div>
+  );
+};
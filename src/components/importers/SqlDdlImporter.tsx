@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { importSqlDdl, SqlDialect, SQL_DIALECTS } from '@/lib/importers/sqlDdl';
+import { ImportSourceInput } from './ImportSourceInput';
+import { ImporterProps } from './types';
+import { Database } from 'lucide-react';
+
+export const SqlDdlImporter: React.FC<ImporterProps> = ({ onImport }) => {
+  const [sql, setSql] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [dialect, setDialect] = useState<SqlDialect>('postgres');
+  const { toast } = useToast();
+
+  const handleImport = () => {
+    try {
+      const result = importSqlDdl(sql, dialect);
+      const dialectLabel = SQL_DIALECTS.find((option) => option.id === dialect)?.label;
+      onImport(result, fileName || `${dialectLabel} DDL`);
+    } catch (err) {
+      toast({
+        title: "Import failed",
+        description: err instanceof Error ? err.message : "Could not parse the DDL",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <ImportSourceInput
+        value={sql}
+        onChange={setSql}
+        accept=".sql,.ddl,.txt"
+        fileName={fileName}
+        onFileNameChange={setFileName}
+        placeholder={`CREATE TABLE customers (
+  id serial PRIMARY KEY,
+  email text NOT NULL UNIQUE
+);
+CREATE TABLE orders (
+  id serial PRIMARY KEY,
+  customer_id int NOT NULL REFERENCES customers(id)
+);`}
+      />
+
+      <div className="flex items-center justify-between gap-2">
+        <Select value={dialect} onValueChange={(value) => setDialect(value as SqlDialect)}>
+          <SelectTrigger className="w-48" aria-label="SQL dialect">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SQL_DIALECTS.map((option) => (
+              <SelectItem key={option.id} value={option.id}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Button onClick={handleImport} disabled={!sql.trim()} className="gap-2">
+          <Database className="w-4 h-4" />
+          Import Tables
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,125 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useToast } from '@/hooks/use-toast';
+import { TERRAFORM_OUTPUTS, TerraformOutput, importTerraformJson, listTerraformResourceTypes } from '@/lib/importers/terraform';
+import { ImportSourceInput } from './ImportSourceInput';
+import { ImporterProps } from './types';
+import { Boxes } from 'lucide-react';
+
+export const TerraformImporter: React.FC<ImporterProps> = ({ onImport }) => {
+  const [source, setSource] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [output, setOutput] = useState<TerraformOutput>('flowchart');
+  const [grouped, setGrouped] = useState(true);
+  const [highlightChanges, setHighlightChanges] = useState(true);
+  const [changesOnly, setChangesOnly] = useState(false);
+  const [resourceTypes, setResourceTypes] = useState<string[]>([]);
+  const { toast } = useToast();
+
+  // The filter lists whatever types the pasted plan contains; parse errors surface on import
+  const availableTypes = useMemo(() => {
+    try {
+      return source.trim() ? listTerraformResourceTypes(source) : [];
+    } catch {
+      return [];
+    }
+  }, [source]);
+
+  const handleImport = () => {
+    try {
+      const selectedTypes = resourceTypes.filter((type) => availableTypes.includes(type));
+      const result = importTerraformJson(source, {
+        output,
+        grouped,
+        highlightChanges: highlightChanges && output === 'flowchart',
+        changesOnly,
+        resourceTypes: selectedTypes
+      });
+      onImport(result, fileName || 'Terraform');
+    } catch (err) {
+      toast({
+        title: "Import failed",
+        description: err instanceof Error ? err.message : "Could not read the Terraform JSON",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <ImportSourceInput
+        value={source}
+        onChange={setSource}
+        accept=".json"
+        fileName={fileName}
+        onFileNameChange={setFileName}
+        placeholder="Paste the output of `terraform show -json plan.tfplan` (or of `terraform show -json` for state) or upload it"
+      />
+
+      {availableTypes.length > 0 && (
+        <div className="space-y-1">
+          <Label>Resource types {resourceTypes.length === 0 && <span className="text-muted-foreground font-normal">(all shown)</span>}</Label>
+          <ToggleGroup
+            type="multiple"
+            variant="outline"
+            size="sm"
+            value={resourceTypes}
+            onValueChange={setResourceTypes}
+            className="flex-wrap justify-start"
+          >
+            {availableTypes.map((type) => (
+              <ToggleGroupItem key={type} value={type} className="font-mono text-xs">
+                {type}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap items-center gap-4">
+          <Select value={output} onValueChange={(value) => setOutput(value as TerraformOutput)}>
+            <SelectTrigger className="w-44" aria-label="Output">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TERRAFORM_OUTPUTS.map((option) => (
+                <SelectItem key={option.id} value={option.id}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-2">
+            <Switch id="terraform-grouped" checked={grouped} onCheckedChange={setGrouped} />
+            <Label htmlFor="terraform-grouped">Group by module and provider</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="terraform-highlight"
+              checked={highlightChanges && output === 'flowchart'}
+              onCheckedChange={setHighlightChanges}
+              disabled={output !== 'flowchart'}
+            />
+            <Label htmlFor="terraform-highlight" className={output !== 'flowchart' ? 'text-muted-foreground' : undefined}>
+              Highlight planned changes{output !== 'flowchart' && ' (graph TD only)'}
+            </Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="terraform-changes-only" checked={changesOnly} onCheckedChange={setChangesOnly} />
+            <Label htmlFor="terraform-changes-only">Changed resources only</Label>
+          </div>
+        </div>
+
+        <Button onClick={handleImport} disabled={!source.trim()} className="gap-2">
+          <Boxes className="w-4 h-4" />
+          Import Terraform
+        </Button>
+      </div>
+    </div>
+  );
+};
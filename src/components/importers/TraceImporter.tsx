@@ -0,0 +1,88 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { importTrace, listTraces } from '@/lib/importers/trace';
+import { ImportSourceInput } from './ImportSourceInput';
+import { ImporterProps } from './types';
+import { Activity } from 'lucide-react';
+
+export const TraceImporter: React.FC<ImporterProps> = ({ onImport }) => {
+  const [source, setSource] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [traceId, setTraceId] = useState('');
+  const [showDurations, setShowDurations] = useState(true);
+  const [showInternalSpans, setShowInternalSpans] = useState(false);
+  const { toast } = useToast();
+
+  // Parse errors surface on import; until then there is simply nothing to pick from
+  const traces = useMemo(() => {
+    try {
+      return source.trim() ? listTraces(source) : [];
+    } catch {
+      return [];
+    }
+  }, [source]);
+  const selectedTrace = traces.find((trace) => trace.id === traceId) ?? traces[0];
+
+  const handleImport = () => {
+    try {
+      const result = importTrace(source, { traceId: selectedTrace?.id, showDurations, showInternalSpans });
+      onImport(result, selectedTrace ? `trace ${selectedTrace.label}` : fileName || 'trace');
+    } catch (err) {
+      toast({
+        title: "Import failed",
+        description: err instanceof Error ? err.message : "Could not read the trace",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <ImportSourceInput
+        value={source}
+        onChange={setSource}
+        accept=".json,.jsonl"
+        fileName={fileName}
+        onFileNameChange={setFileName}
+        placeholder="Paste an OTLP JSON export (resourceSpans) or a trace downloaded from the Jaeger UI"
+      />
+
+      {traces.length > 1 && (
+        <Select value={selectedTrace.id} onValueChange={setTraceId}>
+          <SelectTrigger aria-label="Trace">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {traces.map((trace) => (
+              <SelectItem key={trace.id} value={trace.id}>
+                {trace.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap items-center gap-4">
+          <div className="flex items-center gap-2">
+            <Switch id="trace-durations" checked={showDurations} onCheckedChange={setShowDurations} />
+            <Label htmlFor="trace-durations">Show durations</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="trace-internal" checked={showInternalSpans} onCheckedChange={setShowInternalSpans} />
+            <Label htmlFor="trace-internal">Include internal spans</Label>
+          </div>
+        </div>
+
+        <Button onClick={handleImport} disabled={!source.trim()} className="gap-2">
+          <Activity className="w-4 h-4" />
+          Import Trace
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,181 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useToast } from '@/hooks/use-toast';
+import {
+  importTypeScriptProject,
+  isProjectFile,
+  listSourceFolders,
+  MEMBER_VISIBILITIES,
+  MemberVisibility,
+  stripCommonRoot
+} from '@/lib/importers/typescriptProject';
+import { ArchiveFile, readZipTextFiles } from '@/lib/importers/zip';
+import { ImporterProps } from './types';
+import { Code2, Loader2, Upload } from 'lucide-react';
+
+const readUpload = async (file: File): Promise<ArchiveFile[]> =>
+  file.name.toLowerCase().endsWith('.zip')
+    ? readZipTextFiles(await file.arrayBuffer(), isProjectFile)
+    : [{ path: file.webkitRelativePath || file.name, text: await file.text() }];
+
+export const TypeScriptImporter: React.FC<ImporterProps> = ({ onImport }) => {
+  const [files, setFiles] = useState<ArchiveFile[]>([]);
+  const [uploadName, setUploadName] = useState('');
+  const [pasted, setPasted] = useState('');
+  const [folders, setFolders] = useState<string[]>([]);
+  const [visibility, setVisibility] = useState<MemberVisibility>('public');
+  const [exportedOnly, setExportedOnly] = useState(false);
+  const [groupByFolder, setGroupByFolder] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  // Pasted code is only used when nothing was uploaded
+  const projectFiles = useMemo(
+    () => (files.length > 0 ? files : pasted.trim() ? [{ path: 'pasted.ts', text: pasted }] : []),
+    [files, pasted]
+  );
+  const availableFolders = useMemo(() => listSourceFolders(stripCommonRoot(projectFiles)), [projectFiles]);
+
+  const showError = (err: unknown, fallback: string) => {
+    toast({
+      title: "Import failed",
+      description: err instanceof Error ? err.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (selected.length === 0) return;
+    setIsLoading(true);
+    try {
+      const loaded = (await Promise.all(selected.map(readUpload))).flat();
+      setFiles(loaded);
+      setFolders([]);
+      setUploadName(selected.length === 1 ? selected[0].name : `${selected.length} files`);
+    } catch (err) {
+      showError(err, "Could not read the upload");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleClear = () => {
+    setFiles([]);
+    setUploadName('');
+  };
+
+  const handleImport = async () => {
+    setIsLoading(true);
+    try {
+      const selectedFolders = folders.filter((folder) => availableFolders.includes(folder));
+      const result = await importTypeScriptProject(projectFiles, { folders: selectedFolders, visibility, exportedOnly, groupByFolder });
+      onImport(result, uploadName || 'pasted TypeScript');
+    } catch (err) {
+      showError(err, "Could not analyze the TypeScript sources");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-muted-foreground">
+            {files.length > 0
+              ? `Loaded ${files.filter((file) => !file.path.endsWith('.json')).length} source files from ${uploadName}`
+              : 'Upload a .zip of the project or .ts files, or paste a single file below'}
+          </span>
+          <div className="flex items-center gap-2">
+            {files.length > 0 && (
+              <Button onClick={handleClear} variant="ghost" size="sm">
+                Clear
+              </Button>
+            )}
+            <Button onClick={() => fileInputRef.current?.click()} disabled={isLoading} variant="outline" size="sm" className="gap-2">
+              <Upload className="w-4 h-4" />
+              Upload Project
+            </Button>
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept=".zip,.ts,.tsx,.mts,.cts"
+            onChange={handleUpload}
+            className="hidden"
+          />
+        </div>
+        {files.length === 0 && (
+          <Textarea
+            value={pasted}
+            onChange={(e) => setPasted(e.target.value)}
+            placeholder={`export class OrderService {
+  constructor(private readonly orders: OrderRepository) {}
+}`}
+            spellCheck={false}
+            className="min-h-40 resize-y font-mono text-xs"
+          />
+        )}
+      </div>
+
+      {availableFolders.length > 1 && (
+        <div className="space-y-1">
+          <Label>Folders {folders.length === 0 && <span className="text-muted-foreground font-normal">(all shown)</span>}</Label>
+          <ToggleGroup
+            type="multiple"
+            variant="outline"
+            size="sm"
+            value={folders}
+            onValueChange={setFolders}
+            className="flex-wrap justify-start"
+          >
+            {availableFolders.map((folder) => (
+              <ToggleGroupItem key={folder} value={folder} className="font-mono text-xs">
+                {folder}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap items-center gap-4">
+          <Select value={visibility} onValueChange={(value) => setVisibility(value as MemberVisibility)}>
+            <SelectTrigger className="w-48" aria-label="Member visibility">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MEMBER_VISIBILITIES.map((option) => (
+                <SelectItem key={option.id} value={option.id}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-2">
+            <Switch id="typescript-exported" checked={exportedOnly} onCheckedChange={setExportedOnly} />
+            <Label htmlFor="typescript-exported">Exported types only</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="typescript-grouped" checked={groupByFolder} onCheckedChange={setGroupByFolder} />
+            <Label htmlFor="typescript-grouped">Group by folder</Label>
+          </div>
+        </div>
+
+        <Button onClick={handleImport} disabled={isLoading || projectFiles.length === 0} className="gap-2">
+          {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Code2 className="w-4 h-4" />}
+          Generate Class Diagram
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,6 @@
+import { ImportResult } from '@/lib/importers/types';
+
+export interface ImporterProps {
+  /** Called with the imported diagram and a short description of its source */
+  onImport: (result: ImportResult, source: string) => void;
+}
@@ -1,22 +1,208 @@
 import { useState } from 'react';
 import { invokeLLM } from '@/integrations/core';
+import { getMermaidParseError } from '@/lib/mermaid/validate';
+import {
+  DiagramTypeDefinition,
+  detectDiagramType,
+  enforceDiagramHeader,
+  getDiagramTypeDefinition,
+  AUTO_DIAGRAM_TYPE
+} from '@/lib/mermaid/diagramTypes';
+import { DocumentContext, formatDocumentContext } from '@/lib/documents/extract';
+
+export interface ConversationTurn {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  mermaidCode?: string;
+}
+
+export interface GenerationAttempt {
+  attempt: number;
+  kind: 'initial' | 'repair';
+  mermaidCode: string;
+  error: string | null;
+}
+
+export interface CandidateVariant {
+  id: string;
+  label: string;
+  diagramTypeId: string;
+  instructions?: string;
+}
+
+export interface DiagramCandidate {
+  id: string;
+  label: string;
+  diagramType: string;
+  mermaidCode: string;
+  error: string | null;
+}
+
+export const CANDIDATE_VARIANTS: CandidateVariant[] = [
+  {
+    id: 'flowchart-td',
+    label: 'Flowchart (top-down)',
+    diagramTypeId: 'flowchart',
+    instructions: 'Lay the diagram out top to bottom: the first line must be "flowchart TD".'
+  },
+  {
+    id: 'flowchart-lr',
+    label: 'Flowchart (left-right)',
+    diagramTypeId: 'flowchart',
+    instructions: 'Lay the diagram out left to right: the first line must be "flowchart LR".'
+  },
+  { id: 'sequence', label: 'Sequence', diagramTypeId: 'sequenceDiagram' },
+  { id: 'er', label: 'ER model', diagramTypeId: 'erDiagram' },
+  { id: 'state', label: 'State machine', diagramTypeId: 'stateDiagram' },
+  { id: 'class', label: 'Class model', diagramTypeId: 'classDiagram' }
+];
+
+// Number of times a diagram that fails mermaid.parse is sent back for repair
+const MAX_REPAIR_ATTEMPTS = 2;
+
+const createTurn = (role: ConversationTurn['role'], content: string, mermaidCode?: string): ConversationTurn => ({
+  id: `${role}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  role,
+  content,
+  mermaidCode
+});
+
+const cleanMermaidResponse = (response: unknown): string => {
+  if (typeof response !== 'string') {
+    throw new Error('Invalid response from AI service');
+  }
+
+  // Clean up the response to ensure it's valid Mermaid syntax
+  let mermaidCode = response.trim();
+  
+  // Remove any markdown code blocks if present
+  mermaidCode = mermaidCode.replace(/```mermaid\n?/g, '').replace(/```\n?/g, '');
+
+  return mermaidCode;
+};
+
+const getDiagramLabel = (mermaidCode: string, forcedType?: DiagramTypeDefinition): string =>
+  forcedType?.label ?? detectDiagramType(mermaidCode)?.label ?? 'Diagram';
+
+const buildTypedPrompt = (description: string, diagramType: DiagramTypeDefinition, extraInstructions = '') => `
+  Generate a Mermaid ${diagramType.label} for the following description: "${description}"
+
+  The diagram must be a ${diagramType.label} and its first line must be "${diagramType.header}".
+
+  ${diagramType.instructions}
+  ${extraInstructions}
+
+  Requirements:
+  - Use proper Mermaid syntax for a ${diagramType.label}
+  - Use clear, descriptive labels
+  - Make it visually clear and easy to understand
+  - Only return the Mermaid code, no explanations or markdown formatting
+
+  Example:
+  ${diagramType.example}
+
+  Generate the diagram:
+`;
+
+// Stands in for the typed description when the request comes from documents alone
+const DOCUMENT_ONLY_DESCRIPTION = 'The system, pipeline or process described in the attached documents';
+
+const resolveDescription = (description: string, documents: DocumentContext[]): string =>
+  description.trim() || (documents.length > 0 ? DOCUMENT_ONLY_DESCRIPTION : '');
+
+const withDocumentContext = (prompt: string, documents: DocumentContext[]): string =>
+  documents.length === 0 ? prompt : `
+  Context extracted from the attached documents. Use it as the source of truth for names, steps and relationships:
+
+  ${formatDocumentContext(documents)}
+  ${prompt}`;
+
+const buildRepairPrompt = (
+  mermaidCode: string,
+  parseError: string,
+  intent: string,
+  diagramType?: DiagramTypeDefinition
+) => `
+  The following Mermaid diagram fails to parse.
+
+  It was generated for this request: "${intent}"
+  ${diagramType ? `It must stay a ${diagramType.label} starting with "${diagramType.header}".` : ''}
+
+  Diagram:
+  ${mermaidCode}
+
+  Parser error:
+  ${parseError}
+
+  Requirements:
+  - Fix the syntax error and any similar errors elsewhere in the diagram
+  - Keep the diagram type, nodes, labels and relationships unchanged otherwise
+  - Quote labels that contain special characters such as parentheses, colons or slashes
+  - Only return the corrected Mermaid code, no explanations or markdown formatting
+`;
+
+const requestValidDiagram = async (
+  prompt: string,
+  intent: string,
+  diagramType: DiagramTypeDefinition | undefined,
+  onAttempt: (attempts: GenerationAttempt[]) => void
+): Promise<{ mermaidCode: string; error: string | null }> => {
+  const attempts: GenerationAttempt[] = [];
+  let response = await invokeLLM({
+    prompt,
+    add_context_from_internet: false
+  });
+
+  for (;;) {
+    const cleanedCode = cleanMermaidResponse(response);
+    const mermaidCode = diagramType ? enforceDiagramHeader(cleanedCode, diagramType) : cleanedCode;
+    const error = await getMermaidParseError(mermaidCode);
+    attempts.push({
+      attempt: attempts.length + 1,
+      kind: attempts.length === 0 ? 'initial' : 'repair',
+      mermaidCode,
+      error
+    });
+    onAttempt([...attempts]);
+
+    if (!error || attempts.length > MAX_REPAIR_ATTEMPTS) {
+      return { mermaidCode, error };
+    }
+
+    response = await invokeLLM({
+      prompt: buildRepairPrompt(mermaidCode, error, intent, diagramType),
+      add_context_from_internet: false
+    });
+  }
+};
 
 export const useFlowchartGenerator = () => {
   const [isGenerating, setIsGenerating] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [detectedDiagramType, setDetectedDiagramType] = useState<string>('');
+  const [conversation, setConversation] = useState<ConversationTurn[]>([]);
+  const [attempts, setAttempts] = useState<GenerationAttempt[]>([]);
+  const [candidates, setCandidates] = useState<DiagramCandidate[]>([]);
 
-  const generateFlowchart = async (description: string): Promise<string> => {
-    if (!description.trim()) {
-      throw new Error('Please provide a description for the diagram');
+  const generateFlowchart = async (
+    typedDescription: string,
+    diagramTypeId: string = AUTO_DIAGRAM_TYPE,
+    documents: DocumentContext[] = []
+  ): Promise<string> => {
+    const description = resolveDescription(typedDescription, documents);
+    if (!description) {
+      throw new Error('Please provide a description or attach a document for the diagram');
     }
 
     setIsGenerating(true);
     setError(null);
     setDetectedDiagramType('');
+    setAttempts([]);
 
     try {
-      const prompt = `
+      const forcedType = getDiagramTypeDefinition(diagramTypeId);
+      const prompt = forcedType ? buildTypedPrompt(description, forcedType) : `
         Analyze the following description and generate the appropriate Mermaid diagram: "${description}"
         
         Based on the description, determine the most suitable diagram type:
@@ -72,42 +258,23 @@ export const useFlowchartGenerator = () => {
         Generate the appropriate diagram:
       `;
 
-      const response = await invokeLLM({
-        prompt,
-        add_context_from_internet: false
-      });
-
-      if (typeof response !== 'string') {
-        throw new Error('Invalid response from AI service');
-      }
-
-      // Clean up the response to ensure it's valid Mermaid syntax
-      let mermaidCode = response.trim();
-      
-      // Remove any markdown code blocks if present
-      mermaidCode = mermaidCode.replace(/```mermaid\n?/g, '').replace(/```\n?/g, '');
-      
-      // Detect diagram type from the generated code
-      const diagramTypes = {
-        'erDiagram': 'Entity Relationship Diagram',
-        'sequenceDiagram': 'Sequence Diagram',
-        'classDiagram': 'Class Diagram',
-        'flowchart': 'Flowchart',
-        'gantt': 'Gantt Chart',
-        'stateDiagram': 'State Diagram',
-        'journey': 'User Journey',
-        'graph': 'Graph Diagram'
-      };
-
-      let detectedType = 'Diagram';
-      for (const [key, value] of Object.entries(diagramTypes)) {
-        if (mermaidCode.toLowerCase().includes(key.toLowerCase())) {
-          detectedType = value;
-          break;
-        }
-      }
+      const { mermaidCode, error: parseError } = await requestValidDiagram(
+        withDocumentContext(prompt, documents),
+        description,
+        forcedType,
+        setAttempts
+      );
+      const detectedType = getDiagramLabel(mermaidCode, forcedType);
       
       setDetectedDiagramType(detectedType);
+      if (parseError) {
+        setError(`Diagram still has syntax errors after ${MAX_REPAIR_ATTEMPTS} repair attempts`);
+      }
+      const attached = documents.length > 0 ? `\n\nAttached: ${documents.map((document) => document.name).join(', ')}` : '';
+      setConversation([
+        createTurn('user', `${description}${attached}`),
+        createTurn('assistant', `Generated a ${detectedType}`, mermaidCode)
+      ]);
 
       return mermaidCode;
     } catch (err) {
@@ -119,11 +286,163 @@ export const useFlowchartGenerator = () => {
     }
   };
 
+  const refineFlowchart = async (
+    currentCode: string,
+    instruction: string,
+    diagramTypeId: string = AUTO_DIAGRAM_TYPE
+  ): Promise<string> => {
+    if (!currentCode.trim()) {
+      throw new Error('Generate or write a diagram before refining it');
+    }
+    if (!instruction.trim()) {
+      throw new Error('Please describe the change you want to make');
+    }
+
+    setIsGenerating(true);
+    setError(null);
+    setAttempts([]);
+
+    try {
+      const forcedType = getDiagramTypeDefinition(diagramTypeId);
+      const previousInstructions = conversation
+        .filter((turn) => turn.role === 'user')
+        .map((turn, index) => `${index + 1}. ${turn.content}`)
+        .join('\n');
+      const typeRequirement = forcedType
+        ? `The diagram must be a ${forcedType.label} starting with "${forcedType.header}"`
+        : 'Keep the same diagram type and direction unless the request asks otherwise';
+
+      const prompt = `
+        You are editing an existing Mermaid diagram. Apply the requested change and return the full updated diagram.
+
+        Current diagram:
+        ${currentCode}
+
+        ${previousInstructions ? `Earlier requests in this conversation, for context:\n${previousInstructions}\n` : ''}
+        Requested change: "${instruction}"
+
+        Requirements:
+        - Make the smallest change that satisfies the request
+        - ${typeRequirement}
+        - Preserve every existing node ID, label, style and comment that the request does not touch, including manual edits
+        - Use proper Mermaid syntax
+        - Only return the Mermaid code, no explanations or markdown formatting
+      `;
+
+      const { mermaidCode, error: parseError } = await requestValidDiagram(prompt, instruction, forcedType, setAttempts);
+      const detectedType = getDiagramLabel(mermaidCode, forcedType);
+
+      setDetectedDiagramType(detectedType);
+      if (parseError) {
+        setError(`Diagram still has syntax errors after ${MAX_REPAIR_ATTEMPTS} repair attempts`);
+      }
+      setConversation((turns) => [
+        ...turns,
+        createTurn('user', instruction),
+        createTurn('assistant', `Updated the ${detectedType}`, mermaidCode)
+      ]);
+
+      return mermaidCode;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to refine diagram';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const generateCandidates = async (
+    typedDescription: string,
+    variantIds: string[],
+    documents: DocumentContext[] = []
+  ): Promise<DiagramCandidate[]> => {
+    const description = resolveDescription(typedDescription, documents);
+    if (!description) {
+      throw new Error('Please provide a description or attach a document for the diagram');
+    }
+    const variants = CANDIDATE_VARIANTS.filter((variant) => variantIds.includes(variant.id));
+    if (variants.length === 0) {
+      throw new Error('Select at least one variant to compare');
+    }
+
+    setIsGenerating(true);
+    setError(null);
+    setCandidates([]);
+
+    try {
+      // Variants are independent, so one failing request must not discard the others
+      const results = await Promise.allSettled(
+        variants.map((variant) => {
+          const diagramType = getDiagramTypeDefinition(variant.diagramTypeId);
+          const prompt = buildTypedPrompt(description, diagramType, variant.instructions);
+          return requestValidDiagram(withDocumentContext(prompt, documents), description, diagramType, () => {});
+        })
+      );
+
+      const generated = results.map((result, index): DiagramCandidate => {
+        const variant = variants[index];
+        const diagramType = getDiagramTypeDefinition(variant.diagramTypeId);
+        if (result.status === 'rejected') {
+          return {
+            id: variant.id,
+            label: variant.label,
+            diagramType: diagramType.label,
+            mermaidCode: '',
+            error: result.reason instanceof Error ? result.reason.message : 'Failed to generate diagram'
+          };
+        }
+        return {
+          id: variant.id,
+          label: variant.label,
+          diagramType: diagramType.label,
+          mermaidCode: result.value.mermaidCode,
+          error: result.value.error
+        };
+      });
+
+      setCandidates(generated);
+      return generated;
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const promoteCandidate = (candidate: DiagramCandidate, description: string): string => {
+    setDetectedDiagramType(candidate.diagramType);
+    setError(null);
+    setConversation([
+      createTurn('user', description),
+      createTurn('assistant', `Picked the ${candidate.label} candidate`, candidate.mermaidCode)
+    ]);
+    return candidate.mermaidCode;
+  };
+
+  const loadDiagram = (mermaidCode: string, diagramType: string, source: string): string => {
+    setDetectedDiagramType(diagramType);
+    setError(null);
+    setAttempts([]);
+    setConversation([
+      createTurn('user', `Import ${source}`),
+      createTurn('assistant', `Imported a ${diagramType}`, mermaidCode)
+    ]);
+    return mermaidCode;
+  };
+
   return {
     generateFlowchart,
+    refineFlowchart,
+    generateCandidates,
+    promoteCandidate,
+    loadDiagram,
     isGenerating,
     error,
     detectedDiagramType,
+    conversation,
+    attempts,
+    candidates,
+    clearConversation: () => setConversation([]),
+    clearCandidates: () => setCandidates([]),
     clearError: () => setError(null)
   };
 };
\ No newline at end of file
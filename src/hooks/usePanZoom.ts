@@ -0,0 +1,180 @@
+import { RefObject, useCallback, useEffect, useRef, useState } from 'react';
+
+/** Content is drawn at `scale` with its top-left corner at (`x`, `y`) in viewport pixels. */
+export interface PanZoomView {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+export interface ContentSize {
+  width: number;
+  height: number;
+}
+
+const MIN_SCALE = 0.05;
+const MAX_SCALE = 8;
+const FIT_PADDING = 16;
+const BUTTON_ZOOM_STEP = 1.25;
+// Pointer travel before a press counts as a drag, so clicks on nodes still reach them
+const DRAG_THRESHOLD = 4;
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+interface PointerTrack {
+  startX: number;
+  startY: number;
+  lastX: number;
+  lastY: number;
+}
+
+/**
+ * Wheel, pinch and drag navigation for a viewport showing content of a known
+ * size. Listeners are attached natively because React registers wheel
+ * handlers as passive, which would let the page scroll while zooming.
+ */
+export const usePanZoom = (viewportRef: RefObject<HTMLElement>, content: ContentSize | null) => {
+  const [view, setView] = useState<PanZoomView>({ scale: 1, x: 0, y: 0 });
+  const [isPanning, setIsPanning] = useState(false);
+  const pointers = useRef(new Map<number, PointerTrack>());
+  const pinchDistance = useRef<number | null>(null);
+
+  const viewportSize = useCallback(() => {
+    const viewport = viewportRef.current;
+    return { width: viewport?.clientWidth ?? 0, height: viewport?.clientHeight ?? 0 };
+  }, [viewportRef]);
+
+  /** Zooms by `factor`, keeping the point under (`originX`, `originY`) fixed; defaults to the viewport center. */
+  const zoomAt = useCallback(
+    (factor: number, originX?: number, originY?: number) => {
+      const { width, height } = viewportSize();
+      const anchorX = originX ?? width / 2;
+      const anchorY = originY ?? height / 2;
+      setView((current) => {
+        const scale = clampScale(current.scale * factor);
+        const ratio = scale / current.scale;
+        return { scale, x: anchorX - (anchorX - current.x) * ratio, y: anchorY - (anchorY - current.y) * ratio };
+      });
+    },
+    [viewportSize]
+  );
+
+  const fitWidth = useCallback(
+    (maxScale = MAX_SCALE) => {
+      if (!content) return;
+      const { width } = viewportSize();
+      const scale = clampScale(Math.min(maxScale, (width - FIT_PADDING * 2) / content.width));
+      setView({ scale, x: (width - content.width * scale) / 2, y: FIT_PADDING });
+    },
+    [content, viewportSize]
+  );
+
+  const fitPage = useCallback(() => {
+    if (!content) return;
+    const { width, height } = viewportSize();
+    const scale = clampScale(Math.min((width - FIT_PADDING * 2) / content.width, (height - FIT_PADDING * 2) / content.height));
+    setView({ scale, x: (width - content.width * scale) / 2, y: (height - content.height * scale) / 2 });
+  }, [content, viewportSize]);
+
+  /** Actual size, keeping the top-left of the content in view. */
+  const reset = useCallback(() => {
+    const { width } = viewportSize();
+    setView({ scale: 1, x: content ? Math.max(FIT_PADDING, (width - content.width) / 2) : FIT_PADDING, y: FIT_PADDING });
+  }, [content, viewportSize]);
+
+  /** Moves the view so the given point in content coordinates is centered. */
+  const centerOn = useCallback(
+    (contentX: number, contentY: number) => {
+      const { width, height } = viewportSize();
+      setView((current) => ({ ...current, x: width / 2 - contentX * current.scale, y: height / 2 - contentY * current.scale }));
+    },
+    [viewportSize]
+  );
+
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const tracked = pointers.current;
+
+    const localPoint = (clientX: number, clientY: number) => {
+      const bounds = viewport.getBoundingClientRect();
+      return { x: clientX - bounds.left, y: clientY - bounds.top };
+    };
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const { x, y } = localPoint(event.clientX, event.clientY);
+      // Trackpad pinches arrive as ctrl+wheel with small deltas
+      const sensitivity = event.ctrlKey ? 0.01 : 0.0015;
+      const delta = event.deltaMode === WheelEvent.DOM_DELTA_LINE ? event.deltaY * 16 : event.deltaY;
+      zoomAt(Math.exp(-delta * sensitivity), x, y);
+    };
+
+    const handlePointerDown = (event: PointerEvent) => {
+      if (event.pointerType === 'mouse' && event.button !== 0) return;
+      tracked.set(event.pointerId, { startX: event.clientX, startY: event.clientY, lastX: event.clientX, lastY: event.clientY });
+      pinchDistance.current = null;
+    };
+
+    const handlePointerMove = (event: PointerEvent) => {
+      const pointer = tracked.get(event.pointerId);
+      if (!pointer) return;
+
+      if (tracked.size === 2) {
+        pointer.lastX = event.clientX;
+        pointer.lastY = event.clientY;
+        const [first, second] = [...tracked.values()];
+        const distance = Math.hypot(first.lastX - second.lastX, first.lastY - second.lastY);
+        if (pinchDistance.current) {
+          const { x, y } = localPoint((first.lastX + second.lastX) / 2, (first.lastY + second.lastY) / 2);
+          zoomAt(distance / pinchDistance.current, x, y);
+        }
+        pinchDistance.current = distance;
+        return;
+      }
+
+      const travelled = Math.hypot(event.clientX - pointer.startX, event.clientY - pointer.startY);
+      if (!viewport.hasPointerCapture(event.pointerId)) {
+        if (travelled < DRAG_THRESHOLD) return;
+        viewport.setPointerCapture(event.pointerId);
+        setIsPanning(true);
+      }
+      const dx = event.clientX - pointer.lastX;
+      const dy = event.clientY - pointer.lastY;
+      pointer.lastX = event.clientX;
+      pointer.lastY = event.clientY;
+      setView((current) => ({ ...current, x: current.x + dx, y: current.y + dy }));
+    };
+
+    const handlePointerUp = (event: PointerEvent) => {
+      tracked.delete(event.pointerId);
+      pinchDistance.current = null;
+      if (tracked.size === 0) setIsPanning(false);
+    };
+
+    viewport.addEventListener('wheel', handleWheel, { passive: false });
+    viewport.addEventListener('pointerdown', handlePointerDown);
+    viewport.addEventListener('pointermove', handlePointerMove);
+    viewport.addEventListener('pointerup', handlePointerUp);
+    viewport.addEventListener('pointercancel', handlePointerUp);
+    return () => {
+      viewport.removeEventListener('wheel', handleWheel);
+      viewport.removeEventListener('pointerdown', handlePointerDown);
+      viewport.removeEventListener('pointermove', handlePointerMove);
+      viewport.removeEventListener('pointerup', handlePointerUp);
+      viewport.removeEventListener('pointercancel', handlePointerUp);
+      tracked.clear();
+    };
+  }, [viewportRef, zoomAt]);
+
+  return {
+    view,
+    isPanning,
+    zoomIn: () => zoomAt(BUTTON_ZOOM_STEP),
+    zoomOut: () => zoomAt(1 / BUTTON_ZOOM_STEP),
+    fitWidth,
+    fitPage,
+    reset,
+    centerOn
+  };
+};
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { getDiagramStats, parseDiagram, serializeDiagram } from './diagram';
+
+const roundTrip = (mermaidCode: string) => serializeDiagram(parseDiagram(mermaidCode));
+
+describe('flowchart', () => {
+  const source = [
+    'flowchart LR',
+    '  A[Start] --> B{Valid?}',
+    '  B -- yes --> C((Done))',
+    '  B -.->|no| A',
+    '  subgraph S [Checks]',
+    '    B',
+    '  end',
+    '  classDef warn fill:#fee',
+    '  class A warn'
+  ].join('\n');
+
+  it('parses nodes, edges, subgraphs and classes', () => {
+    const model = parseDiagram(source);
+    if (model.kind !== 'flowchart') throw new Error(`Parsed as ${model.kind}`);
+
+    expect(model.direction).toBe('LR');
+    expect(model.nodes.map((node) => [node.id, node.shape, node.label])).toEqual([
+      ['A', 'rect', 'Start'],
+      ['B', 'rhombus', 'Valid?'],
+      ['C', 'circle', 'Done']
+    ]);
+    expect(model.edges.map((edge) => [edge.from, edge.to, edge.label])).toEqual([
+      ['A', 'B', undefined],
+      ['B', 'C', 'yes'],
+      ['B', 'A', 'no']
+    ]);
+    expect(model.nodes.find((node) => node.id === 'B').subgraph).toBe('S');
+    expect(model.nodes.find((node) => node.id === 'A').classes).toEqual(['warn']);
+  });
+
+  it('serializes to canonical text that parses back to the same model', () => {
+    const serialized = roundTrip(source);
+    expect(serialized).toBe(
+      [
+        'flowchart LR',
+        '    classDef warn fill:#fee',
+        '    subgraph S[Checks]',
+        '        B{Valid?}',
+        '    end',
+        '    A[Start]:::warn',
+        '    C((Done))',
+        '    A --> B',
+        '    B -->|yes| C',
+        '    B -.->|no| A'
+      ].join('\n')
+    );
+    expect(roundTrip(serialized)).toBe(serialized);
+  });
+
+  it('keeps front matter ahead of the declaration', () => {
+    const serialized = roundTrip('---\ntitle: Flow\n---\ngraph TD\n  A --> B');
+    expect(serialized).toBe('---\ntitle: Flow\n---\ngraph TD\n    A --> B');
+  });
+});
+
+describe('erDiagram', () => {
+  it('round-trips entities, attributes and relationships', () => {
+    const serialized = roundTrip(
+      'erDiagram\n  CUSTOMER ||--o{ ORDER : places\n  CUSTOMER {\n    string name PK "display name"\n  }'
+    );
+    expect(serialized).toBe(
+      'erDiagram\n    CUSTOMER ||--o{ ORDER : "places"\n    CUSTOMER {\n        string name PK "display name"\n    }'
+    );
+    expect(roundTrip(serialized)).toBe(serialized);
+    expect(getDiagramStats(parseDiagram(serialized))).toMatchObject({ nodes: 2, connections: 1 });
+  });
+});
+
+describe('sequenceDiagram', () => {
+  it('declares participants on first use and keeps notes and messages in order', () => {
+    const serialized = roundTrip(
+      'sequenceDiagram\n  participant A as Alice\n  A->>B: Hello\n  Note right of B: thinking\n  B-->>A: Hi'
+    );
+    expect(serialized).toBe(
+      [
+        'sequenceDiagram',
+        '    participant A as Alice',
+        '    participant B',
+        '    A->>B: Hello',
+        '    Note right of B: thinking',
+        '    B-->>A: Hi'
+      ].join('\n')
+    );
+    expect(roundTrip(serialized)).toBe(serialized);
+  });
+});
+
+describe('unsupported diagrams', () => {
+  it('keep their source untouched', () => {
+    const source = 'pie title Pets\n  "Dogs" : 3';
+    const model = parseDiagram(source);
+
+    expect(model).toMatchObject({ kind: 'unsupported', keyword: 'pie' });
+    expect(serializeDiagram(model)).toBe(source);
+    expect(getDiagramStats(model)).toBeNull();
+  });
+});
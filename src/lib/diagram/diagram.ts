@@ -0,0 +1,81 @@
+import { DiagramModel } from './model';
+import { splitSource } from './text';
+import { parseFlowchart, serializeFlowchart } from './flowchart';
+import { parseErDiagram, serializeErDiagram } from './erDiagram';
+import { parseSequenceDiagram, serializeSequenceDiagram } from './sequenceDiagram';
+
+export const parseDiagram = (mermaidCode: string): DiagramModel => {
+  const source = splitSource(mermaidCode);
+  const keyword = source.declaration?.text.split(/\s+/)[0];
+
+  switch (keyword) {
+    case 'flowchart':
+    case 'graph':
+      return parseFlowchart(source);
+    case 'erDiagram':
+      return parseErDiagram(source);
+    case 'sequenceDiagram':
+      return parseSequenceDiagram(source);
+    default:
+      return { kind: 'unsupported', keyword, source: mermaidCode };
+  }
+};
+
+export const serializeDiagram = (model: DiagramModel): string => {
+  switch (model.kind) {
+    case 'flowchart':
+      return serializeFlowchart(model);
+    case 'erDiagram':
+      return serializeErDiagram(model);
+    case 'sequenceDiagram':
+      return serializeSequenceDiagram(model);
+    case 'unsupported':
+      return model.source;
+  }
+};
+
+export interface DiagramStats {
+  nodeLabel: string;
+  nodes: number;
+  connectionLabel: string;
+  connections: number;
+}
+
+export const getDiagramStats = (model: DiagramModel): DiagramStats | null => {
+  switch (model.kind) {
+    case 'flowchart':
+      return {
+        nodeLabel: 'Nodes',
+        nodes: model.nodes.length,
+        connectionLabel: 'Connections',
+        connections: model.edges.length
+      };
+    case 'erDiagram':
+      return {
+        nodeLabel: 'Entities',
+        nodes: model.entities.length,
+        connectionLabel: 'Relationships',
+        connections: model.relationships.length
+      };
+    case 'sequenceDiagram': {
+      let messages = 0;
+      const visit = (statements: typeof model.statements) => {
+        statements.forEach((statement) => {
+          if (statement.type === 'message') messages++;
+          if (statement.type === 'block') {
+            statement.sections.forEach((section) => visit(section.statements));
+          }
+        });
+      };
+      visit(model.statements);
+      return {
+        nodeLabel: 'Participants',
+        nodes: model.participants.length,
+        connectionLabel: 'Messages',
+        connections: messages
+      };
+    }
+    case 'unsupported':
+      return null;
+  }
+};
@@ -0,0 +1,140 @@
+import { ErAttribute, ErCardinality, ErDiagramModel, ErEntity, ErKey } from './model';
+import { SplitSource, indent, quoteText, unquote } from './text';
+
+const LEFT_CARDINALITIES: Record<string, ErCardinality> = {
+  '|o': 'zero-or-one',
+  '||': 'exactly-one',
+  '}o': 'zero-or-more',
+  '}|': 'one-or-more'
+};
+
+const RIGHT_CARDINALITIES: Record<string, ErCardinality> = {
+  'o|': 'zero-or-one',
+  '||': 'exactly-one',
+  'o{': 'zero-or-more',
+  '|{': 'one-or-more'
+};
+
+const ENTITY_NAME = String.raw`(?:"[^"]+"|[\p{L}\p{N}_-]+)`;
+const RELATIONSHIP = new RegExp(
+  String.raw`^(${ENTITY_NAME})\s*(\|o|\|\||\}o|\}\|)(--|\.\.)(o\||\|\||o\{|\|\{)\s*(${ENTITY_NAME})\s*:\s*(.+)$`,
+  'u'
+);
+const ENTITY_OPEN = new RegExp(String.raw`^(${ENTITY_NAME})(?:\s*\[\s*("[^"]*"|[^\]]*)\s*\])?\s*\{\s*(\}?)$`, 'u');
+const ATTRIBUTE = /^([\w()[\].,*~<>-]+)\s+([\w-]+)((?:\s+(?:PK|FK|UK)(?:\s*,\s*(?:PK|FK|UK))*)?)(?:\s+"([^"]*)")?$/;
+
+export const parseErDiagram = ({ preamble, body }: SplitSource): ErDiagramModel => {
+  const model: ErDiagramModel = { kind: 'erDiagram', entities: [], relationships: [], preamble };
+  const entitiesById = new Map<string, ErEntity>();
+  let openEntity: ErEntity | null = null;
+
+  const ensureEntity = (id: string, line: number): ErEntity => {
+    let entity = entitiesById.get(id);
+    if (!entity) {
+      entity = { id, attributes: [], line };
+      entitiesById.set(id, entity);
+      model.entities.push(entity);
+    }
+    return entity;
+  };
+
+  body.forEach(({ text, line }) => {
+    if (openEntity) {
+      if (text === '}') {
+        openEntity = null;
+        return;
+      }
+      const attribute = ATTRIBUTE.exec(text);
+      if (attribute) {
+        const parsed: ErAttribute = {
+          type: attribute[1],
+          name: attribute[2],
+          keys: attribute[3].split(/[\s,]+/).filter(Boolean) as ErKey[],
+          line
+        };
+        if (attribute[4] !== undefined) parsed.comment = attribute[4];
+        openEntity.attributes.push(parsed);
+      }
+      return;
+    }
+
+    const relationship = RELATIONSHIP.exec(text);
+    if (relationship) {
+      const from = unquote(relationship[1]);
+      const to = unquote(relationship[5]);
+      ensureEntity(from, line);
+      ensureEntity(to, line);
+      model.relationships.push({
+        from,
+        to,
+        fromCardinality: LEFT_CARDINALITIES[relationship[2]],
+        toCardinality: RIGHT_CARDINALITIES[relationship[4]],
+        identifying: relationship[3] === '--',
+        label: unquote(relationship[6]),
+        line
+      });
+      return;
+    }
+
+    const entityOpen = ENTITY_OPEN.exec(text);
+    if (entityOpen) {
+      const entity = ensureEntity(unquote(entityOpen[1]), line);
+      // The block that lists attributes is the entity's declaration
+      entity.line = line;
+      if (entityOpen[2]) entity.alias = unquote(entityOpen[2]);
+      if (!entityOpen[3]) openEntity = entity;
+      return;
+    }
+
+    const bareEntity = new RegExp(`^${ENTITY_NAME}$`, 'u').exec(text);
+    if (bareEntity) {
+      ensureEntity(unquote(bareEntity[0]), line);
+    }
+  });
+
+  return model;
+};
+
+const invert = (map: Record<string, ErCardinality>): Record<ErCardinality, string> =>
+  Object.fromEntries(Object.entries(map).map(([token, cardinality]) => [cardinality, token])) as Record<ErCardinality, string>;
+
+const LEFT_TOKENS = invert(LEFT_CARDINALITIES);
+const RIGHT_TOKENS = invert(RIGHT_CARDINALITIES);
+
+const serializeEntityName = (id: string): string =>
+  /^[\p{L}\p{N}_-]+$/u.test(id) ? id : quoteText(id);
+
+const serializeAttribute = (attribute: ErAttribute): string => {
+  const keys = attribute.keys.length > 0 ? ` ${attribute.keys.join(', ')}` : '';
+  const comment = attribute.comment ? ` ${quoteText(attribute.comment)}` : '';
+  return `${attribute.type} ${attribute.name}${keys}${comment}`;
+};
+
+export const serializeErDiagram = (model: ErDiagramModel): string => {
+  const lines: string[] = [...model.preamble, 'erDiagram'];
+
+  model.relationships.forEach((relationship) => {
+    const connector = `${LEFT_TOKENS[relationship.fromCardinality]}${relationship.identifying ? '--' : '..'}${RIGHT_TOKENS[relationship.toCardinality]}`;
+    lines.push(
+      `${indent(1)}${serializeEntityName(relationship.from)} ${connector} ${serializeEntityName(relationship.to)} : ${quoteText(relationship.label)}`
+    );
+  });
+
+  model.entities.forEach((entity) => {
+    const alias = entity.alias ? `[${quoteText(entity.alias)}]` : '';
+    if (entity.attributes.length === 0) {
+      // Entities without relationships or attributes still need to appear
+      if (!model.relationships.some((r) => r.from === entity.id || r.to === entity.id) || alias) {
+        lines.push(`${indent(1)}${serializeEntityName(entity.id)}${alias}`);
+      }
+      return;
+    }
+    lines.push(`${indent(1)}${serializeEntityName(entity.id)}${alias} {`);
+    entity.attributes.forEach((attribute) => {
+      lines.push(`${indent(2)}${serializeAttribute(attribute)}`);
+    });
+    lines.push(`${indent(1)}}`);
+  });
+
+  return lines.join('\n');
+};
@@ -0,0 +1,371 @@
+import {
+  EdgeHead,
+  EdgeStroke,
+  FlowchartModel,
+  FlowDirection,
+  FlowEdge,
+  FlowNode,
+  FlowSubgraph,
+  NodeShape
+} from './model';
+import { SplitSource, indent, quoteLabel, unquote } from './text';
+
+// Longest delimiters first so that "([" wins over "(" and "[[" over "["
+const SHAPE_DELIMITERS: Array<[NodeShape, string, string]> = [
+  ['double-circle', '(((', ')))'],
+  ['stadium', '([', '])'],
+  ['subroutine', '[[', ']]'],
+  ['cylinder', '[(', ')]'],
+  ['circle', '((', '))'],
+  ['hexagon', '{{', '}}'],
+  ['parallelogram', '[/', '/]'],
+  ['parallelogram-alt', '[\\', '\\]'],
+  ['trapezoid', '[/', '\\]'],
+  ['trapezoid-alt', '[\\', '/]'],
+  ['asymmetric', '>', ']'],
+  ['rhombus', '{', '}'],
+  ['round', '(', ')'],
+  ['rect', '[', ']']
+];
+
+const DIRECTIONS: FlowDirection[] = ['TD', 'TB', 'BT', 'LR', 'RL'];
+
+const NODE_ID = /^[\p{L}\p{N}_]+(?:-[\p{L}\p{N}_]+)*/u;
+const CLASS_SHORTHAND = /^:::([\w-]+)/;
+// "A -- text --> B", "A == text ==> B", "A -. text .-> B"
+const TEXT_LINK = /^\s*(<)?(--|==|-\.)(?![-=.>])\s*([^|[\](){}]+?)\s*(-{2,}|={2,}|\.+-)([>xo])?(?=\s|[\p{L}\p{N}_])/u;
+// "A --> B", "A ---|text| B", "A -.-> B", "A ==> B", "A ~~~ B"
+const PLAIN_LINK = /^\s*(<)?(-{2,}|={2,}|-\.+-|~~~)([>xo])?\s*(?:\|([^|]*)\|)?/;
+
+interface NodeReference {
+  id: string;
+  shape?: NodeShape;
+  label?: string;
+  classes: string[];
+}
+
+interface ParsedLink {
+  stroke: EdgeStroke;
+  head: EdgeHead;
+  bidirectional: boolean;
+  label?: string;
+}
+
+const parseShape = (text: string): { shape: NodeShape; label: string; length: number } | null => {
+  for (const [shape, open, close] of SHAPE_DELIMITERS) {
+    if (!text.startsWith(open)) continue;
+
+    let contentEnd: number;
+    const afterOpen = text.slice(open.length);
+    if (afterOpen.startsWith('"')) {
+      const closingQuote = afterOpen.indexOf('"', 1);
+      if (closingQuote === -1 || !afterOpen.slice(closingQuote + 1).startsWith(close)) continue;
+      contentEnd = closingQuote + 1;
+    } else {
+      contentEnd = afterOpen.indexOf(close);
+      if (contentEnd === -1) continue;
+    }
+
+    return {
+      shape,
+      label: unquote(afterOpen.slice(0, contentEnd)),
+      length: open.length + contentEnd + close.length
+    };
+  }
+  return null;
+};
+
+const parseNodeReference = (text: string): { node: NodeReference; length: number } | null => {
+  const idMatch = NODE_ID.exec(text);
+  if (!idMatch) return null;
+
+  const node: NodeReference = { id: idMatch[0], classes: [] };
+  let length = idMatch[0].length;
+
+  const shape = parseShape(text.slice(length));
+  if (shape) {
+    node.shape = shape.shape;
+    node.label = shape.label;
+    length += shape.length;
+  }
+
+  const classMatch = CLASS_SHORTHAND.exec(text.slice(length));
+  if (classMatch) {
+    node.classes.push(classMatch[1]);
+    length += classMatch[0].length;
+  }
+
+  return { node, length };
+};
+
+/** Parses "A & B" at the start of the text. */
+const parseNodeGroup = (text: string): { nodes: NodeReference[]; length: number } | null => {
+  const nodes: NodeReference[] = [];
+  let position = 0;
+
+  for (;;) {
+    const whitespace = /^\s*/.exec(text.slice(position))[0].length;
+    const reference = parseNodeReference(text.slice(position + whitespace));
+    if (!reference) break;
+    nodes.push(reference.node);
+    position += whitespace + reference.length;
+
+    const separator = /^\s*&\s*/.exec(text.slice(position));
+    if (!separator) break;
+    position += separator[0].length;
+  }
+
+  return nodes.length > 0 ? { nodes, length: position } : null;
+};
+
+const strokeFor = (body: string): EdgeStroke => {
+  if (body === '~~~') return 'invisible';
+  if (body.includes('=')) return 'thick';
+  if (body.includes('.')) return 'dotted';
+  return 'normal';
+};
+
+const headFor = (marker: string | undefined): EdgeHead => {
+  if (marker === '>') return 'arrow';
+  if (marker === 'o') return 'circle';
+  if (marker === 'x') return 'cross';
+  return 'none';
+};
+
+const parseLink = (text: string): { link: ParsedLink; length: number } | null => {
+  const textLink = TEXT_LINK.exec(text);
+  if (textLink) {
+    return {
+      link: {
+        stroke: strokeFor(textLink[2] + textLink[4]),
+        head: headFor(textLink[5]),
+        bidirectional: !!textLink[1],
+        label: unquote(textLink[3])
+      },
+      length: textLink[0].length
+    };
+  }
+
+  const plainLink = PLAIN_LINK.exec(text);
+  if (plainLink) {
+    return {
+      link: {
+        stroke: strokeFor(plainLink[2]),
+        head: headFor(plainLink[3]),
+        bidirectional: !!plainLink[1],
+        label: plainLink[4] !== undefined ? unquote(plainLink[4]) : undefined
+      },
+      length: plainLink[0].length
+    };
+  }
+
+  return null;
+};
+
+/** Splits a line on ";" statement separators outside of quoted text. */
+const splitStatements = (text: string): string[] => {
+  const statements: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  for (const char of text) {
+    if (char === '"') inQuotes = !inQuotes;
+    if (char === ';' && !inQuotes) {
+      statements.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  statements.push(current);
+  return statements.map((statement) => statement.trim()).filter(Boolean);
+};
+
+export const parseFlowchart = ({ preamble, declaration, body }: SplitSource): FlowchartModel => {
+  const [keyword, directionToken] = declaration.text.split(/\s+/);
+  const model: FlowchartModel = {
+    kind: 'flowchart',
+    keyword: keyword === 'graph' ? 'graph' : 'flowchart',
+    direction: DIRECTIONS.includes(directionToken as FlowDirection) ? (directionToken as FlowDirection) : 'TD',
+    nodes: [],
+    edges: [],
+    subgraphs: [],
+    classDefs: [],
+    directives: [],
+    preamble
+  };
+
+  const nodesById = new Map<string, FlowNode>();
+  const subgraphStack: FlowSubgraph[] = [];
+
+  const registerNode = (reference: NodeReference, line: number) => {
+    let node = nodesById.get(reference.id);
+    if (!node) {
+      node = {
+        id: reference.id,
+        shape: 'rect',
+        classes: [],
+        subgraph: subgraphStack[subgraphStack.length - 1]?.id,
+        line
+      };
+      nodesById.set(reference.id, node);
+      model.nodes.push(node);
+    } else if (!node.subgraph) {
+      // Mermaid moves a node into the first subgraph that mentions it, even after it was declared
+      node.subgraph = subgraphStack[subgraphStack.length - 1]?.id;
+    }
+    if (reference.shape) {
+      // The line that gives a node its shape and label is where it is declared
+      if (node.label === undefined) node.line = line;
+      node.shape = reference.shape;
+      node.label = reference.label;
+    }
+    reference.classes.forEach((className) => {
+      if (!node.classes.includes(className)) node.classes.push(className);
+    });
+  };
+
+  const parseStatement = (statement: string, line: number) => {
+    const subgraphMatch = /^subgraph\s+(.+)$/.exec(statement);
+    if (subgraphMatch) {
+      const header = subgraphMatch[1].trim();
+      const labelled = /^([\p{L}\p{N}_-]+)\s*\[(.*)\]$/u.exec(header);
+      const subgraph: FlowSubgraph = labelled
+        ? { id: labelled[1], label: unquote(labelled[2]) }
+        : /^[\p{L}\p{N}_-]+$/u.test(header)
+          ? { id: header }
+          : { id: `subgraph${model.subgraphs.length + 1}`, label: unquote(header) };
+      subgraph.parent = subgraphStack[subgraphStack.length - 1]?.id;
+      subgraph.line = line;
+      model.subgraphs.push(subgraph);
+      subgraphStack.push(subgraph);
+      return;
+    }
+
+    if (statement === 'end') {
+      subgraphStack.pop();
+      return;
+    }
+
+    const directionMatch = /^direction\s+(\w+)$/.exec(statement);
+    if (directionMatch) {
+      const current = subgraphStack[subgraphStack.length - 1];
+      if (current && DIRECTIONS.includes(directionMatch[1] as FlowDirection)) {
+        current.direction = directionMatch[1] as FlowDirection;
+      }
+      return;
+    }
+
+    const classDefMatch = /^classDef\s+(\S+)\s+(.+)$/.exec(statement);
+    if (classDefMatch) {
+      classDefMatch[1].split(',').forEach((name) => {
+        model.classDefs.push({ name, styles: classDefMatch[2].trim(), line });
+      });
+      return;
+    }
+
+    const classMatch = /^class\s+(\S+)\s+(\S+)$/.exec(statement);
+    if (classMatch) {
+      classMatch[1].split(',').forEach((id) => {
+        registerNode({ id, classes: [classMatch[2]] }, line);
+      });
+      return;
+    }
+
+    if (/^(style|linkStyle|click)\s/.test(statement)) {
+      model.directives.push(statement);
+      return;
+    }
+
+    let position = 0;
+    let group = parseNodeGroup(statement);
+    if (!group) return;
+    group.nodes.forEach((node) => registerNode(node, line));
+    position += group.length;
+
+    while (position < statement.length) {
+      const link = parseLink(statement.slice(position));
+      if (!link) break;
+      position += link.length;
+
+      const targets = parseNodeGroup(statement.slice(position));
+      if (!targets) break;
+      targets.nodes.forEach((node) => registerNode(node, line));
+      position += targets.length;
+
+      group.nodes.forEach((source) => {
+        targets.nodes.forEach((target) => {
+          model.edges.push({ from: source.id, to: target.id, ...link.link, line });
+        });
+      });
+      group = targets;
+    }
+  };
+
+  body.forEach(({ text, line }) => {
+    splitStatements(text).forEach((statement) => parseStatement(statement, line));
+  });
+
+  return model;
+};
+
+const serializeNode = (node: FlowNode): string => {
+  const classes = node.classes.map((className) => `:::${className}`).join('');
+  if (node.shape === 'rect' && (node.label === undefined || node.label === node.id)) {
+    return `${node.id}${classes}`;
+  }
+  const [, open, close] = SHAPE_DELIMITERS.find(([shape]) => shape === node.shape);
+  return `${node.id}${open}${quoteLabel(node.label ?? node.id)}${close}${classes}`;
+};
+
+const serializeEdge = (edge: FlowEdge): string => {
+  const tail = edge.bidirectional ? '<' : '';
+  let body: string;
+  if (edge.stroke === 'invisible') {
+    body = '~~~';
+  } else if (edge.stroke === 'thick') {
+    body = edge.head === 'none' ? '===' : '==';
+  } else if (edge.stroke === 'dotted') {
+    body = '-.-';
+  } else {
+    body = edge.head === 'none' ? '---' : '--';
+  }
+  const head = { arrow: '>', circle: 'o', cross: 'x', none: '' }[edge.head];
+  const label = edge.label ? `|${quoteLabel(edge.label)}|` : '';
+  return `${edge.from} ${tail}${body}${edge.stroke === 'invisible' ? '' : head}${label} ${edge.to}`;
+};
+
+export const serializeFlowchart = (model: FlowchartModel): string => {
+  const lines: string[] = [...model.preamble, `${model.keyword} ${model.direction}`];
+
+  model.classDefs.forEach((classDef) => {
+    lines.push(`${indent(1)}classDef ${classDef.name} ${classDef.styles}`);
+  });
+
+  const connectedIds = new Set(model.edges.flatMap((edge) => [edge.from, edge.to]));
+
+  const writeMembers = (subgraphId: string | undefined, depth: number) => {
+    model.subgraphs
+      .filter((subgraph) => subgraph.parent === subgraphId)
+      .forEach((subgraph) => {
+        const label = subgraph.label !== undefined ? `[${quoteLabel(subgraph.label)}]` : '';
+        lines.push(`${indent(depth)}subgraph ${subgraph.id}${label}`);
+        if (subgraph.direction) {
+          lines.push(`${indent(depth + 1)}direction ${subgraph.direction}`);
+        }
+        writeMembers(subgraph.id, depth + 1);
+        lines.push(`${indent(depth)}end`);
+      });
+
+    model.nodes
+      .filter((node) => node.subgraph === subgraphId)
+      // Plain top-level nodes are declared implicitly by their edges
+      .filter((node) => subgraphId || serializeNode(node) !== node.id || !connectedIds.has(node.id))
+      .forEach((node) => lines.push(`${indent(depth)}${serializeNode(node)}`));
+  };
+
+  writeMembers(undefined, 1);
+  model.edges.forEach((edge) => lines.push(`${indent(1)}${serializeEdge(edge)}`));
+  model.directives.forEach((directive) => lines.push(`${indent(1)}${directive}`));
+
+  return lines.join('\n');
+};
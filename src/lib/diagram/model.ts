@@ -0,0 +1,207 @@
+/**
+ * Typed representation of a Mermaid diagram. Parsers turn Mermaid text into
+ * these models and serializers turn them back into text, so stats,
+ * validation, importers and editing can work on structure instead of regexes.
+ *
+ * `line` fields are 1-based line numbers in the source the model was parsed
+ * from. Models built in code (importers) leave them unset.
+ */
+
+export type FlowDirection = 'TD' | 'TB' | 'BT' | 'LR' | 'RL';
+
+export type NodeShape =
+  | 'rect'
+  | 'round'
+  | 'stadium'
+  | 'subroutine'
+  | 'cylinder'
+  | 'circle'
+  | 'double-circle'
+  | 'asymmetric'
+  | 'rhombus'
+  | 'hexagon'
+  | 'parallelogram'
+  | 'parallelogram-alt'
+  | 'trapezoid'
+  | 'trapezoid-alt';
+
+export interface FlowNode {
+  id: string;
+  label?: string;
+  shape: NodeShape;
+  classes: string[];
+  /** Innermost subgraph the node was first mentioned in */
+  subgraph?: string;
+  line?: number;
+}
+
+export type EdgeStroke = 'normal' | 'thick' | 'dotted' | 'invisible';
+export type EdgeHead = 'arrow' | 'circle' | 'cross' | 'none';
+
+export interface FlowEdge {
+  from: string;
+  to: string;
+  label?: string;
+  stroke: EdgeStroke;
+  head: EdgeHead;
+  bidirectional: boolean;
+  line?: number;
+}
+
+export interface FlowSubgraph {
+  id: string;
+  label?: string;
+  parent?: string;
+  direction?: FlowDirection;
+  line?: number;
+}
+
+export interface ClassDefinition {
+  name: string;
+  styles: string;
+  line?: number;
+}
+
+export interface FlowchartModel {
+  kind: 'flowchart';
+  keyword: 'flowchart' | 'graph';
+  direction: FlowDirection;
+  nodes: FlowNode[];
+  edges: FlowEdge[];
+  subgraphs: FlowSubgraph[];
+  classDefs: ClassDefinition[];
+  /** style, linkStyle and click statements, kept verbatim */
+  directives: string[];
+  preamble: string[];
+}
+
+export type ErCardinality = 'zero-or-one' | 'exactly-one' | 'zero-or-more' | 'one-or-more';
+export type ErKey = 'PK' | 'FK' | 'UK';
+
+export interface ErAttribute {
+  type: string;
+  name: string;
+  keys: ErKey[];
+  comment?: string;
+  line?: number;
+}
+
+export interface ErEntity {
+  id: string;
+  alias?: string;
+  attributes: ErAttribute[];
+  line?: number;
+}
+
+export interface ErRelationship {
+  from: string;
+  to: string;
+  fromCardinality: ErCardinality;
+  toCardinality: ErCardinality;
+  identifying: boolean;
+  label: string;
+  line?: number;
+}
+
+export interface ErDiagramModel {
+  kind: 'erDiagram';
+  entities: ErEntity[];
+  relationships: ErRelationship[];
+  preamble: string[];
+}
+
+export interface SequenceParticipant {
+  id: string;
+  alias?: string;
+  type: 'participant' | 'actor';
+  /** Label of the enclosing `box`; consecutive participants with the same label share one box */
+  box?: string;
+  line?: number;
+}
+
+export type SequenceArrow =
+  | '->'
+  | '-->'
+  | '->>'
+  | '-->>'
+  | '-x'
+  | '--x'
+  | '-)'
+  | '--)'
+  | '<<->>'
+  | '<<-->>';
+
+export interface SequenceMessage {
+  type: 'message';
+  from: string;
+  to: string;
+  arrow: SequenceArrow;
+  text: string;
+  activate?: boolean;
+  deactivate?: boolean;
+  line?: number;
+}
+
+export interface SequenceNote {
+  type: 'note';
+  placement: 'left of' | 'right of' | 'over';
+  participants: string[];
+  text: string;
+  line?: number;
+}
+
+export interface SequenceActivation {
+  type: 'activation';
+  action: 'activate' | 'deactivate';
+  participant: string;
+  line?: number;
+}
+
+export type SequenceBlockKind = 'loop' | 'alt' | 'opt' | 'par' | 'critical' | 'break' | 'rect';
+
+export interface SequenceBlockSection {
+  label: string;
+  statements: SequenceStatement[];
+}
+
+export interface SequenceBlock {
+  type: 'block';
+  kind: SequenceBlockKind;
+  /** The first section carries the block label, later ones the else/and/option labels */
+  sections: SequenceBlockSection[];
+  line?: number;
+}
+
+export interface SequenceRawStatement {
+  type: 'raw';
+  text: string;
+  line?: number;
+}
+
+export type SequenceStatement =
+  | SequenceMessage
+  | SequenceNote
+  | SequenceActivation
+  | SequenceBlock
+  | SequenceRawStatement;
+
+export interface SequenceDiagramModel {
+  kind: 'sequenceDiagram';
+  autonumber: boolean;
+  participants: SequenceParticipant[];
+  statements: SequenceStatement[];
+  preamble: string[];
+}
+
+/** Diagram types without a structured model keep their source text */
+export interface UnsupportedDiagramModel {
+  kind: 'unsupported';
+  keyword?: string;
+  source: string;
+}
+
+export type DiagramModel =
+  | FlowchartModel
+  | ErDiagramModel
+  | SequenceDiagramModel
+  | UnsupportedDiagramModel;
@@ -0,0 +1,206 @@
+import {
+  SequenceArrow,
+  SequenceBlock,
+  SequenceBlockKind,
+  SequenceDiagramModel,
+  SequenceParticipant,
+  SequenceStatement
+} from './model';
+import { SplitSource, indent } from './text';
+
+// Longest arrows first so that "-->>" is not read as "-->" followed by ">"
+const ARROWS: SequenceArrow[] = ['<<-->>', '<<->>', '-->>', '->>', '-->', '--x', '--)', '->', '-x', '-)'];
+
+const PARTICIPANT_NAME = String.raw`[^\s+\-:,<>()]+(?:[^+\-:,<>()]*[^\s+\-:,<>()])?`;
+const PARTICIPANT = /^(participant|actor)\s+(.+?)(?:\s+as\s+(.+))?$/;
+const MESSAGE = new RegExp(
+  String.raw`^(${PARTICIPANT_NAME})\s*(${ARROWS.map((arrow) => arrow.replace(/[()]/g, '\\$&')).join('|')})\s*([+-]?)\s*(${PARTICIPANT_NAME})\s*:(.*)$`
+);
+const NOTE = /^note\s+(left of|right of|over)\s+([^:]+):(.*)$/i;
+const ACTIVATION = /^(activate|deactivate)\s+(.+)$/;
+const BLOCK_OPEN = /^(loop|alt|opt|par|critical|break|rect)\b\s*(.*)$/;
+const BLOCK_SECTION = /^(else|and|option)\b\s*(.*)$/;
+const BOX_OPEN = /^box\b\s*(.*)$/;
+
+export const parseSequenceDiagram = ({ preamble, body }: SplitSource): SequenceDiagramModel => {
+  const model: SequenceDiagramModel = {
+    kind: 'sequenceDiagram',
+    autonumber: false,
+    participants: [],
+    statements: [],
+    preamble
+  };
+  const participantsById = new Map<string, SequenceParticipant>();
+  const blockStack: SequenceBlock[] = [];
+  let box: string | undefined;
+
+  const ensureParticipant = (id: string, line: number): SequenceParticipant => {
+    let participant = participantsById.get(id);
+    if (!participant) {
+      participant = { id, type: 'participant', line };
+      participantsById.set(id, participant);
+      model.participants.push(participant);
+    }
+    return participant;
+  };
+
+  const append = (statement: SequenceStatement) => {
+    const block = blockStack[blockStack.length - 1];
+    if (block) {
+      block.sections[block.sections.length - 1].statements.push(statement);
+    } else {
+      model.statements.push(statement);
+    }
+  };
+
+  body.forEach(({ text, line }) => {
+    if (text === 'autonumber') {
+      model.autonumber = true;
+      return;
+    }
+
+    const participant = PARTICIPANT.exec(text);
+    if (participant) {
+      const declared = ensureParticipant(participant[2].trim(), line);
+      declared.type = participant[1] as SequenceParticipant['type'];
+      declared.line = line;
+      if (participant[3]) declared.alias = participant[3].trim();
+      if (box !== undefined) declared.box = box;
+      return;
+    }
+
+    const boxOpen = BOX_OPEN.exec(text);
+    if (boxOpen && blockStack.length === 0) {
+      box = boxOpen[1].trim();
+      return;
+    }
+
+    const blockOpen = BLOCK_OPEN.exec(text);
+    if (blockOpen) {
+      const block: SequenceBlock = {
+        type: 'block',
+        kind: blockOpen[1] as SequenceBlockKind,
+        sections: [{ label: blockOpen[2].trim(), statements: [] }],
+        line
+      };
+      append(block);
+      blockStack.push(block);
+      return;
+    }
+
+    const blockSection = BLOCK_SECTION.exec(text);
+    if (blockSection && blockStack.length > 0) {
+      blockStack[blockStack.length - 1].sections.push({ label: blockSection[2].trim(), statements: [] });
+      return;
+    }
+
+    if (text === 'end') {
+      if (blockStack.length === 0) box = undefined;
+      blockStack.pop();
+      return;
+    }
+
+    const message = MESSAGE.exec(text);
+    if (message) {
+      ensureParticipant(message[1], line);
+      ensureParticipant(message[4], line);
+      append({
+        type: 'message',
+        from: message[1],
+        arrow: message[2] as SequenceArrow,
+        to: message[4],
+        text: message[5].trim(),
+        ...(message[3] === '+' && { activate: true }),
+        ...(message[3] === '-' && { deactivate: true }),
+        line
+      });
+      return;
+    }
+
+    const note = NOTE.exec(text);
+    if (note) {
+      append({
+        type: 'note',
+        placement: note[1].toLowerCase() as 'left of' | 'right of' | 'over',
+        participants: note[2].split(',').map((id) => id.trim()),
+        text: note[3].trim(),
+        line
+      });
+      return;
+    }
+
+    const activation = ACTIVATION.exec(text);
+    if (activation) {
+      append({
+        type: 'activation',
+        action: activation[1] as 'activate' | 'deactivate',
+        participant: activation[2].trim(),
+        line
+      });
+      return;
+    }
+
+    append({ type: 'raw', text, line });
+  });
+
+  return model;
+};
+
+const SECTION_KEYWORDS: Partial<Record<SequenceBlockKind, string>> = {
+  alt: 'else',
+  par: 'and',
+  critical: 'option'
+};
+
+const serializeStatements = (statements: SequenceStatement[], depth: number, lines: string[]) => {
+  statements.forEach((statement) => {
+    switch (statement.type) {
+      case 'message': {
+        const activation = statement.activate ? '+' : statement.deactivate ? '-' : '';
+        lines.push(`${indent(depth)}${statement.from}${statement.arrow}${activation}${statement.to}: ${statement.text}`);
+        break;
+      }
+      case 'note':
+        lines.push(`${indent(depth)}Note ${statement.placement} ${statement.participants.join(',')}: ${statement.text}`);
+        break;
+      case 'activation':
+        lines.push(`${indent(depth)}${statement.action} ${statement.participant}`);
+        break;
+      case 'block':
+        statement.sections.forEach((section, index) => {
+          const keyword = index === 0 ? statement.kind : SECTION_KEYWORDS[statement.kind] ?? 'else';
+          lines.push(`${indent(depth)}${keyword}${section.label ? ` ${section.label}` : ''}`);
+          serializeStatements(section.statements, depth + 1, lines);
+        });
+        lines.push(`${indent(depth)}end`);
+        break;
+      case 'raw':
+        lines.push(`${indent(depth)}${statement.text}`);
+        break;
+    }
+  });
+};
+
+export const serializeSequenceDiagram = (model: SequenceDiagramModel): string => {
+  const lines: string[] = [...model.preamble, 'sequenceDiagram'];
+
+  if (model.autonumber) {
+    lines.push(`${indent(1)}autonumber`);
+  }
+  model.participants.forEach((participant, index) => {
+    const previousBox = model.participants[index - 1]?.box;
+    const nextBox = model.participants[index + 1]?.box;
+    const depth = participant.box !== undefined ? 2 : 1;
+    if (participant.box !== undefined && participant.box !== previousBox) {
+      lines.push(`${indent(1)}box${participant.box ? ` ${participant.box}` : ''}`);
+    }
+    const alias = participant.alias ? ` as ${participant.alias}` : '';
+    lines.push(`${indent(depth)}${participant.type} ${participant.id}${alias}`);
+    if (participant.box !== undefined && participant.box !== nextBox) {
+      lines.push(`${indent(1)}end`);
+    }
+  });
+  serializeStatements(model.statements, 1, lines);
+
+  return lines.join('\n');
+};
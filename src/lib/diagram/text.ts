@@ -0,0 +1,81 @@
+export interface SourceLine {
+  text: string;
+  line: number;
+}
+
+export interface SplitSource {
+  /** Front matter and %%{init}%% directives preceding the declaration */
+  preamble: string[];
+  declaration?: SourceLine;
+  body: SourceLine[];
+}
+
+/**
+ * Splits Mermaid source into its preamble, declaration line and trimmed,
+ * comment-free body lines with their original line numbers.
+ */
+export const splitSource = (source: string): SplitSource => {
+  const lines = source.split('\n');
+  const preamble: string[] = [];
+  const body: SourceLine[] = [];
+  let declaration: SourceLine | undefined;
+  let inFrontMatter = false;
+
+  lines.forEach((raw, index) => {
+    const text = raw.trim();
+    const line = index + 1;
+
+    if (!declaration) {
+      if (text === '---' || inFrontMatter) {
+        if (text === '---') inFrontMatter = !inFrontMatter;
+        preamble.push(raw);
+        return;
+      }
+      if (text.startsWith('%%{')) {
+        preamble.push(raw);
+        return;
+      }
+      if (!text || text.startsWith('%%')) return;
+      declaration = { text, line };
+      return;
+    }
+
+    if (!text || text.startsWith('%%')) return;
+    body.push({ text, line });
+  });
+
+  return { preamble, declaration, body };
+};
+
+export const unquote = (value: string): string => {
+  const trimmed = value.trim();
+  if (trimmed.length >= 2 && trimmed.startsWith('"') && trimmed.endsWith('"')) {
+    return trimmed.slice(1, -1);
+  }
+  return trimmed;
+};
+
+/** Quotes a label when it contains characters Mermaid would treat as syntax. */
+export const quoteLabel = (label: string): string => {
+  if (/^[\p{L}\p{N}_ .,?!'-]+$/u.test(label) && label.trim() === label) {
+    return label;
+  }
+  return `"${label.replace(/"/g, '#quot;')}"`;
+};
+
+/** Always-quoted form, for positions where Mermaid requires quotes around text with spaces. */
+export const quoteText = (text: string): string => `"${text.replace(/"/g, '#quot;')}"`;
+
+const RESERVED_IDENTIFIERS = new Set([
+  'end', 'graph', 'flowchart', 'subgraph', 'direction', 'style', 'class', 'classdef', 'click', 'linkstyle', 'default'
+]);
+
+/** Turns arbitrary names into identifiers Mermaid accepts as node or entity ids. */
+export const toIdentifier = (name: string): string => {
+  const identifier = name.replace(/[^\p{L}\p{N}_]+/gu, '_').replace(/^_+|_+$/g, '');
+  if (!identifier) return 'node';
+  if (/^\p{N}/u.test(identifier)) return `n_${identifier}`;
+  return RESERVED_IDENTIFIERS.has(identifier.toLowerCase()) ? `${identifier}_` : identifier;
+};
+
+export const indent = (depth: number): string => '    '.repeat(depth);
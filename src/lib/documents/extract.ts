@@ -0,0 +1,90 @@
+import { extractDataFromUploadedFile, uploadFile } from '@/integrations/core';
+
+export interface DocumentContext {
+  id: string;
+  name: string;
+  content: string;
+}
+
+export const DOCUMENT_ACCEPT = '.pdf,.doc,.docx,.txt,.md,.markdown,.rst,.html,.htm,.csv,.json,.yaml,.yml';
+
+// Keeps a large runbook from crowding the instructions out of the prompt
+export const MAX_DOCUMENT_CHARS = 12000;
+
+interface ExtractedDocument {
+  summary?: string;
+  components?: string[];
+  steps?: string[];
+  relationships?: string[];
+}
+
+const EXTRACTION_SCHEMA = {
+  type: 'object',
+  properties: {
+    summary: {
+      type: 'string',
+      description: 'What the system, pipeline or process described in the document does, in a few sentences'
+    },
+    components: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Systems, services, data stores, tables, actors and teams mentioned, with a short description each'
+    },
+    steps: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Ordered processing steps, including decision points, failure handling and schedules'
+    },
+    relationships: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'How components connect: data flows, calls, dependencies and entity relationships with cardinalities'
+    }
+  }
+};
+
+const formatSection = (title: string, items?: string[]): string =>
+  items && items.length > 0 ? `${title}:\n${items.map((item) => `- ${item}`).join('\n')}` : '';
+
+const formatExtraction = (extracted: ExtractedDocument): string =>
+  [
+    extracted.summary?.trim() ?? '',
+    formatSection('Components', extracted.components),
+    formatSection('Steps', extracted.steps),
+    formatSection('Relationships', extracted.relationships)
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+
+const truncate = (content: string): string =>
+  content.length > MAX_DOCUMENT_CHARS ? `${content.slice(0, MAX_DOCUMENT_CHARS)}\n[truncated]` : content;
+
+/**
+ * Uploads a document and extracts the parts that matter for drawing a diagram:
+ * components, ordered steps and the relationships between them.
+ */
+export const extractDocumentContext = async (file: File): Promise<DocumentContext> => {
+  const { file_url } = await uploadFile({ file });
+  const result = await extractDataFromUploadedFile({
+    file_url,
+    json_schema: EXTRACTION_SCHEMA
+  });
+
+  if (result?.status !== 'success' || !result.output) {
+    throw new Error(result?.details || `Could not extract content from ${file.name}`);
+  }
+
+  const content = formatExtraction(result.output as ExtractedDocument);
+  if (!content) {
+    throw new Error(`No diagram-relevant content found in ${file.name}`);
+  }
+
+  return {
+    id: `${file.name}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name: file.name,
+    content: truncate(content)
+  };
+};
+
+export const formatDocumentContext = (documents: DocumentContext[]): string =>
+  documents.map((document) => `Document "${document.name}":\n${document.content}`).join('\n\n');
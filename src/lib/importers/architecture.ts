@@ -0,0 +1,130 @@
+import { EdgeStroke, FlowchartModel, FlowEdge, FlowNode, NodeShape } from '@/lib/diagram/model';
+import { createIdentifierAllocator } from './identifiers';
+
+export type ArchitectureRole = 'external' | 'entrypoint' | 'service' | 'workload' | 'storage' | 'config';
+
+const ROLE_STYLES: Record<ArchitectureRole, string> = {
+  external: 'fill:#f1f5f9,stroke:#64748b,color:#0f172a',
+  entrypoint: 'fill:#fef3c7,stroke:#d97706,color:#78350f',
+  service: 'fill:#e0f2fe,stroke:#0284c7,color:#0c4a6e',
+  workload: 'fill:#eef2ff,stroke:#4f46e5,color:#312e81',
+  storage: 'fill:#ecfdf5,stroke:#059669,color:#064e3b',
+  config: 'fill:#fdf4ff,stroke:#a21caf,color:#701a75,stroke-dasharray:3 3'
+};
+
+export interface ArchitectureNode {
+  label: string;
+  shape: NodeShape;
+  role: ArchitectureRole;
+  group?: string;
+}
+
+export interface ArchitectureEdge {
+  label?: string;
+  stroke?: EdgeStroke;
+}
+
+/**
+ * Collects infrastructure resources as flowchart nodes keyed by a stable
+ * resource key (e.g. "Service/prod/api"), so importers can add edges in any
+ * order and reference resources before or after they are declared.
+ */
+export const createArchitectureBuilder = () => {
+  const model: FlowchartModel = {
+    kind: 'flowchart',
+    keyword: 'flowchart',
+    direction: 'LR',
+    nodes: [],
+    edges: [],
+    subgraphs: [],
+    classDefs: [],
+    directives: [],
+    preamble: []
+  };
+  const allocateId = createIdentifierAllocator();
+  const nodesByKey = new Map<string, FlowNode>();
+  const groupsByKey = new Map<string, string>();
+  const edgesByKey = new Map<string, FlowEdge>();
+
+  const group = (key: string, label: string): string => {
+    let id = groupsByKey.get(key);
+    if (!id) {
+      id = allocateId(`group:${key}`, `grp_${label}`);
+      groupsByKey.set(key, id);
+      model.subgraphs.push({ id, label });
+    }
+    return id;
+  };
+
+  const node = (key: string, { label, shape, role, group: groupId }: ArchitectureNode): string => {
+    const existing = nodesByKey.get(key);
+    if (existing) return existing.id;
+    const created: FlowNode = { id: allocateId(key, label.split('<br/>')[0]), label, shape, classes: [role] };
+    if (groupId) created.subgraph = groupId;
+    nodesByKey.set(key, created);
+    model.nodes.push(created);
+    return created.id;
+  };
+
+  /** The first edge between two resources wins; later ones only add their label. */
+  const edge = (fromKey: string, toKey: string, { label, stroke = 'normal' }: ArchitectureEdge = {}) => {
+    const from = nodesByKey.get(fromKey);
+    const to = nodesByKey.get(toKey);
+    if (!from || !to || from === to) return;
+    const edgeKey = `${fromKey}->${toKey}`;
+    const existing = edgesByKey.get(edgeKey);
+    if (existing) {
+      const labels = existing.label ? existing.label.split(', ') : [];
+      if (label && !labels.includes(label)) existing.label = [...labels, label].join(', ');
+      return;
+    }
+    const created: FlowEdge = { from: from.id, to: to.id, stroke, head: 'arrow', bidirectional: false };
+    if (label) created.label = label;
+    edgesByKey.set(edgeKey, created);
+    model.edges.push(created);
+  };
+
+  const build = (): FlowchartModel => {
+    const roles = new Set(model.nodes.flatMap((flowNode) => flowNode.classes));
+    model.classDefs = (Object.keys(ROLE_STYLES) as ArchitectureRole[])
+      .filter((role) => roles.has(role))
+      .map((role) => ({ name: role, styles: ROLE_STYLES[role] }));
+    // Drop groups that ended up empty, e.g. a network no service joined
+    model.subgraphs = model.subgraphs.filter((subgraph) => model.nodes.some((flowNode) => flowNode.subgraph === subgraph.id));
+    return model;
+  };
+
+  return {
+    group,
+    node,
+    edge,
+    has: (key: string) => nodesByKey.has(key),
+    hasEdge: (fromKey: string, toKey: string) => edgesByKey.has(`${fromKey}->${toKey}`),
+    build
+  };
+};
+
+export type ArchitectureBuilder = ReturnType<typeof createArchitectureBuilder>;
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Finds hostnames in a configuration value such as
+ * `postgres://app@db:5432/app` or `REDIS_HOST=cache`, with the port when given.
+ */
+export const findHostReferences = (value: string, hosts: string[]): Array<{ host: string; port?: string }> =>
+  hosts.flatMap((host) => {
+    const pattern = new RegExp(`(?:^|[/@=,;\\s])${escapeRegExp(host)}(?::(\\d+))?(?=$|[/,;?\\s])`, 'i');
+    const match = pattern.exec(value);
+    return match ? [{ host, ...(match[1] && { port: match[1] }) }] : [];
+  });
+
+const DATASTORE_IMAGES = /postgres|mysql|mariadb|mongo|redis|valkey|memcached|cassandra|elasticsearch|opensearch|clickhouse|minio|cockroach|timescale|influx/i;
+const QUEUE_IMAGES = /kafka|rabbitmq|nats|zookeeper|redpanda|pulsar|activemq/i;
+
+/** Data stores are drawn as cylinders and brokers as parallelograms, based on their image name. */
+export const classifyImage = (image: string | undefined): { shape: NodeShape; role: ArchitectureRole } => {
+  if (image && DATASTORE_IMAGES.test(image)) return { shape: 'cylinder', role: 'storage' };
+  if (image && QUEUE_IMAGES.test(image)) return { shape: 'parallelogram', role: 'service' };
+  return { shape: 'rect', role: 'workload' };
+};
@@ -0,0 +1,39 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { importBpmn } from './bpmn';
+
+const PROCESS = `<?xml version="1.0" encoding="UTF-8"?>
+<bpmn:definitions xmlns:bpmn="http://www.omg.org/spec/BPMN/20100524/MODEL" id="d1">
+  <bpmn:process id="order">
+    <bpmn:startEvent id="received" name="Order received" />
+    <bpmn:userTask id="review" name="Review order" />
+    <bpmn:exclusiveGateway id="approved" name="Approved?" />
+    <bpmn:endEvent id="done" name="Shipped" />
+    <bpmn:endEvent id="rejected" name="Rejected" />
+    <bpmn:sequenceFlow id="f1" sourceRef="received" targetRef="review" />
+    <bpmn:sequenceFlow id="f2" sourceRef="review" targetRef="approved" />
+    <bpmn:sequenceFlow id="f3" name="yes" sourceRef="approved" targetRef="done" />
+    <bpmn:sequenceFlow id="f4" name="no" sourceRef="approved" targetRef="rejected" />
+  </bpmn:process>
+</bpmn:definitions>`;
+
+describe('importBpmn', () => {
+  it('draws events, tasks, gateways and labelled sequence flows', () => {
+    const result = importBpmn(PROCESS, { showLanes: false });
+
+    expect(result.mermaidCode).toMatch(/^flowchart LR/);
+    expect(result.mermaidCode.split('\n').filter((line) => line.includes('-->'))).toEqual([
+      '    Order_received --> Review_order',
+      '    Review_order --> Approved',
+      '    Approved -->|yes| Shipped',
+      '    Approved -->|no| Rejected'
+    ]);
+  });
+
+  it('reports malformed XML and other XML documents', () => {
+    expect(() => importBpmn('<definitions>', { showLanes: false })).toThrow(/^The input is not valid XML/);
+    expect(() => importBpmn('<svg xmlns="http://www.w3.org/2000/svg" />', { showLanes: false })).toThrow(
+      'Not a BPMN 2.0 file: expected a <definitions> root element, found <svg>'
+    );
+  });
+});
@@ -0,0 +1,375 @@
+import { FlowchartModel, FlowEdge, NodeShape } from '@/lib/diagram/model';
+import { serializeDiagram } from '@/lib/diagram/diagram';
+import { createIdentifierAllocator } from './identifiers';
+import { ImportResult } from './types';
+
+export interface BpmnImportOptions {
+  /** Draw pools and lanes as subgraphs; sub-processes are always drawn as subgraphs */
+  showLanes: boolean;
+}
+
+type BpmnKind = 'task' | 'subprocess' | 'gateway' | 'start' | 'end' | 'event' | 'data';
+
+interface BpmnElementType {
+  kind: BpmnKind;
+  shape: NodeShape;
+  /** Shown under the name, or instead of it when the element is unnamed */
+  caption?: string;
+}
+
+const ELEMENT_TYPES: Record<string, BpmnElementType> = {
+  task: { kind: 'task', shape: 'round' },
+  userTask: { kind: 'task', shape: 'round', caption: 'user task' },
+  manualTask: { kind: 'task', shape: 'round', caption: 'manual task' },
+  serviceTask: { kind: 'task', shape: 'round', caption: 'service task' },
+  scriptTask: { kind: 'task', shape: 'round', caption: 'script task' },
+  businessRuleTask: { kind: 'task', shape: 'round', caption: 'business rule' },
+  sendTask: { kind: 'task', shape: 'round', caption: 'send task' },
+  receiveTask: { kind: 'task', shape: 'round', caption: 'receive task' },
+  callActivity: { kind: 'subprocess', shape: 'subroutine', caption: 'call activity' },
+  subProcess: { kind: 'subprocess', shape: 'subroutine', caption: 'sub-process' },
+  transaction: { kind: 'subprocess', shape: 'subroutine', caption: 'transaction' },
+  adHocSubProcess: { kind: 'subprocess', shape: 'subroutine', caption: 'ad-hoc sub-process' },
+  exclusiveGateway: { kind: 'gateway', shape: 'rhombus', caption: '×' },
+  parallelGateway: { kind: 'gateway', shape: 'rhombus', caption: '+' },
+  inclusiveGateway: { kind: 'gateway', shape: 'rhombus', caption: '○' },
+  eventBasedGateway: { kind: 'gateway', shape: 'rhombus', caption: 'event-based' },
+  complexGateway: { kind: 'gateway', shape: 'rhombus', caption: '✱' },
+  startEvent: { kind: 'start', shape: 'circle' },
+  endEvent: { kind: 'end', shape: 'double-circle' },
+  intermediateCatchEvent: { kind: 'event', shape: 'circle' },
+  intermediateThrowEvent: { kind: 'event', shape: 'circle' },
+  boundaryEvent: { kind: 'event', shape: 'circle' },
+  dataStoreReference: { kind: 'data', shape: 'cylinder', caption: 'data store' },
+  dataObjectReference: { kind: 'data', shape: 'asymmetric', caption: 'data object' }
+};
+
+const EVENT_DEFINITIONS: Record<string, string> = {
+  messageEventDefinition: '✉ message',
+  timerEventDefinition: '⏱ timer',
+  errorEventDefinition: '⚡ error',
+  signalEventDefinition: '△ signal',
+  escalationEventDefinition: '⇑ escalation',
+  conditionalEventDefinition: '≡ conditional',
+  compensateEventDefinition: '⏪ compensation',
+  linkEventDefinition: '→ link',
+  cancelEventDefinition: '✕ cancel',
+  terminateEventDefinition: '● terminate'
+};
+
+/** Class names avoid `end`, which Mermaid reserves for closing subgraphs */
+const KIND_STYLES: { kind: BpmnKind; name: string; styles: string }[] = [
+  { kind: 'start', name: 'startEvent', styles: 'fill:#dcfce7,stroke:#16a34a' },
+  { kind: 'end', name: 'endEvent', styles: 'fill:#fee2e2,stroke:#dc2626,stroke-width:3px' },
+  { kind: 'event', name: 'intermediateEvent', styles: 'fill:#fef9c3,stroke:#ca8a04' },
+  { kind: 'gateway', name: 'gateway', styles: 'fill:#ffedd5,stroke:#ea580c' },
+  { kind: 'data', name: 'data', styles: 'fill:#f1f5f9,stroke:#64748b' }
+];
+
+/** Children that only carry wiring or execution details already covered elsewhere */
+const IGNORED_CHILDREN = new Set([
+  'incoming',
+  'outgoing',
+  'documentation',
+  'extensionElements',
+  'laneSet',
+  'sequenceFlow',
+  'ioSpecification',
+  'property',
+  'dataObject',
+  'dataInputAssociation',
+  'dataOutputAssociation',
+  'standardLoopCharacteristics',
+  'multiInstanceLoopCharacteristics',
+  'conditionExpression',
+  'completionCondition'
+]);
+
+/** Top-level elements that are definitions referenced from the process rather than things to draw */
+const ROOT_DEFINITIONS = new Set([
+  'process',
+  'collaboration',
+  'BPMNDiagram',
+  'documentation',
+  'extensionElements',
+  'import',
+  'itemDefinition',
+  'message',
+  'signal',
+  'error',
+  'escalation',
+  'dataStore',
+  'category',
+  'interface',
+  'resource'
+]);
+
+const childElements = (parent: Element, localName?: string): Element[] =>
+  Array.from(parent.children).filter((child) => !localName || child.localName === localName);
+
+const readName = (element: Element): string => (element.getAttribute('name') ?? '').replace(/\s+/g, ' ').trim();
+
+const readText = (element: Element | undefined): string => (element?.textContent ?? '').replace(/\s+/g, ' ').trim();
+
+const parseBpmnXml = (text: string): Element => {
+  const document = new DOMParser().parseFromString(text, 'application/xml');
+  const error = document.getElementsByTagName('parsererror')[0];
+  if (error) {
+    throw new Error(`The input is not valid XML: ${readText(error).slice(0, 200)}`);
+  }
+  const root = document.documentElement;
+  if (root.localName !== 'definitions') {
+    throw new Error(`Not a BPMN 2.0 file: expected a <definitions> root element, found <${root.localName}>`);
+  }
+  return root;
+};
+
+/**
+ * Turns BPMN 2.0 XML from Camunda, bpmn.io, Signavio and similar modelers
+ * into a left-to-right flowchart. Pools and lanes become nested subgraphs,
+ * expanded sub-processes become subgraphs of their own, and everything that
+ * has no flowchart counterpart is counted and reported as a warning.
+ */
+export const importBpmn = (text: string, options: BpmnImportOptions): ImportResult => {
+  const root = parseBpmnXml(text);
+  const model: FlowchartModel = {
+    kind: 'flowchart',
+    keyword: 'flowchart',
+    direction: 'LR',
+    nodes: [],
+    edges: [],
+    subgraphs: [],
+    classDefs: [],
+    directives: [],
+    preamble: []
+  };
+  const allocateId = createIdentifierAllocator();
+  const warnings: string[] = [];
+  const skipped = new Map<string, number>();
+  const idsByBpmnId = new Map<string, string>();
+  const kindCounts = new Map<BpmnKind, number>();
+  const flowContainers: Element[] = [];
+  const boundaryEvents: Element[] = [];
+  const defaultFlows = new Set<string>();
+  const dataAssociations: { from: string; to: string }[] = [];
+  let laneCount = 0;
+
+  const skip = (localName: string) => skipped.set(localName, (skipped.get(localName) ?? 0) + 1);
+
+  const register = (bpmnId: string | null, name: string): string => {
+    const id = allocateId(`bpmn:${bpmnId ?? name}`, name || bpmnId || 'element');
+    if (bpmnId) idsByBpmnId.set(bpmnId, id);
+    return id;
+  };
+
+  const describeElement = (element: Element, type: BpmnElementType): string => {
+    const name = readName(element);
+    const captions: string[] = [];
+    const definitions = childElements(element).filter((child) => EVENT_DEFINITIONS[child.localName]);
+    if (definitions.length > 1) captions.push('multiple');
+    else if (definitions.length === 1) captions.push(EVENT_DEFINITIONS[definitions[0].localName]);
+    if (type.kind === 'gateway') {
+      if (name) captions.push(type.caption);
+    } else if (element.localName === 'callActivity') {
+      const called = element.getAttribute('calledElement');
+      captions.push(called ? `calls ${called}` : type.caption);
+    } else if (type.caption) {
+      captions.push(type.caption);
+    }
+    const loop = childElements(element, 'multiInstanceLoopCharacteristics')[0];
+    if (loop) captions.push(loop.getAttribute('isSequential') === 'true' ? '≡ sequential' : '⫴ parallel');
+    if (childElements(element, 'standardLoopCharacteristics').length > 0) captions.push('↻ loop');
+    if (element.localName === 'boundaryEvent' && element.getAttribute('cancelActivity') === 'false') {
+      captions.push('non-interrupting');
+    }
+
+    const title = name || (type.kind === 'gateway' ? type.caption : '');
+    return [title, ...captions].filter(Boolean).join('<br/>') || ' ';
+  };
+
+  const collectDataAssociations = (element: Element) => {
+    const bpmnId = element.getAttribute('id');
+    childElements(element, 'dataInputAssociation').forEach((association) => {
+      childElements(association, 'sourceRef').forEach((source) => dataAssociations.push({ from: readText(source), to: bpmnId }));
+    });
+    childElements(element, 'dataOutputAssociation').forEach((association) => {
+      const target = readText(childElements(association, 'targetRef')[0]);
+      if (target) dataAssociations.push({ from: bpmnId, to: target });
+    });
+  };
+
+  /** Adds the flow elements of a process or expanded sub-process; `subgraphOf` maps element ids to their lane */
+  const addFlowElements = (container: Element, subgraphOf: (bpmnId: string) => string | undefined) => {
+    flowContainers.push(container);
+
+    childElements(container).forEach((element) => {
+      const localName = element.localName;
+      const bpmnId = element.getAttribute('id');
+      if (IGNORED_CHILDREN.has(localName)) return;
+      const type = ELEMENT_TYPES[localName];
+      if (!type) {
+        skip(localName);
+        return;
+      }
+      kindCounts.set(type.kind, (kindCounts.get(type.kind) ?? 0) + 1);
+      const defaultFlow = element.getAttribute('default');
+      if (defaultFlow) defaultFlows.add(defaultFlow);
+
+      const name = readName(element);
+      const expanded = type.kind === 'subprocess' && localName !== 'callActivity' && childElements(element).some((child) => ELEMENT_TYPES[child.localName]);
+      if (expanded) {
+        // Edges may point at a subgraph id, so the sub-process keeps its BPMN id
+        const id = register(bpmnId, name || type.caption);
+        model.subgraphs.push({ id, label: name || type.caption, parent: subgraphOf(bpmnId) });
+        collectDataAssociations(element);
+        addFlowElements(element, () => id);
+        return;
+      }
+
+      const id = register(bpmnId, name || localName);
+      const style = KIND_STYLES.find((candidate) => candidate.kind === type.kind);
+      model.nodes.push({
+        id,
+        label: describeElement(element, type),
+        shape: type.shape,
+        classes: style ? [style.name] : [],
+        subgraph: subgraphOf(bpmnId)
+      });
+      collectDataAssociations(element);
+      if (localName === 'boundaryEvent') boundaryEvents.push(element);
+    });
+  };
+
+  /** Nested lane sets become nested subgraphs; returns the innermost lane of every flow node */
+  const addLanes = (laneSet: Element | undefined, parent: string | undefined, laneOf: Map<string, string>) => {
+    if (!laneSet) return;
+    childElements(laneSet, 'lane').forEach((lane) => {
+      const name = readName(lane);
+      const id = register(lane.getAttribute('id'), name || 'lane');
+      model.subgraphs.push({ id, label: name || ' ', parent });
+      laneCount++;
+      childElements(lane, 'flowNodeRef').forEach((ref) => laneOf.set(readText(ref), id));
+      addLanes(childElements(lane, 'childLaneSet')[0], id, laneOf);
+    });
+  };
+
+  const addProcess = (process: Element, pool: string | undefined) => {
+    const laneOf = new Map<string, string>();
+    if (options.showLanes) addLanes(childElements(process, 'laneSet')[0], pool, laneOf);
+    addFlowElements(process, (bpmnId) => laneOf.get(bpmnId) ?? pool);
+  };
+
+  const processes = childElements(root, 'process');
+  const processById = new Map(processes.map((process) => [process.getAttribute('id'), process]));
+  const added = new Set<Element>();
+  const collaborations = childElements(root, 'collaboration');
+
+  collaborations.forEach((collaboration) => {
+    childElements(collaboration, 'participant').forEach((participant) => {
+      const name = readName(participant) || 'Pool';
+      const process = processById.get(participant.getAttribute('processRef'));
+      if (!process || added.has(process)) {
+        // A collapsed ("black box") pool only takes part in message flows
+        model.nodes.push({ id: register(participant.getAttribute('id'), name), label: name, shape: 'rect', classes: [] });
+        return;
+      }
+      added.add(process);
+      if (options.showLanes) {
+        const pool = register(participant.getAttribute('id'), name);
+        model.subgraphs.push({ id: pool, label: name });
+        addProcess(process, pool);
+        return;
+      }
+      addProcess(process, undefined);
+      // Without a pool subgraph, message flows aimed at the pool land on its first start event
+      const start = childElements(process, 'startEvent')[0];
+      const startId = start && idsByBpmnId.get(start.getAttribute('id'));
+      if (startId) idsByBpmnId.set(participant.getAttribute('id'), startId);
+    });
+  });
+  processes.filter((process) => !added.has(process)).forEach((process) => addProcess(process, undefined));
+
+  childElements(root)
+    .filter((element) => !ROOT_DEFINITIONS.has(element.localName))
+    .forEach((element) => skip(element.localName));
+
+  if (model.nodes.length === 0) {
+    throw new Error('No tasks, events or gateways found in the BPMN file');
+  }
+
+  const edgeKeys = new Set<string>();
+  const addEdge = (fromBpmnId: string, toBpmnId: string, edge: Omit<FlowEdge, 'from' | 'to' | 'bidirectional'>, description: string) => {
+    const from = idsByBpmnId.get(fromBpmnId);
+    const to = idsByBpmnId.get(toBpmnId);
+    if (!from || !to) {
+      warnings.push(`Skipped ${description} from "${fromBpmnId}" to "${toBpmnId}": one end is not a drawn element`);
+      return;
+    }
+    const key = `${from}->${to}:${edge.label ?? ''}`;
+    if (edgeKeys.has(key)) return;
+    edgeKeys.add(key);
+    model.edges.push({ from, to, ...edge, bidirectional: false });
+  };
+
+  let sequenceFlowCount = 0;
+  boundaryEvents.forEach((event) => {
+    addEdge(event.getAttribute('attachedToRef'), event.getAttribute('id'), { stroke: 'dotted', head: 'none' }, 'boundary event');
+  });
+  flowContainers.forEach((container) => {
+    childElements(container, 'sequenceFlow').forEach((flow) => {
+      sequenceFlowCount++;
+      const condition = readText(childElements(flow, 'conditionExpression')[0]);
+      const labels = [readName(flow) || condition, defaultFlows.has(flow.getAttribute('id')) ? 'default' : ''].filter(Boolean);
+      addEdge(
+        flow.getAttribute('sourceRef'),
+        flow.getAttribute('targetRef'),
+        { label: labels.join(' · ') || undefined, stroke: 'normal', head: 'arrow' },
+        'sequence flow'
+      );
+    });
+  });
+
+  let messageFlowCount = 0;
+  collaborations.forEach((collaboration) => {
+    childElements(collaboration).forEach((element) => {
+      if (element.localName === 'messageFlow') {
+        messageFlowCount++;
+        addEdge(
+          element.getAttribute('sourceRef'),
+          element.getAttribute('targetRef'),
+          { label: readName(element) || undefined, stroke: 'dotted', head: 'arrow' },
+          'message flow'
+        );
+      } else if (element.localName !== 'participant') {
+        skip(element.localName);
+      }
+    });
+  });
+
+  dataAssociations.forEach(({ from, to }) => addEdge(from, to, { stroke: 'dotted', head: 'arrow' }, 'data association'));
+
+  if (skipped.size > 0) {
+    const summary = [...skipped.entries()].map(([name, count]) => (count > 1 ? `${name} (${count})` : name)).join(', ');
+    warnings.push(`Skipped BPMN elements with no flowchart equivalent: ${summary}`);
+  }
+
+  const usedClasses = new Set(model.nodes.flatMap((node) => node.classes));
+  model.classDefs = KIND_STYLES.filter((style) => usedClasses.has(style.name)).map(({ name, styles }) => ({ name, styles }));
+
+  const count = (kind: BpmnKind) => String(kindCounts.get(kind) ?? 0);
+  return {
+    mermaidCode: serializeDiagram(model),
+    diagramType: 'Flowchart',
+    warnings,
+    stats: [
+      { label: 'Processes', value: String(processes.length) },
+      { label: 'Tasks', value: count('task') },
+      { label: 'Sub-processes', value: count('subprocess') },
+      { label: 'Gateways', value: count('gateway') },
+      { label: 'Events', value: String((kindCounts.get('start') ?? 0) + (kindCounts.get('end') ?? 0) + (kindCounts.get('event') ?? 0)) },
+      { label: 'Sequence flows', value: String(sequenceFlowCount) },
+      { label: 'Message flows', value: String(messageFlowCount) },
+      { label: 'Lanes', value: String(laneCount) }
+    ]
+  };
+};
@@ -0,0 +1,73 @@
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+}
+
+const DELIMITERS = [',', ';', '\t', '|'];
+
+/** The candidate delimiter that appears most often in the header line, outside quotes. */
+const detectDelimiter = (text: string): string => {
+  const header = text.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, '');
+  return DELIMITERS.reduce((best, delimiter) => (header.split(delimiter).length > header.split(best).length ? delimiter : best), ',');
+};
+
+/**
+ * Parses delimited text with RFC 4180 quoting: quoted fields may contain
+ * delimiters, newlines and doubled quotes. The delimiter is detected from the
+ * header line; the first row is the header and blank lines are skipped.
+ */
+export const parseCsv = (text: string): CsvTable => {
+  const source = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(source);
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const endRecord = () => {
+    record.push(field);
+    if (record.length > 1 || record[0].trim()) records.push(record);
+    record = [];
+    field = '';
+  };
+
+  for (let index = 0; index < source.length; index++) {
+    const character = source[index];
+    if (quoted) {
+      if (character === '"' && source[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (character === '"') {
+        quoted = false;
+      } else {
+        field += character;
+      }
+    } else if (character === '"' && !field) {
+      quoted = true;
+    } else if (character === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (character === '\n' || character === '\r') {
+      if (character === '\r' && source[index + 1] === '\n') index++;
+      endRecord();
+    } else {
+      field += character;
+    }
+  }
+  if (field || record.length > 0) endRecord();
+
+  if (records.length === 0) {
+    throw new Error('The CSV is empty');
+  }
+  const [headers, ...rows] = records;
+  return { headers: headers.map((header) => header.trim()), rows };
+};
+
+/** Index of the first header matching one of the patterns, in pattern order, or -1. */
+export const findColumn = (headers: string[], patterns: RegExp[]): number => {
+  for (const pattern of patterns) {
+    const index = headers.findIndex((header) => pattern.test(header));
+    if (index >= 0) return index;
+  }
+  return -1;
+};
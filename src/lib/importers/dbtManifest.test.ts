@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { importDbtManifest } from './dbtManifest';
+
+const node = (uniqueId: string, folder: string, dependsOn: string[] = []) => {
+  const name = uniqueId.split('.').pop();
+  return {
+    unique_id: uniqueId,
+    resource_type: 'model',
+    name,
+    package_name: 'shop',
+    fqn: ['shop', folder, name],
+    original_file_path: `models/${folder}/${name}.sql`,
+    depends_on: { nodes: dependsOn }
+  };
+};
+
+const MANIFEST = JSON.stringify({
+  nodes: {
+    'model.shop.stg_orders': node('model.shop.stg_orders', 'staging', ['source.shop.raw.orders']),
+    'model.shop.orders': node('model.shop.orders', 'marts', ['model.shop.stg_orders'])
+  },
+  sources: {
+    'source.shop.raw.orders': {
+      unique_id: 'source.shop.raw.orders',
+      resource_type: 'source',
+      name: 'orders',
+      source_name: 'raw',
+      package_name: 'shop',
+      fqn: ['shop', 'raw', 'orders']
+    }
+  }
+});
+
+describe('importDbtManifest', () => {
+  it('draws the lineage from sources through staging to marts', () => {
+    const result = importDbtManifest(MANIFEST, { grouping: 'none', showTests: false });
+
+    expect(result.mermaidCode).toBe(
+      [
+        'flowchart LR',
+        '    classDef source fill:#ecfdf5,stroke:#059669,color:#064e3b',
+        '    classDef staging fill:#eff6ff,stroke:#2563eb,color:#1e3a8a',
+        '    classDef mart fill:#fff7ed,stroke:#ea580c,color:#7c2d12',
+        '    raw_orders[(raw.orders)]:::source',
+        '    stg_orders:::staging',
+        '    orders:::mart',
+        '    raw_orders --> stg_orders',
+        '    stg_orders --> orders'
+      ].join('\n')
+    );
+  });
+
+  it('reports input that is not a manifest', () => {
+    expect(() => importDbtManifest('nope', { grouping: 'none', showTests: false })).toThrow('The manifest is not valid JSON');
+    expect(() => importDbtManifest('{"a": 1}', { grouping: 'none', showTests: false })).toThrow(/Not a dbt manifest/);
+  });
+
+  it('reports selectors that match nothing or cannot be read', () => {
+    expect(() => importDbtManifest(MANIFEST, { select: 'tag:nightly', grouping: 'none', showTests: false })).toThrow(
+      'The selector matched no nodes'
+    );
+    expect(() => importDbtManifest(MANIFEST, { select: 'bogus:x', grouping: 'none', showTests: false })).toThrow(
+      'Unsupported selector method "bogus:"'
+    );
+  });
+});
@@ -0,0 +1,454 @@
+import { FlowchartModel, FlowNode, FlowSubgraph, NodeShape } from '@/lib/diagram/model';
+import { serializeDiagram } from '@/lib/diagram/diagram';
+import { createIdentifierAllocator } from './identifiers';
+import { ImportResult } from './types';
+
+export type DbtGrouping = 'folder' | 'package' | 'none';
+
+export const DBT_GROUPINGS: Array<{ id: DbtGrouping; label: string }> = [
+  { id: 'folder', label: 'Group by folder' },
+  { id: 'package', label: 'Group by package' },
+  { id: 'none', label: 'No grouping' }
+];
+
+export interface DbtImportOptions {
+  /** dbt selector syntax, e.g. "+orders+", "tag:nightly", "staging.*" */
+  select?: string;
+  exclude?: string;
+  grouping: DbtGrouping;
+  showTests: boolean;
+}
+
+interface ManifestNode {
+  unique_id: string;
+  resource_type: string;
+  name: string;
+  package_name: string;
+  fqn?: string[];
+  original_file_path?: string;
+  source_name?: string;
+  tags?: string[];
+  config?: Record<string, unknown>;
+  depends_on?: { nodes?: string[] };
+  attached_node?: string | null;
+  column_name?: string | null;
+  test_metadata?: { name: string; kwargs?: Record<string, unknown> } | null;
+}
+
+interface Manifest {
+  nodes: Record<string, ManifestNode>;
+  sources?: Record<string, ManifestNode>;
+  exposures?: Record<string, ManifestNode>;
+}
+
+type Layer = 'source' | 'seed' | 'snapshot' | 'staging' | 'intermediate' | 'mart' | 'model' | 'exposure';
+
+const LINEAGE_RESOURCE_TYPES = ['model', 'seed', 'snapshot', 'source', 'exposure'];
+
+const LAYER_STYLES: Record<Layer | 'tests', string> = {
+  source: 'fill:#ecfdf5,stroke:#059669,color:#064e3b',
+  seed: 'fill:#f0fdfa,stroke:#0d9488,color:#134e4a',
+  snapshot: 'fill:#fdf4ff,stroke:#a21caf,color:#701a75',
+  staging: 'fill:#eff6ff,stroke:#2563eb,color:#1e3a8a',
+  intermediate: 'fill:#eef2ff,stroke:#4f46e5,color:#312e81',
+  mart: 'fill:#fff7ed,stroke:#ea580c,color:#7c2d12',
+  model: 'fill:#f8fafc,stroke:#475569,color:#0f172a',
+  exposure: 'fill:#fefce8,stroke:#ca8a04,color:#713f12',
+  tests: 'fill:#f9fafb,stroke:#9ca3af,color:#4b5563,stroke-dasharray:3 3'
+};
+
+const LAYER_SHAPES: Record<Layer, NodeShape> = {
+  source: 'cylinder',
+  seed: 'cylinder',
+  snapshot: 'subroutine',
+  staging: 'rect',
+  intermediate: 'rect',
+  mart: 'rect',
+  model: 'rect',
+  exposure: 'stadium'
+};
+
+// Annotations list a handful of tests; the rest are summarised as a count
+const MAX_TESTS_PER_NODE = 6;
+
+// Above this many nodes Mermaid layouts become unreadable
+const LARGE_GRAPH_NODES = 150;
+
+const parseManifest = (json: string): Manifest => {
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(json);
+  } catch {
+    throw new Error('The manifest is not valid JSON');
+  }
+  if (!manifest || typeof manifest !== 'object' || typeof (manifest as Manifest).nodes !== 'object') {
+    throw new Error('Not a dbt manifest: the "nodes" section is missing');
+  }
+  return manifest as Manifest;
+};
+
+/** Folders between the package and the file, e.g. ["marts", "finance"] */
+const getFolders = (node: ManifestNode): string[] => {
+  const fqn = node.fqn ?? [];
+  return node.resource_type === 'source' ? [] : fqn.slice(1, -1);
+};
+
+const getLayer = (node: ManifestNode): Layer => {
+  if (node.resource_type !== 'model') return node.resource_type as Layer;
+  const folders = getFolders(node).map((folder) => folder.toLowerCase());
+  const name = node.name.toLowerCase();
+  if (folders.includes('staging') || name.startsWith('stg_')) return 'staging';
+  if (folders.includes('intermediate') || name.startsWith('int_')) return 'intermediate';
+  if (folders.some((folder) => folder.startsWith('mart')) || /^(fct|fact|dim|mart|rpt)_/.test(name)) return 'mart';
+  return 'model';
+};
+
+const getLabel = (node: ManifestNode): string =>
+  node.resource_type === 'source' ? `${node.source_name}.${node.name}` : node.name;
+
+// ---------------------------------------------------------------------------
+// Selectors
+
+const globToRegExp = (pattern: string): RegExp =>
+  new RegExp(`^${pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.')}$`, 'i');
+
+const matchesGlob = (value: string | undefined, pattern: string): boolean =>
+  value !== undefined && globToRegExp(pattern).test(value);
+
+const matchesSegments = (values: string[], segments: string[]): boolean =>
+  segments.length <= values.length && segments.every((segment, index) => matchesGlob(values[index], segment));
+
+const matchesMethod = (node: ManifestNode, method: string, value: string): boolean => {
+  switch (method) {
+    case 'fqn': {
+      const segments = value.split('.');
+      const fqn = node.fqn ?? [node.package_name, node.name];
+      return (
+        (segments.length === 1 && matchesGlob(node.name, value)) ||
+        matchesSegments(fqn, segments) ||
+        matchesSegments(fqn.slice(1), segments)
+      );
+    }
+    case 'tag':
+      return [...(node.tags ?? []), ...((node.config?.tags as string[]) ?? [])].some((tag) => matchesGlob(tag, value));
+    case 'source': {
+      const [sourceName, tableName = '*'] = value.split('.');
+      return node.resource_type === 'source' && matchesGlob(node.source_name, sourceName) && matchesGlob(node.name, tableName);
+    }
+    case 'exposure':
+      return node.resource_type === 'exposure' && matchesGlob(node.name, value);
+    case 'path': {
+      const path = node.original_file_path ?? '';
+      const prefix = value.replace(/\/+$/, '');
+      return value.includes('*') ? matchesGlob(path, value) : path === prefix || path.startsWith(`${prefix}/`);
+    }
+    case 'package':
+      return matchesGlob(node.package_name, value);
+    case 'resource_type':
+      return node.resource_type === value;
+    default:
+      if (method.startsWith('config.')) {
+        return String(node.config?.[method.slice('config.'.length)] ?? '') === value;
+      }
+      throw new Error(`Unsupported selector method "${method}:"`);
+  }
+};
+
+const SELECTOR_ATOM = /^(@)?(\d*\+)?(?:([a-z_.]+):)?([^+]+?)(\+\d*)?$/;
+
+const parseDepth = (operator: string | undefined): number | null => {
+  if (!operator) return null;
+  const digits = operator.replace('+', '');
+  return digits ? Number(digits) : Infinity;
+};
+
+const walk = (start: Set<string>, edges: Map<string, Set<string>>, depth: number): Set<string> => {
+  const visited = new Set(start);
+  let frontier = [...start];
+  for (let level = 0; level < depth && frontier.length > 0; level++) {
+    const next: string[] = [];
+    frontier.forEach((id) => {
+      edges.get(id)?.forEach((neighbour) => {
+        if (!visited.has(neighbour)) {
+          visited.add(neighbour);
+          next.push(neighbour);
+        }
+      });
+    });
+    frontier = next;
+  }
+  return visited;
+};
+
+interface LineageGraph {
+  nodes: Map<string, ManifestNode>;
+  parents: Map<string, Set<string>>;
+  children: Map<string, Set<string>>;
+}
+
+const selectAtom = (atom: string, graph: LineageGraph): Set<string> => {
+  const match = SELECTOR_ATOM.exec(atom);
+  if (!match) {
+    throw new Error(`Could not parse selector "${atom}"`);
+  }
+  const [, at, upstream, method = 'fqn', value, downstream] = match;
+
+  const seeds = new Set([...graph.nodes.values()].filter((node) => matchesMethod(node, method, value)).map((node) => node.unique_id));
+  if (at) {
+    // @model: the model, everything downstream of it, and everything those nodes depend on
+    const descendants = walk(seeds, graph.children, Infinity);
+    return walk(descendants, graph.parents, Infinity);
+  }
+
+  const upstreamDepth = parseDepth(upstream);
+  const downstreamDepth = parseDepth(downstream);
+  return new Set([
+    ...seeds,
+    ...(upstreamDepth !== null ? walk(seeds, graph.parents, upstreamDepth) : []),
+    ...(downstreamDepth !== null ? walk(seeds, graph.children, downstreamDepth) : [])
+  ]);
+};
+
+/** Space-separated selectors are unioned, comma-separated ones intersected, as in dbt. */
+const applySelector = (selector: string, graph: LineageGraph): Set<string> => {
+  const selected = new Set<string>();
+  selector
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .forEach((union) => {
+      const sets = union.split(',').filter(Boolean).map((atom) => selectAtom(atom, graph));
+      const [first, ...rest] = sets;
+      first?.forEach((id) => {
+        if (rest.every((set) => set.has(id))) selected.add(id);
+      });
+    });
+  return selected;
+};
+
+// ---------------------------------------------------------------------------
+// Tests
+
+const describeTest = (test: ManifestNode): string => {
+  if (!test.test_metadata) return test.name;
+  const column = test.column_name ?? (test.test_metadata.kwargs?.column_name as string | undefined);
+  return column ? `${test.test_metadata.name}(${column})` : test.test_metadata.name;
+};
+
+const REF_ARGUMENT = /ref\(\s*['"]([^'"]+)['"]\s*\)/;
+const SOURCE_ARGUMENT = /source\(\s*['"]([^'"]+)['"]\s*,\s*['"]([^'"]+)['"]\s*\)/;
+
+/** The node a test is declared on: `attached_node` in dbt 1.5+, otherwise the `model` argument. */
+const findTestedNode = (test: ManifestNode, graph: LineageGraph): string | undefined => {
+  if (test.attached_node && graph.nodes.has(test.attached_node)) return test.attached_node;
+
+  const modelArgument = String(test.test_metadata?.kwargs?.model ?? '');
+  const dependencies = (test.depends_on?.nodes ?? []).filter((id) => graph.nodes.has(id));
+  const ref = REF_ARGUMENT.exec(modelArgument);
+  const source = SOURCE_ARGUMENT.exec(modelArgument);
+  const byArgument = dependencies.find((id) => {
+    const node = graph.nodes.get(id);
+    if (ref) return node.resource_type !== 'source' && node.name === ref[1];
+    if (source) return node.resource_type === 'source' && node.source_name === source[1] && node.name === source[2];
+    return false;
+  });
+  if (byArgument) return byArgument;
+  return dependencies.length === 1 ? dependencies[0] : undefined;
+};
+
+const collectTests = (manifest: Manifest, graph: LineageGraph, warnings: string[]): Map<string, string[]> => {
+  const testsByNode = new Map<string, string[]>();
+  let unattached = 0;
+
+  Object.values(manifest.nodes)
+    .filter((node) => node.resource_type === 'test')
+    .forEach((test) => {
+      const target = findTestedNode(test, graph);
+      if (!target) {
+        unattached += 1;
+        return;
+      }
+      testsByNode.set(target, [...(testsByNode.get(target) ?? []), describeTest(test)]);
+    });
+
+  if (unattached > 0) {
+    warnings.push(`${unattached} test(s) could not be attached to a single model and are not shown`);
+  }
+  return testsByNode;
+};
+
+const formatTests = (tests: string[]): string => {
+  const unique = [...new Set(tests)].sort();
+  const shown = unique.slice(0, MAX_TESTS_PER_NODE);
+  const more = unique.length - shown.length;
+  return [...shown, ...(more > 0 ? [`+${more} more`] : [])].join('<br/>');
+};
+
+// ---------------------------------------------------------------------------
+// Graph construction
+
+const buildGraph = (manifest: Manifest, warnings: string[]): LineageGraph => {
+  const nodes = new Map<string, ManifestNode>();
+  [manifest.nodes, manifest.sources ?? {}, manifest.exposures ?? {}].forEach((section) => {
+    Object.entries(section).forEach(([id, node]) => {
+      if (LINEAGE_RESOURCE_TYPES.includes(node.resource_type)) {
+        nodes.set(id, { ...node, unique_id: node.unique_id ?? id });
+      }
+    });
+  });
+
+  const parents = new Map<string, Set<string>>();
+  const children = new Map<string, Set<string>>();
+  const missing = new Set<string>();
+  nodes.forEach((node, id) => {
+    (node.depends_on?.nodes ?? []).forEach((parent) => {
+      if (!nodes.has(parent)) {
+        // Macros and metrics are not part of the lineage; anything else is a dangling reference
+        if (LINEAGE_RESOURCE_TYPES.includes(parent.split('.')[0])) missing.add(parent);
+        return;
+      }
+      if (!parents.has(id)) parents.set(id, new Set());
+      if (!children.has(parent)) children.set(parent, new Set());
+      parents.get(id).add(parent);
+      children.get(parent).add(id);
+    });
+  });
+
+  if (missing.size > 0) {
+    warnings.push(`Dependencies missing from the manifest were dropped: ${[...missing].sort().join(', ')}`);
+  }
+  return { nodes, parents, children };
+};
+
+/** Returns the subgraph id that nodes of this group live in, creating the chain of subgraphs on first use. */
+const createSubgraphResolver = (model: FlowchartModel, allocateId: (key: string, name?: string) => string) => {
+  const byPath = new Map<string, string>();
+
+  return (path: string[]): string | undefined => {
+    let parent: string | undefined;
+    path.forEach((segment, index) => {
+      const key = path.slice(0, index + 1).join('/');
+      let id = byPath.get(key);
+      if (!id) {
+        id = allocateId(`group:${key}`, `grp_${key}`);
+        byPath.set(key, id);
+        const subgraph: FlowSubgraph = { id, label: segment };
+        if (parent) subgraph.parent = parent;
+        model.subgraphs.push(subgraph);
+      }
+      parent = id;
+    });
+    return parent;
+  };
+};
+
+const getGroupPath = (node: ManifestNode, grouping: DbtGrouping): string[] => {
+  if (grouping === 'package') return [node.package_name];
+  if (grouping === 'none') return [];
+  if (node.resource_type === 'source') return [`source: ${node.source_name}`];
+  if (node.resource_type === 'exposure') return ['exposures'];
+  return getFolders(node);
+};
+
+/**
+ * Converts a dbt manifest.json into a left-to-right lineage flowchart:
+ * sources feed staging, intermediate and mart models, grouped into subgraphs
+ * by folder or package. Selectors narrow the graph the same way `dbt ls
+ * --select/--exclude` would, and generic tests become annotations on the node
+ * they are declared on.
+ */
+export const importDbtManifest = (json: string, options: DbtImportOptions): ImportResult => {
+  const warnings: string[] = [];
+  const manifest = parseManifest(json);
+  const graph = buildGraph(manifest, warnings);
+  if (graph.nodes.size === 0) {
+    throw new Error('The manifest contains no models, seeds, snapshots or sources');
+  }
+
+  let selected = options.select?.trim() ? applySelector(options.select, graph) : new Set(graph.nodes.keys());
+  if (options.exclude?.trim()) {
+    const excluded = applySelector(options.exclude, graph);
+    selected = new Set([...selected].filter((id) => !excluded.has(id)));
+  }
+  if (selected.size === 0) {
+    throw new Error('The selector matched no nodes');
+  }
+  if (selected.size > LARGE_GRAPH_NODES) {
+    warnings.push(`${selected.size} nodes selected; narrow the selection (e.g. "+my_model+") for a readable diagram`);
+  }
+
+  const model: FlowchartModel = {
+    kind: 'flowchart',
+    keyword: 'flowchart',
+    direction: 'LR',
+    nodes: [],
+    edges: [],
+    subgraphs: [],
+    classDefs: [],
+    directives: [],
+    preamble: []
+  };
+  const allocateId = createIdentifierAllocator();
+  const resolveSubgraph = createSubgraphResolver(model, allocateId);
+  const usedClasses = new Set<string>();
+  const testsByNode = options.showTests ? collectTests(manifest, graph, warnings) : new Map<string, string[]>();
+
+  // Sources first so the layout reads sources → staging → marts
+  const layerOrder: Layer[] = ['source', 'seed', 'snapshot', 'staging', 'intermediate', 'model', 'mart', 'exposure'];
+  const ordered = [...selected]
+    .map((id) => graph.nodes.get(id))
+    .sort((left, right) => layerOrder.indexOf(getLayer(left)) - layerOrder.indexOf(getLayer(right)));
+
+  ordered.forEach((node) => {
+    const layer = getLayer(node);
+    const label = getLabel(node);
+    const flowNode: FlowNode = {
+      id: allocateId(node.unique_id, label),
+      label,
+      shape: LAYER_SHAPES[layer],
+      classes: [layer]
+    };
+    const subgraph = resolveSubgraph(getGroupPath(node, options.grouping));
+    if (subgraph) flowNode.subgraph = subgraph;
+    model.nodes.push(flowNode);
+    usedClasses.add(layer);
+
+    const tests = testsByNode.get(node.unique_id);
+    if (tests) {
+      const testNode: FlowNode = {
+        id: allocateId(`${node.unique_id}#tests`, `${label}_tests`),
+        label: formatTests(tests),
+        shape: 'asymmetric',
+        classes: ['tests']
+      };
+      if (subgraph) testNode.subgraph = subgraph;
+      model.nodes.push(testNode);
+      model.edges.push({ from: flowNode.id, to: testNode.id, stroke: 'dotted', head: 'none', bidirectional: false });
+      usedClasses.add('tests');
+    }
+  });
+
+  ordered.forEach((node) => {
+    [...(graph.parents.get(node.unique_id) ?? [])]
+      .filter((parent) => selected.has(parent))
+      .forEach((parent) => {
+        model.edges.push({
+          from: allocateId(parent),
+          to: allocateId(node.unique_id),
+          stroke: 'normal',
+          head: 'arrow',
+          bidirectional: false
+        });
+      });
+  });
+
+  model.classDefs = (Object.keys(LAYER_STYLES) as Array<Layer | 'tests'>)
+    .filter((name) => usedClasses.has(name))
+    .map((name) => ({ name, styles: LAYER_STYLES[name] }));
+
+  return {
+    mermaidCode: serializeDiagram(model),
+    diagramType: 'Flowchart',
+    warnings
+  };
+};
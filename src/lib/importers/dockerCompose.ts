@@ -0,0 +1,154 @@
+import { ArchitectureBuilder, classifyImage, findHostReferences } from './architecture';
+
+type ShortOrLong<T> = string | number | T;
+
+interface ComposeService {
+  image?: string;
+  build?: string | { context?: string };
+  container_name?: string;
+  hostname?: string;
+  depends_on?: string[] | Record<string, unknown>;
+  links?: string[];
+  environment?: string[] | Record<string, string | number | boolean | null>;
+  ports?: Array<ShortOrLong<{ target?: number; published?: number | string }>>;
+  volumes?: Array<ShortOrLong<{ type?: string; source?: string; target?: string }>>;
+  networks?: string[] | Record<string, { aliases?: string[] } | null>;
+  configs?: Array<ShortOrLong<{ source?: string }>>;
+  secrets?: Array<ShortOrLong<{ source?: string }>>;
+}
+
+export interface ComposeFile {
+  services: Record<string, ComposeService | null>;
+  volumes?: Record<string, unknown>;
+  networks?: Record<string, unknown>;
+  configs?: Record<string, unknown>;
+  secrets?: Record<string, unknown>;
+}
+
+const CLIENTS_KEY = 'external:clients';
+
+const listOrKeys = (value: string[] | Record<string, unknown> | undefined): string[] =>
+  Array.isArray(value) ? value : Object.keys(value ?? {});
+
+const environmentValues = (environment: ComposeService['environment']): string[] =>
+  Array.isArray(environment)
+    ? environment.map((entry) => entry.split('=').slice(1).join('='))
+    : Object.values(environment ?? {}).map((value) => String(value ?? ''));
+
+/** "8080:80", "127.0.0.1:8080:80/tcp" or { published, target } as "8080→80"; unpublished ports return null. */
+const formatPublishedPort = (port: ComposeService['ports'][number]): string | null => {
+  if (typeof port === 'object') {
+    return port.published !== undefined ? `${port.published}→${port.target}` : null;
+  }
+  const parts = String(port).replace(/\/\w+$/, '').split(':');
+  if (parts.length < 2) return null;
+  return `${parts[parts.length - 2]}→${parts[parts.length - 1]}`;
+};
+
+/** Named volume and mount path, or null for bind mounts and anonymous volumes. */
+const parseVolume = (volume: ComposeService['volumes'][number]): { name: string; target?: string } | null => {
+  if (typeof volume === 'object') {
+    return volume.type === 'volume' && volume.source ? { name: volume.source, target: volume.target } : null;
+  }
+  const [source, target] = String(volume).split(':');
+  if (!target || /^[./~$]/.test(source) || source.includes('/')) return null;
+  return { name: source, target };
+};
+
+const referenceName = (reference: ShortOrLong<{ source?: string }>): string | undefined =>
+  typeof reference === 'object' ? reference.source : String(reference);
+
+/**
+ * Adds docker-compose services, named volumes, configs and secrets. Edges
+ * come from hostnames in environment values and links first, then
+ * depends_on, so an explicit connection string outranks a start-order hint.
+ */
+export const addComposeFile = (
+  builder: ArchitectureBuilder,
+  compose: ComposeFile,
+  groupByNetwork: boolean,
+  warnings: string[]
+) => {
+  const services = Object.entries(compose.services ?? {}).map(([name, service]) => ({ name, service: service ?? {} }));
+  if (services.length === 0) {
+    throw new Error('The compose file defines no services');
+  }
+  const networkOf = (service: ComposeService) => listOrKeys(service.networks)[0] ?? 'default';
+  const networks = new Set(services.map(({ service }) => networkOf(service)));
+  // Everything on the implicit default network needs no box around it
+  const useGroups = groupByNetwork && (networks.size > 1 || !networks.has('default'));
+
+  const hostToService = new Map<string, string>();
+  services.forEach(({ name, service }) => {
+    const aliases = Array.isArray(service.networks)
+      ? []
+      : Object.values(service.networks ?? {}).flatMap((network) => network?.aliases ?? []);
+    [name, service.container_name, service.hostname, ...aliases].filter(Boolean).forEach((host) => hostToService.set(host, name));
+  });
+
+  services.forEach(({ name, service }) => {
+    const build = typeof service.build === 'string' ? service.build : service.build?.context;
+    const detail = service.image ?? (build ? `build: ${build}` : undefined);
+    const { shape, role } = classifyImage(service.image ?? name);
+    builder.node(`service:${name}`, {
+      label: detail ? `${name}<br/>${detail}` : name,
+      shape,
+      role,
+      ...(useGroups && { group: builder.group(`network:${networkOf(service)}`, networkOf(service)) })
+    });
+  });
+
+  services.forEach(({ name, service }) => {
+    const from = `service:${name}`;
+
+    environmentValues(service.environment).forEach((value) => {
+      findHostReferences(value, [...hostToService.keys()]).forEach(({ host, port }) => {
+        builder.edge(from, `service:${hostToService.get(host)}`, port ? { label: port } : {});
+      });
+    });
+
+    (service.links ?? []).forEach((link) => {
+      const target = hostToService.get(link.split(':')[0]);
+      if (target) builder.edge(from, `service:${target}`);
+    });
+
+    (service.ports ?? []).forEach((port) => {
+      const published = formatPublishedPort(port);
+      if (!published) return;
+      builder.node(CLIENTS_KEY, { label: 'Clients', shape: 'circle', role: 'external' });
+      builder.edge(CLIENTS_KEY, from, { label: published });
+    });
+
+    (service.volumes ?? []).forEach((volume) => {
+      const parsed = parseVolume(volume);
+      if (!parsed) return;
+      if (compose.volumes && !(parsed.name in compose.volumes)) {
+        warnings.push(`Service ${name} mounts volume ${parsed.name}, which is not declared under volumes`);
+      }
+      builder.node(`volume:${parsed.name}`, { label: parsed.name, shape: 'cylinder', role: 'storage' });
+      builder.edge(from, `volume:${parsed.name}`, { label: parsed.target, stroke: 'dotted' });
+    });
+
+    Object.entries({ config: service.configs, secret: service.secrets }).forEach(([kind, references]) => {
+      (references ?? []).forEach((reference) => {
+        const referenced = referenceName(reference);
+        if (!referenced) return;
+        builder.node(`${kind}:${referenced}`, { label: `${referenced}<br/>${kind}`, shape: 'asymmetric', role: 'config' });
+        builder.edge(from, `${kind}:${referenced}`, { stroke: 'dotted' });
+      });
+    });
+  });
+
+  services.forEach(({ name, service }) => {
+    listOrKeys(service.depends_on).forEach((dependency) => {
+      const target = hostToService.get(dependency);
+      if (!target) {
+        warnings.push(`Service ${name} depends on ${dependency}, which is not defined`);
+        return;
+      }
+      if (!builder.hasEdge(`service:${name}`, `service:${target}`)) {
+        builder.edge(`service:${name}`, `service:${target}`, { label: 'depends_on', stroke: 'dotted' });
+      }
+    });
+  });
+};
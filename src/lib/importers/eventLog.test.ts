@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv } from './csv';
+import { importEventLog } from './eventLog';
+
+const LOG = parseCsv(
+  [
+    'case,activity,timestamp',
+    '1,Order,2024-01-01T10:00',
+    '1,Pay,2024-01-01T10:05',
+    '1,Ship,2024-01-02T09:00',
+    '2,Order,2024-01-01T11:00',
+    '2,Cancel,2024-01-01T11:30'
+  ].join('\n')
+);
+
+describe('importEventLog', () => {
+  it('draws the directly-follows graph with counts and waiting times', () => {
+    const result = importEventLog(LOG, { columns: { caseId: 0, activity: 1, timestamp: 2 }, pathThreshold: 0 });
+
+    expect(result.mermaidCode.split('\n').filter((line) => line.includes('==>'))).toEqual([
+      '    start ==>|2| Order',
+      '    Order ==>|"1 · 5.0 min"| Pay',
+      '    Pay ==>|"1 · 23 h"| Ship',
+      '    Ship ==>|1| end_',
+      '    Order ==>|"1 · 30 min"| Cancel',
+      '    Cancel ==>|1| end_'
+    ]);
+    expect(result.stats).toContainEqual({ label: 'Variants', value: '2' });
+  });
+
+  it('asks for the columns it needs', () => {
+    expect(() => importEventLog(LOG, { columns: { caseId: -1, activity: 1, timestamp: 2 }, pathThreshold: 0 })).toThrow(
+      'Choose the case id, activity and timestamp columns'
+    );
+  });
+});
@@ -0,0 +1,217 @@
+import { FlowchartModel, FlowEdge } from '@/lib/diagram/model';
+import { serializeDiagram } from '@/lib/diagram/diagram';
+import { CsvTable, findColumn } from './csv';
+import { createIdentifierAllocator } from './identifiers';
+import { ImportResult } from './types';
+
+export interface EventLogColumns {
+  caseId: number;
+  activity: number;
+  timestamp: number;
+}
+
+export interface EventLogImportOptions {
+  columns: EventLogColumns;
+  /** Hide transitions rarer than this percentage of the busiest one (0 shows every path) */
+  pathThreshold: number;
+}
+
+interface Transition {
+  from: string;
+  to: string;
+  count: number;
+  durations: number[];
+}
+
+const START = '▶ start';
+const END = '■ end';
+
+// Activities are shaded by how many events they hold relative to the busiest one
+const FREQUENCY_STYLES = [
+  { name: 'rare', share: 0, styles: 'fill:#eff6ff,stroke:#93c5fd,color:#1e3a8a' },
+  { name: 'common', share: 0.25, styles: 'fill:#bfdbfe,stroke:#3b82f6,color:#1e3a8a' },
+  { name: 'frequent', share: 0.6, styles: 'fill:#3b82f6,stroke:#1d4ed8,color:#ffffff' }
+];
+
+const COLUMN_PATTERNS: Record<keyof EventLogColumns, RegExp[]> = {
+  caseId: [/^case[\s:_-]?(id|concept:name)?$/i, /case/i, /^(trace|run|job|process)[\s_-]?id$/i, /(^|_)id$/i],
+  activity: [/^(activity|concept:name)$/i, /activity|event|task|step|stage|action|status/i],
+  timestamp: [/^(time:)?timestamp$/i, /timestamp|time|date|start|created/i]
+};
+
+/** Best guess at the case, activity and timestamp columns from their header names. */
+export const guessEventLogColumns = (headers: string[]): EventLogColumns => {
+  const caseId = findColumn(headers, COLUMN_PATTERNS.caseId);
+  const activity = findColumn(
+    headers.map((header, index) => (index === caseId ? '' : header)),
+    COLUMN_PATTERNS.activity
+  );
+  const timestamp = findColumn(
+    headers.map((header, index) => (index === caseId || index === activity ? '' : header)),
+    COLUMN_PATTERNS.timestamp
+  );
+  return { caseId, activity, timestamp };
+};
+
+/** ISO or locale dates, or epoch seconds/milliseconds. */
+const parseTimestamp = (value: string): number => {
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    const epoch = Number(trimmed);
+    return epoch > 1e11 ? epoch : epoch * 1000;
+  }
+  return Date.parse(trimmed);
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const UNITS: Array<[number, string]> = [
+  [86_400_000, 'd'],
+  [3_600_000, 'h'],
+  [60_000, 'min'],
+  [1000, 's']
+];
+
+/** Process durations span milliseconds to weeks, so the unit follows the size. */
+const formatElapsed = (ms: number): string => {
+  const [size, unit] = UNITS.find(([threshold]) => ms >= threshold) ?? [1, 'ms'];
+  const value = ms / size;
+  return `${value >= 10 || unit === 'ms' ? Math.round(value) : value.toFixed(1)} ${unit}`;
+};
+
+const transitionKey = (from: string, to: string) => `${from}\u0000${to}`;
+
+/**
+ * Mines a directly-follows graph from an event log: each case's events are
+ * ordered by timestamp and every consecutive pair of activities counts as one
+ * transition. Edges carry the transition count and the median time between
+ * the two events; rare paths are hidden below the threshold, except that
+ * every activity keeps its busiest incoming and outgoing path.
+ */
+export const importEventLog = (table: CsvTable, { columns, pathThreshold }: EventLogImportOptions): ImportResult => {
+  const warnings: string[] = [];
+  const { caseId, activity, timestamp } = columns;
+  if ([caseId, activity, timestamp].some((index) => index < 0 || index >= table.headers.length)) {
+    throw new Error('Choose the case id, activity and timestamp columns');
+  }
+
+  const cases = new Map<string, Array<{ activity: string; time: number; order: number }>>();
+  let invalid = 0;
+  table.rows.forEach((row, order) => {
+    const time = parseTimestamp(row[timestamp] ?? '');
+    const name = row[activity]?.trim();
+    const id = row[caseId]?.trim();
+    if (!id || !name || Number.isNaN(time)) {
+      invalid += 1;
+      return;
+    }
+    if (!cases.has(id)) cases.set(id, []);
+    cases.get(id).push({ activity: name, time, order });
+  });
+  if (invalid > 0) {
+    warnings.push(`Skipped ${invalid} row(s) without a case id, an activity or a readable timestamp`);
+  }
+  if (cases.size === 0) {
+    throw new Error('No events found: check that the selected columns hold case ids, activities and timestamps');
+  }
+
+  const activityCounts = new Map<string, number>();
+  const transitions = new Map<string, Transition>();
+  const variants = new Set<string>();
+  const caseDurations: number[] = [];
+  let events = 0;
+
+  const addTransition = (from: string, to: string, duration?: number) => {
+    const key = transitionKey(from, to);
+    if (!transitions.has(key)) transitions.set(key, { from, to, count: 0, durations: [] });
+    const transition = transitions.get(key);
+    transition.count += 1;
+    if (duration !== undefined) transition.durations.push(duration);
+  };
+
+  cases.forEach((caseEvents) => {
+    // Events with equal timestamps keep their file order
+    caseEvents.sort((a, b) => a.time - b.time || a.order - b.order);
+    events += caseEvents.length;
+    variants.add(caseEvents.map((event) => event.activity).join('\u0000'));
+    caseDurations.push(caseEvents[caseEvents.length - 1].time - caseEvents[0].time);
+    caseEvents.forEach((event, index) => {
+      activityCounts.set(event.activity, (activityCounts.get(event.activity) ?? 0) + 1);
+      const previous = caseEvents[index - 1];
+      if (previous) addTransition(previous.activity, event.activity, event.time - previous.time);
+    });
+    addTransition(START, caseEvents[0].activity);
+    addTransition(caseEvents[caseEvents.length - 1].activity, END);
+  });
+
+  const all = [...transitions.values()].sort((a, b) => b.count - a.count);
+  const busiest = all[0].count;
+  const minimum = (busiest * pathThreshold) / 100;
+  const kept = new Set(all.filter((transition) => transition.count >= minimum));
+  // The busiest path into and out of each activity survives so nothing is left floating
+  [...activityCounts.keys()].forEach((name) => {
+    const incoming = all.find((transition) => transition.to === name && transition.from !== name);
+    const outgoing = all.find((transition) => transition.from === name && transition.to !== name);
+    if (incoming) kept.add(incoming);
+    if (outgoing) kept.add(outgoing);
+  });
+
+  const model: FlowchartModel = {
+    kind: 'flowchart',
+    keyword: 'flowchart',
+    direction: 'TD',
+    nodes: [],
+    edges: [],
+    subgraphs: [],
+    classDefs: [],
+    directives: [],
+    preamble: []
+  };
+  const allocateId = createIdentifierAllocator();
+  const topActivity = Math.max(...activityCounts.values());
+
+  model.nodes.push({ id: allocateId(START, 'start'), label: START, shape: 'circle', classes: [] });
+  [...activityCounts]
+    .sort((a, b) => b[1] - a[1])
+    .forEach(([name, count]) => {
+      const style = [...FREQUENCY_STYLES].reverse().find((tier) => count / topActivity >= tier.share);
+      model.nodes.push({ id: allocateId(name), label: `${name}<br/>${count}`, shape: 'round', classes: [style.name] });
+    });
+  model.nodes.push({ id: allocateId(END, 'end'), label: END, shape: 'double-circle', classes: [] });
+
+  all
+    .filter((transition) => kept.has(transition))
+    .forEach((transition) => {
+      const durations = transition.durations.length > 0 ? ` · ${formatElapsed(median(transition.durations))}` : '';
+      const edge: FlowEdge = {
+        from: allocateId(transition.from),
+        to: allocateId(transition.to),
+        label: `${transition.count}${durations}`,
+        stroke: transition.count >= busiest / 2 ? 'thick' : transition.count < busiest / 10 ? 'dotted' : 'normal',
+        head: 'arrow',
+        bidirectional: false
+      };
+      model.edges.push(edge);
+    });
+
+  const usedTiers = new Set(model.nodes.flatMap((node) => node.classes));
+  model.classDefs = FREQUENCY_STYLES.filter((tier) => usedTiers.has(tier.name)).map(({ name, styles }) => ({ name, styles }));
+
+  return {
+    mermaidCode: serializeDiagram(model),
+    diagramType: 'Flowchart',
+    warnings,
+    stats: [
+      { label: 'Cases', value: String(cases.size) },
+      { label: 'Events', value: String(events) },
+      { label: 'Activities', value: String(activityCounts.size) },
+      { label: 'Variants', value: String(variants.size) },
+      { label: 'Median case duration', value: formatElapsed(median(caseDurations)) },
+      { label: 'Paths shown', value: `${kept.size} of ${all.length}` }
+    ]
+  };
+};
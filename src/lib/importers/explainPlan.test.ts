@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { importExplainPlan } from './explainPlan';
+
+const scan = (nodeType: string, relation: string, time: number, rows: number, extra = {}) => ({
+  'Node Type': nodeType,
+  'Relation Name': relation,
+  Alias: relation,
+  'Total Cost': 20,
+  'Actual Total Time': time,
+  'Actual Rows': rows,
+  'Actual Loops': 1,
+  ...extra
+});
+
+const PLAN = JSON.stringify([
+  {
+    Plan: {
+      'Node Type': 'Hash Join',
+      'Total Cost': 100,
+      'Actual Total Time': 5,
+      'Actual Rows': 10,
+      'Actual Loops': 1,
+      'Hash Cond': '(a.id = b.a_id)',
+      Plans: [
+        scan('Seq Scan', 'a', 2, 100, { 'Plan Rows': 5 }),
+        {
+          'Node Type': 'Hash',
+          'Total Cost': 30,
+          'Actual Total Time': 1,
+          'Actual Rows': 10,
+          'Actual Loops': 1,
+          Plans: [scan('Index Scan', 'b', 0.5, 10)]
+        }
+      ]
+    },
+    'Execution Time': 5.2
+  }
+]);
+
+describe('importExplainPlan', () => {
+  it('draws plan nodes bottom-up with self time and misestimated rows', () => {
+    const result = importExplainPlan(PLAN, { showConditions: true });
+
+    expect(result.mermaidCode).toBe(
+      [
+        'flowchart BT',
+        '    classDef critical fill:#fee2e2,stroke:#dc2626,stroke-width:3px,color:#7f1d1d',
+        '    classDef notable fill:#fef9c3,stroke:#ca8a04,color:#713f12',
+        '    Hash_Join{{"Hash Join<br/>(a.id = b.a_id)<br/>rows 10<br/>time 5.00 ms · self 40%"}}:::critical',
+        '    Seq_Scan[("Seq Scan<br/>on a<br/>rows 100 (est. 5) ⚠<br/>time 2.00 ms · self 40%")]:::critical',
+        '    Hash[["Hash<br/>rows 10<br/>time 1.00 ms · self 10%"]]:::notable',
+        '    Index_Scan[("Index Scan<br/>on b<br/>rows 10<br/>time 0.50 ms · self 10%")]:::notable',
+        '    Seq_Scan -->|100 rows| Hash_Join',
+        '    Index_Scan -->|10 rows| Hash',
+        '    Hash -->|10 rows| Hash_Join'
+      ].join('\n')
+    );
+    expect(result.stats).toContainEqual({ label: 'Most expensive', value: 'Hash Join (40%)' });
+  });
+
+  it('reports input that is not an EXPLAIN plan', () => {
+    expect(() => importExplainPlan('nope', { showConditions: false })).toThrow(/not valid JSON/);
+    expect(() => importExplainPlan('{"a": 1}', { showConditions: false })).toThrow('Not an EXPLAIN plan: expected objects with a "Plan" key');
+  });
+});
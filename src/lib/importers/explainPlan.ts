@@ -0,0 +1,273 @@
+import { FlowchartModel, FlowNode, NodeShape } from '@/lib/diagram/model';
+import { serializeDiagram } from '@/lib/diagram/diagram';
+import { createIdentifierAllocator } from './identifiers';
+import { ImportResult, ImportStat } from './types';
+
+export interface ExplainPlanImportOptions {
+  /** Add filter, index, join and sort conditions to the node labels */
+  showConditions: boolean;
+}
+
+interface PlanNode {
+  'Node Type': string;
+  'Parent Relationship'?: string;
+  'Subplan Name'?: string;
+  'Relation Name'?: string;
+  'Alias'?: string;
+  'Index Name'?: string;
+  'CTE Name'?: string;
+  'Function Name'?: string;
+  'Join Type'?: string;
+  'Strategy'?: string;
+  // Left out by EXPLAIN (COSTS OFF)
+  'Startup Cost'?: number;
+  'Total Cost'?: number;
+  'Plan Rows'?: number;
+  'Actual Rows'?: number;
+  'Actual Loops'?: number;
+  'Actual Total Time'?: number;
+  'Filter'?: string;
+  'Index Cond'?: string;
+  'Recheck Cond'?: string;
+  'Hash Cond'?: string;
+  'Merge Cond'?: string;
+  'Join Filter'?: string;
+  'Sort Key'?: string[];
+  'Group Key'?: string[];
+  Plans?: PlanNode[];
+}
+
+interface ExplainOutput {
+  Plan: PlanNode;
+  'Planning Time'?: number;
+  'Execution Time'?: number;
+}
+
+// Share of the query's own time (or cost, without ANALYZE) spent in one node
+const COST_TIERS = [
+  { name: 'critical', share: 0.4, styles: 'fill:#fee2e2,stroke:#dc2626,stroke-width:3px,color:#7f1d1d' },
+  { name: 'expensive', share: 0.15, styles: 'fill:#ffedd5,stroke:#ea580c,stroke-width:2px,color:#7c2d12' },
+  { name: 'notable', share: 0.05, styles: 'fill:#fef9c3,stroke:#ca8a04,color:#713f12' }
+];
+
+// Estimates this far off usually explain a bad join or scan choice
+const MISESTIMATE_FACTOR = 10;
+const MAX_CONDITION_LENGTH = 48;
+
+const getShape = (nodeType: string): NodeShape => {
+  if (/Scan$/.test(nodeType) && !/Subquery|CTE|Function|Values|Result/.test(nodeType)) return 'cylinder';
+  if (/Join|Nested Loop/.test(nodeType)) return 'hexagon';
+  if (/Sort|Hash$|Materialize|Memoize/.test(nodeType)) return 'subroutine';
+  if (/Aggregate|Group|Unique|WindowAgg|SetOp/.test(nodeType)) return 'trapezoid';
+  if (/Gather|Append|Merge Append/.test(nodeType)) return 'parallelogram';
+  return 'rect';
+};
+
+const formatNumber = (value: number): string => Math.round(value).toLocaleString('en-US');
+
+const formatMs = (ms: number): string => (ms >= 1000 ? `${(ms / 1000).toFixed(2)} s` : `${ms >= 10 ? ms.toFixed(0) : ms.toFixed(2)} ms`);
+
+const truncate = (text: string): string => (text.length > MAX_CONDITION_LENGTH ? `${text.slice(0, MAX_CONDITION_LENGTH - 1)}…` : text);
+
+/** Accepts raw JSON or psql output, where the plan sits under a QUERY PLAN header with "+" continuations. */
+const parseExplainOutput = (text: string): ExplainOutput[] => {
+  const cleaned = text.replace(/\s*\+\s*$/gm, '');
+  const start = cleaned.search(/[[{]/);
+  const end = Math.max(cleaned.lastIndexOf(']'), cleaned.lastIndexOf('}'));
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(cleaned.slice(start, end + 1));
+  } catch {
+    throw new Error('The input is not valid JSON. Run EXPLAIN (ANALYZE, FORMAT JSON) and paste the whole result.');
+  }
+  const outputs = (Array.isArray(parsed) ? parsed : [parsed]) as ExplainOutput[];
+  if (start < 0 || outputs.length === 0 || !outputs.every((output) => output?.Plan?.['Node Type'])) {
+    throw new Error('Not an EXPLAIN plan: expected objects with a "Plan" key');
+  }
+  return outputs;
+};
+
+const isAnalyzed = (node: PlanNode) => node['Actual Total Time'] !== undefined;
+
+/** Time spent in the node itself across all loops, without its children. */
+const getSelfTime = (node: PlanNode): number => {
+  const total = (plan: PlanNode) => (plan['Actual Total Time'] ?? 0) * (plan['Actual Loops'] ?? 1);
+  const children = (node.Plans ?? []).filter((child) => child['Parent Relationship'] !== 'InitPlan');
+  return Math.max(0, total(node) - children.reduce((sum, child) => sum + total(child), 0));
+};
+
+/** Estimated cost of the node itself; InitPlans are left out as in {@link getSelfTime}. */
+const getSelfCost = (node: PlanNode): number => {
+  const children = (node.Plans ?? []).filter((child) => child['Parent Relationship'] !== 'InitPlan');
+  return Math.max(0, (node['Total Cost'] ?? 0) - children.reduce((sum, child) => sum + (child['Total Cost'] ?? 0), 0));
+};
+
+const getEstimatedRows = (node: PlanNode): number => node['Plan Rows'] ?? 0;
+
+type PlanMeasure = 'time' | 'cost' | 'rows' | 'none';
+
+/** What node shading is based on: actual time, else estimated cost, else estimated rows, when the plan has them. */
+const choosePlanMeasure = (nodes: PlanNode[]): PlanMeasure => {
+  if (isAnalyzed(nodes[0])) return 'time';
+  if (nodes.some((node) => node['Total Cost'] !== undefined)) return 'cost';
+  if (nodes.some((node) => node['Plan Rows'] !== undefined)) return 'rows';
+  return 'none';
+};
+
+const MEASURES: Record<Exclude<PlanMeasure, 'none'>, (node: PlanNode) => number> = {
+  time: getSelfTime,
+  cost: getSelfCost,
+  rows: getEstimatedRows
+};
+
+const formatCost = (node: PlanNode): string | undefined =>
+  node['Startup Cost'] !== undefined && node['Total Cost'] !== undefined
+    ? `cost ${node['Startup Cost'].toFixed(2)}..${node['Total Cost'].toFixed(2)}`
+    : undefined;
+
+const describeNode = (node: PlanNode, analyzed: boolean, share: number | undefined, showConditions: boolean): string => {
+  const join = node['Join Type'] && node['Join Type'] !== 'Inner' ? ` (${node['Join Type']})` : '';
+  const strategy = node.Strategy && node.Strategy !== 'Plain' ? ` (${node.Strategy})` : '';
+  const lines = [`${node['Node Type']}${join}${strategy}`];
+
+  const relation = node['Relation Name'] ?? node['CTE Name'] ?? node['Function Name'];
+  if (relation) {
+    const alias = node.Alias && node.Alias !== relation ? ` ${node.Alias}` : '';
+    lines.push(`on ${relation}${alias}`);
+  }
+  if (node['Index Name']) lines.push(`using ${node['Index Name']}`);
+
+  if (showConditions) {
+    const condition =
+      node['Index Cond'] ?? node['Hash Cond'] ?? node['Merge Cond'] ?? node['Recheck Cond'] ?? node['Join Filter'] ?? node.Filter;
+    if (condition) lines.push(truncate(condition));
+    const keys = node['Sort Key'] ?? node['Group Key'];
+    if (keys) lines.push(truncate(`by ${keys.join(', ')}`));
+  }
+
+  if (analyzed) {
+    const loops = node['Actual Loops'] ?? 1;
+    const rows = node['Actual Rows'] ?? 0;
+    const estimate = node['Plan Rows'];
+    const misestimated =
+      estimate !== undefined &&
+      (Math.max(rows, 1) / Math.max(estimate, 1) >= MISESTIMATE_FACTOR || Math.max(estimate, 1) / Math.max(rows, 1) >= MISESTIMATE_FACTOR);
+    const estimated = estimate !== undefined ? ` (est. ${formatNumber(estimate)})` : '';
+    lines.push(`rows ${formatNumber(rows)}${estimated}${misestimated ? ' ⚠' : ''}${loops > 1 ? ` × ${formatNumber(loops)} loops` : ''}`);
+    const cost = formatCost(node);
+    if (cost) lines.push(cost);
+    lines.push(
+      loops > 0
+        ? `time ${formatMs(node['Actual Total Time'] * loops)} · self ${Math.round(share * 100)}%`
+        : 'never executed'
+    );
+  } else {
+    if (node['Plan Rows'] !== undefined) lines.push(`rows ${formatNumber(node['Plan Rows'])} (est.)`);
+    const self = share !== undefined ? `self ${Math.round(share * 100)}%` : undefined;
+    const cost = formatCost(node);
+    if (cost || self) lines.push([cost, self].filter(Boolean).join(' · '));
+  }
+  return lines.join('<br/>');
+};
+
+/**
+ * Renders Postgres `EXPLAIN (FORMAT JSON)` output as a bottom-up flowchart:
+ * rows flow from scans at the bottom to the result at the top. Nodes are
+ * shaded by their share of the query's own time (with ANALYZE) or cost
+ * (without), so the expensive part of the plan stands out.
+ */
+export const importExplainPlan = (text: string, { showConditions }: ExplainPlanImportOptions): ImportResult => {
+  const warnings: string[] = [];
+  const outputs = parseExplainOutput(text);
+  const model: FlowchartModel = {
+    kind: 'flowchart',
+    keyword: 'flowchart',
+    direction: 'BT',
+    nodes: [],
+    edges: [],
+    subgraphs: [],
+    classDefs: [],
+    directives: [],
+    preamble: []
+  };
+  const allocateId = createIdentifierAllocator();
+  const stats: ImportStat[] = [];
+  let nodeCount = 0;
+  let slowest: { share: number; label: string } | undefined;
+
+  outputs.forEach((output, index) => {
+    const analyzed = isAnalyzed(output.Plan);
+    const all: PlanNode[] = [];
+    const collect = (node: PlanNode) => {
+      all.push(node);
+      (node.Plans ?? []).forEach(collect);
+    };
+    collect(output.Plan);
+    const planMeasure = choosePlanMeasure(all);
+    const measure = planMeasure === 'none' ? undefined : MEASURES[planMeasure];
+    const total = measure ? all.reduce((sum, node) => sum + measure(node), 0) || 1 : 1;
+
+    let subgraph: string | undefined;
+    if (outputs.length > 1) {
+      subgraph = allocateId(`statement:${index}`, `statement_${index + 1}`);
+      model.subgraphs.push({ id: subgraph, label: `Statement ${index + 1}` });
+    }
+
+    const addNode = (node: PlanNode, path: string): string => {
+      nodeCount += 1;
+      const share = measure ? measure(node) / total : undefined;
+      const tier = share !== undefined ? COST_TIERS.find((candidate) => share >= candidate.share) : undefined;
+      const flowNode: FlowNode = {
+        id: allocateId(path, node['Node Type']),
+        label: describeNode(node, analyzed, share, showConditions),
+        shape: getShape(node['Node Type']),
+        classes: tier ? [tier.name] : []
+      };
+      if (subgraph) flowNode.subgraph = subgraph;
+      model.nodes.push(flowNode);
+      if (share !== undefined && (!slowest || share > slowest.share)) slowest = { share, label: node['Node Type'] };
+
+      (node.Plans ?? []).forEach((child, childIndex) => {
+        const childId = addNode(child, `${path}.${childIndex}`);
+        const relationship = child['Parent Relationship'];
+        const isSubplan = relationship === 'SubPlan' || relationship === 'InitPlan';
+        const rows = analyzed ? (child['Actual Rows'] ?? 0) * (child['Actual Loops'] ?? 1) : child['Plan Rows'];
+        model.edges.push({
+          from: childId,
+          to: flowNode.id,
+          label: isSubplan ? child['Subplan Name'] ?? relationship : rows !== undefined ? `${formatNumber(rows)} rows` : undefined,
+          stroke: isSubplan ? 'dotted' : 'normal',
+          head: 'arrow',
+          bidirectional: false
+        });
+      });
+      return flowNode.id;
+    };
+    addNode(output.Plan, `plan${index}`);
+
+    const prefix = outputs.length > 1 ? `Statement ${index + 1} ` : '';
+    if (output['Planning Time'] !== undefined) stats.push({ label: `${prefix}Planning time`, value: formatMs(output['Planning Time']) });
+    if (output['Execution Time'] !== undefined) stats.push({ label: `${prefix}Execution time`, value: formatMs(output['Execution Time']) });
+    if (!analyzed) {
+      const subject = outputs.length > 1 ? `Statement ${index + 1}` : 'The plan';
+      const shading = {
+        cost: ', so shading uses estimated cost',
+        rows: ' or costs, so shading uses estimated row counts',
+        none: ' or costs, so nodes are not shaded'
+      }[planMeasure];
+      warnings.push(`${subject} has no actual timings${shading}. Run EXPLAIN with ANALYZE for real times.`);
+    }
+  });
+
+  const usedTiers = new Set(model.nodes.flatMap((node) => node.classes));
+  model.classDefs = COST_TIERS.filter((tier) => usedTiers.has(tier.name)).map(({ name, styles }) => ({ name, styles }));
+  stats.push({ label: 'Plan nodes', value: String(nodeCount) });
+  if (slowest) stats.push({ label: 'Most expensive', value: `${slowest.label} (${Math.round(slowest.share * 100)}%)` });
+
+  return {
+    mermaidCode: serializeDiagram(model),
+    diagramType: 'Flowchart',
+    warnings,
+    stats
+  };
+};
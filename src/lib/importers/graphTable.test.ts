@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv } from './csv';
+import { guessEdgeColumns, guessNodeColumns, importGraphTables, GraphTableImportOptions } from './graphTable';
+
+const optionsFor = (edgeHeaders: string[], nodeHeaders: string[] = []): GraphTableImportOptions => ({
+  edgeColumns: guessEdgeColumns(edgeHeaders),
+  nodeColumns: guessNodeColumns(nodeHeaders),
+  shapeMap: { round: 'round', cylinder: 'cylinder' },
+  keyword: 'flowchart',
+  direction: 'LR'
+});
+
+describe('importGraphTables', () => {
+  it('draws edges with labels, node shapes and groups from a node table', () => {
+    const edges = parseCsv('source,target,label\nweb,api,HTTPS\napi,db,SQL\n');
+    const nodes = parseCsv('id,label,shape,group\nweb,Web app,round,Frontend\napi,API,,Backend\ndb,Postgres,cylinder,Backend\n');
+    const result = importGraphTables(edges, nodes, optionsFor(edges.headers, nodes.headers));
+
+    expect(result.mermaidCode).toBe(
+      [
+        'flowchart LR',
+        '    subgraph group_Frontend[Frontend]',
+        '        web(Web app)',
+        '    end',
+        '    subgraph group_Backend[Backend]',
+        '        api[API]',
+        '        db[(Postgres)]',
+        '    end',
+        '    web -->|HTTPS| api',
+        '    api -->|SQL| db'
+      ].join('\n')
+    );
+  });
+
+  it('gives nodes and groups distinct ids when their names collide', () => {
+    const edges = parseCsv('source,target\nx,group_A\n');
+    const nodes = parseCsv('id,group\nx,A\ngroup_A,\n');
+    const result = importGraphTables(edges, nodes, optionsFor(edges.headers, nodes.headers));
+
+    expect(result.mermaidCode).toBe(
+      ['flowchart LR', '    subgraph group_A[A]', '        x', '    end', '    group_A_2[group_A]', '    x --> group_A_2'].join('\n')
+    );
+  });
+
+  it('reports tables without nodes', () => {
+    const edges = parseCsv('source,target\n,\n');
+    expect(() => importGraphTables(edges, null, optionsFor(edges.headers))).toThrow(/No nodes found/);
+  });
+});
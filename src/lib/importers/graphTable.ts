@@ -0,0 +1,272 @@
+import { FlowchartModel, FlowDirection, FlowNode, NodeShape } from '@/lib/diagram/model';
+import { serializeDiagram } from '@/lib/diagram/diagram';
+import { CsvTable, findColumn } from './csv';
+import { createIdentifierAllocator } from './identifiers';
+import { ImportResult } from './types';
+
+/** Column indexes into the edge table; -1 means the column is not mapped. */
+export interface EdgeTableColumns {
+  source: number;
+  target: number;
+  label: number;
+}
+
+/** Column indexes into the optional node table; -1 means the column is not mapped. */
+export interface NodeTableColumns {
+  id: number;
+  label: number;
+  shape: number;
+  className: number;
+  group: number;
+}
+
+export type GraphKeyword = 'flowchart' | 'graph';
+
+export interface GraphTableImportOptions {
+  edgeColumns: EdgeTableColumns;
+  nodeColumns: NodeTableColumns;
+  /** Shape for each distinct value of the shape column; unmapped values stay rectangles */
+  shapeMap: Record<string, NodeShape>;
+  keyword: GraphKeyword;
+  direction: FlowDirection;
+}
+
+export const NODE_SHAPES: Array<{ id: NodeShape; label: string }> = [
+  { id: 'rect', label: 'Rectangle' },
+  { id: 'round', label: 'Rounded' },
+  { id: 'stadium', label: 'Stadium' },
+  { id: 'subroutine', label: 'Subroutine' },
+  { id: 'cylinder', label: 'Database' },
+  { id: 'circle', label: 'Circle' },
+  { id: 'double-circle', label: 'Double circle' },
+  { id: 'asymmetric', label: 'Flag' },
+  { id: 'rhombus', label: 'Decision' },
+  { id: 'hexagon', label: 'Hexagon' },
+  { id: 'parallelogram', label: 'Parallelogram' },
+  { id: 'parallelogram-alt', label: 'Parallelogram (alt)' },
+  { id: 'trapezoid', label: 'Trapezoid' },
+  { id: 'trapezoid-alt', label: 'Trapezoid (alt)' }
+];
+
+export const GRAPH_DIRECTIONS: Array<{ id: FlowDirection; label: string }> = [
+  { id: 'LR', label: 'Left to right' },
+  { id: 'TD', label: 'Top down' },
+  { id: 'RL', label: 'Right to left' },
+  { id: 'BT', label: 'Bottom up' }
+];
+
+/** Matches maxEdges in FlowchartPreview; Mermaid refuses to lay out larger graphs */
+const MAX_RENDERED_EDGES = 2000;
+
+/** Several targets may share one cell in adjacency lists: "orders; payments" */
+const TARGET_SEPARATOR = /\s*[;|\n]\s*/;
+
+const EDGE_PATTERNS: Record<keyof EdgeTableColumns, RegExp[]> = {
+  source: [/^(source|from|src)([\s_-]?(id|name|node|table))?$/i, /source|from|parent|upstream|caller/i],
+  target: [/^(target|to|dest|destination|dst)([\s_-]?(id|name|node|table))?$/i, /target|^to[\s_-]|dest|child|downstream|callee|depends/i],
+  label: [/^(label|relation|relationship|edge[\s_-]?type)$/i, /label|relation|type|kind|name/i]
+};
+
+const NODE_PATTERNS: Record<keyof NodeTableColumns, RegExp[]> = {
+  id: [/^(id|node[\s_-]?id|key|name|node)$/i, /(^|_)id$|name/i],
+  label: [/^(label|title|display[\s_-]?name|description)$/i, /label|title|display/i],
+  shape: [/^(shape|type|kind|node[\s_-]?type)$/i, /shape|type|kind|category/i],
+  className: [/^(class|classname|status|tier|state)$/i, /class|status|tier|state|owner/i],
+  group: [/^(group|cluster|subgraph|domain|schema|team|system)$/i, /group|cluster|domain|schema|team|system|database/i]
+};
+
+// Classes get a color from this palette in order of first appearance
+const CLASS_PALETTE = [
+  'fill:#dbeafe,stroke:#2563eb',
+  'fill:#dcfce7,stroke:#16a34a',
+  'fill:#fef9c3,stroke:#ca8a04',
+  'fill:#fee2e2,stroke:#dc2626',
+  'fill:#f3e8ff,stroke:#9333ea',
+  'fill:#ffedd5,stroke:#ea580c',
+  'fill:#e0f2fe,stroke:#0284c7',
+  'fill:#f1f5f9,stroke:#475569'
+];
+
+const SHAPE_KEYWORDS: Array<[RegExp, NodeShape]> = [
+  [/database|^db$|table|view|store|warehouse|lake|bucket|storage/i, 'cylinder'],
+  [/decision|condition|branch|gateway|choice/i, 'rhombus'],
+  [/start|end|event|trigger/i, 'circle'],
+  [/queue|topic|stream|kafka/i, 'parallelogram'],
+  [/job|process|pipeline|dag|workflow|module/i, 'subroutine'],
+  [/service|api|app|function|lambda/i, 'round'],
+  [/model|dashboard|report|metric|exposure/i, 'stadium'],
+  [/source|input|file|seed/i, 'asymmetric'],
+  [/external|system|vendor/i, 'hexagon']
+];
+
+/** Picks one column per role from the header names, never giving two roles the same column. */
+const guessColumns = <K extends string>(headers: string[], patterns: Record<K, RegExp[]>): Record<K, number> => {
+  const taken = new Set<number>();
+  const columns = {} as Record<K, number>;
+  (Object.keys(patterns) as K[]).forEach((role) => {
+    const index = findColumn(
+      headers.map((header, column) => (taken.has(column) ? '' : header)),
+      patterns[role]
+    );
+    if (index >= 0) taken.add(index);
+    columns[role] = index;
+  });
+  return columns;
+};
+
+/** Best guess at the source, target and label columns; falls back to the first two columns. */
+export const guessEdgeColumns = (headers: string[]): EdgeTableColumns => {
+  const columns = guessColumns(headers, EDGE_PATTERNS);
+  if (columns.source < 0 && columns.target < 0 && headers.length >= 2) {
+    return { source: 0, target: 1, label: headers.length > 2 ? 2 : -1 };
+  }
+  return columns;
+};
+
+export const guessNodeColumns = (headers: string[]): NodeTableColumns => {
+  const columns = guessColumns(headers, NODE_PATTERNS);
+  return columns.id < 0 && headers.length > 0 ? { ...columns, id: 0 } : columns;
+};
+
+/** A shape named by the value itself ("cylinder"), or one suggested by common catalog type names. */
+export const guessShape = (value: string): NodeShape => {
+  const normalized = value.trim().toLowerCase();
+  const named = NODE_SHAPES.find((shape) => shape.id === normalized || shape.label.toLowerCase() === normalized);
+  if (named) return named.id;
+  return SHAPE_KEYWORDS.find(([pattern]) => pattern.test(normalized))?.[1] ?? 'rect';
+};
+
+/** Distinct non-empty values of a column, in order of first appearance. */
+export const distinctValues = (table: CsvTable, column: number): string[] =>
+  column < 0 ? [] : [...new Set(table.rows.map((row) => (row[column] ?? '').trim()).filter(Boolean))];
+
+const cell = (row: string[], column: number): string => (column < 0 ? '' : (row[column] ?? '').trim());
+
+/**
+ * Builds a flowchart from an edge list and an optional node table, the shape
+ * most catalogs and lineage tools export. Node ids are matched verbatim
+ * between the two tables; nodes that only appear in edges are drawn as plain
+ * rectangles. A target cell may list several targets, which covers
+ * adjacency-list exports with one row per node.
+ */
+export const importGraphTables = (
+  edgeTable: CsvTable,
+  nodeTable: CsvTable | null,
+  { edgeColumns, nodeColumns, shapeMap, keyword, direction }: GraphTableImportOptions
+): ImportResult => {
+  if (edgeColumns.source < 0 || edgeColumns.target < 0) {
+    throw new Error('Choose the source and target columns of the edge table');
+  }
+  if (nodeTable && nodeColumns.id < 0) {
+    throw new Error('Choose the id column of the node table');
+  }
+
+  const model: FlowchartModel = {
+    kind: 'flowchart',
+    keyword,
+    direction,
+    nodes: [],
+    edges: [],
+    subgraphs: [],
+    classDefs: [],
+    directives: [],
+    preamble: []
+  };
+  const warnings: string[] = [];
+  const allocateId = createIdentifierAllocator();
+  const allocateClass = createIdentifierAllocator();
+  const nodesByKey = new Map<string, FlowNode>();
+
+  const ensureNode = (key: string): FlowNode => {
+    let node = nodesByKey.get(key);
+    if (!node) {
+      const id = allocateId(`node:${key}`, key);
+      node = { id, label: id === key ? undefined : key, shape: 'rect', classes: [] };
+      nodesByKey.set(key, node);
+      model.nodes.push(node);
+    }
+    return node;
+  };
+
+  let duplicateNodes = 0;
+  let nodesWithoutId = 0;
+  nodeTable?.rows.forEach((row) => {
+    const key = cell(row, nodeColumns.id);
+    if (!key) {
+      nodesWithoutId++;
+      return;
+    }
+    if (nodesByKey.has(key)) duplicateNodes++;
+    const node = ensureNode(key);
+    const label = cell(row, nodeColumns.label);
+    if (label) node.label = label;
+    const shape = cell(row, nodeColumns.shape);
+    if (shape) node.shape = shapeMap[shape] ?? 'rect';
+    const className = cell(row, nodeColumns.className);
+    if (className) node.classes = [allocateClass(className)];
+    const group = cell(row, nodeColumns.group);
+    if (group) {
+      node.subgraph = allocateId(`group:${group}`, `group_${group}`);
+      if (!model.subgraphs.some((subgraph) => subgraph.id === node.subgraph)) {
+        model.subgraphs.push({ id: node.subgraph, label: group });
+      }
+    }
+  });
+  if (nodesWithoutId > 0) warnings.push(`Skipped ${nodesWithoutId} node row(s) without an id`);
+  if (duplicateNodes > 0) warnings.push(`${duplicateNodes} node id(s) appear more than once in the node table; later rows win`);
+  const declaredNodes = nodesByKey.size;
+
+  const edgeKeys = new Set<string>();
+  let incompleteEdges = 0;
+  let duplicateEdges = 0;
+  edgeTable.rows.forEach((row) => {
+    const source = cell(row, edgeColumns.source);
+    const targets = cell(row, edgeColumns.target).split(TARGET_SEPARATOR).filter(Boolean);
+    if (!source) {
+      if (targets.length > 0) incompleteEdges++;
+      return;
+    }
+    const from = ensureNode(source);
+    // A row with a source and no target still declares the node, e.g. leaves of an adjacency list
+    targets.forEach((target) => {
+      const to = ensureNode(target);
+      const label = cell(row, edgeColumns.label) || undefined;
+      const key = `${from.id}->${to.id}:${label ?? ''}`;
+      if (edgeKeys.has(key)) {
+        duplicateEdges++;
+        return;
+      }
+      edgeKeys.add(key);
+      model.edges.push({ from: from.id, to: to.id, label, stroke: 'normal', head: 'arrow', bidirectional: false });
+    });
+  });
+  if (incompleteEdges > 0) warnings.push(`Skipped ${incompleteEdges} edge row(s) without a source`);
+  if (duplicateEdges > 0) warnings.push(`Merged ${duplicateEdges} duplicate edge(s)`);
+  if (nodeTable && nodesByKey.size > declaredNodes) {
+    warnings.push(`${nodesByKey.size - declaredNodes} node(s) appear in edges but not in the node table; they are drawn as plain rectangles`);
+  }
+  if (model.nodes.length === 0) {
+    throw new Error('No nodes found: check that the source and target columns hold node names');
+  }
+  if (model.edges.length > MAX_RENDERED_EDGES) {
+    warnings.push(`${model.edges.length} edges is more than the preview can lay out (${MAX_RENDERED_EDGES}); filter the CSV to a smaller part of the graph`);
+  }
+
+  const classNames = [...new Set(model.nodes.flatMap((node) => node.classes))];
+  model.classDefs = classNames.map((name, index) => ({ name, styles: CLASS_PALETTE[index % CLASS_PALETTE.length] }));
+  if (classNames.length > CLASS_PALETTE.length) {
+    warnings.push(`${classNames.length} classes share ${CLASS_PALETTE.length} colors, so some classes look alike`);
+  }
+
+  return {
+    mermaidCode: serializeDiagram(model),
+    diagramType: 'Flowchart',
+    warnings,
+    stats: [
+      { label: 'Nodes', value: String(model.nodes.length) },
+      { label: 'Edges', value: String(model.edges.length) },
+      { label: 'Groups', value: String(model.subgraphs.length) },
+      { label: 'Classes', value: String(classNames.length) }
+    ]
+  };
+};
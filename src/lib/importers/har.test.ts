@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { importHar } from './har';
+
+const OPTIONS = { collapseStaticAssets: true, groupByOrigin: false, showHeaders: false, redact: true };
+
+const entry = (method: string, url: string, status: number, statusText: string) => ({
+  startedDateTime: '2024-01-01T00:00:00Z',
+  time: 12,
+  request: { method, url, headers: [{ name: 'Authorization', value: 'Bearer secret' }] },
+  response: { status, statusText, headers: [], content: { mimeType: 'application/json' } }
+});
+
+describe('importHar', () => {
+  it('draws a request and response per entry, redacting query values', () => {
+    const har = {
+      log: {
+        entries: [
+          entry('GET', 'https://app.example.com/api/items?token=abc', 200, 'OK'),
+          entry('POST', 'https://api.example.com/orders', 404, 'Not Found')
+        ]
+      }
+    };
+    const result = importHar(JSON.stringify(har), OPTIONS);
+
+    expect(result.mermaidCode).toBe(
+      [
+        'sequenceDiagram',
+        '    actor Browser',
+        '    participant app_example_com as app.example.com',
+        '    participant api_example_com as api.example.com',
+        '    Browser->>+app_example_com: GET /api/items?token=***',
+        '    Note right of app_example_com: 12 ms',
+        '    app_example_com-->>-Browser: 200 OK',
+        '    Browser->>+api_example_com: POST /orders',
+        '    Note right of api_example_com: 12 ms',
+        '    api_example_com--x-Browser: 404 Not Found'
+      ].join('\n')
+    );
+  });
+
+  it('reports input that is not a HAR file', () => {
+    expect(() => importHar('nope', OPTIONS)).toThrow(/not valid JSON/);
+    expect(() => importHar('{"foo": 1}', OPTIONS)).toThrow('Not a HAR file: expected log.entries');
+    expect(() => importHar(JSON.stringify({ log: { entries: [entry('GET', 'data:image/png;base64,AA', 200, 'OK')] } }), OPTIONS)).toThrow(
+      'The HAR file contains no http(s) requests'
+    );
+  });
+});
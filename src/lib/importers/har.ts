@@ -0,0 +1,216 @@
+import { SequenceStatement } from '@/lib/diagram/model';
+import { serializeDiagram } from '@/lib/diagram/diagram';
+import {
+  MAX_SEQUENCE_MESSAGES,
+  createParticipantRegistry,
+  createSequenceModel,
+  formatDuration,
+  sequenceText
+} from './sequence';
+import { ImportResult } from './types';
+
+export interface HarImportOptions {
+  /** Merge consecutive image, font, stylesheet, script and media requests to one host */
+  collapseStaticAssets: boolean;
+  /** Box hosts by site, e.g. api.example.com and cdn.example.com under example.com */
+  groupByOrigin: boolean;
+  showHeaders: boolean;
+  /** Replace header values and query parameter values with *** */
+  redact: boolean;
+}
+
+interface HarHeader {
+  name: string;
+  value: string;
+}
+
+interface HarEntry {
+  pageref?: string;
+  startedDateTime: string;
+  time: number;
+  request: { method: string; url: string; headers?: HarHeader[] };
+  response: { status: number; statusText?: string; content?: { mimeType?: string } };
+  timings?: { wait?: number };
+  _resourceType?: string;
+}
+
+interface HarLog {
+  log?: {
+    pages?: Array<{ id: string; title?: string }>;
+    entries?: HarEntry[];
+  };
+}
+
+const BROWSER = 'Browser';
+
+const STATIC_RESOURCE_TYPES = ['image', 'font', 'stylesheet', 'script', 'media', 'manifest'];
+const STATIC_MIME_TYPES = /^(image|font|audio|video)\/|css|javascript|ecmascript|wasm/;
+const STATIC_EXTENSIONS = /\.(js|mjs|css|png|jpe?g|gif|svg|webp|avif|ico|woff2?|ttf|otf|eot|mp4|webm|mp3|wasm|map)$/i;
+
+// Headers every browser request carries; showing them adds nothing to an integration flow
+const NOISY_HEADERS = /^(:|accept|user-agent|sec-|connection|cache-control|pragma|referer|origin|host|dnt|upgrade-insecure-requests|priority|if-none-match|if-modified-since|content-length|te$)/i;
+const MAX_HEADERS = 5;
+const MAX_PATH_LENGTH = 60;
+
+const isStaticAsset = (entry: HarEntry, url: URL): boolean => {
+  if (entry._resourceType) return STATIC_RESOURCE_TYPES.includes(entry._resourceType);
+  return STATIC_MIME_TYPES.test(entry.response.content?.mimeType ?? '') || STATIC_EXTENSIONS.test(url.pathname);
+};
+
+/**
+ * Registrable domain without a public suffix list: the last two labels, or
+ * three for two-letter country suffixes such as co.uk and com.au.
+ */
+const siteOf = (url: URL): string => {
+  const { hostname } = url;
+  if (/^[\d.]+$/.test(hostname) || hostname.startsWith('[') || !hostname.includes('.')) return hostname;
+  const labels = hostname.split('.');
+  const country = labels[labels.length - 1].length === 2 && labels[labels.length - 2].length <= 3;
+  return labels.slice(country ? -3 : -2).join('.');
+};
+
+const formatPath = (url: URL, redact: boolean): string => {
+  const query = redact
+    ? [...url.searchParams.keys()].map((key) => `${key}=***`).join('&')
+    : url.search.slice(1);
+  const path = `${url.pathname}${query ? `?${query}` : ''}`;
+  return path.length > MAX_PATH_LENGTH ? `${path.slice(0, MAX_PATH_LENGTH - 1)}…` : path;
+};
+
+const formatHeaders = (headers: HarHeader[] = [], redact: boolean): string[] =>
+  headers
+    .filter((header) => !NOISY_HEADERS.test(header.name))
+    .slice(0, MAX_HEADERS)
+    .map((header) => `${header.name.toLowerCase()}: ${redact ? '***' : header.value}`);
+
+const formatStatus = (entry: HarEntry): string =>
+  entry.response.status === 0 ? 'failed' : `${entry.response.status} ${entry.response.statusText ?? ''}`.trim();
+
+/**
+ * Converts a browser HAR export into a sequence diagram of the browser's
+ * requests to each host, with method, path and status on the messages and
+ * the total time (and time to first byte) as notes.
+ */
+export const importHar = (text: string, options: HarImportOptions): ImportResult => {
+  const warnings: string[] = [];
+  let har: HarLog;
+  try {
+    har = JSON.parse(text);
+  } catch {
+    throw new Error('The input is not valid JSON. Save the network log with "Save all as HAR".');
+  }
+  if (!Array.isArray(har?.log?.entries)) {
+    throw new Error('Not a HAR file: expected log.entries');
+  }
+
+  let skipped = 0;
+  const entries = har.log.entries
+    .map((entry) => {
+      try {
+        const url = new URL(entry.request.url);
+        if (url.protocol === 'http:' || url.protocol === 'https:') return { entry, url };
+      } catch {
+        // Malformed URLs are counted with the other skipped entries
+      }
+      skipped += 1;
+      return null;
+    })
+    .filter(Boolean)
+    .sort((a, b) => Date.parse(a.entry.startedDateTime) - Date.parse(b.entry.startedDateTime));
+  if (skipped > 0) {
+    warnings.push(`Skipped ${skipped} request(s) that were not http(s), such as data: or extension URLs`);
+  }
+  if (entries.length === 0) {
+    throw new Error('The HAR file contains no http(s) requests');
+  }
+
+  const model = createSequenceModel();
+  const participant = createParticipantRegistry(model);
+  participant(BROWSER, 'actor');
+  const pageTitles = new Map((har.log.pages ?? []).map((page) => [page.id, page.title || page.id]));
+
+  let currentPage: string | undefined;
+  let messages = 0;
+  let index = 0;
+  while (index < entries.length && messages < MAX_SEQUENCE_MESSAGES) {
+    const { entry, url } = entries[index];
+    const host = participant(url.host, 'participant', options.groupByOrigin ? siteOf(url) : undefined);
+
+    if (entry.pageref && entry.pageref !== currentPage && pageTitles.size > 1) {
+      currentPage = entry.pageref;
+      model.statements.push({
+        type: 'note',
+        placement: 'over',
+        participants: [participant(BROWSER)],
+        text: sequenceText(pageTitles.get(entry.pageref) ?? entry.pageref)
+      });
+    }
+
+    // A run of static assets from one host becomes a single exchange
+    let run = 1;
+    if (options.collapseStaticAssets && isStaticAsset(entry, url)) {
+      while (
+        index + run < entries.length &&
+        entries[index + run].url.host === url.host &&
+        isStaticAsset(entries[index + run].entry, entries[index + run].url)
+      ) {
+        run += 1;
+      }
+    }
+    const exchange = entries.slice(index, index + run);
+    index += run;
+    messages += 1;
+
+    const browser = participant(BROWSER);
+    const failed = exchange.some(({ entry: item }) => item.response.status === 0 || item.response.status >= 400);
+    const statements: SequenceStatement[] = [];
+
+    if (run > 1) {
+      const kinds = [
+        ...new Set(exchange.map(({ entry: item, url: itemUrl }) => /\.(\w+)$/.exec(itemUrl.pathname)?.[1].toLowerCase() ?? item._resourceType ?? 'other'))
+      ];
+      const statuses = [...new Set(exchange.map(({ entry: item }) => formatStatus(item)))];
+      const elapsed = Math.max(...exchange.map(({ entry: item }) => Date.parse(item.startedDateTime) + item.time)) - Date.parse(entry.startedDateTime);
+      statements.push(
+        { type: 'message', from: browser, to: host, arrow: '->>', text: sequenceText(`GET ${run} static assets (${kinds.slice(0, 4).join(', ')})`), activate: true },
+        { type: 'note', placement: 'right of', participants: [host], text: formatDuration(elapsed) },
+        { type: 'message', from: host, to: browser, arrow: failed ? '--x' : '-->>', text: sequenceText(statuses.join(', ')), deactivate: true }
+      );
+    } else {
+      const timing = entry.timings?.wait > 0 ? `${formatDuration(entry.time)} (TTFB ${formatDuration(entry.timings.wait)})` : formatDuration(entry.time);
+      const headers = options.showHeaders ? formatHeaders(entry.request.headers, options.redact) : [];
+      statements.push({
+        type: 'message',
+        from: browser,
+        to: host,
+        arrow: '->>',
+        text: sequenceText(`${entry.request.method} ${formatPath(url, options.redact)}`),
+        activate: true
+      });
+      if (headers.length > 0) {
+        statements.push({ type: 'note', placement: 'left of', participants: [host], text: headers.map(sequenceText).join('<br/>') });
+      }
+      statements.push(
+        { type: 'note', placement: 'right of', participants: [host], text: timing },
+        { type: 'message', from: host, to: browser, arrow: failed ? '--x' : '-->>', text: sequenceText(formatStatus(entry)), deactivate: true }
+      );
+    }
+    model.statements.push(...statements);
+  }
+
+  if (options.groupByOrigin) {
+    // Boxes need their participants side by side, so hosts are regrouped by site in order of first use
+    const sites = [...new Set(model.participants.map((declared) => declared.box))];
+    model.participants.sort((a, b) => sites.indexOf(a.box) - sites.indexOf(b.box));
+  }
+
+  if (index < entries.length) {
+    warnings.push(`Only the first ${MAX_SEQUENCE_MESSAGES} exchanges are drawn; ${entries.length - index} request(s) were left out`);
+  }
+
+  return {
+    mermaidCode: serializeDiagram(model),
+    diagramType: 'Sequence Diagram',
+    warnings
+  };
+};
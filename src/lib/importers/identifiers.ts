@@ -0,0 +1,24 @@
+import { toIdentifier } from '@/lib/diagram/text';
+
+/**
+ * Hands out Mermaid identifiers for arbitrary names, suffixing a counter when
+ * two different keys would collapse into the same identifier.
+ */
+export const createIdentifierAllocator = () => {
+  const byKey = new Map<string, string>();
+  const used = new Set<string>();
+
+  return (key: string, name: string = key): string => {
+    const existing = byKey.get(key);
+    if (existing) return existing;
+
+    const base = toIdentifier(name);
+    let identifier = base;
+    for (let suffix = 2; used.has(identifier); suffix++) {
+      identifier = `${base}_${suffix}`;
+    }
+    used.add(identifier);
+    byKey.set(key, identifier);
+    return identifier;
+  };
+};
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { importInfrastructureYaml } from './infrastructure';
+
+const COMPOSE = `services:
+  web:
+    image: nginx
+    ports: ["80:80"]
+    depends_on: [api]
+  api:
+    image: node:20
+    environment:
+      DATABASE_URL: postgres://db:5432/app
+  db:
+    image: postgres:16
+`;
+
+const KUBERNETES = `apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: web
+spec:
+  selector:
+    matchLabels: {app: web}
+  template:
+    metadata:
+      labels: {app: web}
+    spec:
+      containers:
+        - name: web
+          image: nginx
+---
+apiVersion: v1
+kind: Service
+metadata:
+  name: web
+spec:
+  selector: {app: web}
+  ports: [{port: 80}]
+`;
+
+describe('importInfrastructureYaml', () => {
+  it('draws compose services, published ports and connections found in the environment', () => {
+    const result = importInfrastructureYaml(COMPOSE, { grouped: false });
+
+    expect(result.format).toBe('docker-compose');
+    expect(result.mermaidCode.split('\n').filter((line) => line.includes('->'))).toEqual([
+      '    Clients -->|"80→80"| web',
+      '    api -->|5432| db',
+      '    web -.->|depends_on| api'
+    ]);
+    expect(result.mermaidCode).toContain('db[("db<br/>postgres:16")]:::storage');
+  });
+
+  it('draws Kubernetes workloads and the Services that select them, grouped by namespace', () => {
+    const result = importInfrastructureYaml(KUBERNETES, { grouped: true });
+
+    expect(result.format).toBe('kubernetes');
+    expect(result.mermaidCode).toBe(
+      [
+        'flowchart LR',
+        '    classDef service fill:#e0f2fe,stroke:#0284c7,color:#0c4a6e',
+        '    classDef workload fill:#eef2ff,stroke:#4f46e5,color:#312e81',
+        '    subgraph grp_default[default]',
+        '        web["web<br/>Deployment"]:::workload',
+        '        web_2(["web<br/>Service"]):::service',
+        '    end',
+        '    web_2 -->|80| web'
+      ].join('\n')
+    );
+  });
+
+  it('reports invalid YAML and unknown documents', () => {
+    expect(() => importInfrastructureYaml('a: [1', { grouped: false })).toThrow(/^Invalid YAML/);
+    expect(() => importInfrastructureYaml('foo: bar', { grouped: false })).toThrow('Expected a docker-compose file or Kubernetes manifests');
+  });
+});
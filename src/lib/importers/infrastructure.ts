@@ -0,0 +1,63 @@
+import { parseAllDocuments } from 'yaml';
+import { serializeDiagram } from '@/lib/diagram/diagram';
+import { createArchitectureBuilder } from './architecture';
+import { ComposeFile, addComposeFile } from './dockerCompose';
+import { KubernetesResource, addKubernetesResources, flattenResources } from './kubernetes';
+import { ImportResult } from './types';
+
+export type InfrastructureFormat = 'docker-compose' | 'kubernetes';
+
+export interface InfrastructureImportOptions {
+  /** Subgraphs per Kubernetes namespace or compose network */
+  grouped: boolean;
+}
+
+const parseYamlDocuments = (text: string): unknown[] => {
+  const documents = parseAllDocuments(text);
+  const parsed = Array.isArray(documents) ? documents : [documents];
+  const failed = parsed.find((document) => document.errors.length > 0);
+  if (failed) {
+    throw new Error(`Invalid YAML: ${failed.errors[0].message}`);
+  }
+  return parsed.map((document) => document.toJS()).filter((value) => value !== null && value !== undefined);
+};
+
+const isComposeFile = (value: unknown): value is ComposeFile =>
+  typeof value === 'object' && !('kind' in value) && typeof (value as ComposeFile).services === 'object';
+
+/**
+ * Converts a docker-compose file or multi-document Kubernetes YAML into an
+ * architecture flowchart. The format is detected from the documents.
+ */
+export const importInfrastructureYaml = (
+  text: string,
+  options: InfrastructureImportOptions
+): ImportResult & { format: InfrastructureFormat } => {
+  const warnings: string[] = [];
+  const documents = parseYamlDocuments(text);
+  const builder = createArchitectureBuilder();
+  let format: InfrastructureFormat;
+
+  const compose = documents.find(isComposeFile);
+  if (compose) {
+    format = 'docker-compose';
+    if (documents.length > 1) {
+      warnings.push('Only the first compose document was imported');
+    }
+    addComposeFile(builder, compose, options.grouped, warnings);
+  } else {
+    format = 'kubernetes';
+    const resources = flattenResources(documents as KubernetesResource[], warnings);
+    if (resources.length === 0) {
+      throw new Error('Expected a docker-compose file or Kubernetes manifests');
+    }
+    addKubernetesResources(builder, resources, options.grouped, warnings);
+  }
+
+  return {
+    mermaidCode: serializeDiagram(builder.build()),
+    diagramType: 'Flowchart',
+    format,
+    warnings
+  };
+};
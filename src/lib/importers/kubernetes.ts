@@ -0,0 +1,277 @@
+import { NodeShape } from '@/lib/diagram/model';
+import { ArchitectureBuilder, ArchitectureRole, classifyImage, findHostReferences } from './architecture';
+
+export interface KubernetesResource {
+  apiVersion?: string;
+  kind?: string;
+  metadata?: { name?: string; namespace?: string; labels?: Record<string, string> };
+  spec?: Record<string, unknown>;
+  items?: KubernetesResource[];
+}
+
+interface Container {
+  image?: string;
+  env?: Array<{
+    name: string;
+    value?: string;
+    valueFrom?: { configMapKeyRef?: { name: string }; secretKeyRef?: { name: string } };
+  }>;
+  envFrom?: Array<{ configMapRef?: { name: string }; secretRef?: { name: string } }>;
+  volumeMounts?: Array<{ name: string; mountPath: string }>;
+}
+
+interface Volume {
+  name: string;
+  configMap?: { name: string };
+  secret?: { secretName: string };
+  persistentVolumeClaim?: { claimName: string };
+  projected?: { sources?: Array<{ configMap?: { name: string }; secret?: { name: string } }> };
+}
+
+interface PodSpec {
+  containers?: Container[];
+  initContainers?: Container[];
+  volumes?: Volume[];
+}
+
+interface PodTemplate {
+  metadata?: { labels?: Record<string, string> };
+  spec?: PodSpec;
+}
+
+interface ServicePort {
+  port?: number;
+  targetPort?: number | string;
+}
+
+interface IngressBackend {
+  service?: { name: string; port?: { number?: number; name?: string } };
+  serviceName?: string;
+  servicePort?: number | string;
+}
+
+const INTERNET_KEY = 'external:internet';
+
+const WORKLOAD_KINDS = ['Deployment', 'StatefulSet', 'DaemonSet', 'ReplicaSet', 'Job', 'CronJob', 'Pod'];
+
+const KIND_SHAPES: Record<string, { shape: NodeShape; role: ArchitectureRole }> = {
+  DaemonSet: { shape: 'subroutine', role: 'workload' },
+  Job: { shape: 'hexagon', role: 'workload' },
+  CronJob: { shape: 'hexagon', role: 'workload' },
+  Service: { shape: 'stadium', role: 'service' },
+  Ingress: { shape: 'trapezoid', role: 'entrypoint' },
+  ConfigMap: { shape: 'asymmetric', role: 'config' },
+  Secret: { shape: 'asymmetric', role: 'config' },
+  PersistentVolumeClaim: { shape: 'cylinder', role: 'storage' }
+};
+
+const resourceKey = (kind: string, namespace: string, name: string) => `${kind}/${namespace}/${name}`;
+
+const getPodTemplate = (resource: KubernetesResource): PodTemplate | undefined => {
+  const spec = resource.spec as { template?: PodTemplate; jobTemplate?: { spec?: { template?: PodTemplate } } } | undefined;
+  switch (resource.kind) {
+    case 'Pod':
+      return { metadata: resource.metadata, spec: resource.spec as PodSpec };
+    case 'CronJob':
+      return spec?.jobTemplate?.spec?.template;
+    default:
+      return spec?.template;
+  }
+};
+
+const formatServicePort = ({ port, targetPort }: ServicePort): string =>
+  targetPort !== undefined && targetPort !== port ? `${port}→${targetPort}` : String(port);
+
+/** Flattens `kind: List` wrappers and drops documents that are not resources. */
+export const flattenResources = (documents: KubernetesResource[], warnings: string[]): KubernetesResource[] =>
+  documents.flatMap((resource) => {
+    if (!resource || typeof resource !== 'object') return [];
+    if (resource.kind?.endsWith('List') && Array.isArray(resource.items)) {
+      return flattenResources(resource.items, warnings);
+    }
+    if (!resource.kind || !resource.metadata?.name) {
+      warnings.push('Skipped a YAML document without kind and metadata.name');
+      return [];
+    }
+    return [resource];
+  });
+
+/**
+ * Adds Kubernetes workloads, Services, Ingresses, ConfigMaps, Secrets and
+ * PersistentVolumeClaims. Services connect to the workloads their selector
+ * matches, Ingress rules to their backend Services, and workloads to the
+ * Services named in their env values and to the config and storage they mount.
+ */
+export const addKubernetesResources = (
+  builder: ArchitectureBuilder,
+  resources: KubernetesResource[],
+  groupByNamespace: boolean,
+  warnings: string[]
+) => {
+  const skipped = new Set<string>();
+  const namespaceOf = (resource: KubernetesResource) => resource.metadata.namespace ?? 'default';
+  const groupOf = (namespace: string) => (groupByNamespace ? builder.group(`namespace:${namespace}`, namespace) : undefined);
+  const keyOf = (resource: KubernetesResource) => resourceKey(resource.kind, namespaceOf(resource), resource.metadata.name);
+
+  const supported = resources.filter((resource) => {
+    const isSupported = WORKLOAD_KINDS.includes(resource.kind) || resource.kind in KIND_SHAPES;
+    if (!isSupported) skipped.add(resource.kind);
+    return isSupported;
+  });
+
+  supported.forEach((resource) => {
+    const namespace = namespaceOf(resource);
+    const image = getPodTemplate(resource)?.spec?.containers?.[0]?.image;
+    const { shape, role } = KIND_SHAPES[resource.kind] ?? classifyImage(image);
+    builder.node(keyOf(resource), {
+      label: `${resource.metadata.name}<br/>${resource.kind}`,
+      shape,
+      role,
+      group: groupOf(namespace)
+    });
+
+    if (resource.kind === 'StatefulSet') {
+      const templates = ((resource.spec?.volumeClaimTemplates as KubernetesResource[]) ?? []).filter((claim) => claim.metadata?.name);
+      templates.forEach((claim) => {
+        const claimKey = resourceKey('PersistentVolumeClaim', namespace, `${claim.metadata.name}-${resource.metadata.name}`);
+        builder.node(claimKey, {
+          label: `${claim.metadata.name}<br/>PVC per replica`,
+          shape: 'cylinder',
+          role: 'storage',
+          group: groupOf(namespace)
+        });
+      });
+    }
+  });
+
+  const workloads = supported.filter((resource) => WORKLOAD_KINDS.includes(resource.kind));
+  const services = supported.filter((resource) => resource.kind === 'Service');
+
+  // Ingresses and externally exposed Services are reached from outside the cluster
+  const connectFromInternet = (key: string, label?: string) => {
+    builder.node(INTERNET_KEY, { label: 'Internet', shape: 'circle', role: 'external' });
+    builder.edge(INTERNET_KEY, key, label ? { label } : {});
+  };
+
+  services.forEach((service) => {
+    const spec = (service.spec ?? {}) as { selector?: Record<string, string>; ports?: ServicePort[]; type?: string };
+    const ports = (spec.ports ?? []).map(formatServicePort).join(', ');
+    if (spec.type === 'LoadBalancer' || spec.type === 'NodePort') {
+      connectFromInternet(keyOf(service), spec.type);
+    }
+    const selector = Object.entries(spec.selector ?? {});
+    if (selector.length === 0) return;
+
+    const targets = workloads.filter((workload) => {
+      const labels = getPodTemplate(workload)?.metadata?.labels ?? {};
+      return namespaceOf(workload) === namespaceOf(service) && selector.every(([label, value]) => labels[label] === value);
+    });
+    if (targets.length === 0) {
+      warnings.push(`Service ${service.metadata.name} selects no workload in these manifests`);
+    }
+    targets.forEach((workload) => builder.edge(keyOf(service), keyOf(workload), ports ? { label: ports } : {}));
+  });
+
+  supported
+    .filter((resource) => resource.kind === 'Ingress')
+    .forEach((ingress) => {
+      const spec = (ingress.spec ?? {}) as {
+        defaultBackend?: IngressBackend;
+        backend?: IngressBackend;
+        rules?: Array<{ host?: string; http?: { paths?: Array<{ path?: string; backend: IngressBackend }> } }>;
+      };
+      const hosts = (spec.rules ?? []).map((rule) => rule.host).filter(Boolean);
+      connectFromInternet(keyOf(ingress), hosts.join(', ') || undefined);
+
+      const routes = [
+        ...[spec.defaultBackend ?? spec.backend].filter(Boolean).map((backend) => ({ route: '*', backend })),
+        ...(spec.rules ?? []).flatMap((rule) =>
+          (rule.http?.paths ?? []).map((path) => ({ route: `${rule.host ?? ''}${path.path ?? '/'}`, backend: path.backend }))
+        )
+      ];
+      routes.forEach(({ route, backend }) => {
+        const serviceName = backend.service?.name ?? backend.serviceName;
+        const serviceKey = resourceKey('Service', namespaceOf(ingress), serviceName);
+        if (!builder.has(serviceKey)) {
+          warnings.push(`Ingress ${ingress.metadata.name} routes to Service ${serviceName}, which is not in these manifests`);
+          return;
+        }
+        builder.edge(keyOf(ingress), serviceKey, { label: route });
+      });
+    });
+
+  // Hostnames a pod can use for a Service: name (same namespace), name.ns, name.ns.svc[.cluster.local]
+  const serviceHosts = (namespace: string) => {
+    const hosts = new Map<string, string>();
+    services.forEach((service) => {
+      const { name } = service.metadata;
+      const serviceNamespace = namespaceOf(service);
+      const key = keyOf(service);
+      [`${name}.${serviceNamespace}.svc.cluster.local`, `${name}.${serviceNamespace}.svc`, `${name}.${serviceNamespace}`].forEach((host) =>
+        hosts.set(host, key)
+      );
+      if (serviceNamespace === namespace) hosts.set(name, key);
+    });
+    return hosts;
+  };
+
+  workloads.forEach((workload) => {
+    const namespace = namespaceOf(workload);
+    const from = keyOf(workload);
+    const spec = getPodTemplate(workload)?.spec ?? {};
+    const containers = [...(spec.initContainers ?? []), ...(spec.containers ?? [])];
+    const hosts = serviceHosts(namespace);
+
+    const connectTo = (kind: string, name: string, label: string) => {
+      const key = resourceKey(kind, namespace, name);
+      if (!builder.has(key)) {
+        warnings.push(`${workload.kind} ${workload.metadata.name} uses ${kind} ${name}, which is not in these manifests`);
+        return;
+      }
+      builder.edge(from, key, { label, stroke: 'dotted' });
+    };
+
+    containers.forEach((container) => {
+      (container.env ?? []).forEach((variable) => {
+        if (variable.value) {
+          findHostReferences(variable.value, [...hosts.keys()]).forEach(({ host, port }) => {
+            builder.edge(from, hosts.get(host), port ? { label: port } : {});
+          });
+        }
+        if (variable.valueFrom?.configMapKeyRef) connectTo('ConfigMap', variable.valueFrom.configMapKeyRef.name, 'env');
+        if (variable.valueFrom?.secretKeyRef) connectTo('Secret', variable.valueFrom.secretKeyRef.name, 'env');
+      });
+      (container.envFrom ?? []).forEach((source) => {
+        if (source.configMapRef) connectTo('ConfigMap', source.configMapRef.name, 'env');
+        if (source.secretRef) connectTo('Secret', source.secretRef.name, 'env');
+      });
+    });
+
+    const mountPath = (volumeName: string) =>
+      containers.flatMap((container) => container.volumeMounts ?? []).find((mount) => mount.name === volumeName)?.mountPath ?? 'volume';
+
+    (spec.volumes ?? []).forEach((volume) => {
+      const label = mountPath(volume.name);
+      if (volume.configMap) connectTo('ConfigMap', volume.configMap.name, label);
+      if (volume.secret) connectTo('Secret', volume.secret.secretName, label);
+      if (volume.persistentVolumeClaim) connectTo('PersistentVolumeClaim', volume.persistentVolumeClaim.claimName, label);
+      (volume.projected?.sources ?? []).forEach((source) => {
+        if (source.configMap) connectTo('ConfigMap', source.configMap.name, label);
+        if (source.secret) connectTo('Secret', source.secret.name, label);
+      });
+    });
+
+    if (workload.kind === 'StatefulSet') {
+      ((workload.spec?.volumeClaimTemplates as KubernetesResource[]) ?? [])
+        .filter((claim) => claim.metadata?.name)
+        .forEach((claim) => connectTo('PersistentVolumeClaim', `${claim.metadata.name}-${workload.metadata.name}`, mountPath(claim.metadata.name)));
+    }
+  });
+
+  if (supported.length === 0) {
+    throw new Error('The manifests contain no workloads, Services, Ingresses, ConfigMaps, Secrets or PersistentVolumeClaims');
+  }
+  if (skipped.size > 0) {
+    warnings.push(`Skipped resource kinds: ${[...skipped].sort().join(', ')}`);
+  }
+};
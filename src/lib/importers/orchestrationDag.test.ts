@@ -0,0 +1,28 @@
+import { describe, expect, it, vi } from 'vitest';
+import { importOrchestrationDag } from './orchestrationDag';
+
+// The LLM client needs an app id at import time; the static parser never calls it
+vi.mock('@/integrations/core', () => ({ invokeLLM: vi.fn() }));
+
+const AIRFLOW_DAG = `from airflow import DAG
+from airflow.operators.bash import BashOperator
+
+with DAG("etl") as dag:
+    extract = BashOperator(task_id="extract", bash_command="extract.sh")
+    load = BashOperator(task_id="load", bash_command="load.sh")
+    extract >> load
+`;
+
+describe('importOrchestrationDag', () => {
+  it('draws Airflow tasks and the dependencies set with >>', async () => {
+    const result = await importOrchestrationDag(AIRFLOW_DAG, { aiFallback: false });
+
+    expect(result.framework).toBe('airflow');
+    expect(result.mermaidCode.split('\n').filter((line) => line.includes('-->'))).toEqual(['    extract --> load']);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('reports sources without tasks', async () => {
+    await expect(importOrchestrationDag('print("hello")', { aiFallback: false })).rejects.toThrow('No Airflow tasks found in the source');
+  });
+});
@@ -0,0 +1,566 @@
+import { invokeLLM } from '@/integrations/core';
+import { FlowchartModel, FlowNode, NodeShape } from '@/lib/diagram/model';
+import { serializeDiagram } from '@/lib/diagram/diagram';
+import { createIdentifierAllocator } from './identifiers';
+import {
+  ChainSegment,
+  PythonLine,
+  findAssignment,
+  parseChain,
+  parseSequenceLiteral,
+  parseStringLiteral,
+  splitTopLevel,
+  stripParentheses,
+  toLogicalLines
+} from './python';
+import { ImportResult } from './types';
+
+export type OrchestrationFramework = 'airflow' | 'prefect';
+
+export interface OrchestrationImportOptions {
+  /** Ask the LLM to fill in constructs the static parser could not resolve */
+  aiFallback: boolean;
+}
+
+type TaskKind = 'python' | 'bash' | 'sql' | 'transfer' | 'sensor' | 'branch' | 'empty' | 'trigger' | 'subflow' | 'other';
+
+const TASK_SHAPES: Record<TaskKind, NodeShape> = {
+  python: 'round',
+  bash: 'rect',
+  sql: 'cylinder',
+  transfer: 'parallelogram',
+  sensor: 'hexagon',
+  branch: 'rhombus',
+  empty: 'circle',
+  trigger: 'subroutine',
+  subflow: 'subroutine',
+  other: 'rect'
+};
+
+const classifyOperator = (name: string): TaskKind => {
+  if (/Sensor(Async)?$/.test(name)) return 'sensor';
+  if (/Branch|ShortCircuit/.test(name)) return 'branch';
+  if (/^(Empty|Dummy)Operator$/.test(name)) return 'empty';
+  if (/TriggerDagRun/.test(name)) return 'trigger';
+  if (/[a-z0-9]To[A-Z]/.test(name)) return 'transfer';
+  if (/Sql|SQL|Query|BigQuery|Snowflake|Postgres|MySql|Redshift|Athena|Hive|Trino|Databricks/.test(name)) return 'sql';
+  if (/^Bash/.test(name)) return 'bash';
+  if (/^(Python|PythonVirtualenv|ExternalPython)Operator$/.test(name)) return 'python';
+  return 'other';
+};
+
+const TASKFLOW_KINDS: Record<string, TaskKind> = {
+  branch: 'branch',
+  sensor: 'sensor',
+  bash: 'bash',
+  short_circuit: 'branch',
+  sql: 'sql'
+};
+
+interface Ref {
+  kind: 'task' | 'group';
+  id: string;
+}
+
+interface Factory {
+  kind: 'task' | 'group' | 'flow' | 'dag';
+  name: string;
+  taskKind: TaskKind;
+  body: PythonLine[];
+}
+
+interface UnhandledConstruct {
+  line: number;
+  text: string;
+}
+
+interface StaticGraph {
+  model: FlowchartModel;
+  unhandled: UnhandledConstruct[];
+  allocateId: (key: string, name?: string) => string;
+}
+
+const DEPENDENCY_OPERATORS = ['>>', '<<'];
+
+const detectFramework = (source: string): OrchestrationFramework =>
+  /^\s*(from|import)\s+prefect\b/m.test(source) ? 'prefect' : 'airflow';
+
+const takeBlock = (lines: PythonLine[], start: number): PythonLine[] => {
+  const header = lines[start];
+  const body: PythonLine[] = [];
+  for (let index = start + 1; index < lines.length && lines[index].indent > header.indent; index++) {
+    body.push(lines[index]);
+  }
+  return body;
+};
+
+const parseDecorator = (decorator: string): { name: string; variant?: string; args?: Record<string, string> } => {
+  const segments = parseChain(decorator.slice(1)) ?? [];
+  const names = segments.filter((segment): segment is Extract<ChainSegment, { kind: 'name' }> => segment.kind === 'name').map((segment) => segment.name);
+  const call = segments.find((segment): segment is Extract<ChainSegment, { kind: 'call' }> => segment.kind === 'call');
+  // `@prefect.task` and `@task` are the same decorator
+  const index = names.findIndex((name) => ['task', 'flow', 'task_group', 'dag'].includes(name));
+  return {
+    name: index === -1 ? names[names.length - 1] : names[index],
+    variant: index === -1 ? undefined : names[index + 1],
+    args: call?.args.keywords
+  };
+};
+
+/**
+ * Walks Airflow and Prefect source the way the scheduler would build the
+ * graph: operators and decorated task calls create nodes, `>>`, `<<`,
+ * set_upstream, chain() and data passed between task calls create edges,
+ * and TaskGroups, @task_group functions and subflows become subgraphs.
+ */
+const buildStaticGraph = (source: string, framework: OrchestrationFramework): StaticGraph => {
+  const model: FlowchartModel = {
+    kind: 'flowchart',
+    keyword: 'flowchart',
+    direction: 'LR',
+    nodes: [],
+    edges: [],
+    subgraphs: [],
+    classDefs: [],
+    directives: [],
+    preamble: []
+  };
+  const allocateId = createIdentifierAllocator();
+  const factories = new Map<string, Factory>();
+  const scope = new Map<string, Ref[]>();
+  const unhandled: UnhandledConstruct[] = [];
+  const edgeKeys = new Set<string>();
+  let counter = 0;
+  let currentLine = 0;
+  let inFlow = false;
+
+  const addEdge = (from: Ref, to: Ref) => {
+    const key = `${from.id}->${to.id}`;
+    if (from.id === to.id || edgeKeys.has(key)) return;
+    edgeKeys.add(key);
+    model.edges.push({ from: from.id, to: to.id, stroke: 'normal', head: 'arrow', bidirectional: false });
+  };
+
+  const connect = (upstream: Ref[], downstream: Ref[]) =>
+    upstream.forEach((from) => downstream.forEach((to) => addEdge(from, to)));
+
+  const addTask = (label: string, kind: TaskKind, group: string | undefined, mapped = false): Ref => {
+    const node: FlowNode = {
+      id: allocateId(`task:${counter++}`, label),
+      label: mapped ? `${label} [mapped]` : label,
+      shape: TASK_SHAPES[kind],
+      classes: []
+    };
+    if (group) node.subgraph = group;
+    model.nodes.push(node);
+    return { kind: 'task', id: node.id };
+  };
+
+  const addGroup = (label: string, parent: string | undefined): Ref => {
+    const id = allocateId(`group:${counter++}`, `grp_${label}`);
+    model.subgraphs.push({ id, label, ...(parent && { parent }) });
+    return { kind: 'group', id };
+  };
+
+  const markUnhandled = (text: string) => {
+    if (!unhandled.some((construct) => construct.line === currentLine)) {
+      unhandled.push({ line: currentLine, text });
+    }
+  };
+
+  const names = (segments: ChainSegment[]): string[] =>
+    segments.filter((segment): segment is Extract<ChainSegment, { kind: 'name' }> => segment.kind === 'name').map((segment) => segment.name);
+
+  const calls = (segments: ChainSegment[]) =>
+    segments.filter((segment): segment is Extract<ChainSegment, { kind: 'call' }> => segment.kind === 'call');
+
+  const evaluateAll = (expressions: string[], group: string | undefined): Ref[] =>
+    expressions.flatMap((expression) => evaluate(expression, group));
+
+  const callArguments = (segments: ChainSegment[]): string[] =>
+    calls(segments).flatMap(({ args }) => [...args.positional, ...Object.values(args.keywords)]);
+
+  const evaluateChain = (segments: ChainSegment[], expression: string, group: string | undefined): Ref[] => {
+    const chainNames = names(segments);
+    const [base] = chainNames;
+    const firstCall = segments.findIndex((segment) => segment.kind === 'call');
+    const callee = firstCall === -1 ? chainNames : names(segments.slice(0, firstCall));
+    const calleeName = callee[callee.length - 1];
+    const factory = factories.get(base);
+
+    if (firstCall === -1) {
+      return scope.get(base) ?? [];
+    }
+
+    if (calleeName === 'chain' || calleeName === 'chain_linear') {
+      const steps = calls(segments)[0].args.positional.map((argument) => evaluate(argument, group));
+      steps.slice(1).forEach((step, index) => connect(steps[index], step));
+      return steps[steps.length - 1] ?? [];
+    }
+
+    if (calleeName === 'cross_downstream') {
+      const [upstream, downstream] = calls(segments)[0].args.positional.map((argument) => evaluate(argument, group));
+      connect(upstream ?? [], downstream ?? []);
+      return downstream ?? [];
+    }
+
+    const dependencyMethod = chainNames.find((name) => name === 'set_upstream' || name === 'set_downstream');
+    if (dependencyMethod && scope.has(base)) {
+      const target = scope.get(base);
+      const others = evaluateAll(calls(segments)[0].args.positional, group);
+      if (others.length === 0) markUnhandled(expression);
+      if (dependencyMethod === 'set_upstream') connect(others, target);
+      else connect(target, others);
+      return target;
+    }
+
+    if (factory && factory.kind !== 'dag') {
+      // Anything passed into a task call, including wait_for, is an upstream dependency (XComArgs in Airflow, futures in Prefect)
+      const upstream = evaluateAll(callArguments(segments), group);
+      const overrides = calls(segments).reduce<Record<string, string>>((all, { args }) => ({ ...all, ...args.keywords }), {});
+      const label = parseStringLiteral(overrides.task_id ?? overrides.name ?? overrides.group_id) ?? factory.name;
+
+      if (factory.kind === 'task') {
+        const mapped = chainNames.some((name) => ['expand', 'expand_kwargs', 'map'].includes(name));
+        const task = addTask(label, factory.taskKind, group, mapped);
+        connect(upstream, [task]);
+        return [task];
+      }
+
+      if (factory.kind === 'flow' && !inFlow) {
+        // Module-level flow calls (`if __name__ == "__main__": my_flow()`) run the entry flow, handled separately
+        return [];
+      }
+
+      const nested = addGroup(label, group);
+      connect(upstream, [nested]);
+      runBlock(factory.body, nested.id);
+      const isEmpty =
+        !model.nodes.some((node) => node.subgraph === nested.id) &&
+        !model.subgraphs.some((subgraph) => subgraph.parent === nested.id);
+      if (isEmpty) {
+        // Subflows defined elsewhere show up as a single call node instead of an empty box
+        model.subgraphs = model.subgraphs.filter((subgraph) => subgraph.id !== nested.id);
+        model.nodes.push({ id: nested.id, label, shape: TASK_SHAPES.subflow, classes: [], ...(group && { subgraph: group }) });
+        return [{ kind: 'task', id: nested.id }];
+      }
+      return [nested];
+    }
+
+    if (factory?.kind === 'dag') return [];
+
+    const firstArgs = calls(segments)[0].args;
+    const isOperator = /(Operator|Sensor(Async)?)$/.test(calleeName) || firstArgs.keywords.task_id !== undefined;
+    if (isOperator && calleeName !== 'TaskGroup') {
+      const keywords = calls(segments).reduce<Record<string, string>>((all, { args }) => ({ ...all, ...args.keywords }), {});
+      const label = parseStringLiteral(keywords.task_id) ?? keywords.task_id ?? calleeName;
+      const mapped = chainNames.includes('expand') || chainNames.includes('expand_kwargs');
+      return [addTask(label, classifyOperator(calleeName), group, mapped)];
+    }
+
+    // Unknown calls still evaluate their arguments, which may create tasks (`print(extract())`)
+    evaluateAll(callArguments(segments), group);
+    return scope.get(base) ?? [];
+  };
+
+  function evaluate(expression: string, group: string | undefined): Ref[] {
+    const text = stripParentheses(expression.replace(/^await\s+/, ''));
+    if (!text) return [];
+
+    const { operands, operators } = splitTopLevel(text, DEPENDENCY_OPERATORS);
+    if (operators.length > 0) {
+      const values = operands.map((operand) => evaluate(operand, group));
+      if (values.some((value) => value.length === 0)) markUnhandled(text);
+      operators.forEach((operator, index) => {
+        if (operator === '>>') connect(values[index], values[index + 1]);
+        else connect(values[index + 1], values[index]);
+      });
+      return values[values.length - 1];
+    }
+
+    const sequence = parseSequenceLiteral(text);
+    if (sequence) {
+      if (/\sfor\s/.test(text) && /task_id|Operator|\(/.test(text)) {
+        // List comprehensions create a data-dependent number of tasks
+        markUnhandled(text);
+        return [];
+      }
+      return evaluateAll(sequence, group);
+    }
+
+    const segments = parseChain(text);
+    if (!segments) {
+      if (/task_id\s*=|Operator\(/.test(text)) markUnhandled(text);
+      return [];
+    }
+    return evaluateChain(segments, text, group);
+  }
+
+  const createsTasks = (lines: PythonLine[]): boolean =>
+    lines.some(({ text }) =>
+      /task_id\s*=|Operator\(|Sensor\(|>>|<<|set_(up|down)stream/.test(text) ||
+      [...factories.keys()].some((name) => new RegExp(`\\b${name}\\s*[.(]`).test(text))
+    );
+
+  function runBlock(lines: PythonLine[], group: string | undefined) {
+    let decorators: string[] = [];
+
+    for (let index = 0; index < lines.length; index++) {
+      const line = lines[index];
+      if (line.indent > lines[0].indent) continue;
+      const { text } = line;
+      currentLine = line.line;
+
+      if (text.startsWith('@')) {
+        decorators.push(text);
+        continue;
+      }
+
+      const definition = /^(?:async\s+)?def\s+(\w+)\s*\(/.exec(text);
+      if (definition) {
+        const body = takeBlock(lines, index);
+        const parsed = decorators.map(parseDecorator).find((decorator) => ['task', 'flow', 'task_group', 'dag'].includes(decorator.name));
+        decorators = [];
+        if (!parsed) continue;
+
+        const kind = parsed.name === 'task_group' ? 'group' : (parsed.name as Factory['kind']);
+        const label = parseStringLiteral(parsed.args?.task_id ?? parsed.args?.group_id ?? parsed.args?.name) ?? definition[1];
+        factories.set(definition[1], {
+          kind,
+          name: label,
+          taskKind: kind === 'task' ? TASKFLOW_KINDS[parsed.variant] ?? (framework === 'airflow' && parsed.variant ? 'other' : 'python') : 'subflow',
+          body
+        });
+        if (kind === 'dag') runBlock(body, group);
+        continue;
+      }
+      decorators = [];
+
+      if (/^class\s/.test(text) || /^(import|from)\s/.test(text)) {
+        if (/^class\s/.test(text)) index += takeBlock(lines, index).length;
+        continue;
+      }
+
+      const withHeader = /^(?:async\s+)?with\s+(.+):$/.exec(text);
+      if (withHeader) {
+        const body = takeBlock(lines, index);
+        index += body.length;
+        const items = splitTopLevel(withHeader[1], [',']).operands;
+        let blockGroup = group;
+        items.forEach((item) => {
+          const [expression, alias] = item.split(/\s+as\s+/);
+          const segments = parseChain(expression);
+          const callee = segments ? names(segments.slice(0, segments.findIndex((segment) => segment.kind === 'call'))) : [];
+          if (callee[callee.length - 1] === 'TaskGroup' && segments) {
+            const args = calls(segments)[0].args;
+            const label = parseStringLiteral(args.keywords.group_id ?? args.positional[0]) ?? alias ?? 'group';
+            const ref = addGroup(label, blockGroup);
+            if (alias) scope.set(alias.trim(), [ref]);
+            blockGroup = ref.id;
+          } else if (callee[callee.length - 1] === 'Flow' && segments) {
+            // Prefect 1.x: `with Flow("name") as flow:`
+            inFlow = true;
+          }
+        });
+        runBlock(body, blockGroup);
+        continue;
+      }
+
+      if (/^(for|while)\s.*:$/.test(text)) {
+        const body = takeBlock(lines, index);
+        index += body.length;
+        if (createsTasks(body)) {
+          markUnhandled([text, ...body.map((bodyLine) => bodyLine.text)].join('\n'));
+        }
+        continue;
+      }
+
+      if (/^(if|elif|else|try|except|finally)\b.*:$/.test(text)) {
+        const body = takeBlock(lines, index);
+        index += body.length;
+        runBlock(body, group);
+        continue;
+      }
+
+      if (/^(return|yield)\b/.test(text)) {
+        evaluate(text.replace(/^(return|yield)\s*/, ''), group);
+        continue;
+      }
+
+      if (/^(pass|break|continue|raise|assert|global|nonlocal|del)\b/.test(text)) continue;
+
+      const assignment = findAssignment(text);
+      if (assignment === -1) {
+        evaluate(text, group);
+        continue;
+      }
+
+      const target = text.slice(0, assignment).trim().replace(/:\s*[\w[\], .]+$/, '');
+      const refs = evaluate(text.slice(assignment + 1), group);
+      const targets = splitTopLevel(target, [',']).operands;
+      if (targets.length === 1) {
+        scope.set(targets[0], refs);
+      }
+    }
+  }
+
+  const lines = toLogicalLines(source);
+  runBlock(lines, undefined);
+
+  if (framework === 'prefect') {
+    // Run entry flows: the ones no other flow calls as a subflow
+    const flows = [...factories.entries()].filter(([, factory]) => factory.kind === 'flow');
+    const entries = flows.filter(
+      ([name]) => !flows.some(([other, factory]) => other !== name && factory.body.some(({ text }) => new RegExp(`\\b${name}\\s*\\(`).test(text)))
+    );
+    inFlow = true;
+    entries.forEach(([, factory]) => {
+      const group = entries.length > 1 ? addGroup(factory.name, undefined).id : undefined;
+      runBlock(factory.body, group);
+    });
+  }
+
+  return { model, unhandled, allocateId };
+};
+
+// ---------------------------------------------------------------------------
+// LLM fallback for constructs the static pass could not resolve
+
+interface FallbackResponse {
+  tasks?: Array<{ id: string; label?: string; group?: string }>;
+  dependencies?: Array<{ from: string; to: string }>;
+}
+
+const FALLBACK_SCHEMA = {
+  type: 'object',
+  properties: {
+    tasks: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          label: { type: 'string' },
+          group: { type: 'string' }
+        },
+        required: ['id']
+      }
+    },
+    dependencies: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { from: { type: 'string' }, to: { type: 'string' } },
+        required: ['from', 'to']
+      }
+    }
+  }
+};
+
+const buildFallbackPrompt = (source: string, graph: StaticGraph, framework: OrchestrationFramework) => `
+  A static parser converted this ${framework === 'airflow' ? 'Airflow DAG' : 'Prefect flow'} into a task graph but could not resolve some constructs.
+
+  Source:
+  ${source}
+
+  Tasks already found (id: label):
+  ${graph.model.nodes.map((node) => `${node.id}: ${node.label}`).join('\n  ') || '(none)'}
+
+  Groups already found (id: label):
+  ${graph.model.subgraphs.map((subgraph) => `${subgraph.id}: ${subgraph.label}`).join('\n  ') || '(none)'}
+
+  Unresolved constructs:
+  ${graph.unhandled.map((construct) => `Line ${construct.line}: ${construct.text}`).join('\n  ')}
+
+  Requirements:
+  - Only describe tasks and dependencies created by the unresolved constructs
+  - Expand loops and comprehensions over literal values into one task per value
+  - Reuse the ids above when a dependency involves an existing task or group
+  - Give new tasks short snake_case ids and put them in an existing group id when they are created inside one
+`;
+
+const applyFallback = (graph: StaticGraph, response: FallbackResponse, warnings: string[]) => {
+  const { model, allocateId } = graph;
+  const known = new Set([...model.nodes.map((node) => node.id), ...model.subgraphs.map((subgraph) => subgraph.id)]);
+  const groups = new Set(model.subgraphs.map((subgraph) => subgraph.id));
+  const renamed = new Map<string, string>();
+
+  (response.tasks ?? []).forEach((task) => {
+    if (!task.id || known.has(task.id)) return;
+    const id = allocateId(`fallback:${task.id}`, task.id);
+    renamed.set(task.id, id);
+    known.add(id);
+    model.nodes.push({
+      id,
+      label: task.label || task.id,
+      shape: 'rect',
+      classes: ['inferred'],
+      ...(task.group && groups.has(task.group) && { subgraph: task.group })
+    });
+  });
+
+  let dropped = 0;
+  (response.dependencies ?? []).forEach(({ from, to }) => {
+    const source = renamed.get(from) ?? from;
+    const target = renamed.get(to) ?? to;
+    if (!known.has(source) || !known.has(target)) {
+      dropped += 1;
+      return;
+    }
+    if (!model.edges.some((edge) => edge.from === source && edge.to === target)) {
+      model.edges.push({ from: source, to: target, stroke: 'dotted', head: 'arrow', bidirectional: false });
+    }
+  });
+
+  if (renamed.size > 0 || response.dependencies?.length) {
+    model.classDefs.push({ name: 'inferred', styles: 'stroke-dasharray:4 4' });
+    warnings.push(`AI-inferred parts are dashed: ${renamed.size} task(s) and ${(response.dependencies?.length ?? 0) - dropped} dependency(ies)`);
+  }
+  if (dropped > 0) {
+    warnings.push(`${dropped} AI-inferred dependency(ies) referenced unknown tasks and were dropped`);
+  }
+};
+
+/**
+ * Converts an Airflow DAG file or Prefect flow into a flowchart. Tasks,
+ * dependencies and groups come from a static reading of the source; only
+ * constructs it cannot resolve (loops, comprehensions, dynamic ids) are sent
+ * to the LLM, and what it adds is marked as inferred.
+ */
+export const importOrchestrationDag = async (
+  source: string,
+  options: OrchestrationImportOptions
+): Promise<ImportResult & { framework: OrchestrationFramework }> => {
+  const warnings: string[] = [];
+  const framework = detectFramework(source);
+  const graph = buildStaticGraph(source, framework);
+
+  if (graph.unhandled.length > 0) {
+    if (options.aiFallback) {
+      try {
+        const response = await invokeLLM({
+          prompt: buildFallbackPrompt(source, graph, framework),
+          add_context_from_internet: false,
+          response_json_schema: FALLBACK_SCHEMA
+        });
+        applyFallback(graph, (typeof response === 'string' ? JSON.parse(response) : response) as FallbackResponse, warnings);
+      } catch (err) {
+        warnings.push(`AI fallback failed: ${err instanceof Error ? err.message : 'unknown error'}`);
+      }
+    }
+    graph.unhandled.forEach((construct) => {
+      warnings.push(`Line ${construct.line}: could not resolve statically: ${construct.text.split('\n')[0]}`);
+    });
+  }
+
+  if (graph.model.nodes.length === 0) {
+    throw new Error(`No ${framework === 'airflow' ? 'Airflow tasks' : 'Prefect tasks'} found in the source`);
+  }
+
+  return {
+    mermaidCode: serializeDiagram(graph.model),
+    diagramType: 'Flowchart',
+    framework,
+    warnings
+  };
+};
@@ -0,0 +1,278 @@
+/**
+ * Just enough Python structure for static importers: logical lines with their
+ * indentation, bracket-aware splitting, and call chains such as
+ * `task.override(task_id="x").expand(y=z)`. Nothing is evaluated.
+ */
+
+export interface PythonLine {
+  text: string;
+  indent: number;
+  /** 1-based line the statement starts on */
+  line: number;
+}
+
+const OPENING = '([{';
+const CLOSING = ')]}';
+
+/**
+ * Joins bracketed and backslash-continued lines, drops comments and blank
+ * lines, and flattens multi-line strings so every statement is one line.
+ */
+export const toLogicalLines = (source: string): PythonLine[] => {
+  const lines: PythonLine[] = [];
+  let text = '';
+  let indent = 0;
+  let startLine = 1;
+  let line = 1;
+  let depth = 0;
+  let atLineStart = true;
+  let position = 0;
+
+  const flush = () => {
+    if (text.trim()) lines.push({ text: text.trim(), indent, line: startLine });
+    text = '';
+    atLineStart = true;
+  };
+
+  while (position < source.length) {
+    const char = source[position];
+
+    if (atLineStart) {
+      const leading = /^[ \t]*/.exec(source.slice(position))[0];
+      indent = leading.replace(/\t/g, '    ').length;
+      startLine = line;
+      position += leading.length;
+      atLineStart = false;
+      continue;
+    }
+
+    if (char === '#') {
+      while (position < source.length && source[position] !== '\n') position++;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const triple = source.startsWith(char.repeat(3), position);
+      const delimiter = triple ? char.repeat(3) : char;
+      let end = position + delimiter.length;
+      while (end < source.length && !source.startsWith(delimiter, end)) {
+        if (source[end] === '\\') end++;
+        else if (source[end] === '\n' && !triple) break;
+        end++;
+      }
+      const literal = source.slice(position, Math.min(end + delimiter.length, source.length));
+      line += (literal.match(/\n/g) ?? []).length;
+      text += literal.replace(/\n/g, '\\n');
+      position += literal.length;
+      continue;
+    }
+
+    if (char === '\\' && source[position + 1] === '\n') {
+      text += ' ';
+      position += 2;
+      line++;
+      continue;
+    }
+
+    if (char === '\n') {
+      line++;
+      position++;
+      if (depth > 0) {
+        text += ' ';
+      } else {
+        flush();
+      }
+      continue;
+    }
+
+    if (OPENING.includes(char)) depth++;
+    if (CLOSING.includes(char)) depth = Math.max(0, depth - 1);
+    text += char;
+    position++;
+  }
+
+  flush();
+  return lines;
+};
+
+/** Marks the characters that sit outside brackets and string literals. */
+const topLevelMask = (text: string): boolean[] => {
+  const mask: boolean[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quote) {
+      mask.push(false);
+      if (char === '\\') {
+        mask.push(false);
+        index++;
+      } else if (char === quote) {
+        quote = null;
+      }
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      quote = char;
+      mask.push(false);
+      continue;
+    }
+    if (OPENING.includes(char)) {
+      mask.push(false);
+      depth++;
+      continue;
+    }
+    if (CLOSING.includes(char)) {
+      depth = Math.max(0, depth - 1);
+      mask.push(false);
+      continue;
+    }
+    mask.push(depth === 0);
+  }
+  return mask;
+};
+
+/**
+ * Splits on operators that appear outside brackets and strings, e.g.
+ * `a >> [b, c] << d` into operands `a`, `[b, c]`, `d` and operators `>>`, `<<`.
+ */
+export const splitTopLevel = (text: string, operators: string[]): { operands: string[]; operators: string[] } => {
+  const mask = topLevelMask(text);
+  const operands: string[] = [];
+  const found: string[] = [];
+  let start = 0;
+
+  for (let index = 0; index < text.length; index++) {
+    if (!mask[index]) continue;
+    const operator = operators.find((candidate) => text.startsWith(candidate, index));
+    if (operator && operator.split('').every((_, offset) => mask[index + offset])) {
+      operands.push(text.slice(start, index).trim());
+      found.push(operator);
+      index += operator.length - 1;
+      start = index + 1;
+    }
+  }
+  operands.push(text.slice(start).trim());
+  return { operands, operators: found };
+};
+
+/** Index of the `=` that makes a statement an assignment, or -1. */
+export const findAssignment = (text: string): number => {
+  const mask = topLevelMask(text);
+  for (let index = 0; index < text.length; index++) {
+    if (!mask[index] || text[index] !== '=') continue;
+    const before = text[index - 1];
+    const after = text[index + 1];
+    if (after === '=' || '=!<>+-*/%&|^@:'.includes(before ?? '')) continue;
+    return index;
+  }
+  return -1;
+};
+
+export interface CallArguments {
+  positional: string[];
+  keywords: Record<string, string>;
+}
+
+export const parseArguments = (text: string): CallArguments => {
+  const args: CallArguments = { positional: [], keywords: {} };
+  splitTopLevel(text, [','])
+    .operands.filter(Boolean)
+    .forEach((argument) => {
+      const keyword = /^(\w+)\s*=(?!=)\s*([\s\S]+)$/.exec(argument);
+      if (keyword) {
+        args.keywords[keyword[1]] = keyword[2].trim();
+      } else if (!argument.startsWith('*')) {
+        args.positional.push(argument);
+      }
+    });
+  return args;
+};
+
+export type ChainSegment =
+  | { kind: 'name'; name: string }
+  | { kind: 'call'; args: CallArguments }
+  | { kind: 'index'; text: string };
+
+/** Index of the bracket that closes the one at `start`, skipping string literals. */
+const findClosing = (text: string, start: number): number => {
+  let depth = 0;
+  let quote: string | null = null;
+  for (let index = start; index < text.length; index++) {
+    const char = text[index];
+    if (quote) {
+      if (char === '\\') index++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (OPENING.includes(char)) {
+      depth++;
+    } else if (CLOSING.includes(char)) {
+      depth--;
+      if (depth === 0) return index;
+    }
+  }
+  return -1;
+};
+
+/**
+ * Parses `a.b(c)[d].e(f=g)` into name, call and index segments, or returns
+ * null when the expression is not a plain chain (operators, literals, lambdas).
+ */
+export const parseChain = (expression: string): ChainSegment[] | null => {
+  const text = expression.trim();
+  const segments: ChainSegment[] = [];
+  let position = 0;
+
+  const first = /^[A-Za-z_]\w*/.exec(text);
+  if (!first) return null;
+  segments.push({ kind: 'name', name: first[0] });
+  position = first[0].length;
+
+  while (position < text.length) {
+    const rest = text.slice(position);
+    const attribute = /^\s*\.\s*([A-Za-z_]\w*)/.exec(rest);
+    if (attribute) {
+      segments.push({ kind: 'name', name: attribute[1] });
+      position += attribute[0].length;
+      continue;
+    }
+    const opening = /^\s*([([])/.exec(rest);
+    if (!opening) return null;
+    const start = position + opening[0].length - 1;
+    const end = findClosing(text, start);
+    if (end === -1) return null;
+    const inner = text.slice(start + 1, end);
+    segments.push(opening[1] === '(' ? { kind: 'call', args: parseArguments(inner) } : { kind: 'index', text: inner });
+    position = end + 1;
+  }
+
+  return segments;
+};
+
+/** Value of a string literal, keeping f-string placeholders as written. */
+export const parseStringLiteral = (expression: string | undefined): string | null => {
+  const literal = /^[rRbBuUfF]{0,2}("""|'''|"|')([\s\S]*)\1$/.exec(expression?.trim() ?? '');
+  return literal ? literal[2] : null;
+};
+
+/** Elements of a list, tuple or set literal, or null for anything else. */
+export const parseSequenceLiteral = (expression: string): string[] | null => {
+  const text = expression.trim();
+  const opening = text[0];
+  const closing = { '[': ']', '(': ')', '{': '}' }[opening];
+  if (!closing || text[text.length - 1] !== closing || findClosing(text, 0) !== text.length - 1) return null;
+  const { operands } = splitTopLevel(text.slice(1, -1), [',']);
+  // A parenthesised expression without a comma is grouping, not a tuple
+  if (opening === '(' && operands.length === 1) return null;
+  return operands.filter(Boolean);
+};
+
+export const stripParentheses = (expression: string): string => {
+  let text = expression.trim();
+  while (text.startsWith('(') && findClosing(text, 0) === text.length - 1 && parseSequenceLiteral(text) === null) {
+    text = text.slice(1, -1).trim();
+  }
+  return text;
+};
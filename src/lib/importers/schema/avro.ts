@@ -0,0 +1,176 @@
+import { createSchemaType, SchemaDefinition, SchemaField, SchemaType } from './model';
+
+interface AvroComplexSchema {
+  type: AvroSchema;
+  name?: string;
+  namespace?: string;
+  fields?: AvroField[];
+  symbols?: string[];
+  items?: AvroSchema;
+  values?: AvroSchema;
+  size?: number;
+  logicalType?: string;
+  precision?: number;
+  scale?: number;
+}
+
+interface AvroField {
+  name: string;
+  type: AvroSchema;
+  default?: unknown;
+}
+
+interface AvroProtocol {
+  protocol: string;
+  namespace?: string;
+  types?: AvroSchema[];
+  messages?: Record<string, unknown>;
+}
+
+type AvroSchema = string | AvroSchema[] | AvroComplexSchema;
+
+interface FieldShape {
+  type: string;
+  list: boolean;
+  nullable: boolean;
+  references: string[];
+}
+
+const PRIMITIVES = new Set(['null', 'boolean', 'int', 'long', 'float', 'double', 'bytes', 'string']);
+
+const describeLogicalType = (schema: AvroComplexSchema): string =>
+  schema.logicalType === 'decimal' ? `decimal(${schema.precision ?? '?'},${schema.scale ?? 0})` : schema.logicalType;
+
+/**
+ * Reads Avro schemas (.avsc, a single schema or an array of them) and
+ * protocols (.avpr). Named types keep their short name unless two namespaces
+ * clash; a union with "null" makes the field optional.
+ */
+export const parseAvro = (text: string): SchemaDefinition => {
+  if (/^\s*(@namespace|protocol\s+\w+\s*\{)/m.test(text) && !text.trim().startsWith('{')) {
+    throw new Error('Avro IDL (.avdl) is not supported. Convert it with "avro-tools idl2schemata" and import the .avsc files.');
+  }
+  let parsed: AvroSchema | AvroProtocol;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The input is not valid JSON. Expected an Avro schema (.avsc) or protocol (.avpr).');
+  }
+
+  const warnings: string[] = [];
+  const types: SchemaType[] = [];
+  // Full name → display name, or the rendered type for fixed aliases
+  const named = new Map<string, { name: string; scalar?: string }>();
+  const shortNames = new Set<string>();
+  const unresolved = new Set<string>();
+
+  const fullName = (name: string, namespace?: string) => (name.includes('.') || !namespace ? name : `${namespace}.${name}`);
+
+  const register = (schema: AvroComplexSchema, namespace?: string): { full: string; name: string; namespace?: string } => {
+    const full = fullName(schema.name, schema.namespace ?? namespace);
+    const short = full.split('.').pop();
+    const name = shortNames.has(short) ? full : short;
+    shortNames.add(short);
+    return { full, name, namespace: full.includes('.') ? full.slice(0, full.lastIndexOf('.')) : undefined };
+  };
+
+  const describe = (schema: AvroSchema, namespace?: string): FieldShape => {
+    const shape: FieldShape = { type: 'any', list: false, nullable: false, references: [] };
+
+    if (typeof schema === 'string') {
+      if (PRIMITIVES.has(schema)) return { ...shape, type: schema };
+      const target = named.get(fullName(schema, namespace)) ?? named.get(schema);
+      if (!target) {
+        unresolved.add(schema);
+        return { ...shape, type: schema };
+      }
+      return target.scalar ? { ...shape, type: target.scalar } : { ...shape, type: target.name, references: [target.name] };
+    }
+
+    if (Array.isArray(schema)) {
+      const members = schema.filter((member) => member !== 'null' && !(typeof member === 'object' && !Array.isArray(member) && member.type === 'null'));
+      const nullable = members.length < schema.length;
+      const described = members.map((member) => describe(member, namespace));
+      if (described.length === 1) return { ...described[0], nullable: nullable || described[0].nullable };
+      return {
+        type: described.map((member) => `${member.type}${member.list ? '[]' : ''}`).join(' | ') || 'null',
+        list: false,
+        nullable,
+        references: [...new Set(described.flatMap((member) => member.references))]
+      };
+    }
+
+    if (!schema || typeof schema !== 'object') return shape;
+    if (schema.logicalType && typeof schema.type === 'string' && PRIMITIVES.has(schema.type)) return { ...shape, type: describeLogicalType(schema) };
+
+    switch (schema.type) {
+      case 'record':
+      case 'error': {
+        const name = defineRecord(schema, namespace);
+        return { ...shape, type: name, references: [name] };
+      }
+      case 'enum': {
+        const name = defineEnum(schema, namespace);
+        return { ...shape, type: name, references: [name] };
+      }
+      case 'fixed': {
+        const { full } = register(schema, namespace);
+        const scalar = schema.logicalType ? describeLogicalType(schema) : `fixed(${schema.size})`;
+        named.set(full, { name: schema.name, scalar });
+        return { ...shape, type: scalar };
+      }
+      case 'array':
+        return { ...describe(schema.items, namespace), list: true, nullable: false };
+      case 'map': {
+        const values = describe(schema.values, namespace);
+        return { ...shape, type: `map<string, ${values.type}${values.list ? '[]' : ''}>`, references: values.references };
+      }
+      default:
+        // { "type": "string" } and other wrapped primitives or names
+        return typeof schema.type === 'string' || Array.isArray(schema.type) ? describe(schema.type, namespace) : shape;
+    }
+  };
+
+  const defineEnum = (schema: AvroComplexSchema, namespace?: string): string => {
+    const { full, name } = register(schema, namespace);
+    named.set(full, { name });
+    const type = createSchemaType(name, 'enum');
+    type.values = schema.symbols ?? [];
+    types.push(type);
+    return name;
+  };
+
+  const defineRecord = (schema: AvroComplexSchema, namespace?: string): string => {
+    const { full, name, namespace: recordNamespace } = register(schema, namespace);
+    // Registered before the fields so recursive records resolve
+    named.set(full, { name });
+    const type = createSchemaType(name, 'record');
+    types.push(type);
+    (schema.fields ?? []).forEach((avroField) => {
+      const shape = describe(avroField.type, recordNamespace);
+      const field: SchemaField = {
+        name: avroField.name,
+        type: shape.type,
+        optional: shape.nullable,
+        list: shape.list,
+        references: shape.references
+      };
+      if (avroField.default !== undefined && avroField.default !== null) field.note = `default: ${JSON.stringify(avroField.default)}`;
+      type.fields.push(field);
+    });
+    return name;
+  };
+
+  const protocol = !Array.isArray(parsed) && typeof parsed === 'object' && 'protocol' in parsed ? parsed : undefined;
+  const roots: AvroSchema[] = protocol ? protocol.types ?? [] : Array.isArray(parsed) ? parsed : [parsed as AvroSchema];
+  roots.forEach((schema) => describe(schema, protocol?.namespace));
+
+  const messages = Object.keys(protocol?.messages ?? {});
+  if (messages.length > 0) warnings.push(`Skipped ${messages.length} protocol message${messages.length === 1 ? '' : 's'}: ${messages.join(', ')}`);
+  if (types.length === 0) {
+    throw new Error('No named types found: expected a record or enum schema');
+  }
+  unresolved.forEach((name) => warnings.push(`Type "${name}" is not defined in this file; define it before use or import its schema too`));
+
+  return { types, warnings };
+};
@@ -0,0 +1,210 @@
+import { createSchemaType, SchemaDefinition, SchemaField, SchemaType, SchemaTypeKind } from './model';
+
+const ROOT_OPERATIONS: Record<string, string> = { query: 'Query', mutation: 'Mutation', subscription: 'Subscription' };
+
+const TYPE_KINDS: Record<string, SchemaTypeKind> = {
+  type: 'record',
+  interface: 'interface',
+  input: 'input',
+  enum: 'enum',
+  union: 'union'
+};
+
+// Block strings first so their quotes are not read as two empty strings
+const TOKEN_PATTERN = /"""[\s\S]*?"""|"(?:[^"\\\n]|\\.)*"|\.\.\.|[A-Za-z_]\w*|-?\d[\w.+-]*|[!$&()=:@[\]{|}]/g;
+
+const tokenize = (text: string): string[] => text.replace(/#[^\n]*/g, '').match(TOKEN_PATTERN) ?? [];
+
+const isDescription = (token: string | undefined) => token?.startsWith('"') ?? false;
+
+/**
+ * Reads GraphQL SDL: object types, interfaces, inputs, enums and unions,
+ * including `extend` blocks. Root operation types (Query, Mutation,
+ * Subscription) describe the API rather than the data, so they are skipped
+ * along with directive definitions; custom scalars stay as field types.
+ */
+export const parseGraphQl = (text: string): SchemaDefinition => {
+  const tokens = tokenize(text);
+  const warnings: string[] = [];
+  const types = new Map<string, SchemaType>();
+  const roots = { ...ROOT_OPERATIONS };
+  const scalars: string[] = [];
+  const directives: string[] = [];
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+  const expect = (token: string) => {
+    if (tokens[position] !== token) {
+      throw new Error(`Unexpected "${tokens[position] ?? 'end of file'}" in the GraphQL schema; expected "${token}"`);
+    }
+    position++;
+  };
+
+  /** Skips a balanced (...), [...] or {...} group starting at the current token. */
+  const skipGroup = () => {
+    const open = next();
+    const close = open === '(' ? ')' : open === '[' ? ']' : '}';
+    for (let depth = 1; position < tokens.length && depth > 0; ) {
+      const token = next();
+      if (token === open) depth++;
+      if (token === close) depth--;
+    }
+  };
+
+  /** Consumes directives and returns their names. */
+  const parseDirectives = (): string[] => {
+    const names: string[] = [];
+    while (peek() === '@') {
+      next();
+      names.push(next());
+      if (peek() === '(') skipGroup();
+    }
+    return names;
+  };
+
+  const parseValue = (): string => {
+    const start = position;
+    if (peek() === '[' || peek() === '{') skipGroup();
+    else next();
+    return tokens.slice(start, position).join(' ');
+  };
+
+  const parseTypeReference = (): { name: string; list: boolean; optional: boolean } => {
+    if (peek() === '[') {
+      next();
+      const inner = parseTypeReference();
+      expect(']');
+      const required = peek() === '!';
+      if (required) next();
+      return { name: inner.name, list: true, optional: !required };
+    }
+    const name = next();
+    const required = peek() === '!';
+    if (required) next();
+    return { name, list: false, optional: !required };
+  };
+
+  const getType = (name: string, kind: SchemaTypeKind): SchemaType => {
+    if (!types.has(name)) types.set(name, createSchemaType(name, kind));
+    return types.get(name);
+  };
+
+  const parseFields = (type: SchemaType) => {
+    expect('{');
+    while (position < tokens.length && peek() !== '}') {
+      if (isDescription(peek())) {
+        next();
+        continue;
+      }
+      const name = next();
+      if (type.kind === 'enum') {
+        type.values.push(name);
+        parseDirectives();
+        continue;
+      }
+      const hasArguments = peek() === '(';
+      if (hasArguments) skipGroup();
+      expect(':');
+      const reference = parseTypeReference();
+      const notes: string[] = [];
+      if (peek() === '=') {
+        next();
+        notes.push(`default: ${parseValue()}`);
+      }
+      if (parseDirectives().includes('deprecated')) notes.push('deprecated');
+      if (hasArguments) notes.push('has arguments');
+      const field: SchemaField = {
+        name,
+        type: reference.name,
+        optional: reference.optional,
+        list: reference.list,
+        references: [reference.name]
+      };
+      if (name === 'id' && reference.name === 'ID' && !reference.list) field.key = 'PK';
+      if (notes.length > 0) field.note = notes.join(', ');
+      type.fields.push(field);
+    }
+    expect('}');
+  };
+
+  while (position < tokens.length) {
+    let keyword = next();
+    if (isDescription(keyword)) continue;
+    if (keyword === 'extend') keyword = next();
+
+    if (keyword === 'schema') {
+      parseDirectives();
+      expect('{');
+      while (position < tokens.length && peek() !== '}') {
+        const operation = next();
+        expect(':');
+        roots[operation] = next();
+      }
+      expect('}');
+    } else if (keyword === 'scalar') {
+      scalars.push(next());
+      parseDirectives();
+    } else if (keyword === 'directive') {
+      expect('@');
+      directives.push(`@${next()}`);
+      if (peek() === '(') skipGroup();
+      if (peek() === 'repeatable') next();
+      expect('on');
+      if (peek() === '|') next();
+      next();
+      while (peek() === '|') {
+        next();
+        next();
+      }
+    } else if (TYPE_KINDS[keyword]) {
+      const type = getType(next(), TYPE_KINDS[keyword]);
+      if (peek() === 'implements') {
+        next();
+        if (peek() === '&') next();
+        type.parents.push(next());
+        while (peek() === '&') {
+          next();
+          type.parents.push(next());
+        }
+      }
+      parseDirectives();
+      if (keyword === 'union') {
+        if (peek() === '=') {
+          next();
+          if (peek() === '|') next();
+          type.values.push(next());
+          while (peek() === '|') {
+            next();
+            type.values.push(next());
+          }
+        }
+      } else if (peek() === '{') {
+        parseFields(type);
+      }
+    } else {
+      throw new Error(`Unexpected "${keyword}" in the GraphQL schema; expected a type, interface, input, enum, union or scalar definition`);
+    }
+  }
+
+  const rootNames = new Set(Object.values(roots));
+  const skippedRoots = [...types.values()].filter((type) => rootNames.has(type.name));
+  skippedRoots.forEach((type) => {
+    types.delete(type.name);
+    warnings.push(`Skipped root operation type "${type.name}" (${type.fields.length} field${type.fields.length === 1 ? '' : 's'})`);
+  });
+  if (directives.length > 0) warnings.push(`Skipped directive definitions: ${directives.join(', ')}`);
+  if (scalars.length > 0) warnings.push(`Custom scalars are shown as plain field types: ${scalars.join(', ')}`);
+
+  // References only count for types drawn in the diagram
+  types.forEach((type) => {
+    type.fields.forEach((field) => {
+      field.references = field.references.filter((name) => types.has(name));
+    });
+  });
+  if (types.size === 0) {
+    throw new Error('No object, input, enum or union types found in the GraphQL schema');
+  }
+
+  return { types: [...types.values()], warnings };
+};
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { detectSchemaLanguage, importSchema } from './index';
+
+const OPENAPI_YAML = `openapi: 3.0.0
+components:
+  schemas:
+    Pet:
+      type: object
+      required: [name]
+      properties:
+        name:
+          type: string
+        owner:
+          $ref: "#/components/schemas/Owner"
+    Owner:
+      type: object
+      properties:
+        id:
+          type: integer
+`;
+
+describe('detectSchemaLanguage', () => {
+  it('recognises YAML JSON Schema and OpenAPI documents, with or without a file name', () => {
+    expect(detectSchemaLanguage(OPENAPI_YAML, 'api.yaml')).toBe('jsonSchema');
+    expect(detectSchemaLanguage(OPENAPI_YAML)).toBe('jsonSchema');
+    expect(detectSchemaLanguage('type: object\nproperties:\n  id:\n    type: string\n')).toBe('jsonSchema');
+  });
+
+  it('recognises the other languages from their content', () => {
+    expect(detectSchemaLanguage('type Query {\n  pets: [Pet]\n}')).toBe('graphql');
+    expect(detectSchemaLanguage('{"type": "record", "name": "Pet", "fields": []}', 'pet.json')).toBe('avro');
+    expect(detectSchemaLanguage('syntax = "proto3";\nmessage Pet {}')).toBe('protobuf');
+    expect(detectSchemaLanguage('model Pet {\n  id Int @id\n}')).toBe('prisma');
+    expect(detectSchemaLanguage('hello')).toBeUndefined();
+  });
+});
+
+describe('importSchema', () => {
+  it('draws a class diagram with associations between types', () => {
+    const result = importSchema(OPENAPI_YAML, { language: 'jsonSchema', output: 'class' });
+
+    expect(result.mermaidCode).toBe(
+      [
+        'classDiagram',
+        '    class Pet {',
+        '        +string name',
+        '        +Owner? owner',
+        '    }',
+        '    class Owner {',
+        '        +integer? id',
+        '    }',
+        '    Pet --> "0..1" Owner : owner'
+      ].join('\n')
+    );
+    expect(result.stats).toEqual([
+      { label: 'Types', value: '2' },
+      { label: 'Fields', value: '3' }
+    ]);
+  });
+
+  it('draws an ER diagram from the same schema', () => {
+    const result = importSchema(OPENAPI_YAML, { language: 'jsonSchema', output: 'er' });
+
+    expect(result.diagramType).toBe('Entity Relationship Diagram');
+    expect(result.mermaidCode).toContain('Pet ||--o| Owner : "owner"');
+  });
+
+  it('reports input the parser cannot read', () => {
+    expect(() => importSchema('{not json', { language: 'jsonSchema', output: 'class' })).toThrow(
+      'The input is not valid JSON or YAML'
+    );
+  });
+
+  it('refuses an ER diagram without entities', () => {
+    expect(() => importSchema('enum Color { RED }', { language: 'graphql', output: 'er' })).toThrow(/no entities to draw/);
+  });
+});
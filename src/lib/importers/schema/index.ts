@@ -0,0 +1,102 @@
+import { serializeDiagram } from '@/lib/diagram/diagram';
+import { ImportResult } from '../types';
+import { parseAvro } from './avro';
+import { parseGraphQl } from './graphql';
+import { parseJsonSchema } from './jsonSchema';
+import { SchemaDefinition } from './model';
+import { parsePrisma } from './prisma';
+import { parseProtobuf } from './protobuf';
+import { renderClassDiagram, renderErDiagram } from './render';
+
+export type SchemaLanguage = 'jsonSchema' | 'avro' | 'protobuf' | 'graphql' | 'prisma';
+
+export type SchemaOutput = 'class' | 'er';
+
+export interface SchemaImportOptions {
+  language: SchemaLanguage;
+  output: SchemaOutput;
+}
+
+export const SCHEMA_LANGUAGES: Array<{ id: SchemaLanguage; label: string; extensions: string[]; parse: (text: string) => SchemaDefinition }> = [
+  { id: 'jsonSchema', label: 'JSON Schema / OpenAPI', extensions: ['.json', '.yaml', '.yml'], parse: parseJsonSchema },
+  { id: 'avro', label: 'Avro', extensions: ['.avsc', '.avpr'], parse: parseAvro },
+  { id: 'protobuf', label: 'Protocol Buffers', extensions: ['.proto'], parse: parseProtobuf },
+  { id: 'graphql', label: 'GraphQL SDL', extensions: ['.graphql', '.graphqls', '.gql'], parse: parseGraphQl },
+  { id: 'prisma', label: 'Prisma', extensions: ['.prisma'], parse: parsePrisma }
+];
+
+export const SCHEMA_OUTPUTS: Array<{ id: SchemaOutput; label: string }> = [
+  { id: 'class', label: 'Class diagram' },
+  { id: 'er', label: 'ER diagram' }
+];
+
+const AVRO_TYPES = new Set(['record', 'enum', 'fixed', 'error']);
+
+/** Picks the language from the file extension, then from the content. */
+export const detectSchemaLanguage = (text: string, fileName = ''): SchemaLanguage | undefined => {
+  const extension = /\.[^.]+$/.exec(fileName.toLowerCase())?.[0];
+  const byExtension = SCHEMA_LANGUAGES.find((language) => language.id !== 'jsonSchema' && language.extensions.includes(extension));
+  if (byExtension) return byExtension.id;
+  // Avro is JSON only, so YAML files are JSON Schema or OpenAPI; .json files still need the Avro check below
+  if (extension === '.yaml' || extension === '.yml') return 'jsonSchema';
+
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      const first = Array.isArray(parsed) ? parsed[0] : parsed;
+      if (first && (AVRO_TYPES.has(first.type) || 'protocol' in first)) return 'avro';
+    } catch {
+      // JSON Schema may be written as YAML-flavoured JSON; let its parser report errors
+    }
+    return 'jsonSchema';
+  }
+  if (/^\s*(syntax|edition)\s*=|^\s*message\s+\w+\s*\{/m.test(text)) return 'protobuf';
+  if (/^\s*(model|datasource|generator)\s+\w+\s*\{/m.test(text)) return 'prisma';
+  // Checked before GraphQL, whose keywords also start YAML lines such as "type: object"
+  if (/^\s*(\$schema|\$defs|definitions|properties|openapi|components)\s*:/m.test(text)) return 'jsonSchema';
+  if (/^\s*(extend\s+)?(type|interface|input|union|scalar)\s+[A-Za-z_]|^\s*(extend\s+)?schema\s*\{/m.test(text)) return 'graphql';
+  return undefined;
+};
+
+/**
+ * Turns a schema into a class diagram or an ER diagram without going through
+ * the model, so every field and type shown exists in the source. Constructs
+ * the parsers cannot draw are listed in the warnings.
+ */
+export const importSchema = (text: string, { language, output }: SchemaImportOptions): ImportResult => {
+  const parser = SCHEMA_LANGUAGES.find((candidate) => candidate.id === language);
+  const definition = parser.parse(text);
+  const warnings = [...definition.warnings];
+
+  if (output === 'er') {
+    const model = renderErDiagram(definition);
+    const dropped = definition.types.filter((type) => type.kind === 'union' || type.kind === 'enum').length;
+    if (model.entities.length === 0) {
+      throw new Error('The schema only defines enums and unions, which have no entities to draw; use the class diagram output');
+    }
+    if (definition.types.some((type) => type.kind === 'union')) {
+      warnings.push('Unions are not entities in an ER diagram; relationships point at their members instead');
+    }
+    return {
+      mermaidCode: serializeDiagram(model),
+      diagramType: 'Entity Relationship Diagram',
+      warnings,
+      stats: [
+        { label: 'Entities', value: String(model.entities.length) },
+        { label: 'Relationships', value: String(model.relationships.length) },
+        ...(dropped > 0 ? [{ label: 'Enums and unions folded in', value: String(dropped) }] : [])
+      ]
+    };
+  }
+
+  return {
+    mermaidCode: renderClassDiagram(definition),
+    diagramType: 'Class Diagram',
+    warnings,
+    stats: [
+      { label: 'Types', value: String(definition.types.length) },
+      { label: 'Fields', value: String(definition.types.reduce((sum, type) => sum + type.fields.length, 0)) }
+    ]
+  };
+};
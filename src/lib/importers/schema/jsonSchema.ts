@@ -0,0 +1,259 @@
+import { parse } from 'yaml';
+import { createSchemaType, SchemaDefinition, SchemaField, SchemaType, toPascalCase } from './model';
+
+interface JsonSchemaObject {
+  $ref?: string;
+  title?: string;
+  type?: string | string[];
+  format?: string;
+  enum?: unknown[];
+  const?: unknown;
+  default?: unknown;
+  deprecated?: boolean;
+  /** OpenAPI 3.0 spelling of `"type": [..., "null"]` */
+  nullable?: boolean;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: JsonSchema;
+  items?: JsonSchema | JsonSchema[];
+  prefixItems?: JsonSchema[];
+  allOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  $defs?: Record<string, JsonSchema>;
+  definitions?: Record<string, JsonSchema>;
+  components?: { schemas?: Record<string, JsonSchema> };
+}
+
+type JsonSchema = JsonSchemaObject | boolean;
+
+interface FieldShape {
+  type: string;
+  list: boolean;
+  nullable: boolean;
+  references: string[];
+  note?: string;
+}
+
+// Keywords that constrain validation in ways a type diagram cannot show
+const UNSUPPORTED_KEYWORDS = ['if', 'not', 'patternProperties', 'dependentSchemas', 'propertyNames', 'unevaluatedProperties'];
+
+const DEFINITION_POINTERS = ['#/$defs/', '#/definitions/', '#/components/schemas/'];
+
+const decodePointer = (segment: string): string => decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+
+/**
+ * Reads JSON Schema (draft-04 through 2020-12, JSON or YAML) and OpenAPI
+ * `components.schemas`. Named definitions keep their names; inline objects
+ * and enums become types named after their parent and property.
+ */
+export const parseJsonSchema = (text: string): SchemaDefinition => {
+  let root: JsonSchemaObject;
+  try {
+    root = parse(text);
+  } catch {
+    throw new Error('The input is not valid JSON or YAML');
+  }
+  if (!root || typeof root !== 'object' || Array.isArray(root)) {
+    throw new Error('Expected a JSON Schema object');
+  }
+
+  const definitions: Record<string, JsonSchema> = root.$defs ?? root.definitions ?? root.components?.schemas ?? {};
+  const types: SchemaType[] = [];
+  const names = new Set<string>();
+  const bySchema = new Map<object, string>();
+  const skipped = new Map<string, string[]>();
+  const externalRefs = new Set<string>();
+  const rootName = toPascalCase(root.title ?? '') || 'Root';
+  const hasRootType = Boolean(root.properties || root.allOf || root.type === 'object');
+
+  const skip = (keyword: string, location: string) => {
+    skipped.set(keyword, [...(skipped.get(keyword) ?? []), location]);
+  };
+
+  const claimName = (base: string): string => {
+    let name = base || 'Anonymous';
+    for (let suffix = 2; names.has(name); suffix++) name = `${base}${suffix}`;
+    names.add(name);
+    return name;
+  };
+
+  // Definition names are reserved up front so inline types never take them
+  Object.keys(definitions).forEach((name) => names.add(name));
+  if (hasRootType) bySchema.set(root, claimName(rootName));
+
+  const resolveRef = (ref: string): { name?: string; schema?: JsonSchema } => {
+    if (ref === '#') return { name: bySchema.get(root), schema: root };
+    const prefix = DEFINITION_POINTERS.find((candidate) => ref.startsWith(candidate));
+    if (!prefix) return {};
+    const name = decodePointer(ref.slice(prefix.length));
+    return { name, schema: definitions[name] };
+  };
+
+  const isObjectSchema = (schema: JsonSchemaObject) =>
+    Boolean(schema.properties || schema.allOf || (schema.type === 'object' && !schema.additionalProperties));
+
+  const isEnumSchema = (schema: JsonSchemaObject) => Array.isArray(schema.enum) && schema.enum.some((value) => value !== null);
+
+  const checkKeywords = (schema: JsonSchemaObject, location: string) => {
+    UNSUPPORTED_KEYWORDS.filter((keyword) => keyword in schema).forEach((keyword) => skip(keyword === 'if' ? 'if/then/else' : keyword, location));
+    if (Array.isArray(schema.prefixItems) || Array.isArray(schema.items)) skip('tuple items', location);
+  };
+
+  const defineEnum = (schema: JsonSchemaObject, name: string): string => {
+    if (bySchema.has(schema)) return bySchema.get(schema);
+    bySchema.set(schema, name);
+    const type = createSchemaType(name, 'enum');
+    type.values = schema.enum.filter((value) => value !== null).map(String);
+    types.push(type);
+    return name;
+  };
+
+  const defineRecord = (schema: JsonSchemaObject, name: string): string => {
+    if (bySchema.has(schema) && types.some((type) => type.name === bySchema.get(schema))) return bySchema.get(schema);
+    bySchema.set(schema, name);
+    const type = createSchemaType(name, 'record');
+    types.push(type);
+    checkKeywords(schema, name);
+
+    // allOf: $refs become parents, inline parts contribute their properties
+    const parts: JsonSchemaObject[] = [schema];
+    (schema.allOf ?? []).forEach((part: JsonSchema) => {
+      if (typeof part !== 'object') return;
+      if (part.$ref) {
+        const target = resolveRef(part.$ref);
+        if (target.name) type.parents.push(target.name);
+        else externalRefs.add(part.$ref);
+      } else {
+        parts.push(part);
+      }
+    });
+
+    parts.forEach((part) => {
+      const required = new Set<string>(part.required ?? []);
+      Object.entries<JsonSchema>(part.properties ?? {}).forEach(([property, propertySchema]) => {
+        const shape = describe(propertySchema, `${name}${toPascalCase(property)}`, `${name}.${property}`);
+        const field: SchemaField = {
+          name: property,
+          type: shape.type,
+          optional: !required.has(property) || shape.nullable,
+          list: shape.list,
+          references: shape.references
+        };
+        if (shape.note) field.note = shape.note;
+        type.fields.push(field);
+      });
+    });
+    return name;
+  };
+
+  const describe = (schema: JsonSchema, hint: string, location: string, seen = new Set<object>()): FieldShape => {
+    const shape: FieldShape = { type: 'any', list: false, nullable: false, references: [] };
+    if (typeof schema !== 'object' || schema === null) return shape;
+    checkKeywords(schema, location);
+
+    if (schema.$ref) {
+      const target = resolveRef(schema.$ref);
+      if (!target.name) {
+        externalRefs.add(schema.$ref);
+        shape.type = decodePointer(schema.$ref.split(/[/#]/).filter(Boolean).pop() ?? 'any').replace(/\.(json|ya?ml)$/, '');
+        return shape;
+      }
+      const targetSchema = target.schema;
+      // Aliases of primitives or arrays are inlined rather than drawn as empty types
+      if (typeof targetSchema === 'object' && !isObjectSchema(targetSchema) && !isEnumSchema(targetSchema) && !seen.has(targetSchema) && targetSchema !== root) {
+        seen.add(targetSchema);
+        return describe(targetSchema, target.name, location, seen);
+      }
+      return { ...shape, type: target.name, references: [target.name] };
+    }
+
+    const declared: string[] = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+    shape.nullable = declared.includes('null') || schema.nullable === true || (Array.isArray(schema.enum) && schema.enum.includes(null));
+    const primary = declared.filter((type) => type !== 'null');
+
+    if ('const' in schema) {
+      return { ...shape, type: schema.const === null ? 'null' : typeof schema.const, note: `= ${JSON.stringify(schema.const)}` };
+    }
+    if (isEnumSchema(schema)) {
+      const name = defineEnum(schema, bySchema.get(schema) ?? claimName(toPascalCase(schema.title ?? '') || hint));
+      return { ...shape, type: name, references: [name] };
+    }
+
+    const variants: JsonSchema[] = schema.oneOf ?? schema.anyOf;
+    if (Array.isArray(variants)) {
+      const members = variants
+        .map((variant, index) => describe(variant, `${hint}Option${index + 1}`, location, seen))
+        .filter((member) => {
+          if (member.type !== 'null') return true;
+          shape.nullable = true;
+          return false;
+        });
+      if (members.length === 1) return { ...members[0], nullable: shape.nullable || members[0].nullable };
+      return {
+        ...shape,
+        type: members.map((member) => `${member.type}${member.list ? '[]' : ''}`).join(' | ') || 'any',
+        references: [...new Set(members.flatMap((member) => member.references))]
+      };
+    }
+
+    if (primary[0] === 'array' || schema.items) {
+      const items = Array.isArray(schema.items) ? schema.items[0] : schema.items ?? schema.prefixItems?.[0];
+      const element = describe(items ?? true, hint, `${location}[]`, seen);
+      return { ...element, list: true, nullable: shape.nullable };
+    }
+
+    if (isObjectSchema(schema)) {
+      const name = bySchema.get(schema) ?? defineRecord(schema, claimName(toPascalCase(schema.title ?? '') || hint));
+      return { ...shape, type: name, references: [name] };
+    }
+
+    if (primary[0] === 'object' || schema.additionalProperties) {
+      const values = typeof schema.additionalProperties === 'object' ? describe(schema.additionalProperties, `${hint}Value`, location, seen) : undefined;
+      return values
+        ? { ...shape, type: `map<string, ${values.type}${values.list ? '[]' : ''}>`, references: values.references }
+        : { ...shape, type: 'object' };
+    }
+
+    shape.type = primary.join(' | ') || (shape.nullable ? 'null' : 'any');
+    if (schema.format) shape.type = `${shape.type}(${schema.format})`;
+    if (schema.default !== undefined) shape.note = `default: ${JSON.stringify(schema.default)}`;
+    else if (schema.deprecated) shape.note = 'deprecated';
+    return shape;
+  };
+
+  if (hasRootType) defineRecord(root, bySchema.get(root));
+
+  const warnings: string[] = [];
+  Object.entries(definitions).forEach(([name, schema]) => {
+    if (typeof schema !== 'object') return;
+    // A oneOf of objects is a union type; of anything else, a field-level choice
+    const variants = (schema.oneOf ?? schema.anyOf ?? []).filter((variant): variant is JsonSchemaObject => typeof variant === 'object');
+    const isUnion = variants.length > 0 && variants.every((variant) => variant.$ref || isObjectSchema(variant));
+    if (isEnumSchema(schema)) {
+      defineEnum(schema, name);
+    } else if (isObjectSchema(schema)) {
+      defineRecord(schema, name);
+    } else if (isUnion) {
+      const union = createSchemaType(name, 'union');
+      bySchema.set(schema, name);
+      types.push(union);
+      union.values = variants.map((variant, index) =>
+        variant.$ref ? resolveRef(variant.$ref).name ?? variant.$ref : defineRecord(variant, claimName(`${name}Option${index + 1}`))
+      );
+    } else {
+      warnings.push(`Definition "${name}" is an alias for ${describe(schema, name, name).type} and is shown inline where it is used`);
+    }
+  });
+
+  if (types.length === 0) {
+    throw new Error('No object types found: expected "properties" at the root or under $defs/definitions');
+  }
+  skipped.forEach((locations, keyword) => {
+    const shown = locations.slice(0, 3).join(', ');
+    warnings.push(`Skipped "${keyword}" at ${shown}${locations.length > 3 ? ` and ${locations.length - 3} more` : ''}`);
+  });
+  externalRefs.forEach((ref) => warnings.push(`External $ref "${ref}" is not resolved; only its name is shown`));
+
+  return { types, warnings };
+};
@@ -0,0 +1,56 @@
+export type SchemaTypeKind = 'record' | 'enum' | 'interface' | 'union' | 'input';
+
+export interface SchemaField {
+  name: string;
+  /** Type as written in the source language, e.g. "string", "map<string, Price>" */
+  type: string;
+  optional: boolean;
+  list: boolean;
+  /** Names of schema types this field points to */
+  references: string[];
+  key?: 'PK' | 'FK' | 'UK';
+  /** Short annotation such as a default value or "deprecated" */
+  note?: string;
+  /**
+   * Set on relation fields backed by a foreign key (Prisma `@relation(fields: ...)`),
+   * where the referenced type is the parent; other references are embedded values.
+   */
+  foreignKey?: { unique: boolean; identifying: boolean };
+}
+
+export interface SchemaType {
+  name: string;
+  kind: SchemaTypeKind;
+  fields: SchemaField[];
+  /** Enum symbols or union members */
+  values: string[];
+  /** Types this one extends or implements */
+  parents: string[];
+}
+
+/** Language-neutral result of every schema parser; `warnings` lists skipped constructs. */
+export interface SchemaDefinition {
+  types: SchemaType[];
+  warnings: string[];
+  /**
+   * Reference fields that only mirror a relation declared on the other side
+   * (Prisma back-relations), as "Type.field"; they get no edge of their own.
+   */
+  backReferences?: Set<string>;
+}
+
+export const createSchemaType = (name: string, kind: SchemaTypeKind): SchemaType => ({
+  name,
+  kind,
+  fields: [],
+  values: [],
+  parents: []
+});
+
+/** "line_items" or "line-items" → "LineItems", for naming inline types. */
+export const toPascalCase = (value: string): string =>
+  value
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join('');
@@ -0,0 +1,159 @@
+import { createSchemaType, SchemaDefinition, SchemaField, SchemaType } from './model';
+
+const SCALARS = new Set(['String', 'Boolean', 'Int', 'BigInt', 'Float', 'Decimal', 'DateTime', 'Json', 'Bytes']);
+
+const BLOCK_PATTERN = /^(model|enum|type|view|datasource|generator)\s+(\w+)\s*\{$/;
+const FIELD_PATTERN = /^(\w+)\s+(Unsupported\("[^"]*"\)|\w+)(\[\])?(\?)?\s*(.*)$/;
+
+interface RelationInfo {
+  field: SchemaField;
+  owner: string;
+  name?: string;
+  fields: string[];
+}
+
+/** "@@id([postId, tagId])" → ["postId", "tagId"] */
+const readList = (attributes: string, attribute: string, argument?: string): string[] | undefined => {
+  const start = attributes.indexOf(`${attribute}(`);
+  if (start < 0) return undefined;
+  const body = attributes.slice(start + attribute.length + 1);
+  const source = argument ? new RegExp(`${argument}\\s*:\\s*\\[([^\\]]*)\\]`).exec(body)?.[1] : /^\s*\[([^\]]*)\]/.exec(body)?.[1];
+  return source?.split(',').map((name) => name.trim().replace(/\(.*$/, '')).filter(Boolean);
+};
+
+const readRelationName = (attributes: string): string | undefined =>
+  /@relation\(\s*(?:name\s*:\s*)?"([^"]*)"/.exec(attributes)?.[1];
+
+/**
+ * Reads a Prisma schema. Relation fields that carry `@relation(fields: ...)`
+ * own the foreign key; the list or optional field on the other side only
+ * mirrors it, so it is recorded as a back-reference and gets no edge.
+ */
+export const parsePrisma = (text: string): SchemaDefinition => {
+  const warnings: string[] = [];
+  const types: SchemaType[] = [];
+  const relations: RelationInfo[] = [];
+  const unsupported: string[] = [];
+  let current: SchemaType | undefined;
+  let skipBlock = false;
+  const blockAttributes: string[] = [];
+
+  const finishModel = () => {
+    if (!current) return;
+    const attributes = blockAttributes.join(' ');
+    readList(attributes, '@@id')?.forEach((name) => {
+      const field = current.fields.find((candidate) => candidate.name === name);
+      if (field) field.key = 'PK';
+    });
+    if (/@@ignore\b/.test(attributes)) {
+      types.splice(types.indexOf(current), 1);
+      warnings.push(`Skipped ${current.name}: marked @@ignore`);
+    }
+    blockAttributes.length = 0;
+  };
+
+  text.split(/\r?\n/).forEach((rawLine) => {
+    const line = rawLine.replace(/\/\/.*$/, '').trim();
+    if (!line) return;
+
+    const block = BLOCK_PATTERN.exec(line);
+    if (block) {
+      const [, keyword, name] = block;
+      skipBlock = keyword === 'datasource' || keyword === 'generator';
+      if (!skipBlock) {
+        current = createSchemaType(name, keyword === 'enum' ? 'enum' : 'record');
+        types.push(current);
+      }
+      return;
+    }
+    if (line === '}') {
+      finishModel();
+      current = undefined;
+      skipBlock = false;
+      return;
+    }
+    if (skipBlock || !current) return;
+
+    if (line.startsWith('@@')) {
+      blockAttributes.push(line);
+      return;
+    }
+    if (current.kind === 'enum') {
+      current.values.push(line.split(/\s+/)[0]);
+      return;
+    }
+
+    const match = FIELD_PATTERN.exec(line);
+    if (!match) return;
+    const [, name, type, list, optional, attributes] = match;
+    if (/@ignore\b/.test(attributes)) {
+      warnings.push(`Skipped ${current.name}.${name}: marked @ignore`);
+      return;
+    }
+    if (type.startsWith('Unsupported')) unsupported.push(`${current.name}.${name}`);
+
+    const notes: string[] = [];
+    const defaultValue = /@default\(((?:[^()]|\([^()]*\))*)\)/.exec(attributes)?.[1];
+    if (defaultValue) notes.push(`default: ${defaultValue}`);
+    if (/@updatedAt\b/.test(attributes)) notes.push('updatedAt');
+    const field: SchemaField = {
+      name,
+      type: type.startsWith('Unsupported') ? 'Unsupported' : type,
+      optional: Boolean(optional),
+      list: Boolean(list),
+      references: SCALARS.has(type) || type.startsWith('Unsupported') ? [] : [type]
+    };
+    if (/@id\b/.test(attributes)) field.key = 'PK';
+    else if (/@unique\b/.test(attributes)) field.key = 'UK';
+    if (notes.length > 0) field.note = notes.join(', ');
+    current.fields.push(field);
+
+    if (attributes.includes('@relation') || field.references.length > 0) {
+      relations.push({ field, owner: current.name, name: readRelationName(attributes), fields: readList(attributes, '@relation', 'fields') ?? [] });
+    }
+  });
+  finishModel();
+
+  const byName = new Map(types.map((type) => [type.name, type]));
+  const backReferences = new Set<string>();
+  relations.forEach((relation) => {
+    const target = byName.get(relation.field.type);
+    if (!target) {
+      relation.field.references = [];
+      if (!SCALARS.has(relation.field.type)) warnings.push(`Type "${relation.field.type}" used by ${relation.owner}.${relation.field.name} is not defined`);
+      return;
+    }
+    if (target.kind === 'enum' || relation.fields.length > 0) {
+      if (relation.fields.length === 0) return;
+      const owner = byName.get(relation.owner);
+      const keyFields = relation.fields.map((name) => owner.fields.find((field) => field.name === name)).filter(Boolean);
+      keyFields.forEach((field) => {
+        if (!field.key) field.key = 'FK';
+      });
+      const primaryKey = owner.fields.filter((field) => field.key === 'PK');
+      relation.field.foreignKey = {
+        unique: keyFields.length === 1 && (keyFields[0].key === 'UK' || (keyFields[0].key === 'PK' && primaryKey.length === 1)),
+        identifying: keyFields.length > 0 && keyFields.every((field) => field.key === 'PK')
+      };
+      return;
+    }
+    // No `fields:` here: either the mirror of a foreign key declared on the
+    // other model, or one side of an implicit many-to-many relation
+    const counterpart = relations.find(
+      (candidate) =>
+        candidate !== relation &&
+        candidate.owner === relation.field.type &&
+        candidate.field.type === relation.owner &&
+        candidate.name === relation.name
+    );
+    const isMirror = counterpart && (counterpart.fields.length > 0 || relations.indexOf(counterpart) < relations.indexOf(relation));
+    if (isMirror) backReferences.add(`${relation.owner}.${relation.field.name}`);
+  });
+
+  if (unsupported.length > 0) warnings.push(`Unsupported(...) database types are shown as "Unsupported": ${unsupported.join(', ')}`);
+  if (types.length === 0) {
+    throw new Error('No models, views, types or enums found in the Prisma schema');
+  }
+
+  return { types, warnings, backReferences };
+};
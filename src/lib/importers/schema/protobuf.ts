@@ -0,0 +1,248 @@
+import { createSchemaType, SchemaDefinition, SchemaField, SchemaType } from './model';
+
+const SCALARS = new Set([
+  'double', 'float', 'int32', 'int64', 'uint32', 'uint64', 'sint32', 'sint64',
+  'fixed32', 'fixed64', 'sfixed32', 'sfixed64', 'bool', 'string', 'bytes'
+]);
+
+interface RawField {
+  name: string;
+  type: string;
+  label?: 'repeated' | 'optional' | 'required';
+  oneof?: string;
+  options: Record<string, string>;
+}
+
+interface RawMessage {
+  /** Dotted path inside the package, e.g. "Order.Item" */
+  name: string;
+  fields: RawField[];
+}
+
+// Identifiers may be dotted and absolute (".acme.v1.Order"); strings keep their quotes
+const TOKEN_PATTERN = /"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|\.?[A-Za-z_][\w.]*|-?\d[\w.+-]*|[{}[\]<>=;,()]/g;
+
+const tokenize = (text: string): string[] =>
+  text.replace(/\/\*[\s\S]*?\*\//g, ' ').replace(/\/\/[^\n]*/g, '').match(TOKEN_PATTERN) ?? [];
+
+/**
+ * Reads a .proto file (proto2 or proto3). Nested messages are named
+ * "Outer.Inner"; google.protobuf well-known types are shown as scalars.
+ * proto3 singular scalars always have a value, so there only `optional`,
+ * oneof members and message-typed fields count as optional.
+ */
+export const parseProtobuf = (text: string): SchemaDefinition => {
+  const tokens = tokenize(text);
+  const warnings: string[] = [];
+  const messages: RawMessage[] = [];
+  const enums: SchemaType[] = [];
+  let syntax = 'proto2';
+  let packageName = '';
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+  const expect = (token: string) => {
+    if (tokens[position] !== token) {
+      throw new Error(`Unexpected "${tokens[position] ?? 'end of file'}" in the .proto file; expected "${token}"`);
+    }
+    position++;
+  };
+
+  /** Skips a statement up to its ";" or past its balanced { } block. */
+  const skipStatement = () => {
+    while (position < tokens.length && peek() !== ';' && peek() !== '{') next();
+    if (next() !== '{') return;
+    for (let depth = 1; position < tokens.length && depth > 0; ) {
+      const token = next();
+      if (token === '{') depth++;
+      if (token === '}') depth--;
+    }
+  };
+
+  const parseOptions = (): Record<string, string> => {
+    const options: Record<string, string> = {};
+    if (peek() !== '[') return options;
+    next();
+    while (position < tokens.length && peek() !== ']') {
+      const name = next().replace(/[()]/g, '');
+      if (peek() === ')') next();
+      if (peek() === '=') {
+        next();
+        options[name] = next();
+      }
+      if (peek() === ',') next();
+    }
+    expect(']');
+    return options;
+  };
+
+  const parseEnum = (scope: string) => {
+    const name = `${scope}${next()}`;
+    const type = createSchemaType(name, 'enum');
+    expect('{');
+    while (position < tokens.length && peek() !== '}') {
+      const token = next();
+      if (token === 'option' || token === 'reserved') {
+        position--;
+        skipStatement();
+      } else if (token !== ';') {
+        type.values.push(token);
+        while (position < tokens.length && peek() !== ';' && peek() !== '}') {
+          if (peek() === '[') parseOptions();
+          else next();
+        }
+      }
+    }
+    expect('}');
+    enums.push(type);
+  };
+
+  const parseField = (label: RawField['label'] | undefined, oneof?: string): RawField => {
+    let type = next();
+    if (type === 'map') {
+      expect('<');
+      const key = next();
+      expect(',');
+      const value = next();
+      expect('>');
+      type = `map<${key}, ${value}>`;
+    }
+    const name = next();
+    expect('=');
+    next();
+    const options = parseOptions();
+    expect(';');
+    return { name, type, label, oneof, options };
+  };
+
+  const parseMessage = (scope: string) => {
+    const message: RawMessage = { name: `${scope}${next()}`, fields: [] };
+    messages.push(message);
+    expect('{');
+    while (position < tokens.length && peek() !== '}') {
+      const token = peek();
+      if (token === ';') {
+        next();
+      } else if (token === 'message') {
+        next();
+        parseMessage(`${message.name}.`);
+      } else if (token === 'enum') {
+        next();
+        parseEnum(`${message.name}.`);
+      } else if (token === 'oneof') {
+        next();
+        const oneof = next();
+        expect('{');
+        while (position < tokens.length && peek() !== '}') {
+          if (peek() === 'option') skipStatement();
+          else message.fields.push(parseField(undefined, oneof));
+        }
+        expect('}');
+      } else if (token === 'option' || token === 'reserved') {
+        skipStatement();
+      } else if (token === 'extensions' || token === 'extend') {
+        warnings.push(`Skipped ${token === 'extend' ? `extend ${tokens[position + 1]}` : 'extension range'} in ${message.name}`);
+        skipStatement();
+      } else if (tokens[position + 1] === 'group' || token === 'group') {
+        const groupName = tokens[position + (token === 'group' ? 1 : 2)];
+        warnings.push(`Skipped proto2 group "${groupName}" in ${message.name}`);
+        skipStatement();
+      } else if (token === 'repeated' || token === 'optional' || token === 'required') {
+        next();
+        message.fields.push(parseField(token));
+      } else {
+        message.fields.push(parseField(undefined));
+      }
+    }
+    expect('}');
+  };
+
+  while (position < tokens.length) {
+    const token = next();
+    if (token === 'syntax' || token === 'edition') {
+      expect('=');
+      syntax = next().replace(/["']/g, '');
+      expect(';');
+    } else if (token === 'package') {
+      packageName = next();
+      expect(';');
+    } else if (token === 'message') {
+      parseMessage('');
+    } else if (token === 'enum') {
+      parseEnum('');
+    } else if (token === 'service') {
+      const name = next();
+      const start = position;
+      skipStatement();
+      const rpcs = tokens.slice(start, position).filter((candidate) => candidate === 'rpc').length;
+      warnings.push(`Skipped service "${name}" (${rpcs} rpc${rpcs === 1 ? '' : 's'})`);
+    } else if (token === 'extend') {
+      warnings.push(`Skipped extend ${peek()}`);
+      skipStatement();
+    } else if (token !== ';') {
+      // import, option and anything newer than this parser
+      skipStatement();
+    }
+  }
+
+  const known = new Set([...messages.map((message) => message.name), ...enums.map((type) => type.name)]);
+  const unresolved = new Set<string>();
+
+  /** Protobuf scoping: the innermost enclosing message wins, then outer ones, then the package. */
+  const resolve = (reference: string, scope: string): string | undefined => {
+    let name = reference.replace(/^\./, '');
+    if (packageName && name.startsWith(`${packageName}.`)) name = name.slice(packageName.length + 1);
+    if (reference.startsWith('.')) return known.has(name) ? name : undefined;
+    const parts = scope.split('.');
+    for (let depth = parts.length; depth >= 0; depth--) {
+      const candidate = [...parts.slice(0, depth), name].join('.');
+      if (known.has(candidate)) return candidate;
+    }
+    return undefined;
+  };
+
+  const describe = (type: string, scope: string): { type: string; references: string[]; isMessage: boolean } => {
+    if (SCALARS.has(type)) return { type, references: [], isMessage: false };
+    if (type.startsWith('google.protobuf.')) return { type: type.slice('google.protobuf.'.length), references: [], isMessage: true };
+    const resolved = resolve(type, scope);
+    if (!resolved) {
+      unresolved.add(type);
+      return { type, references: [], isMessage: true };
+    }
+    return { type: resolved, references: [resolved], isMessage: !enums.some((candidate) => candidate.name === resolved) };
+  };
+
+  const types: SchemaType[] = messages.map((message) => {
+    const type = createSchemaType(message.name, 'record');
+    type.fields = message.fields.map((raw): SchemaField => {
+      const map = /^map<(\S+), (\S+)>$/.exec(raw.type);
+      const value = describe(map ? map[2] : raw.type, message.name);
+      const field: SchemaField = {
+        name: raw.name,
+        type: map ? `map<${map[1]}, ${value.type}>` : value.type,
+        optional:
+          raw.label === 'optional' ||
+          Boolean(raw.oneof) ||
+          (!map && raw.label !== 'repeated' && raw.label !== 'required' && (syntax !== 'proto3' || value.isMessage)),
+        list: raw.label === 'repeated',
+        references: value.references
+      };
+      const notes = [
+        raw.oneof ? `oneof ${raw.oneof}` : '',
+        raw.options.deprecated === 'true' ? 'deprecated' : '',
+        raw.options.default !== undefined ? `default: ${raw.options.default}` : ''
+      ].filter(Boolean);
+      if (notes.length > 0) field.note = notes.join(', ');
+      return field;
+    });
+    return type;
+  });
+
+  if (types.length === 0 && enums.length === 0) {
+    throw new Error('No messages or enums found in the .proto file');
+  }
+  unresolved.forEach((type) => warnings.push(`Type "${type}" is not defined in this file (imported?); shown without a relationship`));
+
+  return { types: [...types, ...enums], warnings };
+};
@@ -0,0 +1,163 @@
+import { ErAttribute, ErDiagramModel, ErEntity } from '@/lib/diagram/model';
+import { indent, quoteText } from '@/lib/diagram/text';
+import { createIdentifierAllocator } from '../identifiers';
+import { SchemaDefinition, SchemaField, SchemaType, SchemaTypeKind } from './model';
+
+// Long enums (country codes, error codes) would dwarf the rest of the diagram
+const MAX_ENUM_VALUES = 12;
+
+const CLASS_ANNOTATIONS: Partial<Record<SchemaTypeKind, string>> = {
+  enum: 'enumeration',
+  interface: 'interface',
+  union: 'union',
+  input: 'input'
+};
+
+const listValues = (values: string[]): string[] =>
+  values.length > MAX_ENUM_VALUES ? [...values.slice(0, MAX_ENUM_VALUES), `… ${values.length - MAX_ENUM_VALUES} more`] : values;
+
+// Maps hold any number of values, like lists
+const isCollection = (field: SchemaField) => field.list || field.type.startsWith('map<');
+
+const isBackReference = (definition: SchemaDefinition, type: SchemaType, field: SchemaField) =>
+  definition.backReferences?.has(`${type.name}.${field.name}`) ?? false;
+
+/** classDiagram has no typed model yet, so it is written directly. */
+export const renderClassDiagram = (definition: SchemaDefinition): string => {
+  const lines = ['classDiagram'];
+  const allocateId = createIdentifierAllocator();
+  const types = new Map(definition.types.map((type) => [type.name, type]));
+  const edges = new Set<string>();
+
+  definition.types.forEach((type) => {
+    const id = allocateId(type.name);
+    const label = id !== type.name ? `[${quoteText(type.name)}]` : '';
+    const annotation = CLASS_ANNOTATIONS[type.kind];
+    const members = [
+      ...(type.kind === 'enum' ? listValues(type.values) : []),
+      ...type.fields.map((field) => {
+        // Mermaid writes generics as List~T~
+        const fieldType = `${field.type.replace(/[<>]/g, '~')}${field.list ? '[]' : ''}${field.optional ? '?' : ''}`;
+        return `+${fieldType} ${field.name}${field.note ? ` [${field.note}]` : ''}`;
+      })
+    ];
+    if (!annotation && members.length === 0) {
+      lines.push(`${indent(1)}class ${id}${label}`);
+      return;
+    }
+    lines.push(`${indent(1)}class ${id}${label} {`);
+    if (annotation) lines.push(`${indent(2)}<<${annotation}>>`);
+    members.forEach((member) => lines.push(`${indent(2)}${member}`));
+    lines.push(`${indent(1)}}`);
+  });
+
+  const addEdge = (edge: string) => {
+    if (edges.has(edge)) return;
+    edges.add(edge);
+    lines.push(`${indent(1)}${edge}`);
+  };
+
+  definition.types.forEach((type) => {
+    const id = allocateId(type.name);
+    type.parents
+      .filter((parent) => types.has(parent))
+      .forEach((parent) => addEdge(`${allocateId(parent)} ${types.get(parent).kind === 'interface' ? '<|..' : '<|--'} ${id}`));
+    if (type.kind === 'union') {
+      type.values.filter((member) => types.has(member)).forEach((member) => addEdge(`${id} <|-- ${allocateId(member)}`));
+    }
+    type.fields
+      .filter((field) => !isBackReference(definition, type, field))
+      .forEach((field) => {
+        const multiplicity = isCollection(field) ? '*' : field.optional ? '0..1' : '1';
+        field.references
+          .filter((reference) => types.has(reference))
+          .forEach((reference) => addEdge(`${id} --> "${multiplicity}" ${allocateId(reference)} : ${field.name}`));
+      });
+  });
+
+  return lines.join('\n');
+};
+
+// ER attribute types allow letters, digits, _ - [ ] ( ) only
+const toErType = (field: SchemaField): string =>
+  `${field.type}${field.list ? '[]' : ''}`.replace(/\s+/g, '').replace(/[^\p{L}\p{N}_\-[\]()]+/gu, '_');
+
+/**
+ * Records, inputs and interfaces become entities; enums stay attribute types
+ * with their values in the comment, and unions expand to their members.
+ * Embedded references point from the containing type to the contained one;
+ * foreign-key relations point from the referenced parent to the child.
+ */
+export const renderErDiagram = (definition: SchemaDefinition): ErDiagramModel => {
+  const model: ErDiagramModel = { kind: 'erDiagram', entities: [], relationships: [], preamble: [] };
+  const allocateId = createIdentifierAllocator();
+  const types = new Map(definition.types.map((type) => [type.name, type]));
+  const isEntity = (type: SchemaType | undefined) => type && type.kind !== 'enum' && type.kind !== 'union';
+  const expand = (reference: string): string[] => {
+    const type = types.get(reference);
+    return type?.kind === 'union' ? type.values.filter((member) => isEntity(types.get(member))) : isEntity(type) ? [reference] : [];
+  };
+
+  definition.types.filter(isEntity).forEach((type) => {
+    const entity: ErEntity = {
+      id: allocateId(type.name),
+      attributes: type.fields.map((field): ErAttribute => {
+        const enumType = field.references.map((reference) => types.get(reference)).find((candidate) => candidate?.kind === 'enum');
+        const notes = [
+          field.optional ? 'optional' : '',
+          field.note ?? '',
+          enumType ? listValues(enumType.values).join(' | ') : ''
+        ].filter(Boolean);
+        return {
+          type: toErType(field),
+          name: field.name.replace(/[^\p{L}\p{N}_-]+/gu, '_'),
+          keys: field.key ? [field.key] : [],
+          ...(notes.length > 0 && { comment: notes.join('; ') })
+        };
+      })
+    };
+    if (entity.id !== type.name) entity.alias = type.name;
+    model.entities.push(entity);
+  });
+
+  // A list on the other side that mirrors this field makes it many-to-many
+  const hasMirrorList = (target: string, owner: string) =>
+    types
+      .get(target)
+      .fields.some((field) => field.list && field.references.includes(owner) && isBackReference(definition, types.get(target), field));
+
+  const seen = new Set<string>();
+  definition.types.filter(isEntity).forEach((type) => {
+    type.fields
+      .filter((field) => !isBackReference(definition, type, field))
+      .forEach((field) => {
+        field.references.flatMap(expand).forEach((reference) => {
+          const [from, to] = field.foreignKey ? [reference, type.name] : [type.name, reference];
+          const key = `${from}->${to}:${field.name}`;
+          if (seen.has(key)) return;
+          seen.add(key);
+          model.relationships.push(
+            field.foreignKey
+              ? {
+                  from: allocateId(from),
+                  to: allocateId(to),
+                  fromCardinality: field.optional ? 'zero-or-one' : 'exactly-one',
+                  toCardinality: field.foreignKey.unique ? 'zero-or-one' : 'zero-or-more',
+                  identifying: field.foreignKey.identifying,
+                  label: field.name
+                }
+              : {
+                  from: allocateId(from),
+                  to: allocateId(to),
+                  fromCardinality: hasMirrorList(to, type.name) ? 'zero-or-more' : 'exactly-one',
+                  toCardinality: isCollection(field) ? 'zero-or-more' : field.optional ? 'zero-or-one' : 'exactly-one',
+                  identifying: true,
+                  label: field.name
+                }
+          );
+        });
+      });
+  });
+
+  return model;
+};
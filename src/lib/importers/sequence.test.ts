@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { serializeDiagram } from '@/lib/diagram/diagram';
+import { createParticipantRegistry, createSequenceModel, formatDuration, sequenceText } from './sequence';
+
+describe('sequenceText', () => {
+  it('escapes the characters that end a statement or start a comment', () => {
+    expect(sequenceText('frontend; web #1\nsecond line')).toBe('frontend#59; web #35;1 second line');
+  });
+});
+
+describe('formatDuration', () => {
+  it('picks a precision that fits the magnitude', () => {
+    expect(formatDuration(0.125)).toBe('0.13 ms');
+    expect(formatDuration(4.25)).toBe('4.3 ms');
+    expect(formatDuration(42.4)).toBe('42 ms');
+    expect(formatDuration(1500)).toBe('1.50 s');
+  });
+});
+
+describe('createParticipantRegistry', () => {
+  it('declares each participant once, in order of first use', () => {
+    const model = createSequenceModel();
+    const participant = createParticipantRegistry(model);
+
+    expect(participant('api')).toBe('api');
+    expect(participant('db', 'participant', 'Storage')).toBe('db');
+    expect(participant('api')).toBe('api');
+    expect(model.participants).toEqual([
+      { id: 'api', type: 'participant' },
+      { id: 'db', type: 'participant', box: 'Storage' }
+    ]);
+  });
+
+  it('keeps names that are not valid ids as escaped aliases', () => {
+    const model = createSequenceModel();
+    const participant = createParticipantRegistry(model);
+    const from = participant('frontend; web #1', 'actor');
+    const to = participant('api');
+    model.statements.push({ type: 'message', from, to, arrow: '->>', text: 'GET /' });
+
+    expect(serializeDiagram(model)).toBe(
+      ['sequenceDiagram', '    actor frontend_web_1 as frontend#59; web #35;1', '    participant api', '    frontend_web_1->>api: GET /'].join('\n')
+    );
+  });
+});
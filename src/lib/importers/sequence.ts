@@ -0,0 +1,43 @@
+import { SequenceDiagramModel, SequenceParticipant } from '@/lib/diagram/model';
+import { createIdentifierAllocator } from './identifiers';
+
+// Messages beyond this make the diagram unreadable and slow to lay out
+export const MAX_SEQUENCE_MESSAGES = 150;
+
+// ';' ends a statement and '#' starts an entity code in sequence diagram text
+export const sequenceText = (text: string): string =>
+  text.replace(/[\r\n]+/g, ' ').replace(/[#;]/g, (character) => `#${character.charCodeAt(0)};`).trim();
+
+export const formatDuration = (ms: number): string => {
+  if (ms >= 1000) return `${(ms / 1000).toFixed(2)} s`;
+  return ms >= 10 ? `${Math.round(ms)} ms` : `${ms.toFixed(ms >= 1 ? 1 : 2)} ms`;
+};
+
+export const createSequenceModel = (): SequenceDiagramModel => ({
+  kind: 'sequenceDiagram',
+  autonumber: false,
+  participants: [],
+  statements: [],
+  preamble: []
+});
+
+/**
+ * Declares participants on first use, in order of appearance, and returns
+ * their Mermaid id; names that are not valid ids are kept, escaped, as the alias.
+ */
+export const createParticipantRegistry = (model: SequenceDiagramModel) => {
+  const allocateId = createIdentifierAllocator();
+  const participants = new Map<string, SequenceParticipant>();
+
+  return (name: string, type: SequenceParticipant['type'] = 'participant', box?: string): string => {
+    if (!participants.has(name)) {
+      const id = allocateId(name);
+      const declared: SequenceParticipant = { id, type };
+      if (id !== name) declared.alias = sequenceText(name);
+      if (box !== undefined) declared.box = box;
+      participants.set(name, declared);
+      model.participants.push(declared);
+    }
+    return participants.get(name).id;
+  };
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { importSqlDdl } from './sqlDdl';
+
+describe('importSqlDdl', () => {
+  it('draws tables, keys and foreign key cardinalities', () => {
+    const result = importSqlDdl(
+      `CREATE TABLE users (
+        id serial PRIMARY KEY,
+        email varchar(255) NOT NULL UNIQUE
+      );
+      CREATE TABLE posts (
+        id int PRIMARY KEY,
+        author_id int NOT NULL REFERENCES users(id),
+        published_at timestamp with time zone
+      );`,
+      'postgres'
+    );
+
+    expect(result.diagramType).toBe('Entity Relationship Diagram');
+    expect(result.mermaidCode).toBe(
+      [
+        'erDiagram',
+        '    users ||..o{ posts : "author_id"',
+        '    users {',
+        '        serial id PK "NOT NULL"',
+        '        varchar(255) email UK "NOT NULL"',
+        '    }',
+        '    posts {',
+        '        int id PK "NOT NULL"',
+        '        int author_id FK "NOT NULL"',
+        '        timestamp_with_time_zone published_at',
+        '    }'
+      ].join('\n')
+    );
+  });
+
+  it('draws a foreign key declared inline and as a table constraint once', () => {
+    const result = importSqlDdl(
+      `CREATE TABLE users (id int PRIMARY KEY);
+      CREATE TABLE posts (
+        id int PRIMARY KEY,
+        author_id int REFERENCES users(id),
+        editor_id int REFERENCES users,
+        FOREIGN KEY (author_id) REFERENCES users(id),
+        FOREIGN KEY (editor_id) REFERENCES users (id)
+      );
+      ALTER TABLE posts ADD CONSTRAINT posts_author FOREIGN KEY (author_id) REFERENCES users(id);`,
+      'postgres'
+    );
+
+    const relationships = result.mermaidCode.split('\n').filter((line) => line.includes(' : '));
+    expect(relationships).toEqual(['    users |o..o{ posts : "author_id"', '    users |o..o{ posts : "editor_id"']);
+  });
+
+  it('adds referenced tables that are not defined, with a warning', () => {
+    const result = importSqlDdl('CREATE TABLE posts (id int PRIMARY KEY, author_id int REFERENCES users(id));', 'postgres');
+
+    expect(result.mermaidCode).toContain('users |o..o{ posts : "author_id"');
+    expect(result.warnings).toEqual([
+      'Foreign key posts(author_id) references users, which is not defined; it was added without columns'
+    ]);
+  });
+
+  it('rejects input without CREATE TABLE statements', () => {
+    expect(() => importSqlDdl('SELECT 1;', 'mysql')).toThrow('No CREATE TABLE statements found');
+  });
+});
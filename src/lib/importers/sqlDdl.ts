@@ -0,0 +1,516 @@
+import { ErAttribute, ErDiagramModel, ErEntity, ErKey } from '@/lib/diagram/model';
+import { serializeDiagram } from '@/lib/diagram/diagram';
+import { toIdentifier } from '@/lib/diagram/text';
+import { ImportResult } from './types';
+
+export type SqlDialect = 'postgres' | 'mysql' | 'snowflake';
+
+export const SQL_DIALECTS: Array<{ id: SqlDialect; label: string }> = [
+  { id: 'postgres', label: 'PostgreSQL' },
+  { id: 'mysql', label: 'MySQL' },
+  { id: 'snowflake', label: 'Snowflake' }
+];
+
+type TokenType = 'word' | 'identifier' | 'string' | 'number' | 'symbol';
+
+interface Token {
+  type: TokenType;
+  value: string;
+}
+
+interface Column {
+  name: string;
+  type: string;
+  nullable: boolean;
+  comment?: string;
+}
+
+interface ForeignKey {
+  columns: string[];
+  table: string;
+  referencedColumns: string[];
+}
+
+interface Table {
+  schema?: string;
+  name: string;
+  columns: Column[];
+  primaryKey: string[];
+  uniques: string[][];
+  foreignKeys: ForeignKey[];
+}
+
+const tokenize = (sql: string, dialect: SqlDialect): Token[] => {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < sql.length) {
+    const rest = sql.slice(position);
+    let match: RegExpExecArray | null;
+
+    if ((match = /^\s+/.exec(rest))) {
+      position += match[0].length;
+    } else if ((match = /^--[^\n]*/.exec(rest)) || (dialect === 'mysql' && (match = /^#[^\n]*/.exec(rest)))) {
+      position += match[0].length;
+    } else if ((match = /^\/\*[\s\S]*?(?:\*\/|$)/.exec(rest))) {
+      position += match[0].length;
+    } else if ((match = /^'(?:[^'\\]|''|\\.)*'/.exec(rest))) {
+      tokens.push({ type: 'string', value: match[0].slice(1, -1).replace(/''/g, "'") });
+      position += match[0].length;
+    } else if ((match = /^(\$\w*\$)[\s\S]*?\1/.exec(rest))) {
+      tokens.push({ type: 'string', value: match[0].slice(match[1].length, -match[1].length) });
+      position += match[0].length;
+    } else if ((match = /^"((?:[^"]|"")*)"/.exec(rest))) {
+      tokens.push({ type: 'identifier', value: match[1].replace(/""/g, '"') });
+      position += match[0].length;
+    } else if ((match = /^`((?:[^`]|``)*)`/.exec(rest))) {
+      tokens.push({ type: 'identifier', value: match[1].replace(/``/g, '`') });
+      position += match[0].length;
+    } else if ((match = /^\d+(?:\.\d+)?/.exec(rest))) {
+      tokens.push({ type: 'number', value: match[0] });
+      position += match[0].length;
+    } else if ((match = /^[\p{L}_][\p{L}\p{N}_$]*/u.exec(rest))) {
+      tokens.push({ type: 'word', value: match[0] });
+      position += match[0].length;
+    } else {
+      tokens.push({ type: 'symbol', value: rest[0] });
+      position += 1;
+    }
+  }
+
+  return tokens;
+};
+
+const isWord = (token: Token | undefined, ...words: string[]): boolean =>
+  token?.type === 'word' && words.includes(token.value.toUpperCase());
+
+const isSymbol = (token: Token | undefined, symbol: string): boolean =>
+  token?.type === 'symbol' && token.value === symbol;
+
+/** Splits tokens on a separator symbol that is not nested inside parentheses. */
+const splitTopLevel = (tokens: Token[], separator: string): Token[][] => {
+  const parts: Token[][] = [[]];
+  let depth = 0;
+  tokens.forEach((token) => {
+    if (isSymbol(token, '(')) depth++;
+    if (isSymbol(token, ')')) depth--;
+    if (depth === 0 && isSymbol(token, separator)) {
+      parts.push([]);
+    } else {
+      parts[parts.length - 1].push(token);
+    }
+  });
+  return parts.filter((part) => part.length > 0);
+};
+
+/** Returns the index just after the parenthesised group starting at `start`. */
+const skipGroup = (tokens: Token[], start: number): number => {
+  let depth = 0;
+  for (let index = start; index < tokens.length; index++) {
+    if (isSymbol(tokens[index], '(')) depth++;
+    if (isSymbol(tokens[index], ')')) depth--;
+    if (depth === 0) return index + 1;
+  }
+  return tokens.length;
+};
+
+const readQualifiedName = (tokens: Token[], start: number): { parts: string[]; next: number } => {
+  const parts = [tokens[start]?.value ?? ''];
+  let next = start + 1;
+  while (isSymbol(tokens[next], '.') && tokens[next + 1]) {
+    parts.push(tokens[next + 1].value);
+    next += 2;
+  }
+  return { parts, next };
+};
+
+const readColumnList = (tokens: Token[], start: number): { columns: string[]; next: number } => {
+  if (!isSymbol(tokens[start], '(')) return { columns: [], next: start };
+  const end = skipGroup(tokens, start);
+  const columns = splitTopLevel(tokens.slice(start + 1, end - 1), ',')
+    // MySQL index prefixes such as name(10) and ASC/DESC suffixes are not part of the column name
+    .map((part) => part[0].value);
+  return { columns, next: end };
+};
+
+// Words that end a column's type and start its constraints
+const COLUMN_CONSTRAINT_WORDS = [
+  'NOT', 'NULL', 'PRIMARY', 'UNIQUE', 'REFERENCES', 'DEFAULT', 'CONSTRAINT', 'CHECK', 'AUTO_INCREMENT',
+  'AUTOINCREMENT', 'IDENTITY', 'GENERATED', 'COMMENT', 'COLLATE', 'ON', 'WITH', 'AS', 'MASKING', 'ENCODE',
+  'VISIBLE', 'INVISIBLE', 'STORAGE', 'COLUMN_FORMAT'
+];
+
+// Trailing words of multi-word types that would otherwise read as constraints, e.g. "timestamp with time zone"
+const TYPE_SUFFIXES = [
+  ['WITH', 'TIME', 'ZONE'],
+  ['WITHOUT', 'TIME', 'ZONE']
+];
+
+const matchTypeSuffix = (tokens: Token[], index: number): number => {
+  const suffix = TYPE_SUFFIXES.find((words) => words.every((word, offset) => isWord(tokens[index + offset], word)));
+  return suffix ? suffix.length : 0;
+};
+
+const formatType = (tokens: Token[]): string => {
+  let type = '';
+  tokens.forEach((token, index) => {
+    const previous = tokens[index - 1];
+    const needsSpace = index > 0 && token.type === 'word' && (previous.type === 'word' || isSymbol(previous, ')'));
+    type += (needsSpace ? ' ' : '') + token.value;
+  });
+  return type;
+};
+
+const parseForeignKeyReference = (tokens: Token[], start: number) => {
+  const { parts, next } = readQualifiedName(tokens, start);
+  const { columns, next: afterColumns } = readColumnList(tokens, next);
+  return { table: parts[parts.length - 1], columns, next: afterColumns };
+};
+
+const sameNames = (left: string[], right: string[]): boolean =>
+  left.length === right.length && left.every((name, index) => name.toLowerCase() === right[index].toLowerCase());
+
+/**
+ * Adds a foreign key unless the table already declares it, as when a column
+ * has an inline REFERENCES and a FOREIGN KEY constraint repeats it. A
+ * reference without a column list points at the primary key and matches any.
+ */
+const addForeignKey = (table: Table, foreignKey: ForeignKey) => {
+  const declared = table.foreignKeys.find(
+    (other) =>
+      other.table.toLowerCase() === foreignKey.table.toLowerCase() &&
+      sameNames(other.columns, foreignKey.columns) &&
+      (other.referencedColumns.length === 0 ||
+        foreignKey.referencedColumns.length === 0 ||
+        sameNames(other.referencedColumns, foreignKey.referencedColumns))
+  );
+  if (!declared) table.foreignKeys.push(foreignKey);
+  else if (declared.referencedColumns.length === 0) declared.referencedColumns = foreignKey.referencedColumns;
+};
+
+const parseColumn = (tokens: Token[], table: Table) => {
+  const column: Column = { name: tokens[0].value, type: '', nullable: true };
+  let index = 1;
+
+  const typeTokens: Token[] = [];
+  while (index < tokens.length) {
+    const suffixLength = typeTokens.length > 0 ? matchTypeSuffix(tokens, index) : 0;
+    if (suffixLength > 0) {
+      typeTokens.push(...tokens.slice(index, index + suffixLength));
+      index += suffixLength;
+      continue;
+    }
+    if (isWord(tokens[index], ...COLUMN_CONSTRAINT_WORDS)) break;
+    if (isWord(tokens[index], 'CHARACTER') && isWord(tokens[index + 1], 'SET')) break;
+    if (isSymbol(tokens[index], '(')) {
+      const end = skipGroup(tokens, index);
+      typeTokens.push(...tokens.slice(index, end));
+      index = end;
+    } else {
+      typeTokens.push(tokens[index]);
+      index++;
+    }
+  }
+  column.type = formatType(typeTokens) || 'unknown';
+
+  while (index < tokens.length) {
+    const token = tokens[index];
+    if (isWord(token, 'NOT') && isWord(tokens[index + 1], 'NULL')) {
+      column.nullable = false;
+      index += 2;
+    } else if (isWord(token, 'NULL')) {
+      column.nullable = true;
+      index++;
+    } else if (isWord(token, 'PRIMARY') && isWord(tokens[index + 1], 'KEY')) {
+      table.primaryKey = [column.name];
+      column.nullable = false;
+      index += 2;
+    } else if (isWord(token, 'UNIQUE')) {
+      table.uniques.push([column.name]);
+      index += isWord(tokens[index + 1], 'KEY') ? 2 : 1;
+    } else if (isWord(token, 'REFERENCES')) {
+      const reference = parseForeignKeyReference(tokens, index + 1);
+      addForeignKey(table, {
+        columns: [column.name],
+        table: reference.table,
+        referencedColumns: reference.columns
+      });
+      index = reference.next;
+    } else if (isWord(token, 'COMMENT')) {
+      index += isSymbol(tokens[index + 1], '=') ? 2 : 1;
+      if (tokens[index]?.type === 'string') column.comment = tokens[index].value;
+      index++;
+    } else if (isSymbol(token, '(')) {
+      index = skipGroup(tokens, index);
+    } else {
+      index++;
+    }
+  }
+
+  table.columns.push(column);
+};
+
+/** Parses PRIMARY KEY / UNIQUE / FOREIGN KEY table constraints. Returns false for anything else. */
+const parseTableConstraint = (tokens: Token[], table: Table): boolean => {
+  let index = 0;
+  if (isWord(tokens[index], 'CONSTRAINT')) {
+    index += 2;
+  }
+
+  const token = tokens[index];
+  if (isWord(token, 'PRIMARY') && isWord(tokens[index + 1], 'KEY')) {
+    index += 2;
+    // MySQL allows an index type before the column list
+    while (index < tokens.length && !isSymbol(tokens[index], '(')) index++;
+    table.primaryKey = readColumnList(tokens, index).columns;
+    return true;
+  }
+
+  if (isWord(token, 'UNIQUE')) {
+    index++;
+    while (index < tokens.length && !isSymbol(tokens[index], '(')) index++;
+    table.uniques.push(readColumnList(tokens, index).columns);
+    return true;
+  }
+
+  if (isWord(token, 'FOREIGN') && isWord(tokens[index + 1], 'KEY')) {
+    index += 2;
+    while (index < tokens.length && !isSymbol(tokens[index], '(')) index++;
+    const { columns, next } = readColumnList(tokens, index);
+    if (!isWord(tokens[next], 'REFERENCES')) return true;
+    const reference = parseForeignKeyReference(tokens, next + 1);
+    addForeignKey(table, { columns, table: reference.table, referencedColumns: reference.columns });
+    return true;
+  }
+
+  return false;
+};
+
+const TABLE_ELEMENT_KEYWORDS = ['CONSTRAINT', 'PRIMARY', 'FOREIGN', 'UNIQUE', 'CHECK', 'KEY', 'INDEX', 'FULLTEXT', 'SPATIAL', 'EXCLUDE', 'LIKE', 'PERIOD'];
+
+const isTableElementKeyword = (tokens: Token[]): boolean => {
+  const [first, second] = tokens;
+  if (!isWord(first, ...TABLE_ELEMENT_KEYWORDS)) return false;
+  // A column may be called "key" or "index"; those are followed by a type, not a name or a column list
+  if (isWord(first, 'KEY', 'INDEX', 'FULLTEXT', 'SPATIAL')) {
+    return isSymbol(second, '(') || isSymbol(tokens[2], '(') || isWord(second, 'KEY', 'INDEX');
+  }
+  if (isWord(first, 'PRIMARY', 'FOREIGN')) return isWord(second, 'KEY');
+  if (isWord(first, 'UNIQUE')) return isWord(second, 'KEY', 'INDEX') || isSymbol(second, '(') || isSymbol(tokens[2], '(');
+  if (isWord(first, 'CHECK', 'EXCLUDE')) return isSymbol(second, '(') || isWord(second, 'USING');
+  return true;
+};
+
+const findTable = (tables: Table[], name: string): Table | undefined =>
+  tables.find((table) => table.name.toLowerCase() === name.toLowerCase());
+
+const TABLE_MODIFIERS = ['OR', 'REPLACE', 'TEMP', 'TEMPORARY', 'TRANSIENT', 'GLOBAL', 'LOCAL', 'UNLOGGED', 'VOLATILE'];
+
+const isCreateTable = (tokens: Token[]): boolean => {
+  if (!isWord(tokens[0], 'CREATE')) return false;
+  let index = 1;
+  while (isWord(tokens[index], ...TABLE_MODIFIERS)) index++;
+  return isWord(tokens[index], 'TABLE');
+};
+
+const parseCreateTable = (tokens: Token[], tables: Table[], warnings: string[]) => {
+  let index = 1;
+  while (!isWord(tokens[index], 'TABLE')) index++;
+  index++;
+  if (isWord(tokens[index], 'IF') && isWord(tokens[index + 1], 'NOT') && isWord(tokens[index + 2], 'EXISTS')) {
+    index += 3;
+  }
+
+  const { parts, next } = readQualifiedName(tokens, index);
+  const name = parts[parts.length - 1];
+
+  if (!isSymbol(tokens[next], '(')) {
+    warnings.push(`Skipped table ${parts.join('.')}: no column list (CREATE TABLE ... AS / LIKE / CLONE is not supported)`);
+    return;
+  }
+
+  const table: Table = {
+    schema: parts.length > 1 ? parts.slice(0, -1).join('.') : undefined,
+    name,
+    columns: [],
+    primaryKey: [],
+    uniques: [],
+    foreignKeys: []
+  };
+
+  const end = skipGroup(tokens, next);
+  splitTopLevel(tokens.slice(next + 1, end - 1), ',').forEach((element) => {
+    if (isTableElementKeyword(element)) {
+      if (!parseTableConstraint(element, table) && !isWord(element[0], 'KEY', 'INDEX', 'CHECK')) {
+        warnings.push(`Skipped ${element[0].value.toUpperCase()} clause in table ${name}`);
+      }
+    } else {
+      parseColumn(element, table);
+    }
+  });
+
+  if (findTable(tables, name)) {
+    warnings.push(`Table ${name} is defined more than once; the last definition wins`);
+    tables.splice(tables.indexOf(findTable(tables, name)), 1);
+  }
+  tables.push(table);
+};
+
+const parseAlterTable = (tokens: Token[], tables: Table[], warnings: string[]) => {
+  let index = 2;
+  if (isWord(tokens[index], 'IF') && isWord(tokens[index + 1], 'EXISTS')) index += 2;
+  if (isWord(tokens[index], 'ONLY')) index++;
+
+  const { parts, next } = readQualifiedName(tokens, index);
+  const table = findTable(tables, parts[parts.length - 1]);
+  if (!table) {
+    warnings.push(`Skipped ALTER TABLE ${parts.join('.')}: the table is not defined in this script`);
+    return;
+  }
+
+  splitTopLevel(tokens.slice(next), ',').forEach((action) => {
+    if (!isWord(action[0], 'ADD')) {
+      warnings.push(`Skipped ALTER TABLE ${table.name} ${action[0]?.value.toUpperCase() ?? ''} action`);
+      return;
+    }
+    const rest = action.slice(1);
+    if (isTableElementKeyword(rest)) {
+      parseTableConstraint(rest, table);
+    } else {
+      parseColumn(isWord(rest[0], 'COLUMN') ? rest.slice(1) : rest, table);
+    }
+  });
+};
+
+/** Postgres and Snowflake attach column comments with COMMENT ON COLUMN table.column IS '...'. */
+const parseCommentOn = (tokens: Token[], tables: Table[]) => {
+  if (!isWord(tokens[2], 'COLUMN')) return;
+  const { parts, next } = readQualifiedName(tokens, 3);
+  const table = findTable(tables, parts[parts.length - 2] ?? '');
+  const column = table?.columns.find((candidate) => candidate.name.toLowerCase() === parts[parts.length - 1].toLowerCase());
+  if (column && isWord(tokens[next], 'IS') && tokens[next + 1]?.type === 'string') {
+    column.comment = tokens[next + 1].value;
+  }
+};
+
+const sameColumns = (left: string[], right: string[]): boolean =>
+  left.length === right.length && left.every((column) => right.some((other) => other.toLowerCase() === column.toLowerCase()));
+
+const includesColumn = (columns: string[], column: string): boolean =>
+  columns.some((other) => other.toLowerCase() === column.toLowerCase());
+
+const buildModel = (tables: Table[], warnings: string[]): ErDiagramModel => {
+  const model: ErDiagramModel = { kind: 'erDiagram', entities: [], relationships: [], preamble: [] };
+
+  // Unqualified names are used as entity ids unless two schemas share a table name
+  const duplicateNames = new Set(
+    tables.map((table) => table.name.toLowerCase()).filter((name, index, names) => names.indexOf(name) !== index)
+  );
+  const entityIds = new Map<Table, string>();
+  tables.forEach((table) => {
+    const qualified = table.schema && duplicateNames.has(table.name.toLowerCase());
+    entityIds.set(table, toIdentifier(qualified ? `${table.schema}_${table.name}` : table.name));
+  });
+
+  tables.forEach((table) => {
+    const foreignKeyColumns = table.foreignKeys.flatMap((foreignKey) => foreignKey.columns);
+    const entity: ErEntity = {
+      id: entityIds.get(table),
+      attributes: table.columns.map((column): ErAttribute => {
+        const keys: ErKey[] = [];
+        if (includesColumn(table.primaryKey, column.name)) keys.push('PK');
+        if (includesColumn(foreignKeyColumns, column.name)) keys.push('FK');
+        if (table.uniques.some((unique) => sameColumns(unique, [column.name]))) keys.push('UK');
+        const nullable = column.nullable && !includesColumn(table.primaryKey, column.name);
+        const notes = [nullable ? '' : 'NOT NULL', column.comment ?? ''].filter(Boolean);
+        return {
+          type: column.type.replace(/\s+/g, '_'),
+          name: column.name.replace(/[^\p{L}\p{N}_-]+/gu, '_'),
+          keys,
+          ...(notes.length > 0 && { comment: notes.join('; ') })
+        };
+      })
+    };
+    if (table.schema) entity.alias = `${table.schema}.${table.name}`;
+    model.entities.push(entity);
+  });
+
+  tables.forEach((table) => {
+    table.foreignKeys.forEach((foreignKey) => {
+      let parent = findTable(tables, foreignKey.table);
+      if (!parent) {
+        warnings.push(`Foreign key ${table.name}(${foreignKey.columns.join(', ')}) references ${foreignKey.table}, which is not defined; it was added without columns`);
+        parent = { name: foreignKey.table, columns: [], primaryKey: [], uniques: [], foreignKeys: [] };
+        tables.push(parent);
+        entityIds.set(parent, toIdentifier(parent.name));
+        model.entities.push({ id: entityIds.get(parent), attributes: [] });
+      }
+
+      const columns = foreignKey.columns.map((name) =>
+        table.columns.find((column) => column.name.toLowerCase() === name.toLowerCase())
+      );
+      const required = columns.every((column) => column && (!column.nullable || includesColumn(table.primaryKey, column.name)));
+      const unique =
+        sameColumns(table.primaryKey, foreignKey.columns) ||
+        table.uniques.some((uniqueColumns) => sameColumns(uniqueColumns, foreignKey.columns));
+      const identifying = foreignKey.columns.every((column) => includesColumn(table.primaryKey, column));
+
+      model.relationships.push({
+        from: entityIds.get(parent),
+        to: entityIds.get(table),
+        fromCardinality: required ? 'exactly-one' : 'zero-or-one',
+        toCardinality: unique ? 'zero-or-one' : 'zero-or-more',
+        identifying,
+        label: foreignKey.columns.join(', ')
+      });
+    });
+  });
+
+  return model;
+};
+
+/**
+ * Converts CREATE TABLE and ALTER TABLE ... ADD statements into an erDiagram.
+ * Primary keys, unique constraints, foreign keys and nullability decide the
+ * keys and crow's foot cardinalities; everything else is reported as skipped.
+ */
+export const importSqlDdl = (sql: string, dialect: SqlDialect): ImportResult => {
+  const warnings: string[] = [];
+  const tables: Table[] = [];
+
+  splitTopLevel(tokenize(sql, dialect), ';').forEach((statement) => {
+    const [first, second] = statement;
+    if (isCreateTable(statement)) {
+      parseCreateTable(statement, tables, warnings);
+      return;
+    }
+    if (isWord(first, 'ALTER') && isWord(second, 'TABLE')) {
+      parseAlterTable(statement, tables, warnings);
+      return;
+    }
+    if (isWord(first, 'COMMENT') && isWord(second, 'ON')) {
+      parseCommentOn(statement, tables);
+      return;
+    }
+    if (isWord(first, 'CREATE')) {
+      const objectType = statement
+        .slice(1, 4)
+        .filter((token) => token.type === 'word' && !isWord(token, 'OR', 'REPLACE', 'UNIQUE', 'TEMP', 'TEMPORARY'))[0];
+      warnings.push(`Skipped CREATE ${objectType?.value.toUpperCase() ?? ''} statement`);
+      return;
+    }
+    if (!isWord(first, 'USE', 'SET', 'BEGIN', 'COMMIT', 'DROP')) {
+      warnings.push(`Skipped ${first.value.toUpperCase()} statement`);
+    }
+  });
+
+  if (tables.length === 0) {
+    throw new Error('No CREATE TABLE statements found');
+  }
+
+  return {
+    mermaidCode: serializeDiagram(buildModel(tables, warnings)),
+    diagramType: 'Entity Relationship Diagram',
+    warnings
+  };
+};
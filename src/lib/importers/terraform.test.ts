@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { importTerraformJson, TerraformImportOptions } from './terraform';
+
+const OPTIONS: TerraformImportOptions = {
+  output: 'flowchart',
+  grouped: false,
+  highlightChanges: true,
+  changesOnly: false,
+  resourceTypes: []
+};
+
+const PLAN = JSON.stringify({
+  resource_changes: [
+    {
+      address: 'aws_vpc.main',
+      mode: 'managed',
+      type: 'aws_vpc',
+      name: 'main',
+      provider_name: 'registry.terraform.io/hashicorp/aws',
+      change: { actions: ['no-op'] }
+    },
+    {
+      address: 'aws_subnet.a',
+      mode: 'managed',
+      type: 'aws_subnet',
+      name: 'a',
+      provider_name: 'registry.terraform.io/hashicorp/aws',
+      change: { actions: ['create'] }
+    }
+  ],
+  configuration: {
+    root_module: {
+      resources: [
+        { address: 'aws_vpc.main' },
+        { address: 'aws_subnet.a', expressions: { vpc_id: { references: ['aws_vpc.main.id', 'aws_vpc.main'] } } }
+      ]
+    }
+  }
+});
+
+describe('importTerraformJson', () => {
+  it('draws resources and references with planned changes highlighted', () => {
+    const result = importTerraformJson(PLAN, OPTIONS);
+
+    expect(result.mermaidCode).toBe(
+      [
+        '---',
+        'title: "Plan: 1 to add, 0 to change, 0 to destroy"',
+        '---',
+        'graph TD',
+        '    classDef create fill:#dcfce7,stroke:#16a34a,color:#14532d',
+        '    classDef unchanged fill:#f8fafc,stroke:#94a3b8,color:#64748b',
+        '    aws_vpc_main{{aws_vpc.main}}:::unchanged',
+        '    aws_subnet_a{{"+ aws_subnet.a"}}:::create',
+        '    aws_subnet_a --> aws_vpc_main'
+      ].join('\n')
+    );
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('only highlights changes in flowchart output', () => {
+    const result = importTerraformJson(PLAN, { ...OPTIONS, output: 'architecture' });
+
+    expect(result.mermaidCode).toBe(
+      [
+        'architecture-beta',
+        '    service aws_vpc_main(internet)[aws_vpc.main]',
+        '    service aws_subnet_a(internet)[aws_subnet.a]',
+        '    aws_subnet_a:B --> T:aws_vpc_main'
+      ].join('\n')
+    );
+    expect(result.warnings).toEqual([
+      'architecture-beta services cannot be styled, so planned changes are only highlighted in graph TD output'
+    ]);
+  });
+
+  it('reports input that is not Terraform JSON', () => {
+    expect(() => importTerraformJson('nope', OPTIONS)).toThrow(/not valid JSON/);
+    expect(() => importTerraformJson('{"a": 1}', OPTIONS)).toThrow(/Not Terraform JSON/);
+    expect(() => importTerraformJson('{"values": {"root_module": {}}}', OPTIONS)).toThrow('No resources found in the Terraform JSON');
+  });
+});
@@ -0,0 +1,461 @@
+import { FlowchartModel, FlowNode, NodeShape } from '@/lib/diagram/model';
+import { serializeDiagram } from '@/lib/diagram/diagram';
+import { indent } from '@/lib/diagram/text';
+import { createIdentifierAllocator } from './identifiers';
+import { ImportResult } from './types';
+
+export type TerraformOutput = 'flowchart' | 'architecture';
+
+export const TERRAFORM_OUTPUTS: Array<{ id: TerraformOutput; label: string }> = [
+  { id: 'flowchart', label: 'graph TD' },
+  { id: 'architecture', label: 'architecture-beta' }
+];
+
+export interface TerraformImportOptions {
+  output: TerraformOutput;
+  grouped: boolean;
+  /** Colour planned creates, updates and destroys; `graph TD` output only */
+  highlightChanges: boolean;
+  /** Hide resources the plan leaves untouched */
+  changesOnly: boolean;
+  /** Resource types to keep, e.g. "aws_instance" or "data.aws_ami"; empty keeps everything */
+  resourceTypes: string[];
+}
+
+type ChangeAction = 'create' | 'update' | 'delete' | 'replace' | 'read' | 'no-op';
+
+// When instances of one resource plan different actions, the most disruptive one is shown
+const ACTION_PRIORITY: ChangeAction[] = ['replace', 'delete', 'create', 'update', 'read', 'no-op'];
+
+// Same markers as the terraform CLI plan output
+const ACTION_SYMBOLS: Record<ChangeAction, string> = {
+  create: '+',
+  update: '~',
+  delete: '-',
+  replace: '-/+',
+  read: '<=',
+  'no-op': ''
+};
+
+const ACTION_CLASSES: Record<ChangeAction, { name: string; styles: string }> = {
+  create: { name: 'create', styles: 'fill:#dcfce7,stroke:#16a34a,color:#14532d' },
+  update: { name: 'update', styles: 'fill:#fef9c3,stroke:#ca8a04,color:#713f12' },
+  delete: { name: 'destroy', styles: 'fill:#fee2e2,stroke:#dc2626,color:#7f1d1d,stroke-dasharray:4 4' },
+  replace: { name: 'replace', styles: 'fill:#fce7f3,stroke:#db2777,color:#831843' },
+  read: { name: 'read', styles: 'fill:#e0f2fe,stroke:#0284c7,color:#0c4a6e' },
+  'no-op': { name: 'unchanged', styles: 'fill:#f8fafc,stroke:#94a3b8,color:#64748b' }
+};
+
+interface ResourceChange {
+  address: string;
+  mode: 'managed' | 'data';
+  type: string;
+  name: string;
+  provider_name?: string;
+  change?: { actions?: string[] };
+}
+
+interface StateResource {
+  address: string;
+  mode: 'managed' | 'data';
+  type: string;
+  name: string;
+  provider_name?: string;
+  depends_on?: string[];
+}
+
+interface StateModule {
+  resources?: StateResource[];
+  child_modules?: StateModule[];
+}
+
+interface ConfigResource {
+  address: string;
+  expressions?: unknown;
+  depends_on?: string[];
+  count_expression?: unknown;
+  for_each_expression?: unknown;
+}
+
+interface ConfigModule {
+  resources?: ConfigResource[];
+  module_calls?: Record<string, { module?: ConfigModule; expressions?: Record<string, unknown> }>;
+  outputs?: Record<string, { expression?: unknown }>;
+}
+
+interface TerraformJson {
+  resource_changes?: ResourceChange[];
+  values?: { root_module?: StateModule };
+  prior_state?: { values?: { root_module?: StateModule } };
+  configuration?: { root_module?: ConfigModule };
+}
+
+interface TerraformResource {
+  address: string;
+  module: string;
+  type: string;
+  mode: 'managed' | 'data';
+  provider: string;
+  action: ChangeAction;
+  instances: number;
+  references: Set<string>;
+}
+
+const INSTANCE_KEY = /\[(?:"[^"]*"|[^\]]*)\]/g;
+
+const stripInstanceKeys = (address: string): string => address.replace(INSTANCE_KEY, '');
+
+const prefixModule = (modulePath: string, address: string): string => (modulePath ? `${modulePath}.${address}` : address);
+
+/** "module.net.aws_subnet.private" → "module.net"; "data.aws_ami.ubuntu" → "" */
+const getModulePath = (address: string): string => {
+  const parts = address.split('.');
+  const resourceParts = parts[parts.length - 3] === 'data' ? 3 : 2;
+  return parts.slice(0, parts.length - resourceParts).join('.');
+};
+
+/** "registry.terraform.io/hashicorp/aws" → "aws" */
+const getProviderName = (provider: string | undefined): string => provider?.split('/').pop() ?? 'unknown';
+
+const getTypeKey = (resource: { mode: string; type: string }) =>
+  resource.mode === 'data' ? `data.${resource.type}` : resource.type;
+
+const toAction = (actions: string[] = ['no-op']): ChangeAction => {
+  if (actions.includes('create') && actions.includes('delete')) return 'replace';
+  return (ACTION_PRIORITY.find((action) => actions.includes(action)) ?? 'no-op') as ChangeAction;
+};
+
+const parseTerraformJson = (text: string): TerraformJson => {
+  let json: TerraformJson;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('The input is not valid JSON. Use the output of `terraform show -json`.');
+  }
+  if (!json || typeof json !== 'object' || (!json.resource_changes && !json.values)) {
+    throw new Error('Not Terraform JSON: expected resource_changes (plan) or values (state)');
+  }
+  return json;
+};
+
+const collectStateResources = (module: StateModule | undefined): StateResource[] =>
+  module ? [...(module.resources ?? []), ...(module.child_modules ?? []).flatMap(collectStateResources)] : [];
+
+const addResource = (
+  resources: Map<string, TerraformResource>,
+  instance: { address: string; mode: 'managed' | 'data'; type: string; provider_name?: string },
+  action: ChangeAction
+): TerraformResource => {
+  const address = stripInstanceKeys(instance.address);
+  const existing = resources.get(address);
+  if (existing) {
+    existing.instances += 1;
+    if (ACTION_PRIORITY.indexOf(action) < ACTION_PRIORITY.indexOf(existing.action)) existing.action = action;
+    return existing;
+  }
+  const resource: TerraformResource = {
+    address,
+    module: getModulePath(address),
+    type: instance.type,
+    mode: instance.mode,
+    provider: getProviderName(instance.provider_name),
+    action,
+    instances: 1,
+    references: new Set()
+  };
+  resources.set(address, resource);
+  return resource;
+};
+
+/** Every `references` list anywhere inside a configuration expression tree. */
+const collectReferences = (value: unknown): string[] => {
+  if (Array.isArray(value)) return value.flatMap(collectReferences);
+  if (!value || typeof value !== 'object') return [];
+  return Object.entries(value).flatMap(([key, nested]) =>
+    key === 'references' && Array.isArray(nested) ? nested.filter((item) => typeof item === 'string') : collectReferences(nested)
+  );
+};
+
+const IGNORED_REFERENCE_ROOTS = ['local', 'each', 'count', 'path', 'terraform', 'self'];
+
+// Variables and outputs can chain through many modules; this bounds pathological configs
+const MAX_REFERENCE_DEPTH = 12;
+
+/**
+ * Resolves references in the configuration to resource addresses, following
+ * module input variables up to the calling module and module outputs down
+ * into the called module, so edges cross module boundaries.
+ */
+const createReferenceResolver = (root: ConfigModule) => {
+  const modules = new Map<string, ConfigModule>();
+  const register = (module: ConfigModule, path: string) => {
+    modules.set(path, module);
+    Object.entries(module.module_calls ?? {}).forEach(([name, call]) => {
+      if (call.module) register(call.module, prefixModule(path, `module.${name}`));
+    });
+  };
+  register(root, '');
+
+  const resolve = (reference: string, modulePath: string, depth = 0): string[] => {
+    if (depth > MAX_REFERENCE_DEPTH) return [];
+    const parts = stripInstanceKeys(reference).split('.');
+
+    if (IGNORED_REFERENCE_ROOTS.includes(parts[0])) return [];
+
+    if (parts[0] === 'var') {
+      if (!modulePath) return [];
+      const callPath = modulePath.split('.');
+      const parentPath = callPath.slice(0, -2).join('.');
+      const call = modules.get(parentPath)?.module_calls?.[callPath[callPath.length - 1]];
+      return collectReferences(call?.expressions?.[parts[1]]).flatMap((parentReference) =>
+        resolve(parentReference, parentPath, depth + 1)
+      );
+    }
+
+    if (parts[0] === 'module') {
+      const childPath = prefixModule(modulePath, `module.${parts[1]}`);
+      const output = parts[2] && modules.get(childPath)?.outputs?.[parts[2]];
+      return output
+        ? collectReferences(output.expression).flatMap((childReference) => resolve(childReference, childPath, depth + 1))
+        : [];
+    }
+
+    if (parts[0] === 'data') {
+      return parts.length >= 3 ? [prefixModule(modulePath, parts.slice(0, 3).join('.'))] : [];
+    }
+
+    return parts.length >= 2 ? [prefixModule(modulePath, parts.slice(0, 2).join('.'))] : [];
+  };
+
+  const forEachResource = (callback: (resource: ConfigResource, modulePath: string) => void) =>
+    modules.forEach((module, path) => (module.resources ?? []).forEach((resource) => callback(resource, path)));
+
+  return { resolve, forEachResource };
+};
+
+const collectResources = (json: TerraformJson, warnings: string[]): Map<string, TerraformResource> => {
+  const resources = new Map<string, TerraformResource>();
+
+  if (json.resource_changes) {
+    json.resource_changes.forEach((change) => addResource(resources, change, toAction(change.change?.actions)));
+  } else {
+    collectStateResources(json.values?.root_module).forEach((instance) => {
+      const resource = addResource(resources, instance, 'no-op');
+      (instance.depends_on ?? []).forEach((dependency) => resource.references.add(stripInstanceKeys(dependency)));
+    });
+  }
+
+  const root = json.configuration?.root_module;
+  if (root) {
+    const { resolve, forEachResource } = createReferenceResolver(root);
+    forEachResource((config, modulePath) => {
+      const resource = resources.get(prefixModule(modulePath, config.address));
+      if (!resource) return;
+      [
+        ...collectReferences(config.expressions),
+        ...collectReferences(config.count_expression),
+        ...collectReferences(config.for_each_expression),
+        ...(config.depends_on ?? [])
+      ]
+        .flatMap((reference) => resolve(reference, modulePath))
+        .forEach((address) => resource.references.add(address));
+    });
+  } else if (json.resource_changes) {
+    warnings.push('The plan has no configuration section, so resource references could not be drawn');
+  }
+
+  return resources;
+};
+
+/** Resource types present in a plan or state, for the type filter. */
+export const listTerraformResourceTypes = (text: string): string[] => {
+  const json = parseTerraformJson(text);
+  const instances = json.resource_changes ?? collectStateResources(json.values?.root_module);
+  return [...new Set(instances.map(getTypeKey))].sort();
+};
+
+const NETWORK_TYPES = /vpc|subnet|network|route|gateway|_lb|load_?balancer|dns|firewall|security_group|ingress|cdn|cloudfront/;
+const DATABASE_TYPES = /db|rds|sql|dynamo|cosmos|bigtable|spanner|redis|elasticache|cache|kinesis|kafka/;
+const STORAGE_TYPES = /bucket|storage|s3|disk|volume|efs|filestore/;
+
+const getShape = (resource: TerraformResource): NodeShape => {
+  if (resource.mode === 'data') return 'parallelogram';
+  if (DATABASE_TYPES.test(resource.type) || STORAGE_TYPES.test(resource.type)) return 'cylinder';
+  if (NETWORK_TYPES.test(resource.type)) return 'hexagon';
+  return 'rect';
+};
+
+const getIcon = (resource: TerraformResource): string => {
+  if (DATABASE_TYPES.test(resource.type)) return 'database';
+  if (STORAGE_TYPES.test(resource.type)) return 'disk';
+  if (NETWORK_TYPES.test(resource.type)) return 'internet';
+  return 'server';
+};
+
+const getLabel = (resource: TerraformResource, highlightChanges: boolean): string => {
+  const name = resource.address.slice(resource.module ? resource.module.length + 1 : 0);
+  const count = resource.instances > 1 ? ` ×${resource.instances}` : '';
+  const symbol = highlightChanges ? ACTION_SYMBOLS[resource.action] : '';
+  return `${symbol ? `${symbol} ` : ''}${name}${count}`;
+};
+
+interface GroupPath {
+  key: string;
+  label: string;
+}
+
+/** Nested groups for a resource: one per module level, then its provider. */
+const getGroupPath = (resource: TerraformResource): GroupPath[] => {
+  const segments = resource.module ? resource.module.split('.') : [];
+  const path: GroupPath[] = [];
+  for (let index = 0; index < segments.length; index += 2) {
+    path.push({ key: segments.slice(0, index + 2).join('.'), label: segments.slice(index, index + 2).join('.') });
+  }
+  path.push({ key: prefixModule(resource.module, resource.provider), label: resource.provider });
+  return path;
+};
+
+const summarize = (resources: TerraformResource[]): string => {
+  const count = (...actions: ChangeAction[]) => resources.filter((resource) => actions.includes(resource.action)).length;
+  return `Plan: ${count('create', 'replace')} to add, ${count('update')} to change, ${count('delete', 'replace')} to destroy`;
+};
+
+const buildFlowchart = (
+  resources: TerraformResource[],
+  edges: Array<[TerraformResource, TerraformResource]>,
+  options: TerraformImportOptions
+): FlowchartModel => {
+  const model: FlowchartModel = {
+    kind: 'flowchart',
+    keyword: 'graph',
+    direction: 'TD',
+    nodes: [],
+    edges: [],
+    subgraphs: [],
+    classDefs: [],
+    directives: [],
+    preamble: []
+  };
+  const allocateId = createIdentifierAllocator();
+  const groupIds = new Map<string, string>();
+
+  resources.forEach((resource) => {
+    let parent: string | undefined;
+    if (options.grouped) {
+      getGroupPath(resource).forEach(({ key, label }) => {
+        if (!groupIds.has(key)) {
+          const id = allocateId(`group:${key}`, `grp_${key}`);
+          groupIds.set(key, id);
+          model.subgraphs.push({ id, label, ...(parent && { parent }) });
+        }
+        parent = groupIds.get(key);
+      });
+    }
+    const node: FlowNode = {
+      id: allocateId(resource.address),
+      label: getLabel(resource, options.highlightChanges),
+      shape: getShape(resource),
+      classes: options.highlightChanges ? [ACTION_CLASSES[resource.action].name] : []
+    };
+    if (parent) node.subgraph = parent;
+    model.nodes.push(node);
+  });
+
+  edges.forEach(([from, to]) => {
+    model.edges.push({ from: allocateId(from.address), to: allocateId(to.address), stroke: 'normal', head: 'arrow', bidirectional: false });
+  });
+
+  if (options.highlightChanges) {
+    const used = new Set(resources.map((resource) => resource.action));
+    model.classDefs = ACTION_PRIORITY.filter((action) => used.has(action)).map((action) => ACTION_CLASSES[action]);
+  }
+  return model;
+};
+
+// architecture-beta titles cannot contain square brackets
+const architectureTitle = (text: string): string => `[${text.replace(/[[\]]/g, '')}]`;
+
+/** architecture-beta has no typed model yet, so it is written directly. */
+const buildArchitecture = (
+  resources: TerraformResource[],
+  edges: Array<[TerraformResource, TerraformResource]>,
+  options: TerraformImportOptions
+): string => {
+  const lines = ['architecture-beta'];
+  const allocateId = createIdentifierAllocator();
+  const groupIds = new Map<string, string>();
+
+  resources.forEach((resource) => {
+    let parent: string | undefined;
+    if (options.grouped) {
+      getGroupPath(resource).forEach(({ key, label }) => {
+        if (!groupIds.has(key)) {
+          const id = allocateId(`group:${key}`, `grp_${key}`);
+          groupIds.set(key, id);
+          lines.push(`${indent(1)}group ${id}(cloud)${architectureTitle(label)}${parent ? ` in ${parent}` : ''}`);
+        }
+        parent = groupIds.get(key);
+      });
+    }
+    const id = allocateId(resource.address);
+    const title = architectureTitle(getLabel(resource, options.highlightChanges));
+    lines.push(`${indent(1)}service ${id}(${getIcon(resource)})${title}${parent ? ` in ${parent}` : ''}`);
+  });
+
+  edges.forEach(([from, to]) => {
+    lines.push(`${indent(1)}${allocateId(from.address)}:B --> T:${allocateId(to.address)}`);
+  });
+
+  return lines.join('\n');
+};
+
+/**
+ * Converts `terraform show -json` output (a saved plan or state) into a
+ * `graph TD` flowchart or an `architecture-beta` diagram. Nodes are
+ * resources, with instances of count/for_each resources collapsed into one;
+ * edges point from a resource to the resources its configuration references.
+ */
+export const importTerraformJson = (text: string, options: TerraformImportOptions): ImportResult => {
+  const warnings: string[] = [];
+  const json = parseTerraformJson(text);
+  const all = collectResources(json, warnings);
+  const isPlan = !!json.resource_changes;
+
+  if (!isPlan && (options.highlightChanges || options.changesOnly)) {
+    warnings.push('The input is state, not a plan, so there are no planned changes to highlight');
+  }
+  if (isPlan && options.highlightChanges && options.output === 'architecture') {
+    warnings.push('architecture-beta services cannot be styled, so planned changes are only highlighted in graph TD output');
+  }
+  const settings = { ...options, highlightChanges: isPlan && options.highlightChanges && options.output === 'flowchart' };
+
+  const resources = [...all.values()].filter(
+    (resource) =>
+      (options.resourceTypes.length === 0 || options.resourceTypes.includes(getTypeKey(resource))) &&
+      (!options.changesOnly || !isPlan || resource.action !== 'no-op')
+  );
+  if (resources.length === 0) {
+    throw new Error(all.size === 0 ? 'No resources found in the Terraform JSON' : 'No resources match the current filters');
+  }
+
+  const kept = new Map(resources.map((resource) => [resource.address, resource]));
+  const edges: Array<[TerraformResource, TerraformResource]> = [];
+  resources.forEach((resource) => {
+    resource.references.forEach((address) => {
+      const target = kept.get(address);
+      if (target && target !== resource) edges.push([resource, target]);
+    });
+  });
+
+  const body =
+    options.output === 'architecture'
+      ? buildArchitecture(resources, edges, settings)
+      : serializeDiagram(buildFlowchart(resources, edges, settings));
+  const title = settings.highlightChanges ? ['---', `title: "${summarize([...all.values()])}"`, '---'] : [];
+
+  return {
+    mermaidCode: [...title, body].join('\n'),
+    diagramType: options.output === 'architecture' ? 'Architecture Diagram' : 'Flowchart',
+    warnings
+  };
+};
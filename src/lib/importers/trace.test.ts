@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { importTrace } from './trace';
+
+const OPTIONS = { showDurations: true, showInternalSpans: false };
+
+const JAEGER_EXPORT = JSON.stringify({
+  data: [
+    {
+      traceID: 't1',
+      spans: [
+        {
+          traceID: 't1',
+          spanID: 'a',
+          operationName: 'GET /checkout',
+          startTime: 1000,
+          duration: 5000,
+          processID: 'p1',
+          tags: [{ key: 'span.kind', value: 'server' }]
+        },
+        {
+          traceID: 't1',
+          spanID: 'b',
+          operationName: 'POST /pay',
+          references: [{ refType: 'CHILD_OF', spanID: 'a' }],
+          startTime: 1500,
+          duration: 2000,
+          processID: 'p2',
+          tags: [
+            { key: 'span.kind', value: 'server' },
+            { key: 'error', value: true }
+          ]
+        }
+      ],
+      processes: { p1: { serviceName: 'frontend; web #1' }, p2: { serviceName: 'payments' } }
+    }
+  ]
+});
+
+describe('importTrace', () => {
+  it('draws calls between services, wrapping failed ones in critical blocks', () => {
+    const result = importTrace(JAEGER_EXPORT, OPTIONS);
+
+    expect(result.diagramType).toBe('Sequence Diagram');
+    expect(result.mermaidCode).toBe(
+      [
+        'sequenceDiagram',
+        '    actor Client',
+        '    participant frontend_web_1 as frontend#59; web #35;1',
+        '    participant payments',
+        '    Client->>+frontend_web_1: GET /checkout',
+        '    Note right of frontend_web_1: 5.0 ms',
+        '    critical payments: POST /pay',
+        '        frontend_web_1->>+payments: POST /pay',
+        '        Note right of payments: 2.0 ms',
+        '    option error: failed',
+        '        payments--x-frontend_web_1: error',
+        '    end',
+        '    frontend_web_1-->>-Client: OK'
+      ].join('\n')
+    );
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('reports input that is not a trace export', () => {
+    expect(() => importTrace('nope', OPTIONS)).toThrow('The input is not valid JSON or JSON lines');
+    expect(() => importTrace('{"foo": 1}', OPTIONS)).toThrow(/Not a trace export/);
+    expect(() => importTrace('{"resourceSpans": []}', OPTIONS)).toThrow('The export contains no spans');
+  });
+});
@@ -0,0 +1,349 @@
+import { SequenceStatement } from '@/lib/diagram/model';
+import { serializeDiagram } from '@/lib/diagram/diagram';
+import {
+  MAX_SEQUENCE_MESSAGES,
+  createParticipantRegistry,
+  createSequenceModel,
+  formatDuration,
+  sequenceText
+} from './sequence';
+import { ImportResult } from './types';
+
+export interface TraceImportOptions {
+  /** Which trace to draw when the export holds several; defaults to the first */
+  traceId?: string;
+  showDurations: boolean;
+  /** Draw spans that stay inside one service as self-messages */
+  showInternalSpans: boolean;
+}
+
+export interface TraceSummary {
+  id: string;
+  label: string;
+}
+
+type SpanKind = 'internal' | 'server' | 'client' | 'producer' | 'consumer';
+
+type AttributeValue = string | number | boolean;
+
+interface Span {
+  id: string;
+  traceId: string;
+  parentId?: string;
+  service: string;
+  name: string;
+  kind: SpanKind;
+  startMs: number;
+  durationMs: number;
+  error: boolean;
+  errorMessage?: string;
+  attributes: Record<string, AttributeValue>;
+}
+
+interface OtlpAnyValue {
+  stringValue?: string;
+  intValue?: string | number;
+  doubleValue?: number;
+  boolValue?: boolean;
+}
+
+interface OtlpSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind?: number | string;
+  startTimeUnixNano: string | number;
+  endTimeUnixNano: string | number;
+  attributes?: Array<{ key: string; value: OtlpAnyValue }>;
+  status?: { code?: number | string; message?: string };
+  events?: Array<{ name: string; attributes?: Array<{ key: string; value: OtlpAnyValue }> }>;
+}
+
+interface OtlpExport {
+  resourceSpans?: Array<{
+    resource?: { attributes?: Array<{ key: string; value: OtlpAnyValue }> };
+    scopeSpans?: Array<{ spans?: OtlpSpan[] }>;
+    // Exporters before OTLP 0.15 used the old name
+    instrumentationLibrarySpans?: Array<{ spans?: OtlpSpan[] }>;
+  }>;
+}
+
+interface JaegerTag {
+  key: string;
+  value: AttributeValue;
+}
+
+interface JaegerTrace {
+  traceID: string;
+  spans: Array<{
+    traceID: string;
+    spanID: string;
+    operationName: string;
+    references?: Array<{ refType: string; spanID: string }>;
+    startTime: number;
+    duration: number;
+    tags?: JaegerTag[];
+    processID: string;
+  }>;
+  processes: Record<string, { serviceName: string }>;
+}
+
+const OTLP_KINDS: SpanKind[] = ['internal', 'internal', 'server', 'client', 'producer', 'consumer'];
+
+const CLIENT_ACTOR = 'Client';
+
+const toOtlpValue = (value: OtlpAnyValue): AttributeValue =>
+  value.stringValue ?? value.boolValue ?? value.doubleValue ?? (value.intValue !== undefined ? Number(value.intValue) : '');
+
+const toOtlpAttributes = (attributes: Array<{ key: string; value: OtlpAnyValue }> = []): Record<string, AttributeValue> =>
+  Object.fromEntries(attributes.map(({ key, value }) => [key, toOtlpValue(value ?? {})]));
+
+const toOtlpKind = (kind: number | string | undefined): SpanKind => {
+  if (typeof kind === 'number') return OTLP_KINDS[kind] ?? 'internal';
+  const name = String(kind ?? '').replace(/^SPAN_KIND_/, '').toLowerCase();
+  return (OTLP_KINDS.includes(name as SpanKind) ? name : 'internal') as SpanKind;
+};
+
+const readOtlp = (exports: OtlpExport[]): Span[] =>
+  exports.flatMap((document) =>
+    (document.resourceSpans ?? []).flatMap((resourceSpans) => {
+      const resource = toOtlpAttributes(resourceSpans.resource?.attributes);
+      const service = String(resource['service.name'] ?? 'unknown service');
+      const scopes = resourceSpans.scopeSpans ?? resourceSpans.instrumentationLibrarySpans ?? [];
+      return scopes.flatMap((scope) =>
+        (scope.spans ?? []).map((span): Span => {
+          const start = Number(span.startTimeUnixNano);
+          const code = span.status?.code;
+          const exception = (span.events ?? []).find((event) => event.name === 'exception');
+          return {
+            id: span.spanId,
+            traceId: span.traceId,
+            parentId: span.parentSpanId || undefined,
+            service,
+            name: span.name,
+            kind: toOtlpKind(span.kind),
+            startMs: start / 1e6,
+            durationMs: (Number(span.endTimeUnixNano) - start) / 1e6,
+            error: code === 2 || code === 'STATUS_CODE_ERROR',
+            errorMessage: span.status?.message || (exception && String(toOtlpAttributes(exception.attributes)['exception.message'] ?? '')) || undefined,
+            attributes: toOtlpAttributes(span.attributes)
+          };
+        })
+      );
+    })
+  );
+
+const readJaeger = (traces: JaegerTrace[]): Span[] =>
+  traces.flatMap((trace) =>
+    trace.spans.map((span): Span => {
+      const tags = Object.fromEntries((span.tags ?? []).map(({ key, value }) => [key, value]));
+      const parent = (span.references ?? []).find((reference) => reference.refType === 'CHILD_OF') ?? span.references?.[0];
+      const kind = String(tags['span.kind'] ?? 'internal');
+      return {
+        id: span.spanID,
+        traceId: span.traceID,
+        parentId: parent?.spanID,
+        service: trace.processes?.[span.processID]?.serviceName ?? 'unknown service',
+        name: span.operationName,
+        kind: (OTLP_KINDS.includes(kind as SpanKind) ? kind : 'internal') as SpanKind,
+        startMs: span.startTime / 1000,
+        durationMs: span.duration / 1000,
+        error: tags.error === true || tags.error === 'true' || tags['otel.status_code'] === 'ERROR',
+        errorMessage: (tags['otel.status_description'] as string) || (tags['error.message'] as string) || undefined,
+        attributes: tags
+      };
+    })
+  );
+
+/** Accepts an OTLP JSON export (one document or the collector's JSON lines) or a Jaeger UI/API download. */
+const readSpans = (text: string): Span[] => {
+  let documents: unknown[];
+  try {
+    documents = [JSON.parse(text)];
+  } catch {
+    try {
+      documents = text.split('\n').filter((line) => line.trim()).map((line) => JSON.parse(line));
+    } catch {
+      throw new Error('The input is not valid JSON or JSON lines');
+    }
+  }
+  const first = documents[0] as OtlpExport & JaegerTrace & { data?: JaegerTrace[] };
+  if (documents.every((document) => (document as OtlpExport)?.resourceSpans)) {
+    return readOtlp(documents as OtlpExport[]);
+  }
+  if (Array.isArray(first?.data)) return readJaeger(first.data);
+  if (Array.isArray(first?.spans) && first.processes) return readJaeger([first]);
+  throw new Error('Not a trace export: expected OTLP resourceSpans or Jaeger data/spans/processes');
+};
+
+const groupByTrace = (spans: Span[]): Map<string, Span[]> => {
+  const traces = new Map<string, Span[]>();
+  spans.forEach((span) => {
+    if (!traces.has(span.traceId)) traces.set(span.traceId, []);
+    traces.get(span.traceId).push(span);
+  });
+  return traces;
+};
+
+const findRoots = (spans: Span[]): Span[] => {
+  const ids = new Set(spans.map((span) => span.id));
+  const roots = spans.filter((span) => !span.parentId || !ids.has(span.parentId));
+  // Parent links that loop back have no natural root; start from the earliest span
+  return (roots.length > 0 ? roots : spans).sort((a, b) => a.startMs - b.startMs).slice(0, roots.length || 1);
+};
+
+/** Traces in an export, labelled by their root span, for picking one to draw. */
+export const listTraces = (text: string): TraceSummary[] =>
+  [...groupByTrace(readSpans(text))].map(([id, spans]) => {
+    const root = findRoots(spans)[0];
+    return { id, label: `${root.service}: ${root.name} (${spans.length} spans)` };
+  });
+
+/** The remote side of a client or producer span nobody instrumented, e.g. a database. */
+const getPeer = (span: Span): string | undefined => {
+  const { attributes } = span;
+  const peer =
+    attributes['peer.service'] ??
+    attributes['db.system'] ??
+    attributes['messaging.destination.name'] ??
+    attributes['messaging.destination'] ??
+    attributes['messaging.system'] ??
+    attributes['rpc.service'] ??
+    attributes['server.address'] ??
+    attributes['net.peer.name'];
+  return peer !== undefined && peer !== '' ? String(peer) : undefined;
+};
+
+const getResponseText = (span: Span): string => {
+  const status = span.attributes['http.response.status_code'] ?? span.attributes['http.status_code'] ?? span.attributes['rpc.grpc.status_code'];
+  if (span.error) return sequenceText(span.errorMessage ?? (status !== undefined ? String(status) : 'error'));
+  return status !== undefined ? String(status) : 'OK';
+};
+
+/**
+ * Converts an OpenTelemetry trace into a sequence diagram. Services become
+ * participants; a span whose parent ran in another service becomes a request
+ * from the parent's service with a response when it ends, and client spans
+ * to uninstrumented peers (databases, brokers) become requests to that peer.
+ * Errored calls are wrapped in `critical` blocks with the failure as the option.
+ */
+export const importTrace = (text: string, options: TraceImportOptions): ImportResult => {
+  const warnings: string[] = [];
+  const traces = groupByTrace(readSpans(text));
+  if (traces.size === 0) {
+    throw new Error('The export contains no spans');
+  }
+  const traceId = options.traceId && traces.has(options.traceId) ? options.traceId : [...traces.keys()][0];
+  if (traces.size > 1 && !options.traceId) {
+    warnings.push(`The export holds ${traces.size} traces; drew ${traceId}`);
+  }
+
+  const spans = traces.get(traceId);
+  const children = new Map<string, Span[]>();
+  spans.forEach((span) => {
+    if (!span.parentId) return;
+    if (!children.has(span.parentId)) children.set(span.parentId, []);
+    children.get(span.parentId).push(span);
+  });
+  children.forEach((list) => list.sort((a, b) => a.startMs - b.startMs));
+
+  const roots = findRoots(spans);
+  if (roots.length > 1) {
+    warnings.push(`${roots.length - 1} span(s) have a parent missing from the export and are drawn as separate requests`);
+  }
+
+  const model = createSequenceModel();
+  const participant = createParticipantRegistry(model);
+
+  let messages = 0;
+  let truncated = false;
+  const hasCapacity = () => {
+    if (messages < MAX_SEQUENCE_MESSAGES) return true;
+    truncated = true;
+    return false;
+  };
+
+  /** Request, nested calls and response for a span entered from `caller`. */
+  const call = (caller: string, callee: string, span: Span, visitNested: () => SequenceStatement[]): SequenceStatement[] => {
+    messages += 1;
+    // Declared before recursing so participants appear in call order
+    const from = participant(caller);
+    const to = participant(callee);
+    const nested = visitNested();
+    const async = span.kind === 'producer' || span.kind === 'consumer';
+    const request: SequenceStatement = async
+      ? { type: 'message', from, to, arrow: '-)', text: sequenceText(span.name) }
+      : { type: 'message', from, to, arrow: '->>', text: sequenceText(span.name), activate: true };
+    const duration: SequenceStatement[] = options.showDurations
+      ? [{ type: 'note', placement: 'right of', participants: [to], text: formatDuration(span.durationMs) }]
+      : [];
+    if (async) return [request, ...duration, ...nested];
+
+    const response: SequenceStatement = {
+      type: 'message',
+      from: to,
+      to: from,
+      arrow: span.error ? '--x' : '-->>',
+      text: getResponseText(span),
+      deactivate: true
+    };
+    if (!span.error) return [request, ...duration, ...nested, response];
+    return [
+      {
+        type: 'block',
+        kind: 'critical',
+        sections: [
+          { label: sequenceText(`${callee}: ${span.name}`), statements: [request, ...duration, ...nested] },
+          { label: sequenceText(`error: ${span.errorMessage ?? 'failed'}`), statements: [response] }
+        ]
+      }
+    ];
+  };
+
+  const drawn = new Set(roots.map((root) => root.id));
+
+  /** Statements for everything below `span`, drawn from `span.service`. */
+  const visit = (span: Span): SequenceStatement[] =>
+    (children.get(span.id) ?? []).flatMap((child): SequenceStatement[] => {
+      if (drawn.has(child.id) || !hasCapacity()) return [];
+      drawn.add(child.id);
+      if (child.service !== span.service) {
+        return call(span.service, child.service, child, () => visit(child));
+      }
+      // A client span whose server side is in the trace is drawn by that server span
+      if ((children.get(child.id) ?? []).some((grandchild) => grandchild.service !== child.service)) {
+        return visit(child);
+      }
+      const peer = child.kind === 'client' || child.kind === 'producer' ? getPeer(child) : undefined;
+      if (peer) return call(span.service, peer, child, () => visit(child));
+      if (options.showInternalSpans || child.error) return call(span.service, span.service, child, () => visit(child));
+      return visit(child);
+    });
+
+  roots.forEach((root) => {
+    if (root.kind === 'server' || root.kind === 'consumer') {
+      participant(CLIENT_ACTOR, 'actor');
+      model.statements.push(...call(CLIENT_ACTOR, root.service, root, () => visit(root)));
+    } else {
+      participant(root.service);
+      model.statements.push({
+        type: 'note',
+        placement: 'over',
+        participants: [participant(root.service)],
+        text: sequenceText(options.showDurations ? `${root.name} (${formatDuration(root.durationMs)})` : root.name)
+      });
+      model.statements.push(...visit(root));
+    }
+  });
+
+  if (truncated) {
+    warnings.push(`Only the first ${MAX_SEQUENCE_MESSAGES} calls of ${spans.length} spans are drawn`);
+  }
+
+  return {
+    mermaidCode: serializeDiagram(model),
+    diagramType: 'Sequence Diagram',
+    warnings
+  };
+};
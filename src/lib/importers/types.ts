@@ -0,0 +1,17 @@
+/** A figure an importer measured in its input, shown in the debugger's stats tab. */
+export interface ImportStat {
+  label: string;
+  value: string;
+}
+
+/**
+ * Result shared by every deterministic importer. Imported diagrams go through
+ * the same preview and debugger pipeline as generated ones; `warnings` lists
+ * input the importer skipped or could only partially represent.
+ */
+export interface ImportResult {
+  mermaidCode: string;
+  diagramType: string;
+  warnings: string[];
+  stats?: ImportStat[];
+}
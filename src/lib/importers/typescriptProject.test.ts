@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { importTypeScriptProject, TypeScriptImportOptions } from './typescriptProject';
+
+const OPTIONS: TypeScriptImportOptions = { folders: [], visibility: 'private', exportedOnly: false, groupByFolder: false };
+
+describe('importTypeScriptProject', () => {
+  it('draws classes, interfaces, inheritance and associations', async () => {
+    const result = await importTypeScriptProject(
+      [
+        {
+          path: 'repo-main/src/shapes.ts',
+          text: [
+            'export interface Shape { area(): number; }',
+            'export class Point { x: number; y: number; }',
+            'export class Circle implements Shape {',
+            '  constructor(private center: Point, public radius: number) {}',
+            '  area(): number { return Math.PI * this.radius ** 2; }',
+            '}'
+          ].join('\n')
+        },
+        { path: 'repo-main/src/shapes.test.ts', text: 'it("works", () => {});' }
+      ],
+      OPTIONS
+    );
+
+    expect(result.mermaidCode).toBe(
+      [
+        'classDiagram',
+        '    class Shape {',
+        '        <<interface>>',
+        '        +area() number',
+        '    }',
+        '    class Point {',
+        '        +number x',
+        '        +number y',
+        '    }',
+        '    class Circle {',
+        '        -Point center',
+        '        +number radius',
+        '        +area() number',
+        '    }',
+        '    Shape <|.. Circle',
+        '    Circle --> "1" Point : center'
+      ].join('\n')
+    );
+    expect(result.stats).toContainEqual({ label: 'Interfaces', value: '1' });
+    expect(result.warnings).toEqual(['Skipped 1 test file']);
+  });
+
+  it('keeps parenthesized array types as fields and generics on relabelled classes', async () => {
+    const result = await importTypeScriptProject(
+      [
+        { path: 'a.ts', text: 'type Role = "admin";\nexport class Box<T> { values: (Role | string)[]; item: T; }' },
+        { path: 'b.ts', text: 'export class Box<T> { value: T; }' }
+      ],
+      OPTIONS
+    );
+
+    expect(result.mermaidCode).toBe(
+      [
+        'classDiagram',
+        '    class Box~T~ {',
+        '        +Array~Role | string~ values',
+        '        +T item',
+        '    }',
+        '    class Box_2~T~["Box"] {',
+        '        +T value',
+        '    }'
+      ].join('\n')
+    );
+  });
+
+  it('reports uploads without TypeScript sources', async () => {
+    await expect(importTypeScriptProject([{ path: 'README.md', text: '# Hello' }], OPTIONS)).rejects.toThrow(
+      'No TypeScript sources found'
+    );
+  });
+});
@@ -0,0 +1,422 @@
+import type TypeScript from 'typescript';
+import { indent, quoteText } from '@/lib/diagram/text';
+import { createIdentifierAllocator } from './identifiers';
+import { ArchiveFile } from './zip';
+import { ImportResult } from './types';
+
+export type MemberVisibility = 'public' | 'protected' | 'private';
+
+export const MEMBER_VISIBILITIES: Array<{ id: MemberVisibility; label: string }> = [
+  { id: 'public', label: 'Public members' },
+  { id: 'protected', label: 'Public and protected' },
+  { id: 'private', label: 'All members' }
+];
+
+export interface TypeScriptImportOptions {
+  /** Folders (see listSourceFolders) to draw; empty draws every folder */
+  folders: string[];
+  /** Most restricted member visibility still listed */
+  visibility: MemberVisibility;
+  exportedOnly: boolean;
+  groupByFolder: boolean;
+}
+
+type TypeKind = 'class' | 'interface' | 'enum';
+
+interface CodeType {
+  name: string;
+  kind: TypeKind;
+  abstract: boolean;
+  typeParameters: string[];
+  folder: string;
+  exported: boolean;
+  declarations: TypeScript.Declaration[];
+  members: string[];
+}
+
+const VISIBILITY_RANK: Record<MemberVisibility, number> = { public: 0, protected: 1, private: 2 };
+const VISIBILITY_SYMBOL: Record<MemberVisibility, string> = { public: '+', protected: '#', private: '-' };
+
+// References wrapped in these hold any number of values
+const COLLECTION_TYPES = new Set(['Array', 'ReadonlyArray', 'Set', 'ReadonlySet', 'Map', 'ReadonlyMap', 'WeakMap', 'WeakSet', 'Record', 'Iterable', 'AsyncIterable']);
+
+// A class diagram past this size is unreadable; the folder filter is the way out
+const MAX_TYPES = 120;
+const MAX_TYPE_LENGTH = 40;
+const FOLDER_DEPTH = 2;
+
+const SOURCE_PATTERN = /\.[cm]?tsx?$/;
+const DECLARATION_PATTERN = /\.d\.[cm]?ts$/;
+const TEST_PATTERN = /\.(test|spec)\.[cm]?tsx?$|(^|\/)__tests__\//;
+const IGNORED_DIRECTORY_PATTERN = /(^|\/)(node_modules|dist|build|coverage|\.git)\//;
+
+/** Archive entries worth reading: TypeScript sources and the tsconfig that maps path aliases. */
+export const isProjectFile = (path: string): boolean =>
+  !IGNORED_DIRECTORY_PATTERN.test(path) && ((SOURCE_PATTERN.test(path) && !DECLARATION_PATTERN.test(path)) || /(^|\/)tsconfig[\w.-]*\.json$/.test(path));
+
+const isSource = (path: string) => SOURCE_PATTERN.test(path) && !DECLARATION_PATTERN.test(path);
+
+const getFolder = (path: string): string => {
+  const parts = path.split('/').slice(0, -1).slice(0, FOLDER_DEPTH);
+  return parts.length > 0 ? parts.join('/') : '.';
+};
+
+/** Drops the directory every file shares, such as the "repo-main/" GitHub puts in its archives. */
+export const stripCommonRoot = (files: ArchiveFile[]): ArchiveFile[] => {
+  const directories = files.map((file) => file.path.replace(/^\.?\//, '').split('/').slice(0, -1));
+  let depth = 0;
+  while (directories.every((parts) => parts.length > depth && parts[depth] === directories[0][depth])) depth++;
+  return files.map((file) => ({ ...file, path: file.path.replace(/^\.?\//, '').split('/').slice(depth).join('/') }));
+};
+
+/** Source folders, two levels deep, for the folder filter. */
+export const listSourceFolders = (files: ArchiveFile[]): string[] =>
+  [...new Set(files.filter((file) => isSource(file.path) && !TEST_PATTERN.test(file.path)).map((file) => getFolder(file.path)))].sort();
+
+const GROUPED_ARRAY = /\(([^()]*)\)\[\]/;
+
+const formatType = (text: string): string => {
+  let type = text.replace(/\s+/g, ' ').trim();
+  // Braces would close the class body and parentheses turn a field into a method
+  if (type.includes('=>')) type = 'Function';
+  else if (type.includes('{')) type = 'object';
+  // "(A | B)[]" keeps its meaning as "Array<A | B>"; other grouping parentheses can simply go
+  while (GROUPED_ARRAY.test(type)) type = type.replace(GROUPED_ARRAY, 'Array<$1>');
+  type = type.replace(/[()]/g, '').replace(/[<>]/g, '~');
+  return type.length > MAX_TYPE_LENGTH ? `${type.slice(0, MAX_TYPE_LENGTH - 1)}…` : type;
+};
+
+/**
+ * Builds a class diagram from TypeScript sources with the compiler API:
+ * classes, interfaces and enums with their members, inheritance, implemented
+ * interfaces, associations from typed properties (including constructor
+ * parameter properties) and dependencies from method signatures. The
+ * compiler is loaded on first use so it stays out of the main bundle.
+ */
+export const importTypeScriptProject = async (projectFiles: ArchiveFile[], options: TypeScriptImportOptions): Promise<ImportResult> => {
+  const ts: typeof TypeScript = (await import('typescript')).default;
+  const warnings: string[] = [];
+  const files = stripCommonRoot(projectFiles);
+  const tests = files.filter((file) => isSource(file.path) && TEST_PATTERN.test(file.path));
+  const sources = files.filter((file) => isSource(file.path) && !TEST_PATTERN.test(file.path));
+  if (sources.length === 0) {
+    throw new Error('No TypeScript sources found. Upload .ts files or a .zip of the project.');
+  }
+  if (tests.length > 0) warnings.push(`Skipped ${tests.length} test file${tests.length === 1 ? '' : 's'}`);
+
+  const texts = new Map(sources.map((file) => [`/${file.path}`, file.text]));
+  const compilerOptions: TypeScript.CompilerOptions = {
+    noLib: true,
+    noEmit: true,
+    types: [],
+    target: ts.ScriptTarget.ES2022,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    allowImportingTsExtensions: true,
+    jsx: ts.JsxEmit.Preserve
+  };
+  // Path aliases such as "@/*" only resolve with the project's own tsconfig
+  const tsconfig = files
+    .filter((file) => /(^|\/)tsconfig[\w.-]*\.json$/.test(file.path))
+    .map((file) => ({ file, config: ts.parseConfigFileTextToJson(file.path, file.text).config?.compilerOptions }))
+    .find(({ config }) => config?.paths);
+  if (tsconfig) {
+    const directory = `/${tsconfig.file.path}`.replace(/[^/]*$/, '');
+    compilerOptions.paths = tsconfig.config.paths;
+    compilerOptions.baseUrl = `${directory}${tsconfig.config.baseUrl ?? '.'}`;
+  }
+
+  const host: TypeScript.CompilerHost = {
+    getSourceFile: (fileName, languageVersion) => {
+      const text = texts.get(fileName);
+      return text === undefined ? undefined : ts.createSourceFile(fileName, text, languageVersion, true);
+    },
+    getDefaultLibFileName: () => '/lib.d.ts',
+    writeFile: () => undefined,
+    getCurrentDirectory: () => '/',
+    getCanonicalFileName: (fileName) => fileName,
+    useCaseSensitiveFileNames: () => true,
+    getNewLine: () => '\n',
+    fileExists: (fileName) => texts.has(fileName),
+    readFile: (fileName) => texts.get(fileName),
+    directoryExists: (directory) => [...texts.keys()].some((fileName) => fileName.startsWith(`${directory.replace(/\/$/, '')}/`))
+  };
+  const program = ts.createProgram({ rootNames: [...texts.keys()], options: compilerOptions, host });
+  const checker = program.getTypeChecker();
+
+  const withSyntaxErrors = program
+    .getSourceFiles()
+    .filter((sourceFile) => program.getSyntacticDiagnostics(sourceFile).length > 0)
+    .map((sourceFile) => sourceFile.fileName.slice(1));
+  if (withSyntaxErrors.length > 0) {
+    warnings.push(`Syntax errors in ${withSyntaxErrors.slice(0, 3).join(', ')}${withSyntaxErrors.length > 3 ? ` and ${withSyntaxErrors.length - 3} more` : ''}; their declarations may be incomplete`);
+  }
+
+  const bySymbol = new Map<TypeScript.Symbol, CodeType>();
+  const types: CodeType[] = [];
+
+  const resolveSymbol = (symbol: TypeScript.Symbol | undefined): TypeScript.Symbol | undefined =>
+    symbol && symbol.flags & ts.SymbolFlags.Alias ? checker.getAliasedSymbol(symbol) : symbol;
+
+  const hasModifier = (node: TypeScript.Node, kind: TypeScript.SyntaxKind) =>
+    ts.canHaveModifiers(node) && (ts.getModifiers(node) ?? []).some((modifier) => modifier.kind === kind);
+
+  // Pass 1: every class, interface and enum, so references across files resolve
+  program.getSourceFiles().forEach((sourceFile) => {
+    const path = sourceFile.fileName.slice(1);
+    const moduleSymbol = checker.getSymbolAtLocation(sourceFile);
+    const exports = new Set((moduleSymbol ? checker.getExportsOfModule(moduleSymbol) : []).map(resolveSymbol));
+
+    const visit = (statements: TypeScript.NodeArray<TypeScript.Statement>, inExportedNamespace: boolean) => {
+      statements.forEach((statement) => {
+        if (ts.isModuleDeclaration(statement) && statement.body && ts.isModuleBlock(statement.body)) {
+          visit(statement.body.statements, hasModifier(statement, ts.SyntaxKind.ExportKeyword));
+          return;
+        }
+        if (!ts.isClassDeclaration(statement) && !ts.isInterfaceDeclaration(statement) && !ts.isEnumDeclaration(statement)) return;
+        const symbol = statement.name ? checker.getSymbolAtLocation(statement.name) : checker.getSymbolAtLocation(sourceFile)?.exports?.get('default' as TypeScript.__String);
+        if (!symbol) return;
+        const existing = bySymbol.get(symbol);
+        if (existing) {
+          // Merged interface declarations add to the first one
+          existing.declarations.push(statement);
+          return;
+        }
+        const codeType: CodeType = {
+          name: statement.name?.text ?? path.replace(/^.*\//, '').replace(SOURCE_PATTERN, ''),
+          kind: ts.isClassDeclaration(statement) ? 'class' : ts.isInterfaceDeclaration(statement) ? 'interface' : 'enum',
+          abstract: hasModifier(statement, ts.SyntaxKind.AbstractKeyword),
+          typeParameters: ts.isEnumDeclaration(statement) ? [] : (statement.typeParameters ?? []).map((parameter) => parameter.name.text),
+          folder: getFolder(path),
+          exported: exports.has(symbol) || (inExportedNamespace && hasModifier(statement, ts.SyntaxKind.ExportKeyword)),
+          declarations: [statement],
+          members: []
+        };
+        bySymbol.set(symbol, codeType);
+        types.push(codeType);
+      });
+    };
+    visit(sourceFile.statements, false);
+  });
+
+  const included = types.filter(
+    (type) =>
+      (options.folders.length === 0 || options.folders.includes(type.folder)) &&
+      (!options.exportedOnly || type.exported)
+  );
+  if (included.length === 0) {
+    throw new Error('No classes, interfaces or enums match the selected folders');
+  }
+  if (included.length > MAX_TYPES) {
+    warnings.push(`Showing the first ${MAX_TYPES} of ${included.length} types; narrow the folders to see the rest`);
+    included.splice(MAX_TYPES);
+  }
+  const drawn = new Set(included);
+
+  const lookup = (node: TypeScript.Node): CodeType | undefined => {
+    const type = bySymbol.get(resolveSymbol(checker.getSymbolAtLocation(node)));
+    return type && drawn.has(type) ? type : undefined;
+  };
+
+  interface Reference {
+    type: CodeType;
+    many: boolean;
+    /** Named inside a function type, so a dependency rather than a held value */
+    indirect: boolean;
+  }
+
+  /** Project types named in a type annotation, and whether they sit inside a collection. */
+  const collectReferences = (typeNode: TypeScript.TypeNode | undefined, inCollection = false): Reference[] => {
+    const references: Reference[] = [];
+    const walk = (node: TypeScript.Node, many: boolean, indirect: boolean) => {
+      if (ts.isTypeReferenceNode(node)) {
+        const name = ts.isQualifiedName(node.typeName) ? node.typeName.right : node.typeName;
+        const target = lookup(name);
+        if (target) references.push({ type: target, many, indirect });
+        const isCollection = COLLECTION_TYPES.has(name.text);
+        (node.typeArguments ?? []).forEach((argument) => walk(argument, many || isCollection, indirect));
+        return;
+      }
+      const isFunction = ts.isFunctionTypeNode(node) || ts.isConstructorTypeNode(node);
+      ts.forEachChild(node, (child) => walk(child, many || ts.isArrayTypeNode(node), indirect || isFunction));
+    };
+    if (typeNode) walk(typeNode, inCollection, false);
+    return references;
+  };
+
+  /** References of a property, falling back to its initializer for `cache = new Map<string, User>()`. */
+  const getPropertyReferences = (node: TypeScript.PropertyDeclaration | TypeScript.PropertySignature | TypeScript.ParameterDeclaration): Reference[] => {
+    if (node.type) return collectReferences(node.type);
+    const initializer = ts.isPropertySignature(node) ? undefined : node.initializer;
+    if (initializer && ts.isNewExpression(initializer)) {
+      const target = lookup(initializer.expression);
+      const isCollection = COLLECTION_TYPES.has(initializer.expression.getText());
+      return [
+        ...(target ? [{ type: target, many: false, indirect: false }] : []),
+        ...(initializer.typeArguments ?? []).flatMap((argument) => collectReferences(argument, isCollection))
+      ];
+    }
+    return [];
+  };
+
+  const isOptional = (node: TypeScript.Node & { questionToken?: TypeScript.QuestionToken; type?: TypeScript.TypeNode }) =>
+    Boolean(node.questionToken) ||
+    Boolean(node.type && ts.isUnionTypeNode(node.type) && node.type.types.some((member) => member.kind === ts.SyntaxKind.UndefinedKeyword || (ts.isLiteralTypeNode(member) && member.literal.kind === ts.SyntaxKind.NullKeyword)));
+
+  const getVisibility = (member: TypeScript.Node): MemberVisibility => {
+    if ((member as TypeScript.ClassElement).name && ts.isPrivateIdentifier((member as TypeScript.ClassElement).name)) return 'private';
+    if (hasModifier(member, ts.SyntaxKind.PrivateKeyword)) return 'private';
+    if (hasModifier(member, ts.SyntaxKind.ProtectedKeyword)) return 'protected';
+    return 'public';
+  };
+
+  /** Declared type, or the constructed or inferred one; optional members drop "| undefined" since they get a "?". */
+  const describeType = (node: TypeScript.Node & { type?: TypeScript.TypeNode; initializer?: TypeScript.Expression }): string => {
+    const initializer = node.initializer;
+    const text = node.type
+      ? node.type.getText()
+      : initializer && ts.isNewExpression(initializer)
+        ? `${initializer.expression.getText()}${initializer.typeArguments ? `<${initializer.typeArguments.map((argument) => argument.getText()).join(', ')}>` : ''}`
+        : checker.typeToString(checker.getTypeAtLocation(node));
+    return formatType(isOptional(node) ? text.replace(/\s*\|\s*(undefined|null)\b/g, '') : text);
+  };
+
+  const lines = ['classDiagram'];
+  const allocateId = createIdentifierAllocator();
+  const ids = new Map(included.map((type, index) => [type, allocateId(`${index}`, type.name)]));
+  const edges = new Map<string, string>();
+  // Pairs already joined by an association need no dependency arrow as well
+  const associated = new Set<string>();
+  const dependencies = new Map<string, string>();
+  const externalBases = new Map<string, number>();
+
+  // Pass 2: members and relationships of the drawn types
+  included.forEach((type) => {
+    const id = ids.get(type);
+    const isShown = (member: TypeScript.Node) => type.kind !== 'class' || VISIBILITY_RANK[getVisibility(member)] <= VISIBILITY_RANK[options.visibility];
+    const suffix = (member: TypeScript.Node) =>
+      `${hasModifier(member, ts.SyntaxKind.StaticKeyword) ? '$' : ''}${hasModifier(member, ts.SyntaxKind.AbstractKeyword) ? '*' : ''}`;
+
+    const depend = (references: Reference[]) => {
+      references.forEach(({ type: target }) => {
+        const targetId = ids.get(target);
+        if (target !== type) dependencies.set(`${id}->${targetId}`, `${id} ..> ${targetId}`);
+      });
+    };
+
+    const associate = (name: string, references: Reference[], optional: boolean) => {
+      depend(references.filter((reference) => reference.indirect));
+      references
+        .filter((reference) => !reference.indirect)
+        .forEach((reference) => {
+          const targetId = ids.get(reference.type);
+          const multiplicity = reference.many ? '*' : optional ? '0..1' : '1';
+          edges.set(`${id}->${targetId}:${name}`, `${id} --> "${multiplicity}" ${targetId} : ${name}`);
+          associated.add(`${id}->${targetId}`);
+        });
+    };
+
+    type.declarations.forEach((declaration) => {
+      if (ts.isEnumDeclaration(declaration)) {
+        declaration.members.forEach((member) => type.members.push(member.name.getText()));
+        return;
+      }
+      const classLike = declaration as TypeScript.ClassDeclaration | TypeScript.InterfaceDeclaration;
+
+      (classLike.heritageClauses ?? []).forEach((clause) => {
+        const implementing = clause.token === ts.SyntaxKind.ImplementsKeyword;
+        clause.types.forEach((heritage) => {
+          const parent = lookup(heritage.expression);
+          if (parent) {
+            edges.set(`${ids.get(parent)}<|${id}`, `${ids.get(parent)} ${implementing ? '<|..' : '<|--'} ${id}`);
+          } else if (!implementing && !bySymbol.has(resolveSymbol(checker.getSymbolAtLocation(heritage.expression)))) {
+            const name = heritage.expression.getText();
+            externalBases.set(name, (externalBases.get(name) ?? 0) + 1);
+          }
+        });
+      });
+
+      classLike.members.forEach((member: TypeScript.ClassElement | TypeScript.TypeElement) => {
+        // Hidden members take their relationships with them
+        if (ts.isConstructorDeclaration(member)) {
+          member.parameters.forEach((parameter) => {
+            const isProperty = ts.isParameterPropertyDeclaration(parameter, member);
+            if (!isProperty || !isShown(parameter)) {
+              if (isShown(member)) depend(collectReferences(parameter.type));
+              return;
+            }
+            const name = parameter.name.getText();
+            associate(name, getPropertyReferences(parameter), isOptional(parameter));
+            type.members.push(`${VISIBILITY_SYMBOL[getVisibility(parameter)]}${describeType(parameter)}${isOptional(parameter) ? '?' : ''} ${name}`);
+          });
+          return;
+        }
+        if (!isShown(member)) return;
+        if (ts.isPropertyDeclaration(member) || ts.isPropertySignature(member) || ts.isGetAccessorDeclaration(member)) {
+          const name = member.name.getText();
+          const optional = !ts.isGetAccessorDeclaration(member) && isOptional(member);
+          if (ts.isGetAccessorDeclaration(member)) depend(collectReferences(member.type));
+          else associate(name, getPropertyReferences(member), optional);
+          type.members.push(`${VISIBILITY_SYMBOL[getVisibility(member)]}${describeType(member)}${optional ? '?' : ''} ${name}${suffix(member)}`);
+          return;
+        }
+        if (ts.isMethodDeclaration(member) || ts.isMethodSignature(member)) {
+          depend([...member.parameters.map((parameter) => parameter.type), member.type].flatMap((typeNode) => collectReferences(typeNode)));
+          const parameters = member.parameters.map((parameter) => `${parameter.type ? describeType(parameter) : 'any'}${isOptional(parameter) ? '?' : ''} ${parameter.name.getText()}`);
+          const returns = member.type ? ` ${formatType(member.type.getText())}` : '';
+          type.members.push(`${VISIBILITY_SYMBOL[getVisibility(member)]}${member.name.getText()}(${parameters.join(', ')})${suffix(member)}${returns}`);
+        }
+      });
+    });
+  });
+
+  const annotations: Partial<Record<TypeKind, string>> = { interface: 'interface', enum: 'enumeration' };
+  const renderType = (type: CodeType, depth: number) => {
+    const id = ids.get(type);
+    const generic = type.typeParameters.length > 0 ? `~${type.typeParameters.join(', ')}~` : '';
+    const header = `class ${id}${generic}${id !== type.name ? `[${quoteText(type.name)}]` : ''}`;
+    const annotation = type.abstract ? 'abstract' : annotations[type.kind];
+    if (!annotation && type.members.length === 0) {
+      lines.push(`${indent(depth)}${header}`);
+      return;
+    }
+    lines.push(`${indent(depth)}${header} {`);
+    if (annotation) lines.push(`${indent(depth + 1)}<<${annotation}>>`);
+    type.members.forEach((member) => lines.push(`${indent(depth + 1)}${member}`));
+    lines.push(`${indent(depth)}}`);
+  };
+
+  if (options.groupByFolder) {
+    const folders = [...new Set(included.map((type) => type.folder))];
+    folders.forEach((folder) => {
+      lines.push(`${indent(1)}namespace ${allocateId(`folder:${folder}`, folder === '.' ? 'root' : folder)} {`);
+      included.filter((type) => type.folder === folder).forEach((type) => renderType(type, 2));
+      lines.push(`${indent(1)}}`);
+    });
+  } else {
+    included.forEach((type) => renderType(type, 1));
+  }
+  const associations = edges.size;
+  dependencies.forEach((edge, key) => {
+    if (!associated.has(key)) edges.set(key, edge);
+  });
+  edges.forEach((edge) => lines.push(`${indent(1)}${edge}`));
+
+  if (externalBases.size > 0) {
+    warnings.push(`Base classes from outside the uploaded files are not drawn: ${[...externalBases.keys()].join(', ')}`);
+  }
+  const count = (kind: TypeKind) => String(included.filter((type) => type.kind === kind).length);
+
+  return {
+    mermaidCode: lines.join('\n'),
+    diagramType: 'Class Diagram',
+    warnings,
+    stats: [
+      { label: 'Source files', value: String(sources.length) },
+      { label: 'Classes', value: count('class') },
+      { label: 'Interfaces', value: count('interface') },
+      { label: 'Enums', value: count('enum') },
+      { label: 'Associations', value: String(associations) }
+    ]
+  };
+};
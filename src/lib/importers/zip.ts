@@ -0,0 +1,65 @@
+/**
+ * Minimal ZIP reader for uploaded archives: stored and deflated entries only,
+ * inflated with the browser's DecompressionStream. Enough for source
+ * archives from GitHub or `zip -r`; ZIP64 and encrypted archives are rejected.
+ */
+
+export interface ArchiveFile {
+  path: string;
+  text: string;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const findEndOfCentralDirectory = (view: DataView): number => {
+  // The record is 22 bytes plus a comment of at most 64 KiB
+  const lowest = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let offset = view.byteLength - 22; offset >= lowest; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  throw new Error('Not a ZIP archive');
+};
+
+/** Reads the text files in an archive whose path passes `include`; other entries are never inflated. */
+export const readZipTextFiles = async (buffer: ArrayBuffer, include: (path: string) => boolean): Promise<ArchiveFile[]> => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+  const end = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  if (offset === 0xffffffff || entryCount === 0xffff) {
+    throw new Error('ZIP64 archives are not supported; zip fewer files or upload the .ts files directly');
+  }
+
+  const files: ArchiveFile[] = [];
+  for (let index = 0; index < entryCount; index++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) throw new Error('The ZIP archive is corrupt');
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const path = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith('/') || !include(path)) continue;
+    if (flags & 1) throw new Error(`${path} is encrypted; password-protected archives are not supported`);
+    if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) throw new Error('The ZIP archive is corrupt');
+
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+    if (method !== 0 && method !== 8) throw new Error(`${path} uses an unsupported compression method (${method})`);
+    files.push({ path, text: decoder.decode(method === 8 ? await inflateRaw(data) : data) });
+  }
+  return files;
+};
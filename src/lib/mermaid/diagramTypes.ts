@@ -0,0 +1,342 @@
+export interface DiagramTypeDefinition {
+  id: string;
+  label: string;
+  /** Declaration written on the first line when this type is forced */
+  header: string;
+  /** Declaration keywords that identify this type in existing code */
+  keywords: string[];
+  instructions: string;
+  example: string;
+}
+
+export const AUTO_DIAGRAM_TYPE = 'auto';
+
+export const DIAGRAM_TYPES: DiagramTypeDefinition[] = [
+  {
+    id: 'flowchart',
+    label: 'Flowchart',
+    header: 'flowchart TD',
+    keywords: ['flowchart', 'graph'],
+    instructions: `Use flowchart syntax with a TD or LR direction. Use [] for steps, {} for decisions,
+[( )] for databases and subgraphs for pipeline stages. Label edges with -->|label|.`,
+    example: `flowchart LR
+    subgraph Ingestion
+        A[API] --> B[(Raw Storage)]
+    end
+    B --> C{Valid?}
+    C -->|Yes| D[Transform]
+    C -->|No| E[Quarantine]
+    D --> F[(Warehouse)]`
+  },
+  {
+    id: 'sequenceDiagram',
+    label: 'Sequence Diagram',
+    header: 'sequenceDiagram',
+    keywords: ['sequenceDiagram'],
+    instructions: `Declare every participant first. Use ->> for requests, -->> for responses,
+Note over for commentary and alt/opt/loop blocks for conditional or repeated steps.`,
+    example: `sequenceDiagram
+    participant U as User
+    participant A as API
+    participant D as Database
+    U->>A: Submit order
+    A->>D: Insert order
+    alt Insert succeeded
+        D-->>A: Order ID
+        A-->>U: 201 Created
+    else Constraint violation
+        D-->>A: Error
+        A-->>U: 409 Conflict
+    end`
+  },
+  {
+    id: 'classDiagram',
+    label: 'Class Diagram',
+    header: 'classDiagram',
+    keywords: ['classDiagram'],
+    instructions: `Declare classes with typed members and methods. Use <|-- for inheritance,
+*-- for composition, o-- for aggregation and --> for associations with cardinality labels.`,
+    example: `classDiagram
+    class Pipeline {
+        +String name
+        +run() bool
+    }
+    class Step {
+        <<interface>>
+        +execute()
+    }
+    Pipeline "1" *-- "many" Step : contains
+    Step <|.. ExtractStep`
+  },
+  {
+    id: 'erDiagram',
+    label: 'Entity Relationship Diagram',
+    header: 'erDiagram',
+    keywords: ['erDiagram'],
+    instructions: `Declare every entity with typed attributes and mark keys with PK and FK.
+Use crow's foot cardinality (||--o{, }|--|{, ||--||) and a short verb phrase for every relationship.`,
+    example: `erDiagram
+    CUSTOMER ||--o{ ORDER : places
+    ORDER ||--|{ LINE_ITEM : contains
+    CUSTOMER {
+        int id PK
+        string name
+        string email
+    }
+    ORDER {
+        int id PK
+        int customer_id FK
+        date created_at
+    }`
+  },
+  {
+    id: 'stateDiagram',
+    label: 'State Diagram',
+    header: 'stateDiagram-v2',
+    keywords: ['stateDiagram-v2', 'stateDiagram'],
+    instructions: `Use [*] for start and end states, label transitions with the triggering event
+and use composite states for nested lifecycles.`,
+    example: `stateDiagram-v2
+    [*] --> Queued
+    Queued --> Running : worker picks up
+    Running --> Succeeded : exit 0
+    Running --> Failed : error
+    Failed --> Queued : retry
+    Succeeded --> [*]`
+  },
+  {
+    id: 'gantt',
+    label: 'Gantt Chart',
+    header: 'gantt',
+    keywords: ['gantt'],
+    instructions: `Include a title and dateFormat, group tasks into sections and use task ids with
+"after" dependencies rather than hard-coded dates where possible.`,
+    example: `gantt
+    title Warehouse Migration
+    dateFormat YYYY-MM-DD
+    section Planning
+        Inventory sources :a1, 2024-01-01, 7d
+    section Build
+        Build pipelines :a2, after a1, 14d
+        Backfill :a3, after a2, 5d`
+  },
+  {
+    id: 'journey',
+    label: 'User Journey',
+    header: 'journey',
+    keywords: ['journey'],
+    instructions: `Include a title, group steps into sections and give every step a 1-5 score
+followed by the actors involved.`,
+    example: `journey
+    title Analyst requests a new dashboard
+    section Request
+        File ticket: 3: Analyst
+        Triage: 4: Data Engineer
+    section Delivery
+        Build model: 3: Data Engineer
+        Review dashboard: 5: Analyst`
+  },
+  {
+    id: 'pie',
+    label: 'Pie Chart',
+    header: 'pie',
+    keywords: ['pie'],
+    instructions: 'Include a title and one quoted label with a numeric value per slice.',
+    example: `pie title Storage by layer
+    "Raw" : 45
+    "Staging" : 30
+    "Marts" : 25`
+  },
+  {
+    id: 'mindmap',
+    label: 'Mindmap',
+    header: 'mindmap',
+    keywords: ['mindmap'],
+    instructions: 'Use indentation to express hierarchy, starting from a single root node.',
+    example: `mindmap
+  root((Data Platform))
+    Ingestion
+      Kafka
+      Fivetran
+    Storage
+      Lakehouse
+    Serving
+      BI
+      APIs`
+  },
+  {
+    id: 'timeline',
+    label: 'Timeline',
+    header: 'timeline',
+    keywords: ['timeline'],
+    instructions: 'Include a title and one "period : event" line per milestone.',
+    example: `timeline
+    title Platform history
+    2021 : Nightly batch ETL
+    2022 : Streaming ingestion
+    2023 : dbt adoption : Data contracts`
+  },
+  {
+    id: 'gitGraph',
+    label: 'Git Graph',
+    header: 'gitGraph',
+    keywords: ['gitGraph'],
+    instructions: 'Use commit, branch, checkout and merge commands in chronological order.',
+    example: `gitGraph
+    commit
+    branch feature
+    checkout feature
+    commit
+    checkout main
+    merge feature`
+  },
+  {
+    id: 'quadrantChart',
+    label: 'Quadrant Chart',
+    header: 'quadrantChart',
+    keywords: ['quadrantChart'],
+    instructions: 'Name both axes and all four quadrants, and place points with coordinates between 0 and 1.',
+    example: `quadrantChart
+    title Pipeline prioritisation
+    x-axis Low Effort --> High Effort
+    y-axis Low Impact --> High Impact
+    quadrant-1 Plan
+    quadrant-2 Do first
+    quadrant-3 Skip
+    quadrant-4 Delegate
+    Orders CDC: [0.3, 0.8]
+    Legacy export: [0.7, 0.2]`
+  },
+  {
+    id: 'requirementDiagram',
+    label: 'Requirement Diagram',
+    header: 'requirementDiagram',
+    keywords: ['requirementDiagram'],
+    instructions: 'Declare requirements and elements as blocks, then relate them with satisfies, traces or verifies.',
+    example: `requirementDiagram
+    requirement freshness {
+        id: 1
+        text: Data is at most one hour old
+        risk: medium
+        verifymethod: test
+    }
+    element ingestion_job {
+        type: pipeline
+    }
+    ingestion_job - satisfies -> freshness`
+  },
+  {
+    id: 'c4',
+    label: 'C4 Diagram',
+    header: 'C4Context',
+    keywords: ['C4Context', 'C4Container', 'C4Component', 'C4Dynamic', 'C4Deployment'],
+    instructions: 'Declare people, systems and boundaries first, then connect them with Rel statements.',
+    example: `C4Context
+    title Analytics platform
+    Person(analyst, "Analyst")
+    System(warehouse, "Warehouse")
+    System_Ext(crm, "CRM")
+    Rel(crm, warehouse, "Syncs nightly")
+    Rel(analyst, warehouse, "Queries")`
+  },
+  {
+    id: 'sankey',
+    label: 'Sankey Diagram',
+    header: 'sankey-beta',
+    keywords: ['sankey-beta'],
+    instructions: 'Write one "source,target,value" CSV row per flow with no header row.',
+    example: `sankey-beta
+Kafka,Bronze,120
+Bronze,Silver,100
+Silver,Gold,80`
+  },
+  {
+    id: 'xychart',
+    label: 'XY Chart',
+    header: 'xychart-beta',
+    keywords: ['xychart-beta'],
+    instructions: 'Include a title, an x-axis with categories, a y-axis with a range and at least one bar or line series.',
+    example: `xychart-beta
+    title "Daily rows loaded"
+    x-axis [Mon, Tue, Wed, Thu, Fri]
+    y-axis "Rows (M)" 0 --> 50
+    bar [12, 18, 25, 30, 22]`
+  },
+  {
+    id: 'block',
+    label: 'Block Diagram',
+    header: 'block-beta',
+    keywords: ['block-beta'],
+    instructions: 'Set a column count, declare blocks and connect them with arrows.',
+    example: `block-beta
+    columns 3
+    source["Source"] etl["ETL"] warehouse[("Warehouse")]
+    source --> etl
+    etl --> warehouse`
+  },
+  {
+    id: 'architecture',
+    label: 'Architecture Diagram',
+    header: 'architecture-beta',
+    keywords: ['architecture-beta'],
+    instructions: 'Declare groups and services with icons, then connect service sides with L, R, T and B anchors.',
+    example: `architecture-beta
+    group platform(cloud)[Platform]
+    service api(server)[API] in platform
+    service db(database)[Database] in platform
+    api:R --> L:db`
+  }
+];
+
+export const getDiagramTypeDefinition = (id: string): DiagramTypeDefinition | undefined =>
+  DIAGRAM_TYPES.find((definition) => definition.id === id);
+
+/** Returns the index of the line holding the diagram declaration, skipping front matter, directives and comments. */
+const findDeclarationLine = (lines: string[]): number => {
+  let inFrontMatter = false;
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index].trim();
+    if (line === '---') {
+      inFrontMatter = !inFrontMatter;
+      continue;
+    }
+    if (inFrontMatter || !line || line.startsWith('%%')) continue;
+    return index;
+  }
+  return -1;
+};
+
+const matchKeyword = (line: string): DiagramTypeDefinition | undefined => {
+  const keyword = line.trim().split(/\s+/)[0];
+  return DIAGRAM_TYPES.find((definition) => definition.keywords.includes(keyword));
+};
+
+export const detectDiagramType = (mermaidCode: string): DiagramTypeDefinition | undefined => {
+  const lines = mermaidCode.split('\n');
+  const declarationLine = findDeclarationLine(lines);
+  return declarationLine === -1 ? undefined : matchKeyword(lines[declarationLine]);
+};
+
+/**
+ * Makes sure the code is declared as the given diagram type. A declaration of
+ * another type is replaced; a missing declaration is added.
+ */
+export const enforceDiagramHeader = (mermaidCode: string, definition: DiagramTypeDefinition): string => {
+  const lines = mermaidCode.split('\n');
+  const declarationLine = findDeclarationLine(lines);
+
+  if (declarationLine === -1) {
+    return [definition.header, ...lines].join('\n');
+  }
+
+  const declaredType = matchKeyword(lines[declarationLine]);
+  if (declaredType?.id === definition.id) {
+    return mermaidCode;
+  }
+  if (declaredType) {
+    lines[declarationLine] = definition.header;
+  } else {
+    lines.splice(declarationLine, 0, definition.header);
+  }
+  return lines.join('\n');
+};
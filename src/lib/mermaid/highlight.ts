@@ -0,0 +1,59 @@
+export type MermaidTokenType =
+  | 'keyword'
+  | 'arrow'
+  | 'string'
+  | 'comment'
+  | 'label'
+  | 'bracket'
+  | 'text';
+
+export interface MermaidToken {
+  type: MermaidTokenType;
+  value: string;
+}
+
+const KEYWORDS = [
+  'flowchart', 'graph', 'sequenceDiagram', 'classDiagram', 'erDiagram',
+  'stateDiagram-v2', 'stateDiagram', 'journey', 'gantt', 'pie', 'mindmap',
+  'timeline', 'gitGraph', 'architecture-beta', 'subgraph', 'end', 'direction',
+  'participant', 'actor', 'activate', 'deactivate', 'autonumber', 'note',
+  'loop', 'alt', 'else', 'opt', 'par', 'and', 'critical', 'break', 'rect',
+  'class', 'classDef', 'style', 'linkStyle', 'click', 'state', 'section',
+  'title', 'dateFormat', 'axisFormat', 'over', 'left of', 'right of',
+  'TD', 'TB', 'BT', 'LR', 'RL'
+];
+
+// Order matters: longer and more specific patterns must be tried first.
+const TOKEN_PATTERNS: Array<[MermaidTokenType, RegExp]> = [
+  ['comment', /%%.*/y],
+  ['string', /"[^"]*"?/y],
+  ['arrow', /<\|--|\*--|o--|--[|*o>]|[|}][|o]--[|o][|{]|[|}][|o]\.\.[|o][|{]|<?-->>|<?->>|-\)|--x|-x|<?-\.+->?|<?=+>|<?-{2,}>?|\.\.>|\.\./y],
+  ['label', /\|[^|]*\|?/y],
+  ['bracket', /[[\](){}]/y],
+  ['keyword', new RegExp(`(?<![\\w-])(?:${KEYWORDS.map((k) => k.replace(/-/g, '\\-')).join('|')})(?![\\w-])`, 'y')],
+  ['text', /\w+|\s+|./y]
+];
+
+export const tokenizeMermaidLine = (line: string): MermaidToken[] => {
+  const tokens: MermaidToken[] = [];
+  let position = 0;
+
+  while (position < line.length) {
+    for (const [type, pattern] of TOKEN_PATTERNS) {
+      pattern.lastIndex = position;
+      const match = pattern.exec(line);
+      if (match && match[0].length > 0) {
+        const previous = tokens[tokens.length - 1];
+        if (type === 'text' && previous?.type === 'text') {
+          previous.value += match[0];
+        } else {
+          tokens.push({ type, value: match[0] });
+        }
+        position += match[0].length;
+        break;
+      }
+    }
+  }
+
+  return tokens;
+};
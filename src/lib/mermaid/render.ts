@@ -0,0 +1,133 @@
+import mermaid, { MermaidConfig } from 'mermaid';
+import { splitSource } from '@/lib/diagram/text';
+import { DEFAULT_DIAGRAM_THEME, DiagramTheme, normalizeTheme } from './themes';
+
+/**
+ * `strict` sanitizes the SVG and disables `click` directives; `sandbox`
+ * renders into a script-less iframe. `loose` is only used when click
+ * handlers are explicitly allowed, because Mermaid runs them nowhere else.
+ */
+export type RenderSecurityLevel = 'strict' | 'sandbox';
+
+export interface MermaidRenderOptions {
+  securityLevel?: RenderSecurityLevel;
+  /** Opt in to `click` callbacks and links; renders with Mermaid's loose security level */
+  allowClickHandlers?: boolean;
+  /** Base theme and variable overrides; directives in the code still take precedence */
+  theme?: DiagramTheme;
+}
+
+export interface MermaidRenderError {
+  message: string;
+  /** 1-based source line, when Mermaid reports one */
+  line?: number;
+}
+
+export type MermaidRenderResult =
+  | {
+      kind: 'rendered';
+      svg: string;
+      diagramType: string;
+      /** Wires up click handlers; only present when they were allowed */
+      bindFunctions?: (element: Element) => void;
+    }
+  | { kind: 'failed'; error: MermaidRenderError };
+
+const BASE_CONFIG: MermaidConfig = {
+  startOnLoad: false,
+  // Errors come back as results; Mermaid's own error graphic would be rendered into the page
+  suppressErrorRendering: true,
+  // Imported lineage and dependency graphs routinely exceed the default of 500
+  maxEdges: 2000,
+  flowchart: {
+    useMaxWidth: true,
+    htmlLabels: true,
+    curve: 'basis'
+  },
+  er: {
+    useMaxWidth: true
+  },
+  sequence: {
+    useMaxWidth: true,
+    showSequenceNumbers: true
+  },
+  class: {
+    useMaxWidth: true
+  },
+  state: {
+    useMaxWidth: true
+  },
+  journey: {
+    useMaxWidth: true
+  },
+  gantt: {
+    useMaxWidth: true
+  }
+};
+
+// Mermaid keeps its configuration in module state, so renders run one at a time
+let renderQueue: Promise<unknown> = Promise.resolve();
+let renderCounter = 0;
+let activeConfigKey: string | undefined;
+
+interface MermaidErrorDetails {
+  message?: string;
+  hash?: { line?: number; loc?: { first_line?: number } };
+}
+
+/**
+ * Normalizes a Mermaid error. Mermaid drops everything before the diagram
+ * declaration (front matter, directives, comments) before parsing and counts
+ * lines from there, so its line numbers are shifted back onto the source.
+ */
+export const toRenderError = (err: unknown, mermaidCode: string): MermaidRenderError => {
+  const details = (typeof err === 'object' && err !== null ? err : {}) as MermaidErrorDetails;
+  const offset = (splitSource(mermaidCode).declaration?.line ?? 1) - 1;
+  const message = (err instanceof Error ? err.message : details.message ?? String(err))
+    .trim()
+    .replace(/\b(line )(\d+)/gi, (_, word: string, line: string) => `${word}${Number(line) + offset}`);
+  const reported = details.hash?.loc?.first_line ?? (details.hash?.line !== undefined ? details.hash.line + 1 : undefined);
+  const mentioned = /\bline (\d+)/i.exec(message)?.[1];
+  const line = reported !== undefined ? reported + offset : mentioned ? Number(mentioned) : undefined;
+  return line ? { message, line } : { message };
+};
+
+const renderNow = async (mermaidCode: string, options: MermaidRenderOptions): Promise<MermaidRenderResult> => {
+  const securityLevel = options.allowClickHandlers ? 'loose' : options.securityLevel ?? 'strict';
+
+  // Mermaid needs the diagram in the document to measure text; keep it off-screen and out of the app's tree
+  const scratch = document.createElement('div');
+  scratch.setAttribute('aria-hidden', 'true');
+  scratch.style.cssText = 'position:absolute;left:-10000px;top:0;width:1200px;visibility:hidden';
+  document.body.appendChild(scratch);
+  try {
+    // Theme values Mermaid rejects surface here, as a failed render rather than a rejected promise
+    const { base, themeVariables } = normalizeTheme(options.theme ?? DEFAULT_DIAGRAM_THEME);
+    const configKey = JSON.stringify([securityLevel, base, themeVariables]);
+    if (configKey !== activeConfigKey) {
+      activeConfigKey = undefined;
+      mermaid.initialize({ ...BASE_CONFIG, securityLevel, theme: base, themeVariables });
+      activeConfigKey = configKey;
+    }
+    const { svg, diagramType, bindFunctions } = await mermaid.render(`mermaid-render-${++renderCounter}`, mermaidCode, scratch);
+    return { kind: 'rendered', svg, diagramType, bindFunctions: options.allowClickHandlers ? bindFunctions : undefined };
+  } catch (err) {
+    return { kind: 'failed', error: toRenderError(err, mermaidCode) };
+  } finally {
+    scratch.remove();
+  }
+};
+
+/**
+ * Renders Mermaid code to an SVG string without touching the caller's DOM.
+ * Never throws: syntax and layout failures come back as `failed` results with
+ * the line Mermaid blamed, when it named one.
+ */
+export const renderMermaid = (mermaidCode: string, options: MermaidRenderOptions = {}): Promise<MermaidRenderResult> => {
+  const result = renderQueue
+    .then(() => renderNow(mermaidCode, options))
+    .catch((err): MermaidRenderResult => ({ kind: 'failed', error: toRenderError(err, mermaidCode) }));
+  // A failed render must not stall the renders queued behind it
+  renderQueue = result.catch(() => undefined);
+  return result;
+};
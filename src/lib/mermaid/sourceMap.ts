@@ -0,0 +1,75 @@
+import { parseDiagram } from '@/lib/diagram/diagram';
+import { FlowSubgraph } from '@/lib/diagram/model';
+
+/**
+ * Links between a diagram's source lines and the elements Mermaid draws for
+ * them. Keys name elements independently of the SVG's generated ids:
+ * `node:A`, `subgraph:S` and `edge:L_A_B_0`, which is Mermaid's own edge id.
+ */
+export interface DiagramSourceMap {
+  lineByKey: Map<string, number>;
+  keysByLine: Map<number, string[]>;
+}
+
+export const HIGHLIGHT_CLASS = 'diagram-source-highlight';
+
+const LINKED_ELEMENTS = 'g.node, g.cluster, [data-edge="true"], .edgeLabel [data-id]';
+// Node groups are "<svg id>-flowchart-<node id>-<counter>"
+const NODE_DOM_ID = /^flowchart-(.+)-\d+$/;
+
+/** Mermaid names subgraphs declared with only a title "subGraph<n>", counting every subgraph before it. */
+const toMermaidSubgraphId = (subgraph: FlowSubgraph, index: number): string =>
+  subgraph.label !== undefined && subgraph.id === `subgraph${index + 1}` ? `subGraph${index}` : subgraph.id;
+
+export const buildSourceMap = (mermaidCode: string): DiagramSourceMap => {
+  const sourceMap: DiagramSourceMap = { lineByKey: new Map(), keysByLine: new Map() };
+  const model = parseDiagram(mermaidCode);
+  // Other diagram types name their SVG elements after their own schemes; only flowcharts are linked
+  if (model.kind !== 'flowchart') return sourceMap;
+
+  const add = (key: string, line: number | undefined) => {
+    if (!line) return;
+    sourceMap.lineByKey.set(key, line);
+    sourceMap.keysByLine.set(line, [...(sourceMap.keysByLine.get(line) ?? []), key]);
+  };
+
+  model.nodes.forEach((node) => add(`node:${node.id}`, node.line));
+  model.subgraphs.forEach((subgraph, index) => add(`subgraph:${toMermaidSubgraphId(subgraph, index)}`, subgraph.line));
+
+  const linksPerPair = new Map<string, number>();
+  model.edges.forEach((edge) => {
+    const pair = `${edge.from}_${edge.to}`;
+    const previous = linksPerPair.get(pair) ?? 0;
+    linksPerPair.set(pair, previous + 1);
+    // Mermaid numbers repeated links between the same two nodes 0, 2, 3, ...
+    add(`edge:L_${pair}_${previous === 0 ? 0 : previous + 1}`, edge.line);
+  });
+
+  return sourceMap;
+};
+
+/** The source map key for an SVG element, or for the linked element it is part of. */
+export const getElementKey = (target: Element): string | null => {
+  const prefix = `${target.closest('svg')?.id ?? ''}-`;
+  const withoutPrefix = (id: string) => (id.startsWith(prefix) ? id.slice(prefix.length) : id);
+
+  const node = target.closest('g.node');
+  if (node) {
+    const match = NODE_DOM_ID.exec(withoutPrefix(node.id));
+    return match ? `node:${match[1]}` : null;
+  }
+  const edge = target.closest('[data-edge="true"], .edgeLabel [data-id]');
+  if (edge) return `edge:${edge.getAttribute('data-id')}`;
+  const cluster = target.closest('g.cluster');
+  return cluster ? `subgraph:${withoutPrefix(cluster.id)}` : null;
+};
+
+/** Marks the elements declared on `line` with {@link HIGHLIGHT_CLASS}, clearing any earlier marks. */
+export const highlightSourceLine = (container: Element, sourceMap: DiagramSourceMap, line: number | undefined) => {
+  container.querySelectorAll(`.${HIGHLIGHT_CLASS}`).forEach((element) => element.classList.remove(HIGHLIGHT_CLASS));
+  const keys = new Set(line ? sourceMap.keysByLine.get(line) : undefined);
+  if (keys.size === 0) return;
+  container.querySelectorAll(LINKED_ELEMENTS).forEach((element) => {
+    if (keys.has(getElementKey(element))) element.classList.add(HIGHLIGHT_CLASS);
+  });
+};
@@ -0,0 +1,169 @@
+import { isValid as isMermaidColor } from 'khroma';
+
+export type MermaidThemeName = 'default' | 'dark' | 'forest' | 'neutral' | 'base';
+
+/**
+ * A built-in Mermaid theme plus `themeVariables` overrides. Mermaid only
+ * derives every color from the overrides for the `base` theme; the other
+ * themes accept them but keep some of their own colors.
+ */
+export interface DiagramTheme {
+  base: MermaidThemeName;
+  themeVariables: Record<string, string>;
+}
+
+export interface ThemePreset extends DiagramTheme {
+  name: string;
+}
+
+export const MERMAID_THEMES: Array<{ id: MermaidThemeName; label: string; description: string }> = [
+  { id: 'default', label: 'Default', description: 'Mermaid’s standard purple and yellow' },
+  { id: 'neutral', label: 'Neutral', description: 'Greyscale, good for print' },
+  { id: 'forest', label: 'Forest', description: 'Shades of green' },
+  { id: 'dark', label: 'Dark', description: 'Light text on dark backgrounds' },
+  { id: 'base', label: 'Base', description: 'Plain starting point for brand colors' }
+];
+
+export type ThemeVariableKind = 'color' | 'font' | 'size';
+
+export const THEME_VARIABLES: Array<{ id: string; label: string; kind: ThemeVariableKind }> = [
+  { id: 'primaryColor', label: 'Primary', kind: 'color' },
+  { id: 'primaryTextColor', label: 'Primary text', kind: 'color' },
+  { id: 'primaryBorderColor', label: 'Primary border', kind: 'color' },
+  { id: 'secondaryColor', label: 'Secondary', kind: 'color' },
+  { id: 'tertiaryColor', label: 'Tertiary', kind: 'color' },
+  { id: 'lineColor', label: 'Lines', kind: 'color' },
+  { id: 'textColor', label: 'Text', kind: 'color' },
+  { id: 'background', label: 'Background', kind: 'color' },
+  { id: 'fontFamily', label: 'Font family', kind: 'font' },
+  { id: 'fontSize', label: 'Font size', kind: 'size' }
+];
+
+export const DEFAULT_DIAGRAM_THEME: DiagramTheme = { base: 'default', themeVariables: {} };
+
+// Mermaid's dark theme assumes this backdrop but does not paint it itself
+const DARK_BACKGROUND = '#333333';
+
+
+const COLOR_VARIABLES = new Set(THEME_VARIABLES.filter((variable) => variable.kind === 'color').map((variable) => variable.id));
+
+/**
+ * Whether Mermaid can use the value. Colors go through khroma, the parser
+ * Mermaid derives its shades with: it rejects half-typed values like "#ff"
+ * and newer CSS syntax such as oklch() or color-mix() that browsers accept.
+ */
+export const isUsableThemeValue = (id: string, value: string): boolean =>
+  !!value.trim() && (!COLOR_VARIABLES.has(id) || isMermaidColor(value.trim()));
+
+/** Drops blank and unparseable overrides so they fall back to the base theme instead of breaking the render. */
+export const normalizeTheme = (theme: DiagramTheme): DiagramTheme => ({
+  base: theme.base,
+  themeVariables: Object.fromEntries(Object.entries(theme.themeVariables).filter(([id, value]) => isUsableThemeValue(id, value)))
+});
+
+/** Color to paint behind the SVG, when the theme needs one other than the page's white; matches what Mermaid renders with. */
+export const getThemeBackground = (theme: DiagramTheme): string | undefined =>
+  normalizeTheme(theme).themeVariables.background || (theme.base === 'dark' ? DARK_BACKGROUND : undefined);
+
+export const isDefaultTheme = (theme: DiagramTheme): boolean =>
+  theme.base === 'default' && Object.keys(normalizeTheme(theme).themeVariables).length === 0;
+
+const DARK_DIAGRAM_THEME: DiagramTheme = { base: 'dark', themeVariables: {} };
+
+/**
+ * The theme to preview with under the app's color mode: an untouched default
+ * follows dark mode, while a theme the user picked is always shown as chosen.
+ */
+export const forColorMode = (theme: DiagramTheme, colorMode: string | undefined): DiagramTheme =>
+  colorMode === 'dark' && isDefaultTheme(theme) ? DARK_DIAGRAM_THEME : theme;
+
+const DIRECTIVE_THEME = /%%\{\s*init\s*:[^%]*?["']?\btheme["']?\s*:/;
+const FRONT_MATTER = /^---\s*\n([\s\S]*?)\n---\s*(\n|$)/;
+
+/** Whether the code picks its own theme in an init directive or front matter config. */
+export const declaresTheme = (mermaidCode: string): boolean =>
+  DIRECTIVE_THEME.test(mermaidCode) || /^\s+theme\s*:/m.test(FRONT_MATTER.exec(mermaidCode.trimStart())?.[1] ?? '');
+
+/**
+ * Adds an init directive carrying the theme, so exported code renders the
+ * same anywhere Mermaid runs. Code that already chooses a theme is left
+ * alone, which matches the preview: directives in the code win there too.
+ */
+export const withThemeDirective = (mermaidCode: string, theme: DiagramTheme): string => {
+  if (isDefaultTheme(theme) || declaresTheme(mermaidCode)) return mermaidCode;
+  const { base, themeVariables } = normalizeTheme(theme);
+  const config = Object.keys(themeVariables).length > 0 ? { theme: base, themeVariables } : { theme: base };
+  const directive = `%%{init: ${JSON.stringify(config)}}%%`;
+
+  // Front matter has to stay first
+  const lines = mermaidCode.split('\n');
+  if (lines[0]?.trim() === '---') {
+    const closing = lines.findIndex((line, index) => index > 0 && line.trim() === '---');
+    if (closing > 0) {
+      lines.splice(closing + 1, 0, directive);
+      return lines.join('\n');
+    }
+  }
+  return `${directive}\n${mermaidCode}`;
+};
+
+/** Paints the theme background into exported SVG markup, since the SVG itself is transparent. */
+export const withSvgBackground = (svg: string, theme: DiagramTheme): string => {
+  const background = getThemeBackground(theme);
+  if (!background) return svg;
+  const document = new DOMParser().parseFromString(svg, 'image/svg+xml');
+  const root = document.documentElement;
+  if (root.localName !== 'svg') return svg;
+  root.style.backgroundColor = background;
+  return new XMLSerializer().serializeToString(root);
+};
+
+const PRESETS_STORAGE_KEY = 'mermaid-theme-presets';
+const ACTIVE_THEME_STORAGE_KEY = 'mermaid-theme-active';
+
+const isTheme = (value: unknown): value is DiagramTheme => {
+  const candidate = value as DiagramTheme;
+  return (
+    typeof candidate === 'object' &&
+    candidate !== null &&
+    MERMAID_THEMES.some((theme) => theme.id === candidate.base) &&
+    typeof candidate.themeVariables === 'object' &&
+    candidate.themeVariables !== null
+  );
+};
+
+const readStorage = (key: string): unknown => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const writeStorage = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Private browsing or a full quota: presets simply do not persist
+  }
+};
+
+export const loadThemePresets = (): ThemePreset[] => {
+  const stored = readStorage(PRESETS_STORAGE_KEY);
+  // Stored themes may predate the color checks, so they are normalized like fresh edits
+  return Array.isArray(stored)
+    ? stored
+        .filter((preset): preset is ThemePreset => isTheme(preset) && typeof (preset as ThemePreset).name === 'string')
+        .map((preset) => ({ ...normalizeTheme(preset), name: preset.name }))
+    : [];
+};
+
+export const saveThemePresets = (presets: ThemePreset[]) => writeStorage(PRESETS_STORAGE_KEY, presets);
+
+export const loadActiveTheme = (): DiagramTheme => {
+  const stored = readStorage(ACTIVE_THEME_STORAGE_KEY);
+  return isTheme(stored) ? normalizeTheme(stored) : DEFAULT_DIAGRAM_THEME;
+};
+
+export const saveActiveTheme = (theme: DiagramTheme) => writeStorage(ACTIVE_THEME_STORAGE_KEY, theme);
@@ -0,0 +1,25 @@
+import mermaid from 'mermaid';
+import { MermaidRenderError, toRenderError } from './render';
+
+/**
+ * Parses the code with Mermaid and returns the parser's error message, or
+ * null when the diagram is valid.
+ */
+export const getMermaidParseError = async (mermaidCode: string): Promise<string | null> => {
+  try {
+    await mermaid.parse(mermaidCode);
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+};
+
+/** Like {@link getMermaidParseError}, with the line Mermaid blamed mapped onto the source. */
+export const getMermaidSyntaxError = async (mermaidCode: string): Promise<MermaidRenderError | null> => {
+  try {
+    await mermaid.parse(mermaidCode);
+    return null;
+  } catch (err) {
+    return toRenderError(err, mermaidCode);
+  }
+};